@@ -4,10 +4,13 @@ import JSZip from 'jszip';
 import { clsx, type ClassValue } from "clsx";
 import { twMerge } from "tailwind-merge";
 import { cn } from './utils/cn';
-import { GenerationState } from './types';
-import { mockGenerateImageApi, smartCropFromClick, fileToBase64, getDominantColor } from './services/imageProcessor';
-import { generateImageVariation, upscaleImage, downloadImage } from './services/geminiService';
-import { userApi, inviteApi } from './services/api';
+import { GenerationState, type AnalysisResult, type PaletteSwatch, type DesignBrief, type GridLayout, type ReferenceImage } from './types';
+import { mockGenerateImageApi, smartCropFromClick, getCellIndex, fileToBase64, urlToBase64, getDominantColor, extractPalette, findColorTones, paletteHasTone, GRID_LAYOUTS, DEFAULT_GRID_LAYOUT } from './services/imageProcessor';
+import { analyzeImage, generateImageVariation, upscaleImage, downloadImage, waitForJob, describeJobProgress, InsufficientPointsError, type ImageResult } from './services/geminiService';
+import { userApi, inviteApi, collectionApi, boardApi, generationApi, type GenerationRecord, type GenerationOperation, type GenerationLineage, type CollectionRecord, type BoardRecord, type MaterialScheduleRow, type SimilarImage, type ImageOptions, type StyleRecord, type GenerationPresetSettings, type Taxonomy, type TaxonomyTag } from './services/api';
+import { BoardBar, MaterialScheduleDialog, toMaterialScheduleCsv, SearchFilterBar, EMPTY_SEARCH_FILTERS, countActiveFilters, SimilarImagesDialog, type BoardFilter, type BoardSummary, type MaterialScheduleTarget, type SearchFilters } from './components/collection';
+import { ShareDialog, type ShareTarget } from './components/share';
+import { BatchStrip, buildBatchVariants, MAX_BATCH_COUNT, EditDialog, CompareSlider, LineageTree, ReferenceList, MAX_EXTRA_REFERENCES, DesignBriefPanel, isBriefEmpty, AvoidListPanel, StylePicker, GenerationPresetPanel, TagSuggestionPanel, PaletteStrip, toPaletteCsv, type BatchSweep, type BatchResult, type EditTarget } from './components/generation';
 import { generateInviteShareText } from './utils/inviteTemplate';
 import {
   PhotoIcon,
@@ -33,48 +36,31 @@ import {
   ArrowUpTrayIcon,
   ChevronLeftIcon,
   ChevronRightIcon,
-  ArrowsPointingOutIcon
+  ArrowsPointingOutIcon,
+  ShareIcon,
+  PaintBrushIcon,
+  ArrowsRightLeftIcon,
+  Squares2X2Icon,
+  RectangleStackIcon,
+  DocumentTextIcon,
+  ClipboardDocumentListIcon,
+  FunnelIcon
 } from '@heroicons/react/24/outline';
 
 // ---------------------------------------------------------------------------
 // 1. CONFIGURATION & TYPES
 // ---------------------------------------------------------------------------
 
-// 提示词配置已移至 config/prompts.json 和 config/prompts.ts
-
-// Updated Colors for Yohji Theme - Monochrome & Cyan
-const ROOM_CATEGORIES = {
-  residential: {
-    label: '家装空间',
-    icon: <HomeIcon className="w-5 h-5" />,
-    type: 'flat',
-    options: ['客厅', '家用餐厅', '厨房', '卧室', '家用卫生间', '书房 / 工作区', '玄关', '阳台', '儿童房', '多功能房'],
-    colorClass: 'bg-black text-white border-zinc-800 font-bold',
-    hoverClass: 'hover:border-accent hover:text-accent'
-  },
-  commercial: {
-    label: '工装空间',
-    icon: <BuildingOfficeIcon className="w-5 h-5" />,
-    type: 'grouped',
-    groups: [
-      {
-        name: '行业场景',
-        options: ['办公', '酒店', '餐饮', '零售 / 商店', '医疗', '教育', '展览 / 展馆'],
-        colorClass: 'bg-black text-white border-zinc-800 font-bold',
-        hoverClass: 'hover:border-accent hover:text-accent'
-      },
-      {
-        name: '空间类型',
-        options: [
-          '大堂', '前台', '接待区', '会议室', '开放办公区', '独立办公室', '洽谈区',
-          '展示区', '就餐区', '咖啡区', '休息区', '公共活动区', '客房', '健身房',
-          '走廊', '电梯厅', '门头', '户外区', '公共卫生间'
-        ],
-        colorClass: 'bg-black text-white border-zinc-800 font-bold',
-        hoverClass: 'hover:border-accent hover:text-accent'
-      }
-    ]
-  }
+// 空间标签体系由服务端提供（GET /api/taxonomy），这里只保留图标与自定义标签位
+const TAXONOMY_ICONS: Record<string, React.ReactNode> = {
+  home: <HomeIcon className="w-5 h-5" />,
+  building: <BuildingOfficeIcon className="w-5 h-5" />,
+};
+
+// 分类 → 自定义标签位（customResTag / customComTag）
+const CUSTOM_TAG_SLOTS: Record<string, 'res' | 'com'> = {
+  residential: 'res',
+  commercial: 'com',
 };
 
 const TAG_VARIANTS = [
@@ -134,18 +120,104 @@ interface MagnifierState {
 
 interface HistoryItem {
   id: string;
+  generationId: number | null; // 服务端 generation_history ID（为空时仅存在于本地）
   url: string;
   timestamp: Date;
   tags: string[];
+  gridLayout: GridLayout;
+  operation: GenerationOperation;
+  level: number | null;
+  parentId: number | null;  // 来源记录（编辑 / 延展 / 放大）
+  instruction?: string;   // 局部编辑指令
+  sourceUrl?: string;     // 局部编辑前的单元格图（前后对比）
+  brief?: DesignBrief;    // 生成时使用的设计简报（可复用）
+  avoid?: string[];       // 生成时使用的排除项
+  styleId?: number | null; // 生成时所选风格
+}
+
+const HISTORY_PAGE_SIZE = 20;
+
+// 进行中的生成任务（刷新页面后继续等待结果）
+const PENDING_JOBS_KEY = 'cache_pendingJobs';
+
+interface PendingJob {
+  jobId: string;
+  tags: string[];
+  level: number;
+  gridLayout: GridLayout;
 }
 
+// 源图来自某次生成的单元格时记录来源（“以此格延展”）
+interface SourceOrigin {
+  generationId: number;
+  cell: number;  // 单元格序号，从 0 开始按行排列
+}
+
+// 生成参数选项的兜底值（服务端 /api/gemini/image/options 加载前使用）
+const DEFAULT_IMAGE_OPTIONS: ImageOptions = {
+  gridLayouts: Object.keys(GRID_LAYOUTS) as GridLayout[],
+  aspectRatios: ['1:1'],
+  imageSizes: { '2K': 100 },
+  editPoints: 60,
+};
+
+interface GeneratedImage {
+  url: string;
+  generationId: number | null;
+  tags: string[];
+  gridLayout: GridLayout;
+  operation?: GenerationOperation;  // 默认 generate
+  brief?: DesignBrief;
+  avoid?: string[];
+  styleId?: number | null;
+}
+
+// 服务端生成记录 → 历史回溯条目
+const toHistoryItem = (record: GenerationRecord): HistoryItem => ({
+  id: String(record.id),
+  generationId: record.id,
+  url: record.url || '',
+  timestamp: new Date(record.createdAt),
+  tags: record.tags,
+  // 放大结果为单张裁切图
+  gridLayout: record.gridLayout || (record.operation === 'upscale' ? '1x1' : DEFAULT_GRID_LAYOUT),
+  operation: record.operation,
+  level: record.level,
+  parentId: record.parentId,
+  instruction: record.instruction || undefined,
+  sourceUrl: record.sourceUrl || undefined,
+  brief: record.brief || undefined,
+  avoid: record.avoid,
+  styleId: record.styleId,
+});
+
 interface CollectionItem {
   id: string;
+  collectionId: number; // 服务端 collection_items ID
+  boardId: number | null; // 所属看板，为空表示未分组
+  generationId: number | null; // 裁切来源的生成记录
+  styleId: number | null; // 来源生成记录的风格
+  materials: MaterialScheduleRow[] | null; // 材质清单，未分析时为 null
+  palette: PaletteSwatch[] | null; // 色板，未提取时为 null
   url: string;
   timestamp: number;
   tags: string[];
 }
 
+// 服务端收藏记录 → 收藏面板条目
+const toCollectionItem = (record: CollectionRecord): CollectionItem => ({
+  id: String(record.id),
+  collectionId: record.id,
+  boardId: record.boardId,
+  generationId: record.generationId,
+  styleId: record.styleId,
+  materials: record.materials,
+  palette: record.palette,
+  url: record.url,
+  timestamp: new Date(record.createdAt).getTime(),
+  tags: record.tags,
+});
+
 interface UpscaleStatus {
   visible: boolean;
   state: 'idle' | 'processing' | 'success';
@@ -350,30 +422,78 @@ export default function App({ userEmail, userPoints, onOpenUserCenter, onUpdateP
   // State
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [previewUrl, setPreviewUrl] = useState<string | null>(() => localStorage.getItem('cache_previewUrl') || null);
+  // 主参考图之外的附加参考图（材质 / 色彩 / 氛围等）
+  // 原图体积较大，只保存在内存中，不写入 localStorage 以免占满配额
+  const [extraReferences, setExtraReferences] = useState<ReferenceImage[]>([]);
+  const [designBrief, setDesignBrief] = useState<DesignBrief>(() => {
+    try { return JSON.parse(localStorage.getItem('cache_designBrief') || '{}'); } catch { return {}; }
+  });
+  // 空间标签体系（服务端维护），缓存上次结果避免标签区闪空
+  const [taxonomy, setTaxonomy] = useState<Taxonomy | null>(() => {
+    try { return JSON.parse(localStorage.getItem('cache_taxonomy') || 'null'); } catch { return null; }
+  });
+  // 风格库（服务端维护）与当前所选风格
+  const [styles, setStyles] = useState<StyleRecord[]>([]);
+  const [selectedStyleId, setSelectedStyleId] = useState<number | null>(() => {
+    try { return JSON.parse(localStorage.getItem('cache_styleId') || 'null'); } catch { return null; }
+  });
+  const [collectionStyleFilter, setCollectionStyleFilter] = useState<number | null>(null);
+  // 按色调搜索收藏（如 "陶土色" / "terracotta"）
+  const [collectionToneQuery, setCollectionToneQuery] = useState('');
+  // 收藏检索条件与服务端返回的匹配条目（null 表示未检索，显示全部）
+  const [collectionFilters, setCollectionFilters] = useState<SearchFilters>(EMPTY_SEARCH_FILTERS);
+  const [collectionSearchIds, setCollectionSearchIds] = useState<number[] | null>(null);
+  // 当前宫格图的色板
+  const [gridPalette, setGridPalette] = useState<PaletteSwatch[]>([]);
+  const [avoidList, setAvoidList] = useState<string[]>(() => {
+    try { return JSON.parse(localStorage.getItem('cache_avoidList') || '[]'); } catch { return []; }
+  });
+  const [sourceOrigin, setSourceOrigin] = useState<SourceOrigin | null>(() => {
+    try { return JSON.parse(localStorage.getItem('cache_sourceOrigin') || 'null'); } catch { return null; }
+  });
   const [selectedRoomTypes, setSelectedRoomTypes] = useState<string[]>(() => {
     try { return JSON.parse(localStorage.getItem('cache_roomTypes') || '[]'); } catch { return []; }
   });
   const [generatedImageUrl, setGeneratedImageUrl] = useState<string | null>(() => localStorage.getItem('cache_generatedUrl') || null);
+  // 当前结果图对应的生成记录（收藏时用于关联来源）
+  const [currentGenerationId, setCurrentGenerationId] = useState<number | null>(() => Number(localStorage.getItem('cache_generationId')) || null);
+  // 当前结果图的宫格布局（点击裁切按此布局定位单元格）与下一次生成使用的布局
+  const [currentGridLayout, setCurrentGridLayout] = useState<GridLayout>(() => (localStorage.getItem('cache_gridLayout') as GridLayout) || DEFAULT_GRID_LAYOUT);
+  const [gridLayout, setGridLayout] = useState<GridLayout>(() => (localStorage.getItem('cache_gridLayoutChoice') as GridLayout) || DEFAULT_GRID_LAYOUT);
+  const [imageOptions, setImageOptions] = useState<ImageOptions>(DEFAULT_IMAGE_OPTIONS);
+  const [aspectRatio, setAspectRatio] = useState(() => localStorage.getItem('cache_aspectRatio') || '1:1');
+  const [imageSize, setImageSize] = useState(() => localStorage.getItem('cache_imageSize') || '2K');
   const [fidelityLevel, setFidelityLevel] = useState<number>(() => {
     try { return JSON.parse(localStorage.getItem('cache_fidelity') || '3'); } catch { return 3; }
   });
   const [markers, setMarkers] = useState<Marker[]>(() => {
     try { return JSON.parse(localStorage.getItem('cache_markers') || '[]'); } catch { return []; }
   });
-  const [collection, setCollection] = useState<CollectionItem[]>(() => {
-    try { return JSON.parse(localStorage.getItem('cache_collection') || '[]'); } catch { return []; }
-  });
-  const [history, setHistory] = useState<HistoryItem[]>(() => {
-    try {
-      const saved = localStorage.getItem('cache_history');
-      if (!saved) return [];
-      return JSON.parse(saved).map((item: any) => ({
-        ...item,
-        timestamp: new Date(item.timestamp) // Re-hydrate Date object
-      }));
-    } catch { return []; }
-  });
+  // 收藏库存储在服务端 (collection_items)，登录后拉取
+  const [collection, setCollection] = useState<CollectionItem[]>([]);
+  const [boards, setBoards] = useState<BoardRecord[]>([]);
+  const [activeBoard, setActiveBoard] = useState<BoardFilter>('all');
+  const [shareTarget, setShareTarget] = useState<ShareTarget | null>(null);
+  const [materialTarget, setMaterialTarget] = useState<MaterialScheduleTarget | null>(null);
+  const [similarImageId, setSimilarImageId] = useState<string | null>(null);
+  const [editTarget, setEditTarget] = useState<EditTarget | null>(null);
+  const [compareItem, setCompareItem] = useState<HistoryItem | null>(null);
+  // 历史记录存储在服务端 (generation_history)，打开抽屉时按页拉取
+  const [history, setHistory] = useState<HistoryItem[]>([]);
+  const [historyFilters, setHistoryFilters] = useState<SearchFilters>(EMPTY_SEARCH_FILTERS);
+  const [historyStyleFilter, setHistoryStyleFilter] = useState<number | null>(null);
+  const [historyPage, setHistoryPage] = useState(1);
+  const [historyHasMore, setHistoryHasMore] = useState(false);
+  const [isHistoryLoading, setIsHistoryLoading] = useState(false);
+  // 历史抽屉中的谱系视图（data 为空表示加载中）
+  const [lineageView, setLineageView] = useState<{ focusId: number; data: GenerationLineage | null } | null>(null);
   const [genState, setGenState] = useState<GenerationState>({ status: 'idle' });
+  // 参考图分析建议（source 为分析的图片，源图更换后不再显示）
+  const [analysis, setAnalysis] = useState<{ source: string; result: AnalysisResult } | null>(null);
+  const analysisSourceRef = useRef<string | null>(null);
+  const [batchCount, setBatchCount] = useState(1);
+  const [batchSweep, setBatchSweep] = useState<BatchSweep>('none');
+  const [batchResults, setBatchResults] = useState<BatchResult[]>([]);
   const [isProcessingCollection, setIsProcessingCollection] = useState(false);
   const [isZipping, setIsZipping] = useState(false);
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(true);
@@ -399,6 +519,16 @@ export default function App({ userEmail, userPoints, onOpenUserCenter, onUpdateP
   }, [previewUrl]);
 
   useEffect(() => { localStorage.setItem('cache_roomTypes', JSON.stringify(selectedRoomTypes)); }, [selectedRoomTypes]);
+  useEffect(() => { try { localStorage.setItem('cache_designBrief', JSON.stringify(designBrief)); } catch { } }, [designBrief]);
+  useEffect(() => { try { localStorage.setItem('cache_avoidList', JSON.stringify(avoidList)); } catch { } }, [avoidList]);
+  useEffect(() => { try { localStorage.setItem('cache_styleId', JSON.stringify(selectedStyleId)); } catch { } }, [selectedStyleId]);
+  useEffect(() => { try { localStorage.setItem('cache_taxonomy', JSON.stringify(taxonomy)); } catch { } }, [taxonomy]);
+  // 清理旧版本缓存的附加参考图
+  useEffect(() => { localStorage.removeItem('cache_references'); }, []);
+  useEffect(() => {
+    if (sourceOrigin) localStorage.setItem('cache_sourceOrigin', JSON.stringify(sourceOrigin));
+    else localStorage.removeItem('cache_sourceOrigin');
+  }, [sourceOrigin]);
 
   useEffect(() => {
     try {
@@ -407,10 +537,25 @@ export default function App({ userEmail, userPoints, onOpenUserCenter, onUpdateP
     } catch (e) { console.warn('Storage quota exceeded for generated image'); }
   }, [generatedImageUrl]);
 
+  // 提取当前宫格图的色板（切换图片时丢弃旧结果）
+  useEffect(() => {
+    setGridPalette([]);
+    if (!generatedImageUrl) return;
+    let cancelled = false;
+    extractPalette(generatedImageUrl).then(palette => { if (!cancelled) setGridPalette(palette); });
+    return () => { cancelled = true; };
+  }, [generatedImageUrl]);
+
   useEffect(() => { try { localStorage.setItem('cache_fidelity', JSON.stringify(fidelityLevel)); } catch { } }, [fidelityLevel]);
   useEffect(() => { try { localStorage.setItem('cache_markers', JSON.stringify(markers)); } catch { } }, [markers]);
-  useEffect(() => { try { localStorage.setItem('cache_collection', JSON.stringify(collection)); } catch { } }, [collection]);
-  useEffect(() => { try { localStorage.setItem('cache_history', JSON.stringify(history)); } catch { } }, [history]);
+  useEffect(() => {
+    if (currentGenerationId) localStorage.setItem('cache_generationId', String(currentGenerationId));
+    else localStorage.removeItem('cache_generationId');
+  }, [currentGenerationId]);
+  useEffect(() => { localStorage.setItem('cache_gridLayout', currentGridLayout); }, [currentGridLayout]);
+  useEffect(() => { localStorage.setItem('cache_gridLayoutChoice', gridLayout); }, [gridLayout]);
+  useEffect(() => { localStorage.setItem('cache_aspectRatio', aspectRatio); }, [aspectRatio]);
+  useEffect(() => { localStorage.setItem('cache_imageSize', imageSize); }, [imageSize]);
   useEffect(() => { try { localStorage.setItem('cache_customResTag', customResTag); } catch { } }, [customResTag]);
   useEffect(() => { try { localStorage.setItem('cache_customComTag', customComTag); } catch { } }, [customComTag]);
   const customInputRef = useRef<HTMLInputElement>(null);
@@ -571,6 +716,47 @@ export default function App({ userEmail, userPoints, onOpenUserCenter, onUpdateP
     return () => window.removeEventListener('keydown', handleKeyDown);
   }, [previewImage]);
 
+  // 获取服务端收藏库（首次加载时把旧版 localStorage 收藏迁移上去）
+  useEffect(() => {
+    if (!userEmail) return;
+    const loadCollection = async () => {
+      try {
+        const legacy: { url: string; tags?: string[] }[] = JSON.parse(localStorage.getItem('cache_collection') || '[]');
+        const uploads = legacy.filter(item => item.url?.startsWith('data:'));
+        // 新收藏会插入到最前面，因此从最旧的一批开始上传以保持原顺序
+        for (let end = uploads.length; end > 0; end -= 20) {
+          await collectionApi.add(uploads.slice(Math.max(0, end - 20), end).map(item => ({ image: item.url, tags: item.tags || [] })));
+        }
+        localStorage.removeItem('cache_collection');
+      } catch (err) {
+        console.error('Failed to migrate local collection:', err);
+      }
+      try {
+        const [data, boardData] = await Promise.all([collectionApi.list(), boardApi.list()]);
+        const items = (data.items as CollectionRecord[]).map(toCollectionItem);
+        setCollection(items);
+        setBoards(boardData.boards);
+        backfillPalettes(items);
+      } catch (err) {
+        console.error('Failed to load collection:', err);
+      }
+    };
+    // 旧收藏没有色板：逐张提取后保存，失败的跳过（下次加载重试）
+    const backfillPalettes = async (items: CollectionItem[]) => {
+      for (const item of items.filter(i => !i.palette)) {
+        const palette = await extractPalette(item.url);
+        if (palette.length === 0) continue;
+        try {
+          const { item: record } = await collectionApi.updatePalette(item.collectionId, palette);
+          setCollection(prev => prev.map(i => i.collectionId === record.id ? { ...i, palette: record.palette } : i));
+        } catch (err) {
+          console.error('Failed to save palette:', err);
+        }
+      }
+    };
+    loadCollection();
+  }, [userEmail]);
+
   // 获取用户邀请码（用于分享）
   useEffect(() => {
     if (userEmail) {
@@ -693,13 +879,59 @@ export default function App({ userEmail, userPoints, onOpenUserCenter, onUpdateP
     setSelectedFile(file);
     const base64 = await fileToBase64(file);
     setPreviewUrl(base64);
+    setSourceOrigin(null);
     setGenState({ status: 'idle' });
     setGeneratedImageUrl(null);
+    setCurrentGenerationId(null);
     setMarkers([]);
     setSelectedCollectionIds(new Set());
 
     // Advance mobile guide to step 2 (select tags)
     advanceMobileGuide(2);
+
+    // 后台分析，不阻塞上传
+    analyzeReference(base64);
+  };
+
+  // 分析参考图，建议空间标签、风格与材质；分析期间换了图则丢弃结果
+  const analyzeReference = async (image: string) => {
+    analysisSourceRef.current = image;
+    setGenState({ status: 'analyzing' });
+    try {
+      const result = await analyzeImage(image);
+      if (analysisSourceRef.current === image) setAnalysis({ source: image, result });
+    } catch (error) {
+      console.error('Failed to analyze reference:', error);
+    } finally {
+      if (analysisSourceRef.current === image) setGenState(prev => prev.status === 'analyzing' ? { status: 'idle' } : prev);
+    }
+  };
+
+  const handleAcceptSuggestedTags = (tags: string[]) => {
+    setSelectedRoomTypes(prev => [...prev, ...tags.filter(tag => !prev.includes(tag))]);
+    if (mobileGuideStep === 2) advanceMobileGuide(3);
+  };
+
+  const handleDismissSuggestedTag = (tag: string) => {
+    setAnalysis(prev => prev && { ...prev, result: { ...prev.result, tags: prev.result.tags.filter(t => t !== tag) } });
+  };
+
+  // 识别出的风格与材质填入设计简报（覆盖对应两项）
+  const handleApplyAnalysisBrief = () => {
+    if (!analysis) return;
+    const { style, materials } = analysis.result;
+    setDesignBrief(prev => ({
+      ...prev,
+      ...(style && { style }),
+      ...(materials.length > 0 && { materials: materials.join('、') }),
+    }));
+    setAnalysis(prev => prev && { ...prev, result: { ...prev.result, style: '', materials: [] } });
+  };
+
+  const handleAddReference = async (file: File) => {
+    if (!file.type.startsWith('image/')) return;
+    const image = await fileToBase64(file);
+    setExtraReferences(prev => prev.length < MAX_EXTRA_REFERENCES ? [...prev, { image, role: 'material', weight: 3 }] : prev);
   };
 
   const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -736,11 +968,13 @@ export default function App({ userEmail, userPoints, onOpenUserCenter, onUpdateP
         const item = JSON.parse(collectionItemData);
         if (item && item.url) {
           // 使用归档图片作为新的源图
-          // 因为是 Base64，直接设置
-          setPreviewUrl(item.url);
+          // 收藏图片存储在服务端，转为 Base64 后作为生成输入
+          setPreviewUrl(await urlToBase64(item.url));
+          setSourceOrigin(null);
           setSelectedFile(null); // 清除选中的文件对象，因为是来自内部
           setGenState({ status: 'idle' });
           setGeneratedImageUrl(null);
+          setCurrentGenerationId(null);
           setMarkers([]);
           setSelectedCollectionIds(new Set());
           return;
@@ -757,6 +991,27 @@ export default function App({ userEmail, userPoints, onOpenUserCenter, onUpdateP
   };
 
 
+  // 生成预设：当前设置与一键套用（自定义标签以默认文案表示未设置）
+  const currentPresetSettings: GenerationPresetSettings = {
+    tags: selectedRoomTypes,
+    customTags: {
+      res: customResTag === '自定义+' ? null : customResTag,
+      com: customComTag === '自定义+' ? null : customComTag,
+    },
+    level: fidelityLevel,
+    aspectRatio,
+    brief: isBriefEmpty(designBrief) ? null : designBrief,
+  };
+
+  const handleApplyPreset = (settings: GenerationPresetSettings) => {
+    setSelectedRoomTypes(settings.tags);
+    setCustomResTag(settings.customTags.res || '自定义+');
+    setCustomComTag(settings.customTags.com || '自定义+');
+    setFidelityLevel(settings.level);
+    if (settings.aspectRatio && imageOptions.aspectRatios.includes(settings.aspectRatio)) setAspectRatio(settings.aspectRatio);
+    setDesignBrief(settings.brief || {});
+  };
+
   const toggleRoomType = (type: string) => {
     setSelectedRoomTypes(prev => {
       const newTypes = prev.includes(type) ? prev.filter(t => t !== type) : [...prev, type];
@@ -893,10 +1148,43 @@ export default function App({ userEmail, userPoints, onOpenUserCenter, onUpdateP
     );
   };
 
-  // getGenConfig 已移至 config/prompts.ts
+  // 加载可选画幅 / 分辨率及积分价格，已缓存的选项失效时回退到默认值
+  useEffect(() => {
+    if (!userEmail) return;
+    generationApi.getImageOptions()
+      .then(options => {
+        setImageOptions(options);
+        setAspectRatio(prev => options.aspectRatios.includes(prev) ? prev : options.aspectRatios[0]);
+        setImageSize(prev => prev in options.imageSizes ? prev : '2K');
+      })
+      .catch(err => console.error('Failed to load image options:', err));
+    // 已缓存的风格被停用或删除时取消选择
+    generationApi.getStyles()
+      .then(data => {
+        setStyles(data.styles);
+        setSelectedStyleId(prev => data.styles.some(style => style.id === prev) ? prev : null);
+      })
+      .catch(err => console.error('Failed to load styles:', err));
+    generationApi.getTaxonomy()
+      .then(setTaxonomy)
+      .catch(err => console.error('Failed to load taxonomy:', err));
+  }, [userEmail]);
+
+  const getStyleName = (styleId: number) => styles.find(style => style.id === styleId)?.name || `风格 #${styleId}`;
+
+  const pointsPerImage = imageOptions.imageSizes[imageSize] ?? DEFAULT_IMAGE_OPTIONS.imageSizes['2K'];
+
+  // 2x3 为横向布局，切换时同步使用 3:2 画幅保持单元格方正
+  const handleSelectGridLayout = (layout: GridLayout) => {
+    setGridLayout(layout);
+    if (layout === '2x3' && imageOptions.aspectRatios.includes('3:2')) setAspectRatio('3:2');
+  };
 
-  const handleGenerate = async () => {
-    if (!previewUrl) return;
+  // seed: 以指定图片为源图立即生成（“以此格延展”时源图状态尚未更新）
+  const handleGenerate = async (seed?: { image: string; origin: SourceOrigin | null }) => {
+    const source = seed ? seed.image : previewUrl;
+    const origin = seed ? seed.origin : sourceOrigin;
+    if (!source) return;
 
     // ✅ 立即设置 loading 状态 —— UI 会在 50ms 内响应
     setPointsError(null);
@@ -907,11 +1195,16 @@ export default function App({ userEmail, userPoints, onOpenUserCenter, onUpdateP
     // 使用 requestAnimationFrame 确保浏览器完成 repaint 后再执行重任务
     await new Promise(resolve => requestAnimationFrame(() => requestAnimationFrame(resolve)));
 
-    // 检查积分是否足够 (需要 100 积分)
+    const variants = buildBatchVariants(batchCount, batchSweep, selectedRoomTypes, fidelityLevel);
+    const layout = gridLayout;
+    const brief = isBriefEmpty(designBrief) ? undefined : designBrief;
+    const requiredPoints = pointsPerImage * variants.length;
+
+    // 检查积分是否足够 (每张积分按分辨率计价)
     try {
-      const pointsCheck = await userApi.checkPoints(100);
+      const pointsCheck = await userApi.checkPoints(requiredPoints);
       if (!pointsCheck.sufficient) {
-        setPointsError(`积分不足，需要 100 积分，当前仅有 ${pointsCheck.totalPoints} 积分`);
+        setPointsError(`积分不足，需要 ${requiredPoints} 积分，当前仅有 ${pointsCheck.totalPoints} 积分`);
         setGenState({ status: 'idle' }); // 恢复状态
         return;
       }
@@ -923,76 +1216,251 @@ export default function App({ userEmail, userPoints, onOpenUserCenter, onUpdateP
       return;
     }
 
-    let imageUrl: string | null = null;
-    let usedMockFallback = false;
+    const isBatch = variants.length > 1;
+    const batchKey = Date.now().toString();
+    setBatchResults(isBatch ? variants.map((variant, i) => ({ ...variant, key: `${batchKey}-${i}`, status: 'pending' })) : []);
+
+    // 每张图独立入队，积分由后端逐张预扣，成功确认、失败退还
+    const pendingJobs: PendingJob[] = [];
+    let completedCount = 0;
+    const settled = await Promise.allSettled(variants.map((variant, index) =>
+      // 只传递 tags 和 level，prompt 在后端构建
+      generateImageVariation(variant.tags, variant.level, source, {
+        gridLayout: layout, aspectRatio, imageSize, parentId: origin?.generationId, parentCell: origin?.cell, references: extraReferences, brief, avoid: avoidList, styleId: selectedStyleId,
+      }, {
+        onQueued: jobId => {
+          pendingJobs.push({ jobId, ...variant, gridLayout: layout });
+          // 写入失败（配额已满）只影响刷新后恢复，不能让已入队的任务失败
+          try { localStorage.setItem(PENDING_JOBS_KEY, JSON.stringify(pendingJobs)); } catch { console.warn('Cache quota exceeded'); }
+        },
+        // 单张生成显示排队进度，批量生成显示完成数量
+        onProgress: job => { if (!isBatch) setGenState({ status: 'generating', progress: describeJobProgress(job) }); },
+      }).then(result => {
+        // 同步更新显示的积分（后端已在生成任务内扣费）
+        onUpdatePoints?.(result.newPoints, result.newDailyPoints);
+        if (isBatch) {
+          completedCount++;
+          setGenState({ status: 'generating', progress: `批量生成中，已完成 ${completedCount}/${variants.length}` });
+          updateBatchResult(`${batchKey}-${index}`, { status: 'done', url: result.url, generationId: result.generationId, gridLayout: layout });
+        }
+        return result;
+      }, error => {
+        if (isBatch) updateBatchResult(`${batchKey}-${index}`, { status: 'failed' });
+        throw error;
+      })
+    ));
+    localStorage.removeItem(PENDING_JOBS_KEY);
+
+    const succeeded: GeneratedImage[] = settled.flatMap((outcome, i) =>
+      outcome.status === 'fulfilled' ? [{ url: outcome.value.url, generationId: outcome.value.generationId, tags: variants[i].tags, gridLayout: layout, operation: origin ? 'expand' as const : 'generate' as const, brief, avoid: avoidList, styleId: selectedStyleId }] : []);
+    const errors = settled.flatMap(outcome => outcome.status === 'rejected' ? [outcome.reason] : []);
+    const insufficientError = errors.find(error => error instanceof InsufficientPointsError);
+
+    // 积分不足由后端拒绝，不回退到 Mock
+    if (insufficientError) setPointsError(insufficientError.message);
+
+    if (succeeded.length > 0) {
+      showGeneratedImages(succeeded);
+      return;
+    }
+    if (insufficientError) {
+      setGenState({ status: 'idle' });
+      return;
+    }
+    // 任务已入队时由后端负责扣费 / 退还，结果以任务状态为准，不回退到 Mock
+    if (pendingJobs.length > 0) {
+      console.error('Generation job failed:', errors[0]);
+      setGenState({ status: 'error', error: errors[0]?.message || '生成失败' });
+      return;
+    }
 
     try {
-      // 先尝试生成图片 (只传递 tags 和 level，prompt 在后端构建)
-      try {
-        imageUrl = await generateImageVariation(selectedRoomTypes, fidelityLevel, previewUrl);
-      } catch (aiError) {
-        console.warn("Real AI generation failed, falling back to mock.", aiError);
-        // 使用了回退机制，标记并显示VPN提示
-        usedMockFallback = true;
-        // Mock 仍需完整 prompt（仅用于本地调试）
-        const mockPrompt = `Mock prompt for tags: ${selectedRoomTypes.join(', ')} at level ${fidelityLevel}`;
-        imageUrl = await mockGenerateImageApi(mockPrompt, previewUrl);
-      }
+      console.warn("Real AI generation failed, falling back to mock.", errors[0]);
+      // Mock 仍需完整 prompt（仅用于本地调试）
+      const mockPrompt = `Mock prompt for tags: ${selectedRoomTypes.join(', ')} at level ${fidelityLevel}`;
+      const imageUrl = await mockGenerateImageApi(mockPrompt, source, layout);
 
       // 如果没有成功生成图片，不扣分
       if (!imageUrl) throw new Error("Failed to retrieve image data.");
 
-      // 如果使用了Mock回退（VPN问题导致），显示提示但不扣分
-      if (usedMockFallback) {
-        console.warn("Mock fallback used - VPN issue suspected, not charging points");
-        setGeneratedImageUrl(imageUrl); // 仍然显示生成的图片给用户看
-        setGenState({ status: 'completed' }); // 显示为完成状态
-        setShowVpnAlert(true); // 弹出VPN提示
-        // 不保存到历史，不扣分
+      // 使用了Mock回退（VPN问题导致），显示提示（后端已退还积分）
+      console.warn("Mock fallback used - VPN issue suspected, not charging points");
+      setGeneratedImageUrl(imageUrl); // 仍然显示生成的图片给用户看
+      setCurrentGridLayout(layout);
+      setGenState({ status: 'completed' }); // 显示为完成状态
+      setShowVpnAlert(true); // 弹出VPN提示
+      // 不保存到历史，不扣分
+    } catch (err) {
+      console.error(err);
+      // 生成失败不扣分，显示VPN提示弹窗
+      setGenState({ status: 'error', error: "生成失败" });
+      setShowVpnAlert(true);
+    }
+  };
+
+  const updateBatchResult = (key: string, patch: Partial<BatchResult>) => {
+    setBatchResults(prev => prev.map(result => result.key === key ? { ...result, ...patch } : result));
+  };
+
+  const handleSelectBatchResult = (result: BatchResult) => {
+    if (!result.url) return;
+    setGeneratedImageUrl(result.url);
+    setCurrentGenerationId(result.generationId ?? null);
+    setCurrentGridLayout(result.gridLayout || DEFAULT_GRID_LAYOUT);
+    setMarkers([]);
+  };
+
+  // 展示新生成的结果图并写入历史（批量生成时默认展示第一张）
+  const showGeneratedImages = (images: GeneratedImage[]) => {
+    const [first] = images;
+    setGeneratedImageUrl(first.url);
+    setCurrentGenerationId(first.generationId);
+    setCurrentGridLayout(first.gridLayout);
+    const timestamp = new Date();
+    setHistory(prev => [
+      ...images.map(({ url, generationId, tags, gridLayout, operation = 'generate', brief, avoid, styleId }, i) => ({
+        id: generationId ? String(generationId) : `${timestamp.getTime()}-${i}`, generationId, url, timestamp, tags, gridLayout, operation, level: null, parentId: null, brief, avoid, styleId,
+      })),
+      ...prev,
+    ]);
+    setGenState({ status: 'completed' });
+    setShowNewImageAnim(true);
+    setTimeout(() => setShowNewImageAnim(false), 2000);
+
+    // Advance mobile guide to step 5 (mark and collect)
+    advanceMobileGuide(5);
+
+    // Show first-time guide if user hasn't seen it
+    const hasSeenGuide = localStorage.getItem('hasSeenImageGuide');
+    if (!hasSeenGuide) {
+      setTimeout(() => setShowFirstTimeGuide(true), 2500);
+    }
+
+    // UX Guidance: Show subtle click hint on nine-grid
+    setTimeout(() => setShowClickHint(true), 1200);
+    setTimeout(() => setShowClickHint(false), 5500); // Auto-dismiss after ~2 cycles
+  };
+
+  // 刷新页面后恢复进行中的生成任务
+  useEffect(() => {
+    if (!userEmail) return;
+    let pendingJobs: PendingJob[] = [];
+    try { pendingJobs = JSON.parse(localStorage.getItem(PENDING_JOBS_KEY) || '[]'); } catch { }
+    if (!Array.isArray(pendingJobs) || pendingJobs.length === 0) return;
+
+    const isBatch = pendingJobs.length > 1;
+    const batchKey = Date.now().toString();
+    setBatchResults(isBatch ? pendingJobs.map(({ tags, level }, i) => ({ tags, level, key: `${batchKey}-${i}`, status: 'pending' })) : []);
+    setGenState({ status: 'generating' });
+
+    Promise.allSettled(pendingJobs.map(({ jobId }, index) =>
+      waitForJob(jobId, job => { if (!isBatch) setGenState({ status: 'generating', progress: describeJobProgress(job) }); })
+        .then((result: ImageResult) => {
+          onUpdatePoints?.(result.newPoints, result.newDailyPoints);
+          if (isBatch) updateBatchResult(`${batchKey}-${index}`, { status: 'done', url: result.url, generationId: result.generationId, gridLayout: pendingJobs[index].gridLayout });
+          return result;
+        }, error => {
+          if (isBatch) updateBatchResult(`${batchKey}-${index}`, { status: 'failed' });
+          throw error;
+        })
+    )).then(settled => {
+      localStorage.removeItem(PENDING_JOBS_KEY);
+      const succeeded: GeneratedImage[] = settled.flatMap((outcome, i) =>
+        outcome.status === 'fulfilled' ? [{ url: outcome.value.url, generationId: outcome.value.generationId, tags: pendingJobs[i].tags, gridLayout: pendingJobs[i].gridLayout || DEFAULT_GRID_LAYOUT }] : []);
+      if (succeeded.length > 0) {
+        showGeneratedImages(succeeded);
         return;
       }
+      const [firstError] = settled.flatMap(outcome => outcome.status === 'rejected' ? [outcome.reason] : []);
+      console.error('Resumed generation failed:', firstError);
+      setGenState({ status: 'error', error: firstError?.message || '生成失败' });
+    });
+  }, [userEmail]);
 
-      // 生成成功且非重复后再扣积分
-      try {
-        const consumeResult = await userApi.consumePoints(100, 'generate');
-        // 同步更新显示的积分
-        if (onUpdatePoints && consumeResult) {
-          onUpdatePoints(consumeResult.newPoints, consumeResult.newDailyPoints);
-        }
-      } catch (consumeErr: any) {
-        // 扣分失败时记录错误，但允许用户看到图片（避免重复生成消耗API）
-        console.error("Points consumption failed:", consumeErr);
-        // 可选：显示警告但不阻止
-      }
+  // 拉取历史记录（page = 1 时替换列表，否则追加）
+  const loadHistory = async (page: number, filters: SearchFilters, styleId: number | null) => {
+    setIsHistoryLoading(true);
+    try {
+      const data = await userApi.getGenerations({
+        page, limit: HISTORY_PAGE_SIZE, operation: ['generate', 'edit', 'expand'], styleId: styleId ?? undefined,
+        tag: filters.tags, from: filters.from, to: filters.to, level: filters.level ?? undefined, parentId: filters.sourceId ?? undefined, color: filters.color ?? undefined,
+      });
+      const records = (data.generations as GenerationRecord[]).filter(r => r.url);
+      setHistory(prev => page === 1 ? records.map(toHistoryItem) : [...prev, ...records.map(toHistoryItem)]);
+      setHistoryPage(page);
+      setHistoryHasMore(page < data.pagination.totalPages);
+    } catch (err) {
+      console.error('Failed to load history:', err);
+    } finally {
+      setIsHistoryLoading(false);
+    }
+  };
 
-      setGeneratedImageUrl(imageUrl);
-      setHistory(prev => [{ id: Date.now().toString(), url: imageUrl!, timestamp: new Date(), tags: [...selectedRoomTypes] }, ...prev]);
-      setGenState({ status: 'completed' });
-      setShowNewImageAnim(true);
-      setTimeout(() => setShowNewImageAnim(false), 2000);
+  // 打开历史抽屉或切换检索条件 / 风格过滤时从服务端刷新（拖动取色时稍作等待）
+  useEffect(() => {
+    if (!isHistoryOpen || !userEmail) return;
+    const timer = setTimeout(() => loadHistory(1, historyFilters, historyStyleFilter), 250);
+    return () => clearTimeout(timer);
+  }, [isHistoryOpen, historyFilters, historyStyleFilter, userEmail]);
 
-      // Advance mobile guide to step 5 (mark and collect)
-      advanceMobileGuide(5);
+  // 收藏检索：有条件时由服务端筛选（指定颜色时按接近程度排序），收藏增删后重新检索
+  useEffect(() => {
+    if (!userEmail || countActiveFilters(collectionFilters) === 0) {
+      setCollectionSearchIds(null);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      collectionApi.search({
+        tag: collectionFilters.tags, from: collectionFilters.from, to: collectionFilters.to,
+        generationId: collectionFilters.sourceId ?? undefined, level: collectionFilters.level ?? undefined, color: collectionFilters.color ?? undefined,
+      })
+        .then(data => { if (!cancelled) setCollectionSearchIds(data.items.map(item => item.id)); })
+        .catch(err => console.error('Failed to search collection:', err));
+    }, 250);
+    return () => { cancelled = true; clearTimeout(timer); };
+  }, [collectionFilters, collection.length, userEmail]);
 
-      // Show first-time guide if user hasn't seen it
-      const hasSeenGuide = localStorage.getItem('hasSeenImageGuide');
-      if (!hasSeenGuide) {
-        setTimeout(() => setShowFirstTimeGuide(true), 2500);
-      }
+  // 关闭抽屉时回到列表视图
+  useEffect(() => {
+    if (!isHistoryOpen) setLineageView(null);
+  }, [isHistoryOpen]);
+
+  // 将历史记录的设计简报填回配置面板
+  const handleReuseBrief = (e: React.MouseEvent, item: HistoryItem) => {
+    e.stopPropagation();
+    if (item.brief) setDesignBrief(item.brief);
+  };
 
-      // UX Guidance: Show subtle click hint on nine-grid
-      setTimeout(() => setShowClickHint(true), 1200);
-      setTimeout(() => setShowClickHint(false), 5500); // Auto-dismiss after ~2 cycles
+  const handleDeleteHistory = async (e: React.MouseEvent, item: HistoryItem) => {
+    e.stopPropagation();
+    if (!item.generationId) return;
+    try {
+      await userApi.deleteGeneration(item.generationId);
+      setHistory(prev => prev.filter(h => h.id !== item.id));
     } catch (err) {
-      console.error(err);
-      // 生成失败不扣分，显示VPN提示弹窗
-      setGenState({ status: 'error', error: "生成失败" });
-      setShowVpnAlert(true);
+      console.error('Failed to delete history item:', err);
+    }
+  };
+
+  const handleOpenLineage = async (e: React.MouseEvent, item: HistoryItem) => {
+    e.stopPropagation();
+    if (!item.generationId) return;
+    const focusId = item.generationId;
+    setLineageView({ focusId, data: null });
+    try {
+      const data = await userApi.getLineage(focusId);
+      setLineageView(prev => prev?.focusId === focusId ? { focusId, data } : prev);
+    } catch (err) {
+      console.error('Failed to load lineage:', err);
+      setLineageView(null);
     }
   };
 
   const handleRestoreHistory = async (item: HistoryItem) => {
     setGeneratedImageUrl(item.url);
+    setCurrentGenerationId(item.generationId);
+    setCurrentGridLayout(item.gridLayout);
     setMarkers([]);
     setGenState({ status: 'completed' });
     setIsHistoryOpen(false); // Close history panel on restore
@@ -1047,6 +1515,79 @@ export default function App({ userEmail, userPoints, onOpenUserCenter, onUpdateP
     }, 300);
   };
 
+  // 对唯一标记所在的单元格进行局部编辑
+  const handleOpenEdit = async () => {
+    if (!generatedImageUrl || markers.length !== 1) return;
+    try {
+      const cellUrl = await smartCropFromClick(generatedImageUrl, markers[0].x, markers[0].y, currentGridLayout);
+      setEditTarget({ imageUrl: cellUrl, parentId: currentGenerationId });
+    } catch (err) {
+      console.error('Failed to crop cell for editing:', err);
+    }
+  };
+
+  // 以唯一标记所在的单元格为源图，沿用当前标签与参考图权重重新生成一组宫格
+  const handleExploreCell = async () => {
+    if (!generatedImageUrl || markers.length !== 1) return;
+    const [marker] = markers;
+    try {
+      const cellUrl = await smartCropFromClick(generatedImageUrl, marker.x, marker.y, currentGridLayout);
+      const origin = currentGenerationId ? { generationId: currentGenerationId, cell: getCellIndex(marker.x, marker.y, currentGridLayout) } : null;
+      setPreviewUrl(cellUrl);
+      setSelectedFile(null);
+      setSourceOrigin(origin);
+      await handleGenerate({ image: cellUrl, origin });
+    } catch (err) {
+      console.error('Failed to explore cell:', err);
+    }
+  };
+
+  // 编辑完成：同步积分，并作为子记录写入历史
+  const handleEdited = (result: ImageResult, instruction: string, parentId: number | null) => {
+    onUpdatePoints?.(result.newPoints, result.newDailyPoints);
+    const timestamp = new Date();
+    setHistory(prev => [{
+      id: result.generationId ? String(result.generationId) : String(timestamp.getTime()),
+      generationId: result.generationId,
+      url: result.url,
+      timestamp,
+      tags: [],
+      gridLayout: '1x1',
+      operation: 'edit',
+      level: null,
+      parentId,
+      instruction,
+      sourceUrl: result.sourceUrl,
+    }, ...prev]);
+  };
+
+  const handleViewEdited = (result: ImageResult) => {
+    setGeneratedImageUrl(result.url);
+    setCurrentGenerationId(result.generationId);
+    setCurrentGridLayout('1x1');
+    setMarkers([]);
+    setEditTarget(null);
+    setGenState({ status: 'completed' });
+  };
+
+  // 以图搜图：标记的单元格（单图时为整张图）
+  const handleFindSimilar = () => {
+    if (!currentGenerationId || markers.length !== 1) return;
+    const marker = markers[0];
+    setSimilarImageId(currentGridLayout === '1x1'
+      ? `g${currentGenerationId}`
+      : `g${currentGenerationId}-${getCellIndex(marker.x, marker.y, currentGridLayout)}`);
+  };
+
+  const handleOpenSimilar = (image: SimilarImage) => {
+    setGeneratedImageUrl(image.url);
+    setCurrentGenerationId(image.generationId);
+    setCurrentGridLayout(image.gridLayout || '1x1');
+    setMarkers([]);
+    setSimilarImageId(null);
+    setGenState({ status: 'completed' });
+  };
+
   const handleCollect = async () => {
     if (!generatedImageUrl || markers.length === 0 || !imageRef.current) return;
     setIsProcessingCollection(true);
@@ -1061,8 +1602,8 @@ export default function App({ userEmail, userPoints, onOpenUserCenter, onUpdateP
     const timestamp = Date.now();
 
     try {
-      const newItems: CollectionItem[] = await Promise.all(markers.map(async (marker) => {
-        const cropUrl = await smartCropFromClick(generatedImageUrl!, marker.x, marker.y);
+      const crops: string[] = await Promise.all(markers.map(async (marker) => {
+        const cropUrl = await smartCropFromClick(generatedImageUrl!, marker.x, marker.y, currentGridLayout);
         const startX = imgRect.left + (marker.x * imgRect.width);
         const startY = imgRect.top + (marker.y * imgRect.height);
 
@@ -1075,42 +1616,69 @@ export default function App({ userEmail, userPoints, onOpenUserCenter, onUpdateP
           deltaX: targetX - startX,
           deltaY: targetY - startY
         });
-        return { id: `${timestamp}-${marker.id}`, url: cropUrl, tags: [...selectedRoomTypes], timestamp: timestamp };
+        return cropUrl;
       })
       );
       setFlyingItems(itemsToFly);
       setMarkers([]); // Clear markers immediately
       setHasCollectedAfterMark(true); // UX Guidance: Stop breathing animation
 
-      // Sync with animation duration (0.8s)
-      setTimeout(() => {
-        setCollection(prev => [...newItems, ...prev]);
-        setFlyingItems([]);
-        setIsProcessingCollection(false);
-      }, 800);
+      // 上传到服务端收藏库（附带色板），与飞入动画 (0.8s) 并行
+      const palettes = await Promise.all(crops.map(crop => extractPalette(crop)));
+      const [data] = await Promise.all([
+        collectionApi.add(crops.map((image, index) => ({ image, tags: [...selectedRoomTypes], generationId: currentGenerationId, palette: palettes[index] })), typeof activeBoard === 'number' ? activeBoard : null),
+        new Promise(resolve => setTimeout(resolve, 800)),
+      ]);
+      setCollection(prev => [...(data.items as CollectionRecord[]).map(toCollectionItem), ...prev]);
+      setFlyingItems([]);
+      setIsProcessingCollection(false);
 
     } catch (e) {
       console.error(e);
+      setFlyingItems([]);
       setIsProcessingCollection(false);
+      alert("收藏保存失败，请重试");
     }
   };
 
-  const handleDeleteFromCollection = (e: React.MouseEvent, id: string) => {
+  const handleDeleteFromCollection = async (e: React.MouseEvent, item: CollectionItem) => {
     e.stopPropagation();
-    setCollection(prev => prev.filter(item => item.id !== id));
-    setSelectedCollectionIds(prev => { const next = new Set(prev); next.delete(id); return next; });
+    setCollection(prev => prev.filter(i => i.id !== item.id));
+    setSelectedCollectionIds(prev => { const next = new Set(prev); next.delete(item.id); return next; });
+    try {
+      await collectionApi.remove(item.collectionId);
+    } catch (err) {
+      console.error('Failed to delete collection item:', err);
+      // 删除失败时恢复服务端列表
+      collectionApi.list().then(data => setCollection((data.items as CollectionRecord[]).map(toCollectionItem))).catch(() => { });
+    }
   };
   const toggleSelection = (id: string) => setSelectedCollectionIds(prev => { const next = new Set(prev); next.has(id) ? next.delete(id) : next.add(id); return next; });
 
-  const handleDownloadZip = async () => {
-    if (selectedCollectionIds.size === 0) return alert("请先选择需要下载的图片");
+  // 上报下载了哪些生成记录的图片（A/B 实验的结果信号，失败不影响下载）
+  const reportDownloads = (items: CollectionItem[]) => {
+    const ids = Array.from(new Set<number>(items.flatMap(i => i.generationId ? [i.generationId] : [])));
+    if (ids.length > 0) userApi.recordDownloads(ids).catch(() => { });
+  };
+
+  // 打包下载收藏图片（收藏图片存储在服务端，逐张下载后打包）
+  const exportCollectionZip = async (items: CollectionItem[], zipName: string) => {
     setIsZipping(true);
     try {
       const zip = new JSZip();
-      const folder = zip.folder("vibe-forge");
-      collection.forEach((item) => { if (selectedCollectionIds.has(item.id)) folder?.file(`${item.id}.png`, item.url.split(',')[1], { base64: true }); });
+      const folder = zip.folder(zipName);
+      for (const item of items) {
+        const response = await fetch(item.url);
+        if (!response.ok) throw new Error(`Failed to fetch ${item.url}`);
+        const ext = item.url.split('.').pop() || 'png';
+        folder?.file(`${item.id}.${ext}`, await response.blob());
+        // 已分析材质 / 已提取色板的图片附带同名清单
+        if (item.materials) folder?.file(`${item.id}_materials.csv`, toMaterialScheduleCsv(item.materials));
+        if (item.palette) folder?.file(`${item.id}_palette.csv`, toPaletteCsv(item.palette));
+      }
       const blob = await zip.generateAsync({ type: "blob" });
-      const link = document.createElement('a'); link.href = URL.createObjectURL(blob); link.download = "vibe-forge.zip"; link.click();
+      const link = document.createElement('a'); link.href = URL.createObjectURL(blob); link.download = `${zipName}.zip`; link.click();
+      reportDownloads(items);
     } catch (e) {
       console.error(e);
       alert("Download Failed");
@@ -1119,6 +1687,89 @@ export default function App({ userEmail, userPoints, onOpenUserCenter, onUpdateP
     }
   };
 
+  const handleDownloadZip = async () => {
+    if (selectedCollectionIds.size === 0) return alert("请先选择需要下载的图片");
+    await exportCollectionZip(collection.filter(i => selectedCollectionIds.has(i.id)), "vibe-forge");
+  };
+
+  // ---- 收藏看板 ----
+  const boardCollection = activeBoard === 'all' ? collection
+    : activeBoard === 'unsorted' ? collection.filter(i => i.boardId === null)
+      : collection.filter(i => i.boardId === activeBoard);
+  const matchedTones = findColorTones(collectionToneQuery);
+  // 检索结果按服务端返回的顺序展示
+  const searchedCollection = collectionSearchIds === null ? boardCollection : (() => {
+    const byId = new Map(boardCollection.map(i => [i.collectionId, i]));
+    return collectionSearchIds.flatMap(id => byId.get(id) || []);
+  })();
+  const visibleCollection = searchedCollection
+    .filter(i => collectionStyleFilter === null || i.styleId === collectionStyleFilter)
+    .filter(i => !collectionToneQuery.trim() || (!!i.palette && matchedTones.some(tone => paletteHasTone(i.palette!, tone.hex))));
+  // 收藏中出现过的风格（用于风格筛选）
+  const collectionStyleIds = Array.from(new Set<number>(collection.flatMap(i => i.styleId ? [i.styleId] : [])));
+  // 收藏 / 历史中出现过的标签（检索栏的标签候选）
+  const collectionTagOptions = Array.from(new Set<string>(collection.flatMap(i => i.tags)));
+  const historyTagOptions = Array.from(new Set<string>(history.flatMap(i => i.tags)));
+
+  // 封面与条目数按本地收藏实时计算，移动 / 删除后无需重新拉取
+  const boardSummaries: BoardSummary[] = boards.map(board => {
+    const items = collection.filter(i => i.boardId === board.id);
+    const cover = items.find(i => i.collectionId === board.coverItemId) || items[0];
+    return { id: board.id, name: board.name, coverUrl: cover?.url || null, itemCount: items.length };
+  });
+
+  const handleCreateBoard = async (name: string) => {
+    const { board } = await boardApi.create(name);
+    setBoards(prev => [...prev, board]);
+    setActiveBoard(board.id);
+  };
+
+  const handleRenameBoard = async (id: number, name: string) => {
+    const { board } = await boardApi.update(id, { name });
+    setBoards(prev => prev.map(b => b.id === id ? board : b));
+  };
+
+  const handleDeleteBoard = async (id: number) => {
+    const board = boards.find(b => b.id === id);
+    if (!board || !confirm(`删除看板「${board.name}」？看板内的图片会回到未分组。`)) return;
+    try {
+      await boardApi.remove(id);
+      setBoards(prev => prev.filter(b => b.id !== id));
+      setCollection(prev => prev.map(i => i.boardId === id ? { ...i, boardId: null } : i));
+      setActiveBoard('all');
+    } catch (err: any) {
+      alert(err.message || '删除看板失败');
+    }
+  };
+
+  const handleExportBoard = (id: number) => {
+    const board = boards.find(b => b.id === id);
+    if (board) exportCollectionZip(collection.filter(i => i.boardId === id), board.name);
+  };
+
+  const handleSetBoardCover = async (e: React.MouseEvent, item: CollectionItem) => {
+    e.stopPropagation();
+    if (item.boardId === null) return;
+    try {
+      const { board } = await boardApi.update(item.boardId, { coverItemId: item.collectionId });
+      setBoards(prev => prev.map(b => b.id === board.id ? board : b));
+    } catch (err: any) {
+      alert(err.message || '设置封面失败');
+    }
+  };
+
+  const handleMoveSelected = async (boardId: number | null) => {
+    const ids = collection.filter(i => selectedCollectionIds.has(i.id)).map(i => i.collectionId);
+    if (ids.length === 0) return;
+    try {
+      await collectionApi.move(ids, boardId);
+      setCollection(prev => prev.map(i => selectedCollectionIds.has(i.id) ? { ...i, boardId } : i));
+      setSelectedCollectionIds(new Set());
+    } catch (err: any) {
+      alert(err.message || '移动失败');
+    }
+  };
+
   const handleUpscaleSelected = async () => {
     if (selectedCollectionIds.size === 0) return alert("请先选择需要放大的图片");
 
@@ -1150,31 +1801,29 @@ export default function App({ userEmail, userPoints, onOpenUserCenter, onUpdateP
     try {
       // 收集所有放大后的图片 (URL 来自后端)
       const upscaledImages: { filename: string; url: string }[] = [];
+      const upscaledItems: CollectionItem[] = [];
 
       for (const item of itemsToProcess) {
         try {
-          // 放大图片，返回 URL
-          const upscaledUrl = await upscaleImage(item.url);
-
-          // 放大成功后扣积分
-          try {
-            const consumeResult = await userApi.consumePoints(50, 'upscale');
-            if (onUpdatePoints && consumeResult) {
-              onUpdatePoints(consumeResult.newPoints, consumeResult.newDailyPoints);
-            }
-          } catch (consumeErr: any) {
-            console.warn("Points consumption failed:", consumeErr);
-          }
+          // 放大图片，返回 URL（积分由后端预扣，失败自动退还）
+          const { url: upscaledUrl, newPoints, newDailyPoints } = await upscaleImage(await urlToBase64(item.url), { parentId: item.generationId });
+          onUpdatePoints?.(newPoints, newDailyPoints);
 
           // 收集放大后的图片 URL
           upscaledImages.push({
             filename: `upscaled_${item.id}.png`,
             url: upscaledUrl
           });
+          upscaledItems.push(item);
 
           setUpscaleStatus(prev => ({ ...prev, completedCount: prev.completedCount + 1 }));
         } catch (e) {
           console.error("Upscale failed for item:", item.id, e);
+          // 积分不足时后续图片也无法放大，直接停止
+          if (e instanceof InsufficientPointsError) {
+            setPointsError(e.message);
+            break;
+          }
         }
       }
 
@@ -1195,6 +1844,11 @@ export default function App({ userEmail, userPoints, onOpenUserCenter, onUpdateP
             console.error("Failed to fetch image for zip:", img.filename, e);
           }
         }
+        // 已分析材质的图片附带材质清单
+        for (const item of upscaledItems) {
+          if (item.materials) folder?.file(`upscaled_${item.id}_materials.csv`, toMaterialScheduleCsv(item.materials));
+          if (item.palette) folder?.file(`upscaled_${item.id}_palette.csv`, toPaletteCsv(item.palette));
+        }
 
         // 生成并下载 ZIP
         const zipBlob = await zip.generateAsync({ type: "blob" });
@@ -1204,6 +1858,7 @@ export default function App({ userEmail, userPoints, onOpenUserCenter, onUpdateP
         link.download = `upscaled_${timestamp}_${upscaledImages.length}张.zip`;
         link.click();
         URL.revokeObjectURL(link.href);
+        reportDownloads(upscaledItems);
       }
 
       setUpscaleStatus(prev => ({ ...prev, state: 'success' }));
@@ -1225,11 +1880,17 @@ export default function App({ userEmail, userPoints, onOpenUserCenter, onUpdateP
   };
   const handleDragEnter = (e: React.DragEvent, idx: number) => { dragOverItem.current = idx; };
   const handleDragEnd = () => {
-    if (dragItem.current !== null && dragOverItem.current !== null && dragItem.current !== dragOverItem.current) {
-      const copy = [...collection];
-      const item = copy.splice(dragItem.current, 1)[0];
-      copy.splice(dragOverItem.current, 0, item);
+    // 检索结果可能按颜色排序，不作为收藏顺序保存
+    if (collectionSearchIds === null && dragItem.current !== null && dragOverItem.current !== null && dragItem.current !== dragOverItem.current) {
+      // 拖拽索引基于当前看板的可见列表，重排后写回完整列表中对应的位置
+      const reordered = [...visibleCollection];
+      const item = reordered.splice(dragItem.current, 1)[0];
+      reordered.splice(dragOverItem.current, 0, item);
+      const visibleIds = new Set(reordered.map(i => i.id));
+      let cursor = 0;
+      const copy = collection.map(i => visibleIds.has(i.id) ? reordered[cursor++] : i);
       setCollection(copy);
+      collectionApi.reorder(copy.map(i => i.collectionId)).catch(err => console.error('Failed to save collection order:', err));
     }
     dragItem.current = null; dragOverItem.current = null;
   };
@@ -1456,7 +2117,7 @@ export default function App({ userEmail, userPoints, onOpenUserCenter, onUpdateP
                   <div className="relative w-full h-full">
                     <img src={previewUrl} className="w-full h-full object-contain opacity-80 group-hover:opacity-100 transition-opacity" />
                     <div className={`absolute bottom-0 left-0 right-0 text-[10px] p-1 font-mono text-center truncate ${isLightMode ? 'bg-zinc-800/80 text-white' : 'bg-black/60 text-white'}`}>
-                      {selectedFile?.name || 'source_img.jpg'}
+                      {selectedFile?.name || (sourceOrigin ? `延展自 #${sourceOrigin.generationId} · 第 ${sourceOrigin.cell + 1} 格` : 'source_img.jpg')}
                     </div>
                     {/* Upload Overlay on Hover/Drag */}
                     <div className={`absolute inset-0 flex items-center justify-center transition-opacity ${isDraggingOverSource ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'} ${isLightMode ? 'bg-zinc-800/50' : 'bg-black/40'}`}>
@@ -1473,67 +2134,86 @@ export default function App({ userEmail, userPoints, onOpenUserCenter, onUpdateP
                   </div>
                 )}
               </div>
+              {previewUrl && (
+                <ReferenceList
+                  references={extraReferences}
+                  isLightMode={isLightMode}
+                  onAdd={handleAddReference}
+                  onChange={(index, patch) => setExtraReferences(prev => prev.map((ref, i) => i === index ? { ...ref, ...patch } : ref))}
+                  onRemove={index => setExtraReferences(prev => prev.filter((_, i) => i !== index))}
+                />
+              )}
             </SciFiPanel>
 
             {/* SPACE CONFIG */}
             <SciFiPanel title="空间定义 CONFIG" className="flex-1 min-h-0" isLight={isLightMode}>
               <div className="h-full overflow-y-auto custom-scrollbar pr-2 pb-2">
-                {/* Residential */}
-                <div className="mb-4 relative">
-                  <div className={`flex items-center gap-2 text-xs font-medium mb-2.5 tracking-[0.05em] font-['Noto_Serif_SC_Variable'] ${isLightMode ? 'text-zinc-700' : 'text-zinc-300'}`}>
-                    {ROOM_CATEGORIES.residential.icon} 家装空间
-                    {/* Mobile Guide Step 2: Select Tags */}
-                    <MobileGuideTooltip
-                      show={isMobile && mobileGuideStep === 2}
-                      position="right"
-                      onDismiss={() => advanceMobileGuide(3)}
-                    >
-                      ✨ 选择空间类型
-                    </MobileGuideTooltip>
-                  </div>
-                  <div className="flex flex-wrap gap-1.5">
-                    {ROOM_CATEGORIES.residential.options.map(opt => (
-                      <button key={opt} onClick={() => toggleRoomType(opt)}
-                        className={`px-3 py-1 text-[11px] transition-all duration-200 tracking-wide font-['Noto_Serif_SC_Variable'] border rounded-sm
-                          ${selectedRoomTypes.includes(opt)
-                            ? isLightMode ? 'bg-zinc-900 text-white border-zinc-900' : 'bg-white text-zinc-900 border-white'
-                            : isLightMode
-                              ? 'bg-transparent text-zinc-500 border-zinc-300 hover:border-zinc-500 hover:text-zinc-800'
-                              : 'bg-transparent text-zinc-500 border-zinc-700 hover:border-zinc-500 hover:text-zinc-300'}
-                        `}>
-                        {opt}
-                      </button>
-                    ))}
-                    {renderCustomTag('res', '')}
-                  </div>
-                </div>
+                <GenerationPresetPanel current={currentPresetSettings} isLightMode={isLightMode} onApply={handleApplyPreset} />
+                <TagSuggestionPanel
+                  analysis={analysis?.source === previewUrl ? analysis.result : null}
+                  isAnalyzing={genState.status === 'analyzing'}
+                  selectedTags={selectedRoomTypes}
+                  isLightMode={isLightMode}
+                  onAccept={handleAcceptSuggestedTags}
+                  onDismiss={handleDismissSuggestedTag}
+                  onApplyBrief={handleApplyAnalysisBrief}
+                  onClose={() => setAnalysis(null)}
+                />
 
-                {/* Commercial */}
-                <div>
-                  <div className={`flex items-center gap-2 text-xs font-medium mb-2.5 tracking-[0.05em] pt-3 border-t font-['Noto_Serif_SC_Variable'] ${isLightMode ? 'text-zinc-700 border-zinc-200' : 'text-zinc-300 border-zinc-800'}`}>
-                    {ROOM_CATEGORIES.commercial.icon} 工装空间
-                  </div>
-                  {ROOM_CATEGORIES.commercial.groups?.map((group, i) => (
-                    <div key={i} className="mb-3">
-                      <p className={`text-[11px] font-medium mb-1.5 font-['Noto_Serif_SC_Variable'] ${isLightMode ? 'text-zinc-600' : 'text-zinc-400'}`}>{group.name}</p>
-                      <div className="flex flex-wrap gap-1.5">
-                        {group.options.map(opt => (
-                          <button key={opt} onClick={() => toggleRoomType(opt)}
-                            className={`px-3 py-1 text-[11px] transition-all duration-200 tracking-wide font-['Noto_Serif_SC_Variable'] border rounded-sm
-                              ${selectedRoomTypes.includes(opt)
-                                ? isLightMode ? 'bg-zinc-900 text-white border-zinc-900' : 'bg-white text-zinc-900 border-white'
-                                : isLightMode
-                                  ? 'bg-transparent text-zinc-500 border-zinc-300 hover:border-zinc-500 hover:text-zinc-800'
-                                  : 'bg-transparent text-zinc-500 border-zinc-700 hover:border-zinc-500 hover:text-zinc-300'}
-                            `}>
-                            {opt}
-                          </button>
-                        ))}
+                {/* SPACE TAGS - 标签体系由服务端 GET /api/taxonomy 提供 */}
+                {taxonomy?.categories.map((category, categoryIndex) => {
+                  const customSlot = category.allowCustom ? CUSTOM_TAG_SLOTS[category.id] : undefined;
+                  const renderTags = (tags: TaxonomyTag[]) => tags.map(tag => (
+                    <button key={tag.value} onClick={() => toggleRoomType(tag.value)} title={tag.labels.en}
+                      className={`px-3 py-1 text-[11px] transition-all duration-200 tracking-wide font-['Noto_Serif_SC_Variable'] border rounded-sm
+                        ${selectedRoomTypes.includes(tag.value)
+                          ? isLightMode ? 'bg-zinc-900 text-white border-zinc-900' : 'bg-white text-zinc-900 border-white'
+                          : isLightMode
+                            ? 'bg-transparent text-zinc-500 border-zinc-300 hover:border-zinc-500 hover:text-zinc-800'
+                            : 'bg-transparent text-zinc-500 border-zinc-700 hover:border-zinc-500 hover:text-zinc-300'}
+                      `}>
+                      {tag.labels.zh}
+                    </button>
+                  ));
+
+                  return (
+                    <div key={category.id} className="mb-4 relative">
+                      <div className={`flex items-center gap-2 text-xs font-medium mb-2.5 tracking-[0.05em] font-['Noto_Serif_SC_Variable'] ${categoryIndex > 0 ? 'pt-3 border-t' : ''} ${isLightMode ? 'text-zinc-700 border-zinc-200' : 'text-zinc-300 border-zinc-800'}`}>
+                        {TAXONOMY_ICONS[category.icon]} {category.labels.zh}
+                        {/* Mobile Guide Step 2: Select Tags */}
+                        {categoryIndex === 0 && (
+                          <MobileGuideTooltip
+                            show={isMobile && mobileGuideStep === 2}
+                            position="right"
+                            onDismiss={() => advanceMobileGuide(3)}
+                          >
+                            ✨ 选择空间类型
+                          </MobileGuideTooltip>
+                        )}
                       </div>
+                      {category.groups.length === 1 ? (
+                        <div className="flex flex-wrap gap-1.5">
+                          {renderTags(category.groups[0].tags)}
+                          {customSlot && renderCustomTag(customSlot, '')}
+                        </div>
+                      ) : (
+                        <>
+                          {category.groups.map(group => (
+                            <div key={group.id} className="mb-3">
+                              <p className={`text-[11px] font-medium mb-1.5 font-['Noto_Serif_SC_Variable'] ${isLightMode ? 'text-zinc-600' : 'text-zinc-400'}`}>{group.labels.zh}</p>
+                              <div className="flex flex-wrap gap-1.5">{renderTags(group.tags)}</div>
+                            </div>
+                          ))}
+                          {customSlot && <div className="mt-2">{renderCustomTag(customSlot, '')}</div>}
+                        </>
+                      )}
                     </div>
-                  ))}
-                  <div className="mt-2">{renderCustomTag('com', '')}</div>
-                </div>
+                  );
+                })}
+
+                <StylePicker styles={styles} selectedId={selectedStyleId} isLightMode={isLightMode} onSelect={setSelectedStyleId} />
+                <DesignBriefPanel brief={designBrief} isLightMode={isLightMode} onChange={setDesignBrief} />
+                <AvoidListPanel items={avoidList} isLightMode={isLightMode} onChange={setAvoidList} />
 
                 {/* FIDELITY CONTROL - Moved here */}
                 <div className={`mt-4 pt-4 border-t ${isLightMode ? 'border-zinc-200' : 'border-zinc-800'}`}>
@@ -1551,6 +2231,104 @@ export default function App({ userEmail, userPoints, onOpenUserCenter, onUpdateP
                       ))}
                     </div>
                   </div>
+
+                  {/* GRID LAYOUT - 宫格布局 */}
+                  <div className="flex items-center justify-between gap-2 mt-4">
+                    <span className={`text-[11px] tracking-[0.1em] font-['Noto_Serif_SC_Variable'] ${isLightMode ? 'text-zinc-800' : 'text-zinc-400'}`}>宫格布局</span>
+                    <div className="flex gap-1">
+                      {(Object.keys(GRID_LAYOUTS) as GridLayout[]).map(layout => (
+                        <button
+                          key={layout}
+                          onClick={() => handleSelectGridLayout(layout)}
+                          title={layout === '2x3' ? '横向画幅 (2 行 3 列)' : undefined}
+                          className={`px-1.5 h-6 text-[10px] font-mono border rounded-sm transition-colors
+                            ${gridLayout === layout
+                              ? (isLightMode ? 'border-zinc-900 bg-zinc-900 text-white' : 'border-white bg-white text-black')
+                              : (isLightMode ? 'border-zinc-200 text-zinc-500 hover:border-zinc-400' : 'border-zinc-700 text-zinc-400 hover:border-zinc-500')}`}
+                        >
+                          {layout}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+
+                  {/* ASPECT RATIO & SIZE - 画幅与分辨率（积分按分辨率计价） */}
+                  <div className="flex items-center justify-between gap-2 mt-4">
+                    <span className={`text-[11px] tracking-[0.1em] font-['Noto_Serif_SC_Variable'] ${isLightMode ? 'text-zinc-800' : 'text-zinc-400'}`}>画幅比例</span>
+                    <div className="flex gap-1 flex-wrap justify-end">
+                      {imageOptions.aspectRatios.map(ratio => (
+                        <button
+                          key={ratio}
+                          onClick={() => setAspectRatio(ratio)}
+                          className={`px-1.5 h-6 text-[10px] font-mono border rounded-sm transition-colors
+                            ${aspectRatio === ratio
+                              ? (isLightMode ? 'border-zinc-900 bg-zinc-900 text-white' : 'border-white bg-white text-black')
+                              : (isLightMode ? 'border-zinc-200 text-zinc-500 hover:border-zinc-400' : 'border-zinc-700 text-zinc-400 hover:border-zinc-500')}`}
+                        >
+                          {ratio}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="flex items-center justify-between gap-2 mt-2">
+                    <span className={`text-[11px] tracking-[0.1em] font-['Noto_Serif_SC_Variable'] ${isLightMode ? 'text-zinc-800' : 'text-zinc-400'}`}>分辨率</span>
+                    <div className="flex gap-1">
+                      {Object.entries(imageOptions.imageSizes).map(([size, points]) => (
+                        <button
+                          key={size}
+                          onClick={() => setImageSize(size)}
+                          title={`每张 ${points} 积分`}
+                          className={`px-1.5 h-6 text-[10px] font-mono border rounded-sm transition-colors
+                            ${imageSize === size
+                              ? (isLightMode ? 'border-zinc-900 bg-zinc-900 text-white' : 'border-white bg-white text-black')
+                              : (isLightMode ? 'border-zinc-200 text-zinc-500 hover:border-zinc-400' : 'border-zinc-700 text-zinc-400 hover:border-zinc-500')}`}
+                        >
+                          {size} · {points}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+
+                  {/* BATCH CONTROL - 一次提交多张 */}
+                  <div className="flex items-center justify-between gap-2 mt-4">
+                    <span className={`text-[11px] tracking-[0.1em] font-['Noto_Serif_SC_Variable'] ${isLightMode ? 'text-zinc-800' : 'text-zinc-400'}`}>批量生成</span>
+                    <div className="flex gap-1">
+                      {Array.from({ length: MAX_BATCH_COUNT }, (_, i) => i + 1).map(count => (
+                        <button
+                          key={count}
+                          onClick={() => setBatchCount(count)}
+                          className={`w-7 h-6 text-[10px] font-mono border rounded-sm transition-colors
+                            ${batchCount === count
+                              ? (isLightMode ? 'border-zinc-900 bg-zinc-900 text-white' : 'border-white bg-white text-black')
+                              : (isLightMode ? 'border-zinc-200 text-zinc-500 hover:border-zinc-400' : 'border-zinc-700 text-zinc-400 hover:border-zinc-500')}`}
+                        >
+                          {count}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  {batchCount > 1 && (
+                    <div className="flex gap-1 mt-2">
+                      {([
+                        { value: 'none', label: '相同参数' },
+                        { value: 'fidelity', label: '遍历权重' },
+                        { value: 'tags', label: '拆分标签' },
+                      ] as { value: BatchSweep; label: string }[]).map(option => (
+                        <button
+                          key={option.value}
+                          onClick={() => setBatchSweep(option.value)}
+                          disabled={option.value === 'tags' && selectedRoomTypes.length < 2}
+                          title={option.value === 'tags' ? '每张只使用一个已选标签（需至少选择 2 个标签）' : undefined}
+                          className={`flex-1 h-6 text-[10px] font-['Noto_Serif_SC_Variable'] border rounded-sm transition-colors disabled:opacity-40
+                            ${batchSweep === option.value
+                              ? (isLightMode ? 'border-zinc-900 text-zinc-900' : 'border-white text-white')
+                              : (isLightMode ? 'border-zinc-200 text-zinc-500 hover:border-zinc-400' : 'border-zinc-700 text-zinc-400 hover:border-zinc-500')}`}
+                        >
+                          {option.label}
+                        </button>
+                      ))}
+                    </div>
+                  )}
                 </div>
               </div>
             </SciFiPanel>
@@ -1695,7 +2473,7 @@ export default function App({ userEmail, userPoints, onOpenUserCenter, onUpdateP
 
                   {/* Time estimate */}
                   <p className={`text-sm tracking-wider font-light mb-8 ${isLightMode ? 'text-zinc-500' : 'text-zinc-400'}`} style={{ fontFamily: "'Noto Serif SC Variable', serif" }}>
-                    预计需要 1 分钟左右
+                    {genState.progress || '预计需要 1 分钟左右'}
                   </p>
 
                   {/* Subtle divider */}
@@ -1758,6 +2536,44 @@ export default function App({ userEmail, userPoints, onOpenUserCenter, onUpdateP
                     </div>
                   ))}
 
+                  {/* Explore & Inpainting Buttons - 仅标记一个单元格时可用 */}
+                  {markers.length === 1 && genState.status !== 'generating' && (
+                    <button
+                      onClick={(e) => { e.stopPropagation(); handleExploreCell(); }}
+                      className={`absolute bottom-6 right-[11.5rem] h-10 px-3 flex items-center gap-1.5 rounded-full shadow-lg backdrop-blur-md transition-all duration-300 z-20 hover:scale-105 active:scale-95 text-[11px] tracking-[0.1em] font-['Noto_Serif_SC_Variable']
+                        ${isLightMode
+                          ? 'bg-white/60 hover:bg-white/90 text-zinc-600 hover:text-zinc-900 border border-white/20'
+                          : 'bg-black/40 hover:bg-black/70 text-zinc-400 hover:text-white border border-white/10'}`}
+                      title="以此格为源图，沿用当前标签重新生成"
+                    >
+                      <Squares2X2Icon className="w-4 h-4" /> 以此格延展
+                    </button>
+                  )}
+                  {markers.length === 1 && currentGenerationId && genState.status !== 'generating' && (
+                    <button
+                      onClick={(e) => { e.stopPropagation(); handleFindSimilar(); }}
+                      className={`absolute bottom-6 right-[19.5rem] h-10 px-3 flex items-center gap-1.5 rounded-full shadow-lg backdrop-blur-md transition-all duration-300 z-20 hover:scale-105 active:scale-95 text-[11px] tracking-[0.1em] font-['Noto_Serif_SC_Variable']
+                        ${isLightMode
+                          ? 'bg-white/60 hover:bg-white/90 text-zinc-600 hover:text-zinc-900 border border-white/20'
+                          : 'bg-black/40 hover:bg-black/70 text-zinc-400 hover:text-white border border-white/10'}`}
+                      title="在生成历史和收藏中查找相似的图片"
+                    >
+                      <MagnifyingGlassIcon className="w-4 h-4" /> 找相似
+                    </button>
+                  )}
+                  {markers.length === 1 && (
+                    <button
+                      onClick={(e) => { e.stopPropagation(); handleOpenEdit(); }}
+                      className={`absolute bottom-6 right-20 h-10 px-3 flex items-center gap-1.5 rounded-full shadow-lg backdrop-blur-md transition-all duration-300 z-20 hover:scale-105 active:scale-95 text-[11px] tracking-[0.1em] font-['Noto_Serif_SC_Variable']
+                        ${isLightMode
+                          ? 'bg-white/60 hover:bg-white/90 text-zinc-600 hover:text-zinc-900 border border-white/20'
+                          : 'bg-black/40 hover:bg-black/70 text-zinc-400 hover:text-white border border-white/10'}`}
+                      title="局部编辑标记的单元格"
+                    >
+                      <PaintBrushIcon className="w-4 h-4" /> 局部编辑
+                    </button>
+                  )}
+
                   {/* One-click Preview Button - Bottom Right */}
                   {generatedImageUrl && (
                     <button
@@ -1805,6 +2621,19 @@ export default function App({ userEmail, userPoints, onOpenUserCenter, onUpdateP
                 </>
               )}
 
+              {/* Grid palette */}
+              {generatedImageUrl && gridPalette.length > 0 && (
+                <div className={`absolute top-6 left-6 z-20 w-64 p-2 rounded-sm backdrop-blur-md border
+                  ${isLightMode ? 'bg-white/60 border-white/20' : 'bg-black/40 border-white/10'}`}>
+                  <PaletteStrip palette={gridPalette} isLightMode={isLightMode} />
+                </div>
+              )}
+
+              {/* Batch results strip */}
+              {batchResults.length > 1 && (
+                <BatchStrip results={batchResults} activeUrl={generatedImageUrl} isLightMode={isLightMode} onSelect={handleSelectBatchResult} />
+              )}
+
               {/* Magnifier */}
               {/* Magnifier - Rendered via Portal for global unclipped view */}
               {generatedImageUrl && magnifier.show && isCtrlPressed && createPortal(
@@ -1888,7 +2717,7 @@ export default function App({ userEmail, userPoints, onOpenUserCenter, onUpdateP
                 ↓ 点击生成按钮
               </MobileGuideTooltip>
               <button
-                onClick={handleGenerate}
+                onClick={() => handleGenerate()}
                 disabled={!previewUrl || genState.status === 'generating'}
                 onMouseEnter={() => { if (!previewUrl) setShowGenerateTooltip(true); }}
                 onMouseLeave={() => setShowGenerateTooltip(false)}
@@ -1930,7 +2759,7 @@ export default function App({ userEmail, userPoints, onOpenUserCenter, onUpdateP
                   ) : (
                     <span className={`text-sm font-bold tracking-[0.2em] font-['Noto_Serif_SC_Variable'] transition-all duration-300
                       ${isLightMode ? 'text-zinc-100 group-hover:text-white' : 'text-zinc-900 group-hover:text-black'}`}>
-                      {generatedImageUrl ? '重新生成' : '立即生成'}
+                      {generatedImageUrl ? '重新生成' : '立即生成'}{batchCount > 1 && ` ×${batchCount}`}
                     </span>
                   )}
                 </div>
@@ -2031,10 +2860,10 @@ export default function App({ userEmail, userPoints, onOpenUserCenter, onUpdateP
             title="灵感收藏 COLLECTION"
             className="flex-1 min-h-0 relative"
             isLight={isLightMode}
-            overlay={collection.length === 0 ? (
+            overlay={visibleCollection.length === 0 ? (
               <div className="absolute inset-0 flex items-center justify-center pointer-events-none z-20">
                 <div className={`text-center text-[11px] font-['Noto_Serif_SC_Variable'] tracking-wide ${isLightMode ? 'text-zinc-800' : 'text-zinc-500'}`}>
-                  暂无收藏数据
+                  {collection.length > 0 ? '没有符合条件的收藏' : '暂无收藏数据'}
                 </div>
               </div>
             ) : null}
@@ -2053,27 +2882,96 @@ export default function App({ userEmail, userPoints, onOpenUserCenter, onUpdateP
             }
           >
             <div className="absolute inset-0 overflow-y-auto custom-scrollbar px-2 pt-0 pb-16">
-              {collection.length === 0 ? null : (
+              {userEmail && (
+                <BoardBar
+                  boards={boardSummaries}
+                  active={activeBoard}
+                  totalCount={collection.length}
+                  unsortedCount={collection.filter(i => i.boardId === null).length}
+                  isLightMode={isLightMode}
+                  isExporting={isZipping}
+                  onSelect={(filter) => { setActiveBoard(filter); setSelectedCollectionIds(new Set()); }}
+                  onCreate={handleCreateBoard}
+                  onRename={handleRenameBoard}
+                  onDelete={handleDeleteBoard}
+                  onExport={handleExportBoard}
+                  onShare={(id) => setShareTarget({ boardId: id, title: boards.find(b => b.id === id)?.name || '' })}
+                />
+              )}
+              {collectionStyleIds.length > 0 && (
+                <div className="flex flex-wrap gap-1 mb-2">
+                  {[null, ...collectionStyleIds].map(styleId => (
+                    <button
+                      key={styleId ?? 'all'}
+                      onClick={() => { setCollectionStyleFilter(styleId); setSelectedCollectionIds(new Set()); }}
+                      className={`px-2 h-5 text-[10px] border rounded-sm transition-colors font-['Noto_Serif_SC_Variable']
+                        ${collectionStyleFilter === styleId
+                          ? (isLightMode ? 'border-zinc-900 bg-zinc-900 text-white' : 'border-white bg-white text-black')
+                          : (isLightMode ? 'border-zinc-200 text-zinc-500 hover:border-zinc-400' : 'border-zinc-700 text-zinc-400 hover:border-zinc-500')}`}
+                    >
+                      {styleId === null ? '全部风格' : getStyleName(styleId)}
+                    </button>
+                  ))}
+                </div>
+              )}
+              {collection.length > 0 && (
+                <SearchFilterBar
+                  filters={collectionFilters}
+                  tagOptions={collectionTagOptions}
+                  sourceLabel={collectionFilters.sourceId ? `同源裁切 #${collectionFilters.sourceId}` : undefined}
+                  isLightMode={isLightMode}
+                  onChange={(filters) => { setCollectionFilters(filters); setSelectedCollectionIds(new Set()); }}
+                />
+              )}
+              {collection.length > 0 && (
+                <div className="flex items-center gap-1.5 mb-2">
+                  <input
+                    value={collectionToneQuery}
+                    onChange={(e) => { setCollectionToneQuery(e.target.value); setSelectedCollectionIds(new Set()); }}
+                    placeholder="按色调搜索，如 陶土色 / sage"
+                    className={`flex-1 min-w-0 px-2 h-6 text-[10px] border rounded-sm outline-none font-['Noto_Serif_SC_Variable']
+                      ${isLightMode ? 'bg-white border-zinc-200 focus:border-zinc-500' : 'bg-zinc-900 border-zinc-700 focus:border-zinc-400 text-zinc-200'}`}
+                  />
+                  {matchedTones.map(tone => (
+                    <span key={tone.id} title={`${tone.zh} ${tone.en}`} className="w-3.5 h-3.5 rounded-full border border-white/40 shrink-0" style={{ backgroundColor: tone.hex }} />
+                  ))}
+                  {collectionToneQuery.trim() && matchedTones.length === 0 && (
+                    <span className={`text-[10px] shrink-0 ${isLightMode ? 'text-zinc-400' : 'text-zinc-500'}`}>未知色调</span>
+                  )}
+                </div>
+              )}
+              {visibleCollection.length === 0 ? null : (
                 <div className="grid grid-cols-2 gap-1.5">
-                  {collection.map(item => (
-                    <div key={item.id} className={`aspect-square relative group cursor-pointer border-2 transition-all rounded-sm overflow-hidden ${selectedCollectionIds.has(item.id) ? 'border-[#00ffff] ring-2 ring-[#00ffff]/20' : 'border-transparent'}`}
-                      onClick={() => toggleSelection(item.id)} draggable onDragStart={(e) => handleDragStart(e, collection.indexOf(item), item)} onDragEnter={(e) => handleDragEnter(e, collection.indexOf(item))} onDragEnd={handleDragEnd}>
-                      {/* Logic: Grayscale if not selected and not hovered. Color if selected. */}
-                      <img src={item.url} className={`w-full h-full object-cover img-grayscale ${selectedCollectionIds.has(item.id) ? 'active' : ''}`} />
-                      {selectedCollectionIds.has(item.id) && <div className="absolute top-1 left-1 w-5 h-5 bg-[#00ffff] text-black flex items-center justify-center text-[10px] font-bold rounded-full shadow-md"><CheckIcon className="w-3 h-3" /></div>}
-
-                      {/* Action Buttons */}
-                      <div className="absolute top-1 right-1 flex flex-col gap-1 opacity-0 group-hover:opacity-100 transition-opacity z-10">
-                        <button onClick={(e) => handleDeleteFromCollection(e, item.id)} className="bg-red-500 text-white p-1 rounded-full hover:bg-red-600 shadow-sm"><XMarkIcon className="w-3 h-3" /></button>
-                      </div>
+                  {visibleCollection.map((item, index) => (
+                    <div key={item.id}>
+                      <div className={`aspect-square relative group cursor-pointer border-2 transition-all rounded-sm overflow-hidden ${selectedCollectionIds.has(item.id) ? 'border-[#00ffff] ring-2 ring-[#00ffff]/20' : 'border-transparent'}`}
+                        onClick={() => toggleSelection(item.id)} draggable onDragStart={(e) => handleDragStart(e, index, item)} onDragEnter={(e) => handleDragEnter(e, index)} onDragEnd={handleDragEnd}>
+                        {/* Logic: Grayscale if not selected and not hovered. Color if selected. */}
+                        <img src={item.url} className={`w-full h-full object-cover img-grayscale ${selectedCollectionIds.has(item.id) ? 'active' : ''}`} />
+                        {selectedCollectionIds.has(item.id) && <div className="absolute top-1 left-1 w-5 h-5 bg-[#00ffff] text-black flex items-center justify-center text-[10px] font-bold rounded-full shadow-md"><CheckIcon className="w-3 h-3" /></div>}
+
+                        {/* Action Buttons */}
+                        <div className="absolute top-1 right-1 flex flex-col gap-1 opacity-0 group-hover:opacity-100 transition-opacity z-10">
+                          <button onClick={(e) => handleDeleteFromCollection(e, item)} className="bg-red-500 text-white p-1 rounded-full hover:bg-red-600 shadow-sm"><XMarkIcon className="w-3 h-3" /></button>
+                          {item.generationId && (
+                            <button onClick={(e) => { e.stopPropagation(); setCollectionFilters({ ...EMPTY_SEARCH_FILTERS, sourceId: item.generationId }); setSelectedCollectionIds(new Set()); }} title="同一张宫格图的裁切" className="bg-black/50 text-white p-1 rounded-full hover:bg-[#F2994A] shadow-sm"><FunnelIcon className="w-3 h-3" /></button>
+                          )}
+                          <button onClick={(e) => { e.stopPropagation(); setSimilarImageId(`c${item.collectionId}`); }} title="找相似" className="bg-black/50 text-white p-1 rounded-full hover:bg-[#F2994A] shadow-sm"><MagnifyingGlassIcon className="w-3 h-3" /></button>
+                          <button onClick={(e) => { e.stopPropagation(); setMaterialTarget(item); }} title="材质清单" className={`text-white p-1 rounded-full hover:bg-[#F2994A] shadow-sm ${item.materials ? 'bg-[#F2994A]/80' : 'bg-black/50'}`}><ClipboardDocumentListIcon className="w-3 h-3" /></button>
+                          {typeof activeBoard === 'number' && (
+                            <button onClick={(e) => handleSetBoardCover(e, item)} title="设为看板封面" className="bg-black/50 text-white p-1 rounded-full hover:bg-[#F2994A] shadow-sm"><PhotoIcon className="w-3 h-3" /></button>
+                          )}
+                        </div>
 
-                      {/* Preview Button (Bottom Right) */}
-                      <button
-                        onClick={(e) => { e.stopPropagation(); setPreviewImage(item.url); }}
-                        className="absolute bottom-1 right-1 bg-black/50 hover:bg-[#F2994A] backdrop-blur-sm text-white p-1.5 rounded-sm opacity-0 group-hover:opacity-100 transition-all duration-200 z-10"
-                      >
-                        <ArrowsPointingOutIcon className="w-3 h-3" />
-                      </button>
+                        {/* Preview Button (Bottom Right) */}
+                        <button
+                          onClick={(e) => { e.stopPropagation(); setPreviewImage(item.url); }}
+                          className="absolute bottom-1 right-1 bg-black/50 hover:bg-[#F2994A] backdrop-blur-sm text-white p-1.5 rounded-sm opacity-0 group-hover:opacity-100 transition-all duration-200 z-10"
+                        >
+                          <ArrowsPointingOutIcon className="w-3 h-3" />
+                        </button>
+                      </div>
+                      {item.palette && <div className="mt-0.5"><PaletteStrip palette={item.palette} compact /></div>}
                     </div>
                   ))}
                 </div>
@@ -2091,6 +2989,17 @@ export default function App({ userEmail, userPoints, onOpenUserCenter, onUpdateP
                   <span className={`text-[11px] font-['Noto_Serif_SC_Variable'] tracking-[0.15em] ${isLightMode ? 'text-zinc-800' : 'text-zinc-400'}`}>
                     {selectedCollectionIds.size} 项已选
                   </span>
+                  {userEmail && (
+                    <select
+                      value=""
+                      onChange={(e) => { if (e.target.value) handleMoveSelected(e.target.value === 'unsorted' ? null : Number(e.target.value)); }}
+                      className={`h-6 text-[10px] border rounded-sm outline-none ${isLightMode ? 'bg-white border-zinc-300 text-zinc-600' : 'bg-zinc-900 border-zinc-700 text-zinc-400'}`}
+                    >
+                      <option value="">移动到看板…</option>
+                      <option value="unsorted">未分组</option>
+                      {boards.map(board => <option key={board.id} value={board.id}>{board.name}</option>)}
+                    </select>
+                  )}
                 </div>
                 <div className="flex gap-2">
                   {/* Upscale Button - Primary */}
@@ -2212,6 +3121,48 @@ export default function App({ userEmail, userPoints, onOpenUserCenter, onUpdateP
         )
       }
 
+      {/* Share Dialog */}
+      {shareTarget && <ShareDialog target={shareTarget} onClose={() => setShareTarget(null)} isLightMode={isLightMode} />}
+      {materialTarget && (
+        <MaterialScheduleDialog
+          target={materialTarget}
+          onClose={() => setMaterialTarget(null)}
+          onUpdated={(record) => setCollection(prev => prev.map(i => i.collectionId === record.id ? toCollectionItem(record) : i))}
+          isLightMode={isLightMode}
+        />
+      )}
+      {similarImageId && (
+        <SimilarImagesDialog
+          imageId={similarImageId}
+          onClose={() => setSimilarImageId(null)}
+          onOpenGeneration={handleOpenSimilar}
+          isLightMode={isLightMode}
+        />
+      )}
+
+      {/* Inpainting Dialog */}
+      {editTarget && (
+        <EditDialog
+          target={editTarget}
+          points={imageOptions.editPoints}
+          aspectRatios={imageOptions.aspectRatios}
+          isLightMode={isLightMode}
+          onClose={() => setEditTarget(null)}
+          onEdited={handleEdited}
+          onView={handleViewEdited}
+        />
+      )}
+
+      {/* Edit Compare - 历史中的编辑前后对比 */}
+      {compareItem?.sourceUrl && (
+        <div className={`fixed inset-0 z-[2000] flex items-center justify-center backdrop-blur-md p-4 ${isLightMode ? 'bg-black/40' : 'bg-black/60'}`} onClick={() => setCompareItem(null)}>
+          <div className={`w-full max-w-md p-4 rounded-lg shadow-2xl border space-y-3 ${isLightMode ? 'bg-white/95 border-zinc-200 text-zinc-800' : 'bg-zinc-950/95 border-zinc-800 text-zinc-200'}`} onClick={e => e.stopPropagation()}>
+            <CompareSlider beforeUrl={compareItem.sourceUrl} afterUrl={compareItem.url} isLightMode={isLightMode} className="rounded-sm" />
+            <p className="text-xs font-['Noto_Serif_SC_Variable']">{compareItem.instruction}</p>
+          </div>
+        </div>
+      )}
+
       {/* History Sidebar - Popover Style */}
       {
         isHistoryOpen && (
@@ -2220,25 +3171,104 @@ export default function App({ userEmail, userPoints, onOpenUserCenter, onUpdateP
             style={{ top: Math.max(16, historyBtnPos.y - 200), maxHeight: '600px' }}>
             <div className={`p-3 border-b flex justify-between items-center ${isLightMode ? 'border-zinc-200' : 'border-zinc-700'}`}>
               <h3 className={`font-bold uppercase tracking-widest text-xs flex items-center gap-2 font-['Noto_Serif_SC_Variable'] ${isLightMode ? 'text-zinc-800' : 'text-zinc-300'}`}>
-                <ClockIcon className="w-4 h-4 text-[#F2994A]" /> 历史回溯
+                <ClockIcon className="w-4 h-4 text-[#F2994A]" /> {lineageView ? '生成谱系' : '历史回溯'}
               </h3>
+              {lineageView && (
+                <button onClick={() => setLineageView(null)} className={`ml-auto mr-3 text-[10px] font-['Noto_Serif_SC_Variable'] transition-colors hover:text-[#F2994A] ${isLightMode ? 'text-zinc-600' : 'text-zinc-400'}`}>
+                  返回列表
+                </button>
+              )}
               <button onClick={() => setIsHistoryOpen(false)} className={`transition-colors ${isLightMode ? 'text-zinc-800 hover:text-zinc-800' : 'text-zinc-500 hover:text-white'}`}><XMarkIcon className="w-5 h-5" /></button>
             </div>
+            {lineageView ? (
+              <div className="flex-1 overflow-y-auto custom-scrollbar p-3">
+                {lineageView.data ? (
+                  <LineageTree
+                    generations={lineageView.data.generations}
+                    sourceHash={lineageView.data.sourceHash}
+                    focusId={lineageView.focusId}
+                    isLightMode={isLightMode}
+                    onSelect={record => handleRestoreHistory(toHistoryItem(record))}
+                  />
+                ) : (
+                  <p className={`text-center text-xs font-['Noto_Serif_SC_Variable'] mt-10 ${isLightMode ? 'text-zinc-800' : 'text-zinc-500'}`}>加载中...</p>
+                )}
+              </div>
+            ) : (
             <div className="flex-1 overflow-y-auto custom-scrollbar p-3 space-y-2">
+              <SearchFilterBar
+                filters={historyFilters}
+                tagOptions={historyTagOptions}
+                sourceLabel={historyFilters.sourceId ? `衍生自 #${historyFilters.sourceId}` : undefined}
+                isLightMode={isLightMode}
+                onChange={setHistoryFilters}
+              />
+              {historyStyleFilter && (
+                <div className={`flex items-center justify-between text-[10px] px-1 ${isLightMode ? 'text-zinc-600' : 'text-zinc-400'}`}>
+                  <span>风格：<span className="text-[#F2994A]">{getStyleName(historyStyleFilter)}</span></span>
+                  <button onClick={() => setHistoryStyleFilter(null)} className="hover:text-[#F2994A] transition-colors">清除</button>
+                </div>
+              )}
               {history.map(item => (
-                <div key={item.id} onClick={() => handleRestoreHistory(item)} className={`p-2 border rounded-sm cursor-pointer group transition-all flex gap-3
+                <div key={item.id} onClick={() => handleRestoreHistory(item)} className={`p-2 border rounded-sm cursor-pointer group transition-all flex gap-3 relative
                 ${isLightMode ? 'border-zinc-200 bg-zinc-50 hover:bg-white hover:border-[#F2994A]' : 'border-zinc-700 bg-zinc-800/50 hover:bg-zinc-800 hover:border-[#F2994A]'}`}>
                   <img src={item.url} className={`w-14 h-14 object-cover rounded-sm grayscale group-hover:grayscale-0 transition-all border ${isLightMode ? 'border-zinc-200' : 'border-zinc-700'}`} />
                   <div className="flex-1 overflow-hidden flex flex-col justify-center">
-                    <p className={`text-[10px] font-mono mb-1 ${isLightMode ? 'text-zinc-800' : 'text-zinc-500'}`}>{item.timestamp.toLocaleTimeString()}</p>
+                    <p className={`text-[10px] font-mono mb-1 ${isLightMode ? 'text-zinc-800' : 'text-zinc-500'}`}>{item.timestamp.toLocaleString()}</p>
+                    {item.operation === 'edit' && (
+                      <p className={`text-[10px] truncate mb-1 font-['Noto_Serif_SC_Variable'] ${isLightMode ? 'text-zinc-600' : 'text-zinc-400'}`} title={item.instruction}>
+                        <span className="text-[#F2994A]">编辑</span> · {item.instruction}
+                      </p>
+                    )}
                     <div className="flex flex-wrap gap-1">
-                      {item.tags.slice(0, 3).map(t => <span key={t} className={`text-[9px] border px-1.5 py-0.5 rounded-sm ${isLightMode ? 'bg-white border-zinc-200 text-zinc-500' : 'bg-zinc-800 border-zinc-600 text-zinc-400'}`}>{t}</span>)}
+                      {item.styleId && (
+                        <span onClick={(e) => { e.stopPropagation(); setHistoryStyleFilter(item.styleId!); }} className="text-[9px] border border-[#F2994A]/50 text-[#F2994A] px-1.5 py-0.5 rounded-sm hover:border-[#F2994A]">{getStyleName(item.styleId)}</span>
+                      )}
+                      {item.tags.slice(0, 3).map(t => <span key={t} onClick={(e) => { e.stopPropagation(); if (!historyFilters.tags.includes(t)) setHistoryFilters({ ...historyFilters, tags: [...historyFilters.tags, t] }); }} className={`text-[9px] border px-1.5 py-0.5 rounded-sm hover:border-[#F2994A] ${isLightMode ? 'bg-white border-zinc-200 text-zinc-500' : 'bg-zinc-800 border-zinc-600 text-zinc-400'}`}>{t}</span>)}
                     </div>
+                    {item.avoid && item.avoid.length > 0 && (
+                      <div className="flex flex-wrap gap-1 mt-1" title={item.avoid.map(a => `不要${a}`).join('、')}>
+                        {item.avoid.slice(0, 3).map(a => <span key={a} className="text-[9px] border border-red-400/40 text-red-400 px-1.5 py-0.5 rounded-sm line-through">{a}</span>)}
+                        {item.avoid.length > 3 && <span className="text-[9px] text-red-400">+{item.avoid.length - 3}</span>}
+                      </div>
+                    )}
                   </div>
+                  {item.generationId && (
+                    <div className="absolute top-1 right-1 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                      <button onClick={(e) => { e.stopPropagation(); setHistoryFilters({ ...EMPTY_SEARCH_FILTERS, sourceId: item.generationId }); }} title="筛选衍生结果（编辑 / 延展）" className={isLightMode ? 'text-zinc-400 hover:text-[#F2994A]' : 'text-zinc-500 hover:text-[#F2994A]'}>
+                        <FunnelIcon className="w-3.5 h-3.5" />
+                      </button>
+                      <button onClick={(e) => handleOpenLineage(e, item)} title="查看谱系" className={isLightMode ? 'text-zinc-400 hover:text-[#F2994A]' : 'text-zinc-500 hover:text-[#F2994A]'}>
+                        <RectangleStackIcon className="w-3.5 h-3.5" />
+                      </button>
+                      {item.brief && (
+                        <button onClick={(e) => handleReuseBrief(e, item)} title="复用设计简报" className={isLightMode ? 'text-zinc-400 hover:text-[#F2994A]' : 'text-zinc-500 hover:text-[#F2994A]'}>
+                          <DocumentTextIcon className="w-3.5 h-3.5" />
+                        </button>
+                      )}
+                      {item.sourceUrl && (
+                        <button onClick={(e) => { e.stopPropagation(); setCompareItem(item); }} title="编辑前后对比" className={isLightMode ? 'text-zinc-400 hover:text-[#F2994A]' : 'text-zinc-500 hover:text-[#F2994A]'}>
+                          <ArrowsRightLeftIcon className="w-3.5 h-3.5" />
+                        </button>
+                      )}
+                      <button onClick={(e) => { e.stopPropagation(); setShareTarget({ generationId: item.generationId!, title: item.tags.join(' / ') || item.timestamp.toLocaleString() }); }} title="分享给客户" className={isLightMode ? 'text-zinc-400 hover:text-[#F2994A]' : 'text-zinc-500 hover:text-[#F2994A]'}>
+                        <ShareIcon className="w-3.5 h-3.5" />
+                      </button>
+                      <button onClick={(e) => handleDeleteHistory(e, item)} title="删除记录" className={isLightMode ? 'text-zinc-400 hover:text-red-500' : 'text-zinc-500 hover:text-red-400'}>
+                        <XMarkIcon className="w-3.5 h-3.5" />
+                      </button>
+                    </div>
+                  )}
                 </div>
               ))}
-              {history.length === 0 && <p className={`text-center text-xs font-['Noto_Serif_SC_Variable'] mt-10 ${isLightMode ? 'text-zinc-800' : 'text-zinc-500'}`}>暂无历史记录</p>}
+              {historyHasMore && (
+                <button onClick={() => loadHistory(historyPage + 1, historyFilters, historyStyleFilter)} disabled={isHistoryLoading} className={`w-full py-2 text-[10px] border rounded-sm transition-colors disabled:opacity-50 ${isLightMode ? 'border-zinc-200 text-zinc-600 hover:border-[#F2994A]' : 'border-zinc-700 text-zinc-400 hover:border-[#F2994A]'}`}>
+                  {isHistoryLoading ? '加载中...' : '加载更多'}
+                </button>
+              )}
+              {history.length === 0 && <p className={`text-center text-xs font-['Noto_Serif_SC_Variable'] mt-10 ${isLightMode ? 'text-zinc-800' : 'text-zinc-500'}`}>{isHistoryLoading ? '加载中...' : '暂无历史记录'}</p>}
             </div>
+            )}
           </div>
         )
       }
@@ -3,6 +3,7 @@ import { BrowserRouter, Routes, Route, Navigate, useNavigate, useLocation } from
 import { AuthProvider, useAuth, AuthPage, UserCenter } from './components/auth';
 import { LandingPage } from './components/landing';
 import { AdminDashboard } from './components/admin/AdminDashboard';
+import { SharePage } from './components/share';
 import App from './App';
 
 // Protected Route Component
@@ -118,6 +119,8 @@ function AppRoutes() {
                     <AdminDashboard />
                 </ProtectedRoute>
             } />
+            {/* 只读分享页，无需登录 */}
+            <Route path="/s/:token" element={<SharePage />} />
             {/* Redirect unknown routes to home */}
             <Route path="*" element={<Navigate to="/" replace />} />
         </Routes>
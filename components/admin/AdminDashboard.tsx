@@ -2,6 +2,8 @@ import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../auth/AuthContext';
 import { adminApi } from '../../services/api';
+import { StyleManager } from './StyleManager';
+import { ExperimentManager } from './ExperimentManager';
 import './AdminDashboard.css';
 
 interface Stats {
@@ -56,7 +58,7 @@ export function AdminDashboard() {
     const [searchInput, setSearchInput] = useState('');
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
-    const [activeTab, setActiveTab] = useState<'overview' | 'users'>('overview');
+    const [activeTab, setActiveTab] = useState<'overview' | 'users' | 'styles' | 'experiments'>('overview');
     const [timePeriod, setTimePeriod] = useState<TimePeriod>('today');
 
     // 生成邀请码状态
@@ -221,6 +223,18 @@ export function AdminDashboard() {
                 >
                     👥 用户管理
                 </button>
+                <button
+                    className={`admin-tab ${activeTab === 'styles' ? 'active' : ''}`}
+                    onClick={() => setActiveTab('styles')}
+                >
+                    🎨 风格库
+                </button>
+                <button
+                    className={`admin-tab ${activeTab === 'experiments' ? 'active' : ''}`}
+                    onClick={() => setActiveTab('experiments')}
+                >
+                    🧪 A/B 实验
+                </button>
             </div>
 
             {/* Content */}
@@ -451,6 +465,10 @@ export function AdminDashboard() {
                         )}
                     </section>
                 )}
+
+                {activeTab === 'styles' && <StyleManager />}
+
+                {activeTab === 'experiments' && <ExperimentManager />}
             </main>
         </div>
     );
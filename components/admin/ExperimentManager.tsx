@@ -0,0 +1,177 @@
+import React, { useEffect, useState } from 'react';
+import { adminApi, type ExperimentOutcome, type ExperimentRecord, type PromptVersion } from '../../services/api';
+
+interface VariantDraft {
+    promptVersionId: number;
+    weight: number;
+}
+
+const MAX_VARIANTS = 4;
+
+const OUTCOME_LABELS: Record<ExperimentOutcome, string> = {
+    collect: '收藏率',
+    upscale: '放大率',
+    download: '下载率',
+    regenerate: '立即重生成率',
+};
+
+const formatRate = (count: number, total: number) => total > 0 ? `${(count / total * 100).toFixed(1)}%` : '-';
+
+/**
+ * 提示词 A/B 实验：按流量比例分配提示词版本，对比各分组的结果信号
+ */
+export function ExperimentManager() {
+    const [experiments, setExperiments] = useState<ExperimentRecord[]>([]);
+    const [versions, setVersions] = useState<PromptVersion[]>([]);
+    const [name, setName] = useState('');
+    const [assignment, setAssignment] = useState<'user' | 'request'>('user');
+    const [variants, setVariants] = useState<VariantDraft[]>([]);
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const loadExperiments = () => adminApi.getExperiments()
+        .then(data => setExperiments(data.experiments))
+        .catch(err => setError(err.message || '加载实验失败'));
+
+    useEffect(() => {
+        loadExperiments();
+        adminApi.getPromptVersions()
+            .then(data => {
+                setVersions(data.versions);
+                // 默认对比当前版本与最新版本
+                const active = data.versions.find(v => v.active) || data.versions[0];
+                const latest = data.versions[0];
+                if (active && latest) {
+                    setVariants([{ promptVersionId: active.id, weight: 50 }, { promptVersionId: latest.id, weight: 50 }]);
+                }
+            })
+            .catch(err => setError(err.message || '加载提示词版本失败'));
+    }, []);
+
+    const hasRunning = experiments.some(e => e.status === 'running');
+    const totalWeight = variants.reduce((sum, v) => sum + v.weight, 0);
+
+    const updateVariant = (index: number, patch: Partial<VariantDraft>) => {
+        setVariants(prev => prev.map((v, i) => i === index ? { ...v, ...patch } : v));
+    };
+
+    const handleCreate = async () => {
+        setIsSaving(true);
+        setError(null);
+        try {
+            await adminApi.createExperiment({ name: name.trim(), assignment, variants });
+            setName('');
+            await loadExperiments();
+        } catch (err: any) {
+            setError(err.message || '创建实验失败');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleStop = async (experiment: ExperimentRecord) => {
+        if (!confirm(`停止实验「${experiment.name}」？停止后所有生成恢复使用当前生效的提示词版本。`)) return;
+        try {
+            await adminApi.stopExperiment(experiment.id);
+            await loadExperiments();
+        } catch (err: any) {
+            setError(err.message || '停止实验失败');
+        }
+    };
+
+    const versionLabel = (id: number) => {
+        const version = versions.find(v => v.id === id);
+        return `#${id}${version?.note ? ` ${version.note}` : ''}${version?.active ? '（当前）' : ''}`;
+    };
+
+    return (
+        <section className="admin-users-section">
+            {!hasRunning && (
+                <div className="style-editor experiment-editor">
+                    <div className="style-editor-fields">
+                        <input value={name} onChange={e => setName(e.target.value)} maxLength={100} placeholder="实验名称，如 镜头描述精简版" />
+                        <label className="style-editor-check">
+                            分配方式
+                            <select value={assignment} onChange={e => setAssignment(e.target.value as 'user' | 'request')}>
+                                <option value="user">按用户（同一用户固定分组）</option>
+                                <option value="request">按请求（每次随机）</option>
+                            </select>
+                        </label>
+                        {variants.map((variant, index) => (
+                            <div key={index} className="experiment-variant-row">
+                                <span>分组 {String.fromCharCode(65 + index)}</span>
+                                <select value={variant.promptVersionId} onChange={e => updateVariant(index, { promptVersionId: Number(e.target.value) })}>
+                                    {versions.map(v => <option key={v.id} value={v.id}>{versionLabel(v.id)}</option>)}
+                                </select>
+                                <input type="number" min={1} max={99} value={variant.weight} onChange={e => updateVariant(index, { weight: parseInt(e.target.value) || 0 })} />
+                                <span>%</span>
+                                {variants.length > 2 && (
+                                    <button className="style-link danger" onClick={() => setVariants(prev => prev.filter((_, i) => i !== index))}>移除</button>
+                                )}
+                            </div>
+                        ))}
+                        <div className="admin-search">
+                            <button
+                                onClick={() => setVariants(prev => [...prev, { promptVersionId: versions[0]?.id, weight: 0 }])}
+                                disabled={variants.length >= MAX_VARIANTS || versions.length === 0}
+                                className="clear-btn"
+                            >
+                                + 添加分组
+                            </button>
+                            <button onClick={handleCreate} disabled={isSaving || !name.trim() || totalWeight !== 100}>
+                                {isSaving ? '创建中...' : `开始实验（流量合计 ${totalWeight}%）`}
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            {error && <p className="style-error">{error}</p>}
+
+            {experiments.length === 0 && <p className="experiment-empty">暂无实验</p>}
+            {experiments.map(experiment => (
+                <div key={experiment.id} className="experiment-card">
+                    <div className="experiment-header">
+                        <h3>{experiment.name}</h3>
+                        <span className={`experiment-status ${experiment.status}`}>{experiment.status === 'running' ? '进行中' : '已停止'}</span>
+                        <span className="experiment-meta">
+                            {experiment.assignment === 'user' ? '按用户分配' : '按请求分配'} · {new Date(experiment.createdAt).toLocaleDateString()}
+                            {experiment.stoppedAt && ` - ${new Date(experiment.stoppedAt).toLocaleDateString()}`}
+                        </span>
+                        {experiment.status === 'running' && (
+                            <button className="style-link danger" onClick={() => handleStop(experiment)}>停止</button>
+                        )}
+                    </div>
+                    <div className="admin-table-container">
+                        <table className="admin-table">
+                            <thead>
+                                <tr>
+                                    <th>分组</th>
+                                    <th>提示词版本</th>
+                                    <th>流量</th>
+                                    <th>生成数</th>
+                                    {Object.values(OUTCOME_LABELS).map(label => <th key={label}>{label}</th>)}
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {experiment.results.map(result => (
+                                    <tr key={result.variant}>
+                                        <td className="experiment-variant">{result.variant}</td>
+                                        <td>{versionLabel(result.promptVersionId)}</td>
+                                        <td>{result.weight}%</td>
+                                        <td>{result.generations}</td>
+                                        {(Object.keys(OUTCOME_LABELS) as ExperimentOutcome[]).map(type => (
+                                            <td key={type} title={`${result.outcomes[type]} / ${result.generations}`}>
+                                                {formatRate(result.outcomes[type], result.generations)}
+                                            </td>
+                                        ))}
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+            ))}
+        </section>
+    );
+}
@@ -0,0 +1,201 @@
+import React, { useEffect, useState } from 'react';
+import { adminApi, type StyleRecord, type StyleInput } from '../../services/api';
+import { fileToBase64 } from '../../services/imageProcessor';
+
+interface StyleDraft {
+    id: number | null;          // 为空表示新建
+    name: string;
+    description: string;
+    palette: string;            // 逗号分隔的 #RRGGBB
+    materials: string;          // 逗号分隔的材质关键词
+    enabled: boolean;
+    thumbnailUrl: string | null;
+    thumbnail?: string | null;  // 新上传的缩略图 Data URL；null 表示移除
+}
+
+const EMPTY_DRAFT: StyleDraft = { id: null, name: '', description: '', palette: '', materials: '', enabled: true, thumbnailUrl: null };
+
+const splitList = (value: string) => value.split(/[,，]/).map(item => item.trim()).filter(Boolean);
+
+const toDraft = (style: StyleRecord): StyleDraft => ({
+    id: style.id,
+    name: style.name,
+    description: style.description,
+    palette: style.palette.join(', '),
+    materials: style.materials.join(', '),
+    enabled: style.enabled,
+    thumbnailUrl: style.thumbnailUrl,
+});
+
+/**
+ * 风格库管理：新建 / 编辑 / 停用 / 删除 / 调整顺序
+ */
+export function StyleManager() {
+    const [styles, setStyles] = useState<StyleRecord[]>([]);
+    const [draft, setDraft] = useState<StyleDraft | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        adminApi.getStyles()
+            .then(data => setStyles(data.styles))
+            .catch(err => setError(err.message || '加载风格库失败'));
+    }, []);
+
+    const replaceStyle = (style: StyleRecord) => {
+        setStyles(prev => prev.some(s => s.id === style.id) ? prev.map(s => s.id === style.id ? style : s) : [...prev, style]);
+    };
+
+    const handleSave = async () => {
+        if (!draft) return;
+        setIsSaving(true);
+        setError(null);
+        try {
+            const input: StyleInput = {
+                name: draft.name,
+                description: draft.description,
+                palette: splitList(draft.palette),
+                materials: splitList(draft.materials),
+                enabled: draft.enabled,
+                thumbnail: draft.thumbnail,
+            };
+            const { style } = draft.id ? await adminApi.updateStyle(draft.id, input) : await adminApi.createStyle(input);
+            replaceStyle(style);
+            setDraft(null);
+        } catch (err: any) {
+            setError(err.message || '保存失败');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleToggle = async (style: StyleRecord) => {
+        try {
+            replaceStyle((await adminApi.updateStyle(style.id, { enabled: !style.enabled })).style);
+        } catch (err: any) {
+            setError(err.message || '更新失败');
+        }
+    };
+
+    // 与相邻风格交换排序值
+    const handleMove = async (index: number, offset: number) => {
+        const current = styles[index];
+        const target = styles[index + offset];
+        if (!current || !target) return;
+        try {
+            const [a, b] = await Promise.all([
+                adminApi.updateStyle(current.id, { sortOrder: target.sortOrder }),
+                adminApi.updateStyle(target.id, { sortOrder: current.sortOrder }),
+            ]);
+            const reordered = [...styles];
+            reordered[index] = b.style;
+            reordered[index + offset] = a.style;
+            setStyles(reordered);
+        } catch (err: any) {
+            setError(err.message || '排序失败');
+        }
+    };
+
+    const handleDelete = async (style: StyleRecord) => {
+        if (!confirm(`删除风格「${style.name}」？历史记录中的风格关联会保留。`)) return;
+        try {
+            await adminApi.deleteStyle(style.id);
+            setStyles(prev => prev.filter(s => s.id !== style.id));
+        } catch (err: any) {
+            setError(err.message || '删除失败');
+        }
+    };
+
+    const handleThumbnail = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file || !draft) return;
+        const dataUrl = await fileToBase64(file);
+        setDraft({ ...draft, thumbnail: dataUrl, thumbnailUrl: dataUrl });
+    };
+
+    return (
+        <section className="admin-users-section">
+            <div className="admin-search">
+                <button onClick={() => setDraft({ ...EMPTY_DRAFT })}>+ 新建风格</button>
+            </div>
+
+            {error && <p className="style-error">{error}</p>}
+
+            {draft && (
+                <div className="style-editor">
+                    <div className="style-editor-thumb">
+                        {draft.thumbnailUrl ? <img src={draft.thumbnailUrl} /> : <span>无缩略图</span>}
+                        <label>
+                            上传
+                            <input type="file" accept="image/png,image/jpeg,image/webp" onChange={handleThumbnail} hidden />
+                        </label>
+                        {draft.thumbnailUrl && <button onClick={() => setDraft({ ...draft, thumbnail: null, thumbnailUrl: null })}>移除</button>}
+                    </div>
+                    <div className="style-editor-fields">
+                        <input value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} maxLength={50} placeholder="名称，如 日式侘寂 Japandi" />
+                        <textarea value={draft.description} onChange={e => setDraft({ ...draft, description: e.target.value })} maxLength={500} rows={3} placeholder="风格描述（写入生成提示词，建议英文）" />
+                        <input value={draft.palette} onChange={e => setDraft({ ...draft, palette: e.target.value })} placeholder="色板，如 #EDE6DB, #8A7866（最多 8 个）" />
+                        <input value={draft.materials} onChange={e => setDraft({ ...draft, materials: e.target.value })} placeholder="材质关键词，如 light oak, linen（最多 12 个）" />
+                        <label className="style-editor-check">
+                            <input type="checkbox" checked={draft.enabled} onChange={e => setDraft({ ...draft, enabled: e.target.checked })} /> 启用
+                        </label>
+                        <div className="admin-search">
+                            <button onClick={handleSave} disabled={isSaving || !draft.name.trim()}>{isSaving ? '保存中...' : '保存'}</button>
+                            <button onClick={() => setDraft(null)} className="clear-btn">取消</button>
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            <div className="admin-table-container">
+                <table className="admin-table">
+                    <thead>
+                        <tr>
+                            <th>顺序</th>
+                            <th>预览</th>
+                            <th>名称</th>
+                            <th>材质关键词</th>
+                            <th>状态</th>
+                            <th>操作</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {styles.length === 0 ? (
+                            <tr>
+                                <td colSpan={6} className="empty-cell">暂无风格</td>
+                            </tr>
+                        ) : (
+                            styles.map((style, index) => (
+                                <tr key={style.id} className={style.enabled ? '' : 'style-row-disabled'}>
+                                    <td className="style-order-cell">
+                                        <button onClick={() => handleMove(index, -1)} disabled={index === 0}>↑</button>
+                                        <button onClick={() => handleMove(index, 1)} disabled={index === styles.length - 1}>↓</button>
+                                    </td>
+                                    <td>
+                                        {style.thumbnailUrl ? (
+                                            <img src={style.thumbnailUrl} className="style-thumb" />
+                                        ) : (
+                                            <div className="style-palette">
+                                                {style.palette.map(color => <span key={color} style={{ backgroundColor: color }} />)}
+                                            </div>
+                                        )}
+                                    </td>
+                                    <td className="email-cell" title={style.description}>{style.name}</td>
+                                    <td className="inviter-cell">{style.materials.join(', ') || '-'}</td>
+                                    <td>
+                                        <button className="style-link" onClick={() => handleToggle(style)}>{style.enabled ? '启用中' : '已停用'}</button>
+                                    </td>
+                                    <td>
+                                        <button className="style-link" onClick={() => setDraft(toDraft(style))}>编辑</button>
+                                        <button className="style-link danger" onClick={() => handleDelete(style)}>删除</button>
+                                    </td>
+                                </tr>
+                            ))
+                        )}
+                    </tbody>
+                </table>
+            </div>
+        </section>
+    );
+}
@@ -1,6 +1,6 @@
 import React, { useEffect, useState } from 'react';
 import { useAuth } from './AuthContext';
-import { inviteApi } from '../../services/api';
+import { inviteApi, shareApi, getShareUrl, type ShareRecord } from '../../services/api';
 import { generateInviteShareText } from '../../utils/inviteTemplate';
 import { XMarkIcon, TicketIcon, DocumentDuplicateIcon, GiftIcon, CheckCircleIcon, ShareIcon, LinkIcon } from '@heroicons/react/24/outline';
 
@@ -395,6 +395,9 @@ export function UserCenter({ onClose, isLightMode = false }: UserCenterProps) {
 
         </div>
 
+        {/* 我的分享链接 */}
+        <ShareLinksSection isLightMode={isLightMode} />
+
         {/* 底部操作 */}
         <div className={`mt-8 pt-6 border-t flex justify-center ${isLightMode ? 'border-zinc-200' : 'border-zinc-800'}`}>
           <LogoutButton onClose={onClose} isLightMode={isLightMode} />
@@ -426,3 +429,104 @@ function LogoutButton({ onClose, isLightMode }: { onClose: () => void; isLightMo
     </button>
   );
 }
+
+const SHARE_STATUS_LABELS: Record<ShareRecord['status'], string> = {
+  active: '有效',
+  expired: '已过期',
+  revoked: '已撤销',
+};
+
+// 分享链接列表（可复制 / 撤销）
+function ShareLinksSection({ isLightMode }: { isLightMode: boolean }) {
+  const [shares, setShares] = useState<ShareRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [copiedId, setCopiedId] = useState<number | null>(null);
+
+  useEffect(() => {
+    shareApi.list()
+      .then(data => setShares(data.shares || []))
+      .catch(error => console.error('Failed to fetch shares:', error))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const handleCopy = async (share: ShareRecord) => {
+    try {
+      await navigator.clipboard.writeText(getShareUrl(share.token));
+      setCopiedId(share.id);
+      setTimeout(() => setCopiedId(null), 2000);
+    } catch {
+      alert('复制失败，请手动复制链接：' + getShareUrl(share.token));
+    }
+  };
+
+  const handleRevoke = async (share: ShareRecord) => {
+    if (!confirm(`撤销「${share.title}」的分享链接？撤销后客户将无法访问。`)) return;
+    try {
+      await shareApi.revoke(share.id);
+      setShares(prev => prev.map(s => s.id === share.id ? { ...s, status: 'revoked', revokedAt: new Date().toISOString() } : s));
+    } catch (error: any) {
+      alert(error.message || '撤销失败');
+    }
+  };
+
+  return (
+    <div className={`mt-8 pt-6 border-t flex flex-col gap-4 ${isLightMode ? 'border-zinc-200' : 'border-zinc-800'}`}>
+      <div className="flex items-center gap-2">
+        <ShareIcon className={`w-4 h-4 ${isLightMode ? 'text-zinc-400' : 'text-zinc-500'}`} />
+        <span className={`text-[10px] tracking-wider font-['Noto_Serif_SC_Variable'] ${isLightMode ? 'text-zinc-400' : 'text-zinc-500'}`}>我的分享</span>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-6">
+          <div className={`w-5 h-5 border-2 border-t-transparent rounded-full animate-spin ${isLightMode ? 'border-zinc-300' : 'border-zinc-600'}`} />
+        </div>
+      ) : shares.length === 0 ? (
+        <p className={`text-xs font-['Noto_Serif_SC_Variable'] ${isLightMode ? 'text-zinc-400' : 'text-zinc-600'}`}>暂无分享链接，可在收藏看板或历史记录中创建</p>
+      ) : (
+        <div className="space-y-1.5 max-h-64 overflow-y-auto custom-scrollbar pr-1">
+          {shares.map(share => (
+            <div
+              key={share.id}
+              className={`flex items-center gap-3 p-3 border rounded-md text-xs font-['Noto_Serif_SC_Variable']
+                ${share.status !== 'active' ? 'opacity-50' : ''}
+                ${isLightMode ? 'border-zinc-100 bg-white' : 'border-white/5 bg-white/5'}`}
+            >
+              <div className="flex-1 min-w-0">
+                <p className={`truncate ${isLightMode ? 'text-zinc-700' : 'text-zinc-200'}`}>
+                  {share.title}
+                  {share.hasPassword && <span className={`ml-2 text-[9px] ${isLightMode ? 'text-zinc-400' : 'text-zinc-500'}`}>密码</span>}
+                </p>
+                <p className={`text-[10px] mt-0.5 font-mono ${isLightMode ? 'text-zinc-400' : 'text-zinc-500'}`}>
+                  {SHARE_STATUS_LABELS[share.status]} · 浏览 {share.viewCount}
+                  {share.expiresAt && ` · 至 ${new Date(share.expiresAt).toLocaleDateString()}`}
+                </p>
+              </div>
+              {share.status === 'active' && (
+                <>
+                  <button
+                    onClick={() => handleCopy(share)}
+                    className={`flex items-center gap-1.5 px-3 py-1.5 rounded-md text-[10px] border transition-all
+                      ${isLightMode
+                        ? 'bg-zinc-50 border-zinc-200 hover:bg-zinc-100 text-zinc-500 hover:text-cyan-600'
+                        : 'bg-transparent border-white/10 hover:bg-white/10 text-zinc-400 hover:text-white'}`}
+                  >
+                    {copiedId === share.id ? '已复制' : <><DocumentDuplicateIcon className="w-3 h-3" />复制</>}
+                  </button>
+                  <button
+                    onClick={() => handleRevoke(share)}
+                    className={`px-3 py-1.5 rounded-md text-[10px] border transition-all
+                      ${isLightMode
+                        ? 'border-zinc-200 text-zinc-400 hover:text-red-500 hover:border-red-200'
+                        : 'border-white/10 text-zinc-500 hover:text-red-400 hover:border-red-400/30'}`}
+                  >
+                    撤销
+                  </button>
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
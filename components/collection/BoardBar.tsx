@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { PlusIcon, PencilSquareIcon, TrashIcon, ArrowDownTrayIcon, ShareIcon, CheckIcon, XMarkIcon } from '@heroicons/react/24/outline';
+
+// 'all' = 全部收藏, 'unsorted' = 未分组, number = 看板 ID
+export type BoardFilter = 'all' | 'unsorted' | number;
+
+export interface BoardSummary {
+  id: number;
+  name: string;
+  coverUrl: string | null;
+  itemCount: number;
+}
+
+interface BoardBarProps {
+  boards: BoardSummary[];
+  active: BoardFilter;
+  totalCount: number;
+  unsortedCount: number;
+  isLightMode?: boolean;
+  isExporting?: boolean;
+  onSelect: (filter: BoardFilter) => void;
+  onCreate: (name: string) => Promise<void>;
+  onRename: (id: number, name: string) => Promise<void>;
+  onDelete: (id: number) => void;
+  onExport: (id: number) => void;
+  onShare: (id: number) => void;
+}
+
+/**
+ * 收藏面板顶部的看板切换栏
+ * 桌面端右侧面板与移动端收藏 Tab 共用
+ */
+export function BoardBar({
+  boards,
+  active,
+  totalCount,
+  unsortedCount,
+  isLightMode = false,
+  isExporting = false,
+  onSelect,
+  onCreate,
+  onRename,
+  onDelete,
+  onExport,
+  onShare,
+}: BoardBarProps) {
+  // 'new' = 新建看板输入框, number = 正在重命名的看板
+  const [editing, setEditing] = useState<'new' | number | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  const activeBoard = typeof active === 'number' ? boards.find(b => b.id === active) : undefined;
+
+  const startEditing = (target: 'new' | number, name = '') => {
+    setEditing(target);
+    setDraftName(name);
+  };
+
+  const submitEditing = async () => {
+    const name = draftName.trim();
+    if (!name) { setEditing(null); return; }
+    try {
+      if (editing === 'new') await onCreate(name);
+      else if (typeof editing === 'number') await onRename(editing, name);
+      setEditing(null);
+    } catch (err: any) {
+      alert(err.message || '保存看板失败');
+    }
+  };
+
+  const chipClass = (isActive: boolean) => `shrink-0 flex items-center gap-1.5 h-7 px-2 border rounded-sm text-[10px] font-['Noto_Serif_SC_Variable'] tracking-wide transition-colors
+    ${isActive
+      ? (isLightMode ? 'border-zinc-900 bg-zinc-900 text-white' : 'border-white bg-white text-black')
+      : (isLightMode ? 'border-zinc-200 text-zinc-500 hover:border-zinc-400' : 'border-zinc-700 text-zinc-400 hover:border-zinc-500')}`;
+
+  const iconButtonClass = `p-1 transition-colors ${isLightMode ? 'text-zinc-400 hover:text-zinc-800' : 'text-zinc-500 hover:text-white'}`;
+
+  return (
+    <div className="px-2 pb-2 space-y-1.5">
+      <div className="flex gap-1.5 overflow-x-auto custom-scrollbar pb-1">
+        <button onClick={() => onSelect('all')} className={chipClass(active === 'all')}>全部 {totalCount}</button>
+        <button onClick={() => onSelect('unsorted')} className={chipClass(active === 'unsorted')}>未分组 {unsortedCount}</button>
+        {boards.map(board => (
+          <button key={board.id} onClick={() => onSelect(board.id)} className={chipClass(active === board.id)} title={board.name}>
+            {board.coverUrl && <img src={board.coverUrl} className="w-4 h-4 object-cover rounded-sm" />}
+            <span className="max-w-[80px] truncate">{board.name}</span>
+            <span className="opacity-60">{board.itemCount}</span>
+          </button>
+        ))}
+        {editing === 'new' ? (
+          <input
+            autoFocus
+            value={draftName}
+            onChange={e => setDraftName(e.target.value)}
+            onKeyDown={e => { if (e.key === 'Enter') submitEditing(); if (e.key === 'Escape') setEditing(null); }}
+            onBlur={submitEditing}
+            maxLength={100}
+            placeholder="看板名称"
+            className={`shrink-0 w-28 h-7 px-2 text-[10px] border rounded-sm outline-none ${isLightMode ? 'bg-white border-zinc-400 text-zinc-800' : 'bg-zinc-900 border-zinc-500 text-zinc-200'}`}
+          />
+        ) : (
+          <button onClick={() => startEditing('new')} className={chipClass(false)} title="新建看板">
+            <PlusIcon className="w-3 h-3" /> 新建
+          </button>
+        )}
+      </div>
+
+      {activeBoard && (
+        <div className={`flex items-center gap-1 text-[10px] ${isLightMode ? 'text-zinc-500' : 'text-zinc-400'}`}>
+          {editing === activeBoard.id ? (
+            <>
+              <input
+                autoFocus
+                value={draftName}
+                onChange={e => setDraftName(e.target.value)}
+                onKeyDown={e => { if (e.key === 'Enter') submitEditing(); if (e.key === 'Escape') setEditing(null); }}
+                maxLength={100}
+                className={`flex-1 min-w-0 h-6 px-2 border rounded-sm outline-none ${isLightMode ? 'bg-white border-zinc-400 text-zinc-800' : 'bg-zinc-900 border-zinc-500 text-zinc-200'}`}
+              />
+              <button onClick={submitEditing} className={iconButtonClass} title="保存"><CheckIcon className="w-3.5 h-3.5" /></button>
+              <button onClick={() => setEditing(null)} className={iconButtonClass} title="取消"><XMarkIcon className="w-3.5 h-3.5" /></button>
+            </>
+          ) : (
+            <>
+              <span className="flex-1 truncate font-['Noto_Serif_SC_Variable']">{activeBoard.name}</span>
+              <button onClick={() => startEditing(activeBoard.id, activeBoard.name)} className={iconButtonClass} title="重命名"><PencilSquareIcon className="w-3.5 h-3.5" /></button>
+              <button onClick={() => onShare(activeBoard.id)} className={iconButtonClass} title="分享给客户"><ShareIcon className="w-3.5 h-3.5" /></button>
+              <button onClick={() => onExport(activeBoard.id)} disabled={isExporting || activeBoard.itemCount === 0} className={`${iconButtonClass} disabled:opacity-40`} title="导出看板 ZIP"><ArrowDownTrayIcon className="w-3.5 h-3.5" /></button>
+              <button onClick={() => onDelete(activeBoard.id)} className={`p-1 transition-colors ${isLightMode ? 'text-zinc-400 hover:text-red-500' : 'text-zinc-500 hover:text-red-400'}`} title="删除看板"><TrashIcon className="w-3.5 h-3.5" /></button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowDownTrayIcon, ArrowPathIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { collectionApi, type CollectionRecord, type MaterialScheduleRow } from '../../services/api';
+
+export interface MaterialScheduleTarget {
+  collectionId: number;
+  url: string;
+  materials: MaterialScheduleRow[] | null;
+}
+
+interface MaterialScheduleDialogProps {
+  target: MaterialScheduleTarget;
+  onClose: () => void;
+  onUpdated: (record: CollectionRecord) => void;
+  isLightMode?: boolean;
+}
+
+// 材质清单列（顺序即表格与 CSV 的列顺序）
+export const MATERIAL_SCHEDULE_COLUMNS: { key: keyof MaterialScheduleRow; label: string }[] = [
+  { key: 'element', label: '部位' },
+  { key: 'material', label: '材料' },
+  { key: 'finish', label: '表面处理' },
+  { key: 'color', label: '颜色' },
+  { key: 'colorCode', label: 'RAL / Pantone' },
+  { key: 'supplierCategory', label: '供应商类别' },
+];
+
+/**
+ * 材质清单 → CSV（带 BOM，Excel 直接打开不乱码）
+ */
+export function toMaterialScheduleCsv(rows: MaterialScheduleRow[]): string {
+  const escape = (value: string) => /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  const lines = [
+    MATERIAL_SCHEDULE_COLUMNS.map(column => column.label),
+    ...rows.map(row => MATERIAL_SCHEDULE_COLUMNS.map(column => row[column.key])),
+  ];
+  return '﻿' + lines.map(line => line.map(escape).join(',')).join('\r\n');
+}
+
+/**
+ * 收藏裁切图的材质清单：首次打开自动分析，可重新分析或导出 CSV
+ * 结果保存在收藏条目上，ZIP 导出时一并打包
+ */
+export function MaterialScheduleDialog({ target, onClose, onUpdated, isLightMode = false }: MaterialScheduleDialogProps) {
+  const [rows, setRows] = useState<MaterialScheduleRow[] | null>(target.materials);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleAnalyze = async () => {
+    setIsAnalyzing(true);
+    setError(null);
+    try {
+      const { item } = await collectionApi.analyzeMaterials(target.collectionId);
+      setRows(item.materials);
+      onUpdated(item);
+    } catch (err: any) {
+      setError(err.message || '材质分析失败');
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!target.materials) handleAnalyze();
+  }, [target.collectionId]);
+
+  const handleExportCsv = () => {
+    if (!rows) return;
+    const blob = new Blob([toMaterialScheduleCsv(rows)], { type: 'text/csv;charset=utf-8' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = `materials_${target.collectionId}.csv`;
+    link.click();
+    URL.revokeObjectURL(link.href);
+  };
+
+  const buttonClass = `inline-flex items-center gap-1 px-3 h-8 text-[10px] border rounded-sm transition-colors disabled:opacity-40 font-['Noto_Serif_SC_Variable']
+    ${isLightMode ? 'border-zinc-200 text-zinc-600 hover:border-zinc-400' : 'border-zinc-700 text-zinc-300 hover:border-zinc-500'}`;
+  const cellClass = `px-2 py-1.5 text-left align-top border-b ${isLightMode ? 'border-zinc-100' : 'border-zinc-800'}`;
+
+  return (
+    <div className={`fixed inset-0 z-[2000] flex items-center justify-center backdrop-blur-md p-4 ${isLightMode ? 'bg-black/40' : 'bg-black/60'}`} onClick={onClose}>
+      <div
+        className={`relative w-full max-w-3xl max-h-[85vh] flex flex-col p-6 rounded-lg shadow-2xl border gap-4
+          ${isLightMode ? 'bg-white/95 border-zinc-200 text-zinc-800' : 'bg-zinc-950/95 border-zinc-800 text-zinc-200'}`}
+        onClick={e => e.stopPropagation()}
+      >
+        <button onClick={onClose} className={`absolute top-4 right-4 transition-colors ${isLightMode ? 'text-zinc-400 hover:text-zinc-800' : 'text-zinc-500 hover:text-white'}`}>
+          <XMarkIcon className="w-5 h-5" />
+        </button>
+
+        <div className="flex items-center gap-3 pr-8">
+          <img src={target.url} className="w-12 h-12 object-cover rounded-sm" />
+          <div className="flex-1">
+            <h3 className="text-sm font-bold tracking-[0.15em] font-['Noto_Serif_SC_Variable']">材质清单</h3>
+            <p className={`text-[10px] mt-1 ${isLightMode ? 'text-zinc-400' : 'text-zinc-500'}`}>由 AI 根据画面推测，色号为近似值，下单前请与供应商核对实样</p>
+          </div>
+          <button onClick={handleAnalyze} disabled={isAnalyzing} className={buttonClass}>
+            <ArrowPathIcon className={`w-3 h-3 ${isAnalyzing ? 'animate-spin' : ''}`} /> {rows ? '重新分析' : '分析'}
+          </button>
+          <button onClick={handleExportCsv} disabled={!rows || isAnalyzing} className={buttonClass}>
+            <ArrowDownTrayIcon className="w-3 h-3" /> 导出 CSV
+          </button>
+        </div>
+
+        {error && <p className="text-xs text-red-500">{error}</p>}
+
+        <div className="overflow-auto custom-scrollbar">
+          {isAnalyzing && !rows ? (
+            <p className={`py-8 text-center text-xs animate-pulse font-['Noto_Serif_SC_Variable'] ${isLightMode ? 'text-zinc-500' : 'text-zinc-400'}`}>正在识别材质...</p>
+          ) : rows && (
+            <table className={`w-full text-[11px] ${isAnalyzing ? 'opacity-50' : ''}`}>
+              <thead>
+                <tr className={isLightMode ? 'text-zinc-500' : 'text-zinc-400'}>
+                  {MATERIAL_SCHEDULE_COLUMNS.map(column => <th key={column.key} className={`${cellClass} font-medium`}>{column.label}</th>)}
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row, index) => (
+                  <tr key={index}>
+                    {MATERIAL_SCHEDULE_COLUMNS.map(column => <td key={column.key} className={cellClass}>{row[column.key] || '-'}</td>)}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { FunnelIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { COLOR_TONES } from '../../services/imageProcessor';
+
+export interface SearchFilters {
+  tags: string[];           // 需全部包含
+  from: string;             // YYYY-MM-DD，空字符串表示不限
+  to: string;
+  level: number | null;     // 创意等级 1-5
+  sourceId: number | null;  // 来源生成记录（收藏：裁切来源；历史：编辑 / 延展 / 放大的来源）
+  color: string | null;     // #rrggbb，结果按色板接近程度排序
+}
+
+export const EMPTY_SEARCH_FILTERS: SearchFilters = { tags: [], from: '', to: '', level: null, sourceId: null, color: null };
+
+export const countActiveFilters = (filters: SearchFilters) =>
+  filters.tags.length + (filters.from || filters.to ? 1 : 0) + (filters.level ? 1 : 0) + (filters.sourceId ? 1 : 0) + (filters.color ? 1 : 0);
+
+const LEVEL_LABELS = ['参考图主导', '参考图偏重', '平衡模式', '提示词偏重', '提示词主导'];
+
+interface SearchFilterBarProps {
+  filters: SearchFilters;
+  tagOptions: string[];
+  sourceLabel?: string;     // 来源记录的显示名称，如 "来源 #12"
+  isLightMode?: boolean;
+  onChange: (filters: SearchFilters) => void;
+}
+
+/**
+ * 收藏 / 历史的检索栏：标签、日期范围、来源生成、创意等级与颜色
+ * 条件由服务端检索，指定颜色时结果按色板与该颜色的接近程度排序
+ */
+export function SearchFilterBar({ filters, tagOptions, sourceLabel, isLightMode = false, onChange }: SearchFilterBarProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const activeCount = countActiveFilters(filters);
+  const update = (patch: Partial<SearchFilters>) => onChange({ ...filters, ...patch });
+  const toggleTag = (tag: string) => update({ tags: filters.tags.includes(tag) ? filters.tags.filter(t => t !== tag) : [...filters.tags, tag] });
+
+  // 已选标签不在候选中时（如从其他入口带入）也要能取消
+  const tags = [...filters.tags.filter(tag => !tagOptions.includes(tag)), ...tagOptions];
+
+  const labelClass = `w-10 shrink-0 text-[10px] font-['Noto_Serif_SC_Variable'] ${isLightMode ? 'text-zinc-400' : 'text-zinc-500'}`;
+  const chipClass = (active: boolean) => `px-2 h-5 text-[10px] border rounded-sm transition-colors font-['Noto_Serif_SC_Variable']
+    ${active
+      ? (isLightMode ? 'border-zinc-900 bg-zinc-900 text-white' : 'border-white bg-white text-black')
+      : (isLightMode ? 'border-zinc-200 text-zinc-500 hover:border-zinc-400' : 'border-zinc-700 text-zinc-400 hover:border-zinc-500')}`;
+  const dateClass = `flex-1 min-w-0 px-1 h-6 text-[10px] border rounded-sm outline-none
+    ${isLightMode ? 'bg-white border-zinc-200 focus:border-zinc-500' : 'bg-zinc-900 border-zinc-700 focus:border-zinc-400 text-zinc-200 [color-scheme:dark]'}`;
+
+  return (
+    <div className="mb-2">
+      <div className="flex items-center gap-1.5">
+        <button onClick={() => setIsExpanded(!isExpanded)} className={`${chipClass(isExpanded)} inline-flex items-center gap-1`}>
+          <FunnelIcon className="w-3 h-3" /> 筛选{activeCount > 0 && <span className="text-[#F2994A]">· {activeCount}</span>}
+        </button>
+        {filters.color && (
+          <span className="w-3.5 h-3.5 rounded-full border border-white/40 shrink-0" style={{ backgroundColor: filters.color }} title={`按 ${filters.color.toUpperCase()} 排序`} />
+        )}
+        {activeCount > 0 && (
+          <button onClick={() => onChange(EMPTY_SEARCH_FILTERS)} className={`ml-auto text-[10px] transition-colors hover:text-[#F2994A] ${isLightMode ? 'text-zinc-400' : 'text-zinc-500'}`}>
+            清除
+          </button>
+        )}
+      </div>
+
+      {isExpanded && (
+        <div className={`mt-1.5 p-2 space-y-2 border rounded-sm ${isLightMode ? 'border-zinc-200' : 'border-zinc-800'}`}>
+          {tags.length > 0 && (
+            <div className="flex items-start gap-1.5">
+              <span className={`${labelClass} leading-5`}>标签</span>
+              <div className="flex flex-wrap gap-1">
+                {tags.map(tag => <button key={tag} onClick={() => toggleTag(tag)} className={chipClass(filters.tags.includes(tag))}>{tag}</button>)}
+              </div>
+            </div>
+          )}
+
+          <div className="flex items-center gap-1.5">
+            <span className={labelClass}>日期</span>
+            <input type="date" value={filters.from} max={filters.to || undefined} onChange={e => update({ from: e.target.value })} className={dateClass} />
+            <span className={`text-[10px] ${isLightMode ? 'text-zinc-400' : 'text-zinc-500'}`}>-</span>
+            <input type="date" value={filters.to} min={filters.from || undefined} onChange={e => update({ to: e.target.value })} className={dateClass} />
+          </div>
+
+          <div className="flex items-center gap-1.5">
+            <span className={labelClass}>等级</span>
+            <div className="flex gap-1">
+              {LEVEL_LABELS.map((label, index) => (
+                <button key={label} title={label} onClick={() => update({ level: filters.level === index + 1 ? null : index + 1 })} className={chipClass(filters.level === index + 1)}>
+                  {index + 1}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex items-center gap-1.5">
+            <span className={labelClass}>颜色</span>
+            <div className="flex flex-wrap items-center gap-1">
+              {COLOR_TONES.map(tone => (
+                <button
+                  key={tone.id}
+                  title={`${tone.zh} ${tone.en}`}
+                  onClick={() => update({ color: filters.color === tone.hex ? null : tone.hex })}
+                  className={`w-3.5 h-3.5 rounded-full border transition-transform hover:scale-125
+                    ${filters.color === tone.hex ? 'ring-2 ring-[#F2994A] border-transparent' : 'border-white/40'}`}
+                  style={{ backgroundColor: tone.hex }}
+                />
+              ))}
+              <input
+                type="color"
+                value={filters.color || '#888888'}
+                onChange={e => update({ color: e.target.value })}
+                title="自定义颜色"
+                className="w-5 h-4 p-0 border-0 bg-transparent cursor-pointer"
+              />
+            </div>
+          </div>
+
+          {filters.sourceId !== null && (
+            <div className="flex items-center gap-1.5">
+              <span className={labelClass}>来源</span>
+              <span className="inline-flex items-center gap-0.5 px-2 h-5 text-[10px] border border-[#F2994A]/50 text-[#F2994A] rounded-sm">
+                {sourceLabel || `#${filters.sourceId}`}
+                <button onClick={() => update({ sourceId: null })} className="hover:text-red-500"><XMarkIcon className="w-3 h-3" /></button>
+              </span>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+import React, { useEffect, useState } from 'react';
+import { XMarkIcon } from '@heroicons/react/24/outline';
+import { userApi, type SimilarImage } from '../../services/api';
+import { GRID_LAYOUTS } from '../../services/imageProcessor';
+
+interface SimilarImagesDialogProps {
+  imageId: string;          // g{生成记录 ID}-{单元格序号} / g{生成记录 ID} / c{收藏 ID}
+  onClose: () => void;
+  onOpenGeneration: (image: SimilarImage) => void;
+  isLightMode?: boolean;
+}
+
+/**
+ * 缩略图：宫格图的单元格结果按布局只显示对应的那一格
+ */
+function SimilarThumb({ image, className }: { image: SimilarImage; className: string }) {
+  const { rows, cols } = image.cell !== null && image.gridLayout ? GRID_LAYOUTS[image.gridLayout] : { rows: 1, cols: 1 };
+  if (image.cell === null || rows * cols === 1) {
+    return <img src={image.url} className={`${className} object-cover`} />;
+  }
+  const row = Math.floor(image.cell / cols);
+  const col = image.cell % cols;
+  return (
+    <div
+      className={`${className} bg-no-repeat`}
+      style={{
+        backgroundImage: `url(${image.url})`,
+        backgroundSize: `${cols * 100}% ${rows * 100}%`,
+        backgroundPosition: `${cols > 1 ? col / (cols - 1) * 100 : 0}% ${rows > 1 ? row / (rows - 1) * 100 : 0}%`,
+      }}
+    />
+  );
+}
+
+/**
+ * 以图搜图：在自己的生成记录与收藏中查找与某一格 / 某张裁切图视觉相似的图片
+ * 生成记录的结果可点击在画布中打开
+ */
+export function SimilarImagesDialog({ imageId, onClose, onOpenGeneration, isLightMode = false }: SimilarImagesDialogProps) {
+  const [data, setData] = useState<{ query: SimilarImage; results: SimilarImage[] } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setData(null);
+    setError(null);
+    userApi.findSimilar(imageId)
+      .then(result => { if (!cancelled) setData(result); })
+      .catch(err => { if (!cancelled) setError(err.message || '相似图检索失败'); });
+    return () => { cancelled = true; };
+  }, [imageId]);
+
+  const mutedClass = isLightMode ? 'text-zinc-400' : 'text-zinc-500';
+
+  return (
+    <div className={`fixed inset-0 z-[2000] flex items-center justify-center backdrop-blur-md p-4 ${isLightMode ? 'bg-black/40' : 'bg-black/60'}`} onClick={onClose}>
+      <div
+        className={`relative w-full max-w-2xl max-h-[85vh] flex flex-col p-6 rounded-lg shadow-2xl border gap-4
+          ${isLightMode ? 'bg-white/95 border-zinc-200 text-zinc-800' : 'bg-zinc-950/95 border-zinc-800 text-zinc-200'}`}
+        onClick={e => e.stopPropagation()}
+      >
+        <button onClick={onClose} className={`absolute top-4 right-4 transition-colors ${isLightMode ? 'text-zinc-400 hover:text-zinc-800' : 'text-zinc-500 hover:text-white'}`}>
+          <XMarkIcon className="w-5 h-5" />
+        </button>
+
+        <div className="flex items-center gap-3 pr-8">
+          {data && <SimilarThumb image={data.query} className="w-12 h-12 shrink-0 rounded-sm" />}
+          <div>
+            <h3 className="text-sm font-bold tracking-[0.15em] font-['Noto_Serif_SC_Variable']">相似图片</h3>
+            <p className={`text-[10px] mt-1 ${mutedClass}`}>按构图与配色在你的生成历史和收藏中查找</p>
+          </div>
+        </div>
+
+        {error && <p className="text-xs text-red-500">{error}</p>}
+
+        <div className="overflow-y-auto custom-scrollbar">
+          {!data && !error && (
+            <p className={`py-8 text-center text-xs animate-pulse font-['Noto_Serif_SC_Variable'] ${mutedClass}`}>正在检索...</p>
+          )}
+          {data && data.results.length === 0 && (
+            <p className={`py-8 text-center text-xs font-['Noto_Serif_SC_Variable'] ${mutedClass}`}>没有找到相似的图片</p>
+          )}
+          {data && data.results.length > 0 && (
+            <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+              {data.results.map(image => (
+                <button
+                  key={image.imageId}
+                  onClick={() => image.source === 'generation' && onOpenGeneration(image)}
+                  disabled={image.source !== 'generation'}
+                  title={image.source === 'generation' ? '在画布中打开' : undefined}
+                  className="relative group text-left disabled:cursor-default"
+                >
+                  <SimilarThumb image={image} className="w-full aspect-square rounded-sm" />
+                  <span className="absolute top-1 left-1 px-1.5 py-0.5 text-[9px] rounded-sm bg-black/60 text-white">
+                    {image.source === 'collection' ? '收藏' : '历史'}
+                  </span>
+                  <span className="absolute bottom-1 right-1 px-1.5 py-0.5 text-[9px] rounded-sm bg-black/60 text-[#F2994A] font-mono">
+                    {Math.round((image.score || 0) * 100)}%
+                  </span>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,7 @@
+export { BoardBar } from './BoardBar';
+export type { BoardFilter, BoardSummary } from './BoardBar';
+export { MaterialScheduleDialog, toMaterialScheduleCsv } from './MaterialScheduleDialog';
+export type { MaterialScheduleTarget } from './MaterialScheduleDialog';
+export { SearchFilterBar, EMPTY_SEARCH_FILTERS, countActiveFilters } from './SearchFilterBar';
+export type { SearchFilters } from './SearchFilterBar';
+export { SimilarImagesDialog } from './SimilarImagesDialog';
@@ -0,0 +1,166 @@
+import React, { useEffect, useState } from 'react';
+import { ChevronDownIcon, NoSymbolIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { userApi, type AvoidPreset } from '../../services/api';
+
+// 与后端 MAX_AVOID_ITEMS / MAX_AVOID_ITEM_LENGTH / MAX_PRESET_NAME_LENGTH 一致
+export const MAX_AVOID_ITEMS = 20;
+const MAX_AVOID_ITEM_LENGTH = 30;
+const MAX_PRESET_NAME_LENGTH = 50;
+
+// 常用排除项
+const AVOID_SUGGESTIONS: { name: string; options: string[] }[] = [
+  { name: '材料', options: ['大理石', '不锈钢', '镜面', '玻璃砖', '仿古砖', '墙纸', '皮革', '亚克力'] },
+  { name: '家具灯具', options: ['吊灯', '水晶灯', '地毯', '窗帘', '绿植', '装饰画', '电视墙', '吧台'] },
+  { name: '风格', options: ['欧式古典', '新中式', '工业风', '赛博朋克', '北欧', '轻奢'] },
+  { name: '其他', options: ['人物', '宠物', '文字标识', '杂物'] },
+];
+
+interface AvoidListPanelProps {
+  items: string[];
+  isLightMode?: boolean;
+  onChange: (items: string[]) => void;
+}
+
+/**
+ * 排除项：自由输入 + 常用项，作为硬性约束发送到后端
+ * 可将当前组合保存为个人预设，之后一键套用
+ */
+export function AvoidListPanel({ items, isLightMode = false, onChange }: AvoidListPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState('');
+  const [presets, setPresets] = useState<AvoidPreset[]>([]);
+  const [presetName, setPresetName] = useState<string | null>(null);  // 非空表示正在命名新预设
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    userApi.getAvoidPresets()
+      .then(data => setPresets(data.presets))
+      .catch(err => console.error('Failed to load avoid presets:', err));
+  }, [isOpen]);
+
+  const toggleItem = (item: string) => {
+    if (items.includes(item)) onChange(items.filter(i => i !== item));
+    else if (items.length < MAX_AVOID_ITEMS) onChange([...items, item]);
+  };
+
+  const handleAddDraft = () => {
+    const item = draft.trim();
+    if (item && !items.includes(item) && items.length < MAX_AVOID_ITEMS) onChange([...items, item]);
+    setDraft('');
+  };
+
+  const handleSavePreset = async () => {
+    const name = presetName?.trim();
+    if (!name || items.length === 0) return;
+    setError(null);
+    try {
+      const data = await userApi.createAvoidPreset(name, items);
+      setPresets(prev => [...prev, data.preset]);
+      setPresetName(null);
+    } catch (err: any) {
+      setError(err.message || '保存预设失败');
+    }
+  };
+
+  const handleDeletePreset = async (e: React.MouseEvent, preset: AvoidPreset) => {
+    e.stopPropagation();
+    try {
+      await userApi.deleteAvoidPreset(preset.id);
+      setPresets(prev => prev.filter(p => p.id !== preset.id));
+    } catch (err: any) {
+      setError(err.message || '删除预设失败');
+    }
+  };
+
+  const labelClass = `text-[10px] tracking-wider font-['Noto_Serif_SC_Variable'] ${isLightMode ? 'text-zinc-500' : 'text-zinc-400'}`;
+  const inputClass = `flex-1 min-w-0 px-2 h-6 text-[11px] border rounded-sm outline-none ${isLightMode ? 'bg-white border-zinc-200 focus:border-zinc-500' : 'bg-zinc-900 border-zinc-700 focus:border-zinc-400 text-zinc-200'}`;
+  const chipClass = (active: boolean) => `px-2 h-6 text-[10px] border rounded-sm transition-colors font-['Noto_Serif_SC_Variable']
+    ${active
+      ? (isLightMode ? 'border-zinc-900 bg-zinc-900 text-white' : 'border-white bg-white text-black')
+      : (isLightMode ? 'border-zinc-200 text-zinc-500 hover:border-zinc-400' : 'border-zinc-700 text-zinc-400 hover:border-zinc-500')}`;
+
+  return (
+    <div className={`mt-4 pt-3 border-t ${isLightMode ? 'border-zinc-200' : 'border-zinc-800'}`}>
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className={`w-full flex items-center gap-2 text-xs font-medium tracking-[0.05em] font-['Noto_Serif_SC_Variable'] ${isLightMode ? 'text-zinc-700' : 'text-zinc-300'}`}
+      >
+        <NoSymbolIcon className="w-4 h-4" /> 排除项
+        {items.length > 0 && <span className="text-[10px] text-[#F2994A]">{items.length} 项</span>}
+        <ChevronDownIcon className={`ml-auto w-3.5 h-3.5 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+
+      {/* 已选排除项（折叠时也显示） */}
+      {items.length > 0 && (
+        <div className="flex flex-wrap gap-1 mt-2">
+          {items.map(item => (
+            <span key={item} className="inline-flex items-center gap-0.5 pl-1.5 pr-0.5 h-5 text-[10px] border border-[#F2994A] text-[#F2994A] rounded-sm font-['Noto_Serif_SC_Variable']">
+              不要{item}
+              <button onClick={() => toggleItem(item)} className="hover:text-red-500"><XMarkIcon className="w-3 h-3" /></button>
+            </span>
+          ))}
+          <button onClick={() => onChange([])} className={`ml-1 text-[10px] transition-colors hover:text-red-500 ${isLightMode ? 'text-zinc-400' : 'text-zinc-500'}`}>清空</button>
+        </div>
+      )}
+
+      {isOpen && (
+        <div className="mt-3 space-y-2.5">
+          <div className="flex gap-1.5">
+            <input
+              value={draft}
+              onChange={e => setDraft(e.target.value)}
+              onKeyDown={e => e.key === 'Enter' && handleAddDraft()}
+              maxLength={MAX_AVOID_ITEM_LENGTH}
+              placeholder="输入不希望出现的元素，回车添加"
+              className={inputClass}
+            />
+            <button onClick={handleAddDraft} disabled={!draft.trim() || items.length >= MAX_AVOID_ITEMS} className={`${chipClass(false)} disabled:opacity-40`}>添加</button>
+          </div>
+
+          {AVOID_SUGGESTIONS.map(group => (
+            <div key={group.name} className="space-y-1">
+              <span className={labelClass}>{group.name}</span>
+              <div className="flex flex-wrap gap-1">
+                {group.options.map(option => (
+                  <button key={option} onClick={() => toggleItem(option)} className={chipClass(items.includes(option))}>{option}</button>
+                ))}
+              </div>
+            </div>
+          ))}
+
+          <div className={`space-y-1 pt-2 border-t ${isLightMode ? 'border-zinc-100' : 'border-zinc-800'}`}>
+            <span className={labelClass}>我的预设</span>
+            <div className="flex flex-wrap gap-1">
+              {presets.map(preset => (
+                <span key={preset.id} onClick={() => onChange(preset.items)} title={preset.items.join('、')} className={`${chipClass(false)} inline-flex items-center gap-0.5 cursor-pointer`}>
+                  {preset.name}
+                  <button onClick={e => handleDeletePreset(e, preset)} className="hover:text-red-500"><XMarkIcon className="w-3 h-3" /></button>
+                </span>
+              ))}
+              {presetName === null ? (
+                <button onClick={() => setPresetName('')} disabled={items.length === 0} className={`${chipClass(false)} border-dashed disabled:opacity-40`}>保存当前为预设</button>
+              ) : (
+                <div className="flex gap-1 w-full">
+                  <input
+                    autoFocus
+                    value={presetName}
+                    onChange={e => setPresetName(e.target.value)}
+                    onKeyDown={e => { if (e.key === 'Enter') handleSavePreset(); if (e.key === 'Escape') setPresetName(null); }}
+                    maxLength={MAX_PRESET_NAME_LENGTH}
+                    placeholder="预设名称"
+                    className={inputClass}
+                  />
+                  <button onClick={handleSavePreset} disabled={!presetName.trim()} className={`${chipClass(true)} disabled:opacity-40`}>保存</button>
+                  <button onClick={() => setPresetName(null)} className={chipClass(false)}>取消</button>
+                </div>
+              )}
+            </div>
+          </div>
+
+          {error && <p className="text-[10px] text-red-500">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+import React from 'react';
+import { ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import type { GridLayout } from '../../types';
+
+// 批量生成的参数变化方式: 固定参数 / 遍历参考图权重 / 每张使用一个标签
+export type BatchSweep = 'none' | 'fidelity' | 'tags';
+
+export const MAX_BATCH_COUNT = 4;
+
+export interface BatchVariant {
+  level: number;
+  tags: string[];
+}
+
+export interface BatchResult extends BatchVariant {
+  key: string;
+  status: 'pending' | 'done' | 'failed';
+  url?: string;
+  generationId?: number | null;
+  gridLayout?: GridLayout;
+}
+
+/**
+ * 按批量数量与遍历方式生成每张图的参数
+ * - fidelity: 在 1–5 之间均匀取值
+ * - tags: 依次使用单个已选标签（标签少于数量时循环）
+ */
+export function buildBatchVariants(count: number, sweep: BatchSweep, tags: string[], level: number): BatchVariant[] {
+  return Array.from({ length: count }, (_, i) => {
+    if (sweep === 'fidelity' && count > 1) {
+      return { level: Math.round(1 + (i * 4) / (count - 1)), tags };
+    }
+    if (sweep === 'tags' && tags.length > 1) {
+      return { level, tags: [tags[i % tags.length]] };
+    }
+    return { level, tags };
+  });
+}
+
+interface BatchStripProps {
+  results: BatchResult[];
+  activeUrl: string | null;
+  isLightMode?: boolean;
+  onSelect: (result: BatchResult) => void;
+}
+
+/**
+ * 视窗底部的批量结果条，点击缩略图切换当前结果图
+ */
+export function BatchStrip({ results, activeUrl, isLightMode = false, onSelect }: BatchStripProps) {
+  return (
+    <div className={`absolute bottom-6 left-6 z-20 flex gap-2 p-1.5 rounded-sm backdrop-blur-md border
+      ${isLightMode ? 'bg-white/60 border-white/20' : 'bg-black/40 border-white/10'}`}>
+      {results.map((result, index) => {
+        const isActive = !!result.url && result.url === activeUrl;
+        return (
+          <button
+            key={result.key}
+            onClick={() => result.status === 'done' && onSelect(result)}
+            disabled={result.status !== 'done'}
+            title={`#${index + 1} · 权重 ${result.level}${result.tags.length ? ` · ${result.tags.join(' / ')}` : ''}`}
+            className={`relative w-12 h-12 flex items-center justify-center overflow-hidden border-2 transition-all
+              ${isActive ? (isLightMode ? 'border-[#0d9999]' : 'border-[#00ffff]') : 'border-transparent hover:border-white/60'}
+              ${isLightMode ? 'bg-zinc-200' : 'bg-zinc-800'}`}
+          >
+            {result.status === 'done' && result.url && <img src={result.url} className="w-full h-full object-cover" />}
+            {result.status === 'pending' && (
+              <div className={`w-4 h-4 border-2 rounded-full animate-spin ${isLightMode ? 'border-zinc-300 border-t-[#0d9999]' : 'border-zinc-600 border-t-[#00ffff]'}`} />
+            )}
+            {result.status === 'failed' && <ExclamationTriangleIcon className="w-4 h-4 text-red-400" />}
+            <span className="absolute bottom-0 right-0 px-1 text-[8px] font-mono bg-black/60 text-white">{index + 1}</span>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+import React, { useRef, useState } from 'react';
+
+interface CompareSliderProps {
+  beforeUrl: string;
+  afterUrl: string;
+  isLightMode?: boolean;
+  className?: string;
+}
+
+/**
+ * 编辑前后对比：拖动分隔线，左侧显示编辑前、右侧显示编辑后
+ */
+export function CompareSlider({ beforeUrl, afterUrl, isLightMode = false, className = '' }: CompareSliderProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [position, setPosition] = useState(50);
+  const [isDragging, setIsDragging] = useState(false);
+
+  const updatePosition = (clientX: number) => {
+    if (!containerRef.current) return;
+    const rect = containerRef.current.getBoundingClientRect();
+    setPosition(Math.min(100, Math.max(0, ((clientX - rect.left) / rect.width) * 100)));
+  };
+
+  const labelClass = 'absolute top-2 px-1.5 py-0.5 text-[9px] tracking-wider font-[\'Noto_Serif_SC_Variable\'] bg-black/60 text-white pointer-events-none';
+
+  return (
+    <div
+      ref={containerRef}
+      className={`relative select-none overflow-hidden cursor-ew-resize ${className}`}
+      onPointerDown={e => { e.currentTarget.setPointerCapture(e.pointerId); setIsDragging(true); updatePosition(e.clientX); }}
+      onPointerMove={e => isDragging && updatePosition(e.clientX)}
+      onPointerUp={() => setIsDragging(false)}
+    >
+      <img src={afterUrl} className="block w-full h-auto" draggable={false} />
+      <img
+        src={beforeUrl}
+        className="absolute inset-0 w-full h-full object-cover"
+        style={{ clipPath: `inset(0 ${100 - position}% 0 0)` }}
+        draggable={false}
+      />
+      <div className={`absolute top-0 bottom-0 w-0.5 -ml-px pointer-events-none ${isLightMode ? 'bg-[#0d9999]' : 'bg-[#00ffff]'}`} style={{ left: `${position}%` }}>
+        <div className={`absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-5 h-5 rounded-full border-2 border-white shadow ${isLightMode ? 'bg-[#0d9999]' : 'bg-[#00ffff]'}`} />
+      </div>
+      <span className={`${labelClass} left-2`}>编辑前</span>
+      <span className={`${labelClass} right-2`}>编辑后</span>
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { ChevronDownIcon, DocumentTextIcon } from '@heroicons/react/24/outline';
+import type { BudgetTier, DesignBrief } from '../../types';
+
+// 与后端 MAX_BRIEF_FIELD_LENGTH 一致
+const MAX_BRIEF_FIELD_LENGTH = 200;
+
+export const BUDGET_TIER_LABELS: Record<BudgetTier, string> = {
+  economy: '经济',
+  standard: '标准',
+  premium: '高端',
+  luxury: '奢华',
+};
+
+const TEXT_FIELDS: { key: Exclude<keyof DesignBrief, 'budget'>; label: string; placeholder: string }[] = [
+  { key: 'style', label: '风格', placeholder: '例如：温润的现代日式，低饱和' },
+  { key: 'materials', label: '材料', placeholder: '例如：白橡木、微水泥、亚麻' },
+  { key: 'mustKeep', label: '必须保留', placeholder: '例如：原有拱形窗、钢琴' },
+  { key: 'avoid', label: '避免', placeholder: '例如：金属吊灯、大面积镜面' },
+];
+
+// 简报是否为空（全部字段未填写）
+export const isBriefEmpty = (brief: DesignBrief) =>
+  !brief.budget && TEXT_FIELDS.every(({ key }) => !brief[key]?.trim());
+
+interface DesignBriefPanelProps {
+  brief: DesignBrief;
+  isLightMode?: boolean;
+  onChange: (brief: DesignBrief) => void;
+}
+
+/**
+ * 设计简报：风格、材料、预算档位、必须保留与避免的内容（均为可选）
+ * 默认折叠，填写后标题显示已填写项数
+ */
+export function DesignBriefPanel({ brief, isLightMode = false, onChange }: DesignBriefPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const filledCount = (brief.budget ? 1 : 0) + TEXT_FIELDS.filter(({ key }) => brief[key]?.trim()).length;
+
+  const labelClass = `text-[10px] tracking-wider font-['Noto_Serif_SC_Variable'] ${isLightMode ? 'text-zinc-500' : 'text-zinc-400'}`;
+  const inputClass = `w-full px-2 py-1.5 text-[11px] border rounded-sm outline-none resize-none ${isLightMode ? 'bg-white border-zinc-200 focus:border-zinc-500' : 'bg-zinc-900 border-zinc-700 focus:border-zinc-400 text-zinc-200'}`;
+  const chipClass = (active: boolean) => `px-2 h-6 text-[10px] border rounded-sm transition-colors font-['Noto_Serif_SC_Variable']
+    ${active
+      ? (isLightMode ? 'border-zinc-900 bg-zinc-900 text-white' : 'border-white bg-white text-black')
+      : (isLightMode ? 'border-zinc-200 text-zinc-500 hover:border-zinc-400' : 'border-zinc-700 text-zinc-400 hover:border-zinc-500')}`;
+
+  return (
+    <div className={`mt-4 pt-3 border-t ${isLightMode ? 'border-zinc-200' : 'border-zinc-800'}`}>
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className={`w-full flex items-center gap-2 text-xs font-medium tracking-[0.05em] font-['Noto_Serif_SC_Variable'] ${isLightMode ? 'text-zinc-700' : 'text-zinc-300'}`}
+      >
+        <DocumentTextIcon className="w-4 h-4" /> 设计简报
+        {filledCount > 0 && <span className="text-[10px] text-[#F2994A]">已填 {filledCount} 项</span>}
+        {filledCount > 0 && (
+          <span
+            onClick={e => { e.stopPropagation(); onChange({}); }}
+            className={`ml-auto text-[10px] font-normal transition-colors hover:text-red-500 ${isLightMode ? 'text-zinc-400' : 'text-zinc-500'}`}
+          >
+            清空
+          </span>
+        )}
+        <ChevronDownIcon className={`w-3.5 h-3.5 transition-transform ${filledCount > 0 ? '' : 'ml-auto'} ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+
+      {isOpen && (
+        <div className="mt-3 space-y-2.5">
+          {TEXT_FIELDS.slice(0, 2).map(({ key, label, placeholder }) => (
+            <div key={key} className="space-y-1">
+              <span className={labelClass}>{label}</span>
+              <textarea
+                value={brief[key] || ''}
+                onChange={e => onChange({ ...brief, [key]: e.target.value })}
+                maxLength={MAX_BRIEF_FIELD_LENGTH}
+                rows={1}
+                placeholder={placeholder}
+                className={inputClass}
+              />
+            </div>
+          ))}
+
+          <div className="space-y-1">
+            <span className={labelClass}>预算档位</span>
+            <div className="flex gap-1.5">
+              {(Object.keys(BUDGET_TIER_LABELS) as BudgetTier[]).map(tier => (
+                <button
+                  key={tier}
+                  onClick={() => onChange({ ...brief, budget: brief.budget === tier ? undefined : tier })}
+                  className={chipClass(brief.budget === tier)}
+                >
+                  {BUDGET_TIER_LABELS[tier]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {TEXT_FIELDS.slice(2).map(({ key, label, placeholder }) => (
+            <div key={key} className="space-y-1">
+              <span className={labelClass}>{label}</span>
+              <textarea
+                value={brief[key] || ''}
+                onChange={e => onChange({ ...brief, [key]: e.target.value })}
+                maxLength={MAX_BRIEF_FIELD_LENGTH}
+                rows={1}
+                placeholder={placeholder}
+                className={inputClass}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
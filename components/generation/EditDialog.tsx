@@ -0,0 +1,236 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { XMarkIcon, PaintBrushIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { editImage, describeJobProgress, InsufficientPointsError, type ImageResult } from '../../services/geminiService';
+import { urlToBase64 } from '../../services/imageProcessor';
+import { CompareSlider } from './CompareSlider';
+
+export interface EditTarget {
+  imageUrl: string;          // 待编辑的单元格图（Data URL 或图片地址）
+  parentId: number | null;   // 来源生成记录
+}
+
+interface EditDialogProps {
+  target: EditTarget;
+  points: number;            // 每次编辑消耗的积分
+  aspectRatios: string[];    // 后端支持的画幅比例，按单元格尺寸取最接近的一个
+  isLightMode?: boolean;
+  onClose: () => void;
+  onEdited: (result: ImageResult, instruction: string, parentId: number | null) => void;
+  onView: (result: ImageResult) => void;
+}
+
+const BRUSH_SIZES = [0.03, 0.06, 0.1];  // 相对单元格宽度
+const MAX_INSTRUCTION_LENGTH = 200;
+
+// 取与单元格宽高比最接近的可用画幅
+function nearestAspectRatio(width: number, height: number, aspectRatios: string[]): string | undefined {
+  const target = width / height;
+  return aspectRatios.reduce<string | undefined>((best, ratio) => {
+    const [w, h] = ratio.split(':').map(Number);
+    if (!best) return ratio;
+    const [bw, bh] = best.split(':').map(Number);
+    return Math.abs(w / h - target) < Math.abs(bw / bh - target) ? ratio : best;
+  }, undefined);
+}
+
+/**
+ * 单元格局部编辑：可选涂抹蒙版 + 修改指令，完成后展示前后对比
+ * 可在结果基础上继续编辑（新结果记为上一次编辑的子记录）
+ */
+export function EditDialog({ target, points, aspectRatios, isLightMode = false, onClose, onEdited, onView }: EditDialogProps) {
+  const [current, setCurrent] = useState<EditTarget>(target);
+  const [instruction, setInstruction] = useState('');
+  const [brushSize, setBrushSize] = useState(BRUSH_SIZES[1]);
+  const [hasMask, setHasMask] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [progress, setProgress] = useState<string | undefined>();
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<ImageResult | null>(null);
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const lastPoint = useRef<{ x: number; y: number } | null>(null);
+
+  // 蒙版画布与单元格原始尺寸一致
+  useEffect(() => {
+    setImageSize(null);
+    setHasMask(false);
+    const img = new Image();
+    img.onload = () => setImageSize({ width: img.naturalWidth, height: img.naturalHeight });
+    img.src = current.imageUrl;
+  }, [current.imageUrl]);
+
+  const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * e.currentTarget.width,
+      y: ((e.clientY - rect.top) / rect.height) * e.currentTarget.height,
+    };
+  };
+
+  const paint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = e.currentTarget.getContext('2d');
+    if (!ctx || !lastPoint.current) return;
+    const point = toCanvasPoint(e);
+    ctx.strokeStyle = '#F2994A';
+    ctx.lineWidth = brushSize * e.currentTarget.width;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    ctx.moveTo(lastPoint.current.x, lastPoint.current.y);
+    ctx.lineTo(point.x, point.y);
+    ctx.stroke();
+    lastPoint.current = point;
+    setHasMask(true);
+  };
+
+  const clearMask = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    setHasMask(false);
+  };
+
+  // 涂抹层 → 黑底白色蒙版
+  const exportMask = (): string | undefined => {
+    const canvas = canvasRef.current;
+    if (!canvas || !hasMask) return undefined;
+    const mask = document.createElement('canvas');
+    mask.width = canvas.width;
+    mask.height = canvas.height;
+    const ctx = mask.getContext('2d')!;
+    ctx.drawImage(canvas, 0, 0);
+    ctx.globalCompositeOperation = 'source-in';
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, mask.width, mask.height);
+    ctx.globalCompositeOperation = 'destination-over';
+    ctx.fillStyle = '#000000';
+    ctx.fillRect(0, 0, mask.width, mask.height);
+    return mask.toDataURL('image/png');
+  };
+
+  const handleSubmit = async () => {
+    const text = instruction.trim();
+    if (!text || isEditing) return;
+    setIsEditing(true);
+    setError(null);
+    setProgress(undefined);
+    try {
+      const cellImage = await urlToBase64(current.imageUrl);
+      const edited = await editImage(cellImage, text, {
+        maskImage: exportMask(),
+        parentId: current.parentId,
+        aspectRatio: imageSize ? nearestAspectRatio(imageSize.width, imageSize.height, aspectRatios) : undefined,
+      }, {
+        onProgress: job => setProgress(describeJobProgress(job)),
+      });
+      setResult(edited);
+      onEdited(edited, text, current.parentId);
+    } catch (err: any) {
+      setError(err instanceof InsufficientPointsError ? err.message : (err.message || '编辑失败，请重试'));
+    } finally {
+      setIsEditing(false);
+    }
+  };
+
+  // 在编辑结果上继续修改
+  const handleContinue = () => {
+    if (!result) return;
+    setCurrent({ imageUrl: result.url, parentId: result.generationId });
+    setResult(null);
+    setInstruction('');
+  };
+
+  const labelClass = `text-[10px] tracking-wider font-['Noto_Serif_SC_Variable'] ${isLightMode ? 'text-zinc-400' : 'text-zinc-500'}`;
+  const primaryButtonClass = `h-10 text-xs font-['Noto_Serif_SC_Variable'] tracking-wide rounded-sm transition-colors disabled:opacity-50
+    ${isLightMode ? 'bg-zinc-900 text-white hover:bg-zinc-700' : 'bg-white text-black hover:bg-[#00ffff]'}`;
+  const secondaryButtonClass = `h-10 text-xs font-['Noto_Serif_SC_Variable'] tracking-wide border rounded-sm transition-colors
+    ${isLightMode ? 'border-zinc-200 text-zinc-600 hover:border-zinc-400' : 'border-zinc-700 text-zinc-300 hover:border-zinc-500'}`;
+
+  return (
+    <div className={`fixed inset-0 z-[2000] flex items-center justify-center backdrop-blur-md p-4 ${isLightMode ? 'bg-black/40' : 'bg-black/60'}`} onClick={() => !isEditing && onClose()}>
+      <div
+        className={`relative w-full max-w-md p-6 rounded-lg shadow-2xl border space-y-5 max-h-full overflow-y-auto
+          ${isLightMode ? 'bg-white/95 border-zinc-200 text-zinc-800' : 'bg-zinc-950/95 border-zinc-800 text-zinc-200'}`}
+        onClick={e => e.stopPropagation()}
+      >
+        <button onClick={onClose} disabled={isEditing} className={`absolute top-4 right-4 transition-colors disabled:opacity-30 ${isLightMode ? 'text-zinc-400 hover:text-zinc-800' : 'text-zinc-500 hover:text-white'}`}>
+          <XMarkIcon className="w-5 h-5" />
+        </button>
+
+        <div>
+          <h3 className="text-sm font-bold tracking-[0.15em] font-['Noto_Serif_SC_Variable']">局部编辑</h3>
+          <p className={`text-[10px] mt-1 ${isLightMode ? 'text-zinc-400' : 'text-zinc-500'}`}>
+            {result ? '拖动分隔线对比编辑前后' : '涂抹需要修改的区域（可选），再输入修改指令'}
+          </p>
+        </div>
+
+        {result ? (
+          <div className="space-y-3">
+            <CompareSlider beforeUrl={current.imageUrl} afterUrl={result.url} isLightMode={isLightMode} className="rounded-sm" />
+            <div className="flex gap-2">
+              <button onClick={handleContinue} className={`flex-1 ${secondaryButtonClass}`}>继续编辑</button>
+              <button onClick={() => onView(result)} className={`flex-1 ${primaryButtonClass}`}>在视窗中查看</button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="relative">
+              <img src={current.imageUrl} className="block w-full h-auto rounded-sm" draggable={false} />
+              {imageSize && (
+                <canvas
+                  ref={canvasRef}
+                  width={imageSize.width}
+                  height={imageSize.height}
+                  className={`absolute inset-0 w-full h-full opacity-60 touch-none ${isEditing ? 'pointer-events-none' : 'cursor-crosshair'}`}
+                  onPointerDown={e => { e.currentTarget.setPointerCapture(e.pointerId); lastPoint.current = toCanvasPoint(e); paint(e); }}
+                  onPointerMove={paint}
+                  onPointerUp={() => { lastPoint.current = null; }}
+                />
+              )}
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-1.5">
+                <PaintBrushIcon className="w-3.5 h-3.5 text-zinc-500" />
+                {BRUSH_SIZES.map(size => (
+                  <button
+                    key={size}
+                    onClick={() => setBrushSize(size)}
+                    className={`w-6 h-6 flex items-center justify-center border rounded-sm transition-colors
+                      ${brushSize === size
+                        ? (isLightMode ? 'border-zinc-900' : 'border-white')
+                        : (isLightMode ? 'border-zinc-200 hover:border-zinc-400' : 'border-zinc-700 hover:border-zinc-500')}`}
+                  >
+                    <span className="rounded-full bg-[#F2994A]" style={{ width: size * 120, height: size * 120 }} />
+                  </button>
+                ))}
+              </div>
+              <button onClick={clearMask} disabled={!hasMask || isEditing} className={`flex items-center gap-1 ${labelClass} disabled:opacity-40 hover:text-red-500`}>
+                <TrashIcon className="w-3.5 h-3.5" /> 清除涂抹
+              </button>
+            </div>
+
+            <div className="space-y-2">
+              <span className={labelClass}>修改指令</span>
+              <textarea
+                value={instruction}
+                onChange={e => setInstruction(e.target.value)}
+                maxLength={MAX_INSTRUCTION_LENGTH}
+                rows={2}
+                disabled={isEditing}
+                placeholder="例如：把沙发换成绿色丝绒"
+                className={`w-full px-3 py-2 text-xs border rounded-sm outline-none resize-none ${isLightMode ? 'bg-white border-zinc-200 focus:border-zinc-500' : 'bg-zinc-900 border-zinc-700 focus:border-zinc-400'}`}
+              />
+            </div>
+
+            {error && <p className="text-xs text-red-500">{error}</p>}
+
+            <button onClick={handleSubmit} disabled={!instruction.trim() || isEditing || !imageSize} className={`w-full ${primaryButtonClass}`}>
+              {isEditing ? (progress || '编辑中...') : `${hasMask ? '编辑涂抹区域' : '按指令编辑'} · ${points} 积分`}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ArrowDownTrayIcon, ArrowUpTrayIcon, BookmarkIcon, ChevronDownIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { userApi, type GenerationPreset, type GenerationPresetPack, type GenerationPresetSettings } from '../../services/api';
+
+// 与后端 MAX_PRESET_NAME_LENGTH 一致
+const MAX_PRESET_NAME_LENGTH = 50;
+
+interface GenerationPresetPanelProps {
+  current: GenerationPresetSettings;
+  isLightMode?: boolean;
+  onApply: (settings: GenerationPresetSettings) => void;
+}
+
+/**
+ * 生成预设：一键套用常用的标签组合、自定义标签、创意等级、画幅与设计简报
+ * 预设保存在账号下，可导出为 JSON 预设包分发给团队成员导入
+ */
+export function GenerationPresetPanel({ current, isLightMode = false, onApply }: GenerationPresetPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [presets, setPresets] = useState<GenerationPreset[]>([]);
+  const [presetName, setPresetName] = useState<string | null>(null);  // 非空表示正在命名新预设
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    userApi.getGenerationPresets()
+      .then(data => setPresets(data.presets))
+      .catch(err => console.error('Failed to load generation presets:', err));
+  }, [isOpen]);
+
+  const handleSave = async () => {
+    const name = presetName?.trim();
+    if (!name || current.tags.length === 0) return;
+    setError(null);
+    try {
+      const data = await userApi.createGenerationPreset(name, current);
+      setPresets(prev => [...prev, data.preset]);
+      setPresetName(null);
+    } catch (err: any) {
+      setError(err.message || '保存预设失败');
+    }
+  };
+
+  const handleDelete = async (e: React.MouseEvent, preset: GenerationPreset) => {
+    e.stopPropagation();
+    try {
+      await userApi.deleteGenerationPreset(preset.id);
+      setPresets(prev => prev.filter(p => p.id !== preset.id));
+    } catch (err: any) {
+      setError(err.message || '删除预设失败');
+    }
+  };
+
+  const handleExport = async () => {
+    setError(null);
+    try {
+      const pack = await userApi.exportGenerationPresets();
+      const blob = new Blob([JSON.stringify(pack, null, 2)], { type: 'application/json' });
+      const link = document.createElement('a');
+      link.href = URL.createObjectURL(blob);
+      link.download = `generation_presets_${new Date().toISOString().slice(0, 10)}.json`;
+      link.click();
+      URL.revokeObjectURL(link.href);
+    } catch (err: any) {
+      setError(err.message || '导出预设失败');
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError(null);
+    setNotice(null);
+
+    let pack: GenerationPresetPack;
+    try {
+      pack = JSON.parse(await file.text());
+    } catch {
+      setError('预设包不是有效的 JSON 文件');
+      return;
+    }
+    try {
+      const data = await userApi.importGenerationPresets(pack);
+      setPresets(data.presets);
+      setNotice(`已导入：新增 ${data.created} 个，覆盖 ${data.updated} 个${data.skipped ? `，跳过 ${data.skipped} 个` : ''}`);
+    } catch (err: any) {
+      setError(err.message || '导入预设失败');
+    }
+  };
+
+  const labelClass = `text-[10px] tracking-wider font-['Noto_Serif_SC_Variable'] ${isLightMode ? 'text-zinc-500' : 'text-zinc-400'}`;
+  const inputClass = `flex-1 min-w-0 px-2 h-6 text-[11px] border rounded-sm outline-none ${isLightMode ? 'bg-white border-zinc-200 focus:border-zinc-500' : 'bg-zinc-900 border-zinc-700 focus:border-zinc-400 text-zinc-200'}`;
+  const chipClass = (active: boolean) => `px-2 h-6 text-[10px] border rounded-sm transition-colors font-['Noto_Serif_SC_Variable']
+    ${active
+      ? (isLightMode ? 'border-zinc-900 bg-zinc-900 text-white' : 'border-white bg-white text-black')
+      : (isLightMode ? 'border-zinc-200 text-zinc-500 hover:border-zinc-400' : 'border-zinc-700 text-zinc-400 hover:border-zinc-500')}`;
+  const describe = (settings: GenerationPresetSettings) => [
+    settings.tags.join('、'),
+    `创意等级 ${settings.level}`,
+    settings.aspectRatio && `画幅 ${settings.aspectRatio}`,
+    settings.brief && '含设计简报',
+  ].filter(Boolean).join('\n');
+
+  return (
+    <div className={`mb-4 pb-3 border-b ${isLightMode ? 'border-zinc-200' : 'border-zinc-800'}`}>
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className={`w-full flex items-center gap-2 text-xs font-medium tracking-[0.05em] font-['Noto_Serif_SC_Variable'] ${isLightMode ? 'text-zinc-700' : 'text-zinc-300'}`}
+      >
+        <BookmarkIcon className="w-4 h-4" /> 我的预设
+        {presets.length > 0 && <span className="text-[10px] text-[#F2994A]">{presets.length} 个</span>}
+        <ChevronDownIcon className={`ml-auto w-3.5 h-3.5 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+
+      {isOpen && (
+        <div className="mt-3 space-y-2">
+          <div className="flex flex-wrap gap-1">
+            {presets.length === 0 && <span className={labelClass}>暂无预设，选好标签后可保存当前设置</span>}
+            {presets.map(preset => (
+              <span key={preset.id} onClick={() => onApply(preset.settings)} title={describe(preset.settings)} className={`${chipClass(false)} inline-flex items-center gap-0.5 cursor-pointer`}>
+                {preset.name}
+                <button onClick={e => handleDelete(e, preset)} className="hover:text-red-500"><XMarkIcon className="w-3 h-3" /></button>
+              </span>
+            ))}
+          </div>
+
+          {presetName === null ? (
+            <div className="flex flex-wrap gap-1">
+              <button onClick={() => setPresetName('')} disabled={current.tags.length === 0} className={`${chipClass(false)} border-dashed disabled:opacity-40`}>保存当前设置</button>
+              <button onClick={() => fileInputRef.current?.click()} className={`${chipClass(false)} inline-flex items-center gap-1`}>
+                <ArrowUpTrayIcon className="w-3 h-3" /> 导入
+              </button>
+              <button onClick={handleExport} disabled={presets.length === 0} className={`${chipClass(false)} inline-flex items-center gap-1 disabled:opacity-40`}>
+                <ArrowDownTrayIcon className="w-3 h-3" /> 导出
+              </button>
+              <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImport} hidden />
+            </div>
+          ) : (
+            <div className="flex gap-1">
+              <input
+                autoFocus
+                value={presetName}
+                onChange={e => setPresetName(e.target.value)}
+                onKeyDown={e => { if (e.key === 'Enter') handleSave(); if (e.key === 'Escape') setPresetName(null); }}
+                maxLength={MAX_PRESET_NAME_LENGTH}
+                placeholder="预设名称"
+                className={inputClass}
+              />
+              <button onClick={handleSave} disabled={!presetName.trim()} className={`${chipClass(true)} disabled:opacity-40`}>保存</button>
+              <button onClick={() => setPresetName(null)} className={chipClass(false)}>取消</button>
+            </div>
+          )}
+
+          {notice && <p className={`text-[10px] ${isLightMode ? 'text-zinc-500' : 'text-zinc-400'}`}>{notice}</p>}
+          {error && <p className="text-[10px] text-red-500">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
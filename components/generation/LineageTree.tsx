@@ -0,0 +1,80 @@
+import React from 'react';
+import { PhotoIcon } from '@heroicons/react/24/outline';
+import type { GenerationOperation, GenerationRecord } from '../../services/api';
+
+export const OPERATION_LABELS: Record<GenerationOperation, string> = {
+  generate: '生成',
+  upscale: '放大',
+  edit: '编辑',
+  expand: '延展',
+};
+
+interface LineageTreeProps {
+  generations: GenerationRecord[];
+  sourceHash: string | null;
+  focusId: number | null;        // 打开谱系时所在的记录，高亮显示
+  isLightMode?: boolean;
+  onSelect: (record: GenerationRecord) => void;
+}
+
+/**
+ * 生成谱系树：参考图 → 生成 → 放大 / 编辑 / 延展
+ * 父记录已删除的节点挂到顶层
+ */
+export function LineageTree({ generations, sourceHash, focusId, isLightMode = false, onSelect }: LineageTreeProps) {
+  const ids = new Set(generations.map(g => g.id));
+  const children = new Map<number | null, GenerationRecord[]>();
+  generations.forEach(record => {
+    const parentKey = record.parentId && ids.has(record.parentId) ? record.parentId : null;
+    children.set(parentKey, [...(children.get(parentKey) || []), record]);
+  });
+
+  const renderNode = (record: GenerationRecord): React.ReactNode => {
+    const isFocused = record.id === focusId;
+    const meta = [
+      record.level ? `权重 ${record.level}` : null,
+      record.parentCell !== null ? `第 ${record.parentCell + 1} 格` : null,
+      record.instruction,
+    ].filter(Boolean).join(' · ');
+
+    return (
+      <li key={record.id}>
+        <button
+          onClick={() => onSelect(record)}
+          className={`w-full flex items-center gap-2 p-1.5 border rounded-sm text-left transition-colors
+            ${isFocused
+              ? 'border-[#F2994A]'
+              : (isLightMode ? 'border-zinc-200 bg-zinc-50 hover:border-[#F2994A]' : 'border-zinc-700 bg-zinc-800/50 hover:border-[#F2994A]')}`}
+        >
+          {record.url && <img src={record.url} className={`w-10 h-10 object-cover rounded-sm border ${isLightMode ? 'border-zinc-200' : 'border-zinc-700'}`} />}
+          <div className="flex-1 overflow-hidden">
+            <p className={`text-[10px] font-['Noto_Serif_SC_Variable'] ${isLightMode ? 'text-zinc-800' : 'text-zinc-300'}`}>
+              <span className="text-[#F2994A]">{OPERATION_LABELS[record.operation]}</span>
+              <span className="font-mono text-zinc-500"> #{record.id}</span>
+            </p>
+            {meta && <p className={`text-[9px] truncate ${isLightMode ? 'text-zinc-500' : 'text-zinc-400'}`} title={meta}>{meta}</p>}
+            <p className="text-[9px] font-mono text-zinc-500">{new Date(record.createdAt).toLocaleString()}</p>
+          </div>
+        </button>
+        {children.has(record.id) && (
+          <ul className={`ml-3 pl-2 mt-1.5 space-y-1.5 border-l ${isLightMode ? 'border-zinc-300' : 'border-zinc-700'}`}>
+            {children.get(record.id)!.map(renderNode)}
+          </ul>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <div className="space-y-1.5">
+      <div className={`flex items-center gap-2 px-1 text-[10px] font-['Noto_Serif_SC_Variable'] ${isLightMode ? 'text-zinc-600' : 'text-zinc-400'}`}>
+        <PhotoIcon className="w-4 h-4" />
+        参考图
+        {sourceHash && <span className="font-mono text-zinc-500" title={sourceHash}>{sourceHash.slice(0, 8)}</span>}
+      </div>
+      <ul className={`ml-2 pl-2 space-y-1.5 border-l ${isLightMode ? 'border-zinc-300' : 'border-zinc-700'}`}>
+        {(children.get(null) || []).map(renderNode)}
+      </ul>
+    </div>
+  );
+}
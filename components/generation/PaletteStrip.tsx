@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { DocumentDuplicateIcon } from '@heroicons/react/24/outline';
+import type { PaletteSwatch } from '../../types';
+
+interface PaletteStripProps {
+  palette: PaletteSwatch[];
+  compact?: boolean;      // 收藏缩略图下的细条（不显示复制全部）
+  isLightMode?: boolean;
+}
+
+const formatSwatch = (swatch: PaletteSwatch) => [
+  swatch.hex.toUpperCase(),
+  `RGB ${swatch.rgb.join(', ')}`,
+  `LAB ${swatch.lab.map(v => v.toFixed(1)).join(', ')}`,
+  `${(swatch.proportion * 100).toFixed(1)}%`,
+].join('  ');
+
+/**
+ * 色板 → 文本（复制全部 / 导出时使用，每行一个色块）
+ */
+export const formatPalette = (palette: PaletteSwatch[]) => palette.map(formatSwatch).join('\n');
+
+/**
+ * 色板条：色块宽度按占比显示，点击色块复制 HEX，悬停查看 RGB / LAB
+ */
+export function PaletteStrip({ palette, compact = false, isLightMode = false }: PaletteStripProps) {
+  const [copied, setCopied] = useState<string | null>(null);
+  if (palette.length === 0) return null;
+
+  const copy = async (e: React.MouseEvent, text: string, key: string) => {
+    e.stopPropagation();
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(key);
+      setTimeout(() => setCopied(prev => prev === key ? null : prev), 1500);
+    } catch {
+      alert('复制失败，请手动复制');
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-1.5">
+      <div className={`flex flex-1 overflow-hidden rounded-sm ${compact ? 'h-2' : 'h-5'}`}>
+        {palette.map(swatch => (
+          <button
+            key={swatch.hex}
+            onClick={e => copy(e, swatch.hex.toUpperCase(), swatch.hex)}
+            title={`${formatSwatch(swatch)}\n点击复制 HEX`}
+            className="relative h-full transition-opacity hover:opacity-80"
+            style={{ backgroundColor: swatch.hex, flexGrow: swatch.proportion, minWidth: compact ? 3 : 8 }}
+          >
+            {!compact && copied === swatch.hex && (
+              <span className="absolute inset-0 flex items-center justify-center text-[9px] text-white mix-blend-difference">已复制</span>
+            )}
+          </button>
+        ))}
+      </div>
+      {!compact && (
+        <button
+          onClick={e => copy(e, formatPalette(palette), 'all')}
+          title="复制全部色值（HEX / RGB / LAB）"
+          className={`shrink-0 inline-flex items-center gap-1 text-[10px] font-['Noto_Serif_SC_Variable'] transition-colors
+            ${isLightMode ? 'text-zinc-500 hover:text-zinc-900' : 'text-zinc-400 hover:text-white'}`}
+        >
+          <DocumentDuplicateIcon className="w-3.5 h-3.5" /> {copied === 'all' ? '已复制' : '复制'}
+        </button>
+      )}
+    </div>
+  );
+}
+
+/**
+ * 色板 → CSV（ZIP 导出时与图片一起打包）
+ */
+export function toPaletteCsv(palette: PaletteSwatch[]): string {
+  return [
+    'hex,r,g,b,lab_l,lab_a,lab_b,proportion',
+    ...palette.map(s => [s.hex, ...s.rgb, ...s.lab.map(v => v.toFixed(1)), s.proportion.toFixed(3)].join(',')),
+  ].join('\r\n');
+}
@@ -0,0 +1,80 @@
+import React from 'react';
+import { PlusIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import type { ReferenceImage, ReferenceRole } from '../../types';
+
+// 主参考图之外最多再附加 3 张（后端上限 4 张）
+export const MAX_EXTRA_REFERENCES = 3;
+
+export const REFERENCE_ROLE_LABELS: Record<ReferenceRole, string> = {
+  layout: '布局',
+  material: '材质',
+  color: '色彩',
+  mood: '氛围',
+};
+
+interface ReferenceListProps {
+  references: ReferenceImage[];
+  isLightMode?: boolean;
+  onAdd: (file: File) => void;
+  onChange: (index: number, patch: Partial<ReferenceImage>) => void;
+  onRemove: (index: number) => void;
+}
+
+/**
+ * 附加参考图列表：每张图指定借用的维度（角色）与强度（权重）
+ */
+export function ReferenceList({ references, isLightMode = false, onAdd, onChange, onRemove }: ReferenceListProps) {
+  const chipClass = (active: boolean) => `px-1.5 h-5 text-[10px] border rounded-sm transition-colors font-['Noto_Serif_SC_Variable']
+    ${active
+      ? (isLightMode ? 'border-zinc-900 bg-zinc-900 text-white' : 'border-white bg-white text-black')
+      : (isLightMode ? 'border-zinc-200 text-zinc-500 hover:border-zinc-400' : 'border-zinc-700 text-zinc-400 hover:border-zinc-500')}`;
+
+  return (
+    <div className="mt-2 space-y-1.5">
+      {references.map((reference, index) => (
+        <div key={index} className={`flex items-center gap-2 p-1 border rounded-sm ${isLightMode ? 'border-zinc-200 bg-white/50' : 'border-zinc-800 bg-black/20'}`}>
+          <img src={reference.image} className="w-9 h-9 object-cover rounded-sm flex-shrink-0" />
+          <div className="flex-1 min-w-0 space-y-1">
+            <div className="flex gap-1">
+              {(Object.keys(REFERENCE_ROLE_LABELS) as ReferenceRole[]).map(role => (
+                <button key={role} onClick={() => onChange(index, { role })} className={chipClass(reference.role === role)}>
+                  {REFERENCE_ROLE_LABELS[role]}
+                </button>
+              ))}
+            </div>
+            <div className="flex items-center gap-1.5">
+              <input
+                type="range"
+                min={1}
+                max={5}
+                value={reference.weight}
+                onChange={e => onChange(index, { weight: Number(e.target.value) })}
+                className="flex-1 h-1 accent-[#F2994A]"
+              />
+              <span className={`text-[10px] font-mono w-6 text-right ${isLightMode ? 'text-zinc-600' : 'text-zinc-400'}`}>{reference.weight}/5</span>
+            </div>
+          </div>
+          <button onClick={() => onRemove(index)} title="移除参考图" className={isLightMode ? 'text-zinc-400 hover:text-red-500' : 'text-zinc-500 hover:text-red-400'}>
+            <XMarkIcon className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      ))}
+      {references.length < MAX_EXTRA_REFERENCES && (
+        <label className={`flex items-center justify-center gap-1 h-7 border border-dashed rounded-sm cursor-pointer text-[10px] tracking-wide transition-colors font-['Noto_Serif_SC_Variable']
+          ${isLightMode ? 'border-zinc-300 text-zinc-500 hover:border-zinc-500' : 'border-zinc-700 text-zinc-400 hover:border-zinc-500'}`}>
+          <PlusIcon className="w-3 h-3" /> 附加参考图（材质 / 色彩 / 氛围）{references.length}/{MAX_EXTRA_REFERENCES}
+          <input
+            type="file"
+            accept="image/*"
+            className="hidden"
+            onChange={e => {
+              const file = e.target.files?.[0];
+              if (file) onAdd(file);
+              e.target.value = '';
+            }}
+          />
+        </label>
+      )}
+    </div>
+  );
+}
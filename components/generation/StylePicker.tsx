@@ -0,0 +1,57 @@
+import React from 'react';
+import { SwatchIcon } from '@heroicons/react/24/outline';
+import type { StyleRecord } from '../../services/api';
+
+interface StylePickerProps {
+  styles: StyleRecord[];
+  selectedId: number | null;
+  isLightMode?: boolean;
+  onSelect: (styleId: number | null) => void;
+}
+
+/**
+ * 风格选择：与空间标签一起使用，再次点击取消选择
+ * 有示例缩略图时显示缩略图，否则以色板代替
+ */
+export function StylePicker({ styles, selectedId, isLightMode = false, onSelect }: StylePickerProps) {
+  if (styles.length === 0) return null;
+  const selected = styles.find(style => style.id === selectedId);
+
+  return (
+    <div className={`mt-4 pt-3 border-t ${isLightMode ? 'border-zinc-200' : 'border-zinc-800'}`}>
+      <div className={`flex items-center gap-2 text-xs font-medium mb-2.5 tracking-[0.05em] font-['Noto_Serif_SC_Variable'] ${isLightMode ? 'text-zinc-700' : 'text-zinc-300'}`}>
+        <SwatchIcon className="w-4 h-4" /> 设计风格
+        {selected && <span className="text-[10px] text-[#F2994A] truncate">{selected.name}</span>}
+      </div>
+      <div className="grid grid-cols-3 gap-1.5">
+        {styles.map(style => {
+          const isActive = style.id === selectedId;
+          return (
+            <button
+              key={style.id}
+              onClick={() => onSelect(isActive ? null : style.id)}
+              title={[style.description, style.materials.join(' / ')].filter(Boolean).join('\n')}
+              className={`text-left border rounded-sm overflow-hidden transition-colors
+                ${isActive
+                  ? 'border-[#F2994A] ring-1 ring-[#F2994A]/40'
+                  : (isLightMode ? 'border-zinc-200 hover:border-zinc-400' : 'border-zinc-700 hover:border-zinc-500')}`}
+            >
+              {style.thumbnailUrl ? (
+                <img src={style.thumbnailUrl} className="w-full h-10 object-cover" />
+              ) : (
+                <div className="flex h-10">
+                  {(style.palette.length > 0 ? style.palette : ['#A1A1AA']).map(color => (
+                    <span key={color} className="flex-1" style={{ backgroundColor: color }} />
+                  ))}
+                </div>
+              )}
+              <p className={`px-1 py-0.5 text-[10px] truncate font-['Noto_Serif_SC_Variable'] ${isActive ? 'text-[#F2994A]' : (isLightMode ? 'text-zinc-600' : 'text-zinc-400')}`}>
+                {style.name}
+              </p>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+import React from 'react';
+import { CheckIcon, SparklesIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import type { AnalysisResult } from '../../types';
+
+interface TagSuggestionPanelProps {
+  analysis: AnalysisResult | null;
+  isAnalyzing: boolean;
+  selectedTags: string[];
+  isLightMode?: boolean;
+  onAccept: (tags: string[]) => void;
+  onDismiss: (tag: string) => void;
+  onApplyBrief: () => void;
+  onClose: () => void;
+}
+
+/**
+ * 参考图分析建议：上传参考图后自动识别，建议的空间标签以高亮标签显示
+ * 点击采用，× 忽略；识别出的风格与材质可一键填入设计简报
+ */
+export function TagSuggestionPanel({ analysis, isAnalyzing, selectedTags, isLightMode = false, onAccept, onDismiss, onApplyBrief, onClose }: TagSuggestionPanelProps) {
+  const pendingTags = analysis ? analysis.tags.filter(tag => !selectedTags.includes(tag)) : [];
+  const hasBriefHints = !!analysis && (!!analysis.style || analysis.materials.length > 0);
+  if (!isAnalyzing && pendingTags.length === 0 && !hasBriefHints) return null;
+
+  const labelClass = `text-[10px] tracking-wider font-['Noto_Serif_SC_Variable'] ${isLightMode ? 'text-zinc-500' : 'text-zinc-400'}`;
+  const chipClass = `px-2 h-6 text-[10px] border rounded-sm transition-colors font-['Noto_Serif_SC_Variable']
+    ${isLightMode ? 'border-zinc-200 text-zinc-500 hover:border-zinc-400' : 'border-zinc-700 text-zinc-400 hover:border-zinc-500'}`;
+
+  return (
+    <div className={`mb-4 pb-3 border-b ${isLightMode ? 'border-zinc-200' : 'border-zinc-800'}`}>
+      <div className={`flex items-center gap-2 text-xs font-medium mb-2.5 tracking-[0.05em] font-['Noto_Serif_SC_Variable'] ${isLightMode ? 'text-zinc-700' : 'text-zinc-300'}`}>
+        <SparklesIcon className="w-4 h-4" /> 参考图识别
+        {isAnalyzing && <span className="text-[10px] text-[#F2994A] animate-pulse">识别中...</span>}
+        {!isAnalyzing && (
+          <button onClick={onClose} title="关闭建议" className={`ml-auto ${isLightMode ? 'text-zinc-400 hover:text-zinc-700' : 'text-zinc-500 hover:text-zinc-300'}`}>
+            <XMarkIcon className="w-3.5 h-3.5" />
+          </button>
+        )}
+      </div>
+
+      {pendingTags.length > 0 && (
+        <div className="flex flex-wrap gap-1 mb-2">
+          {pendingTags.map(tag => (
+            <span key={tag} className="inline-flex items-center gap-0.5 px-2 h-6 text-[10px] border border-dashed border-[#F2994A] text-[#F2994A] bg-[#F2994A]/10 rounded-sm font-['Noto_Serif_SC_Variable']">
+              <button onClick={() => onAccept([tag])} title="采用">{tag}</button>
+              <button onClick={() => onDismiss(tag)} title="忽略" className="hover:text-red-500"><XMarkIcon className="w-3 h-3" /></button>
+            </span>
+          ))}
+          {pendingTags.length > 1 && (
+            <button onClick={() => onAccept(pendingTags)} className={`${chipClass} inline-flex items-center gap-1`}>
+              <CheckIcon className="w-3 h-3" /> 全部采用
+            </button>
+          )}
+        </div>
+      )}
+
+      {hasBriefHints && (
+        <div className="flex items-start gap-2">
+          <p className={`flex-1 ${labelClass}`} title={analysis!.vibeDescription}>
+            {[analysis!.style && `风格：${analysis!.style}`, analysis!.materials.length > 0 && `材质：${analysis!.materials.join('、')}`].filter(Boolean).join('；')}
+          </p>
+          <button onClick={onApplyBrief} className={`${chipClass} shrink-0`}>填入简报</button>
+        </div>
+      )}
+    </div>
+  );
+}
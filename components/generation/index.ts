@@ -0,0 +1,13 @@
+export { BatchStrip, buildBatchVariants, MAX_BATCH_COUNT } from './BatchStrip';
+export type { BatchSweep, BatchVariant, BatchResult } from './BatchStrip';
+export { EditDialog } from './EditDialog';
+export type { EditTarget } from './EditDialog';
+export { CompareSlider } from './CompareSlider';
+export { LineageTree, OPERATION_LABELS } from './LineageTree';
+export { DesignBriefPanel, BUDGET_TIER_LABELS, isBriefEmpty } from './DesignBriefPanel';
+export { AvoidListPanel, MAX_AVOID_ITEMS } from './AvoidListPanel';
+export { StylePicker } from './StylePicker';
+export { GenerationPresetPanel } from './GenerationPresetPanel';
+export { ReferenceList, MAX_EXTRA_REFERENCES, REFERENCE_ROLE_LABELS } from './ReferenceList';
+export { TagSuggestionPanel } from './TagSuggestionPanel';
+export { PaletteStrip, formatPalette, toPaletteCsv } from './PaletteStrip';
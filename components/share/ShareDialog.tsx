@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import { XMarkIcon, LinkIcon, DocumentDuplicateIcon, CheckCircleIcon } from '@heroicons/react/24/outline';
+import { shareApi, getShareUrl, type ShareRecord } from '../../services/api';
+
+export interface ShareTarget {
+  boardId?: number;
+  generationId?: number;
+  title: string;
+}
+
+interface ShareDialogProps {
+  target: ShareTarget;
+  onClose: () => void;
+  isLightMode?: boolean;
+}
+
+const EXPIRY_OPTIONS: { label: string; value: number | null }[] = [
+  { label: '永久', value: null },
+  { label: '1 天', value: 1 },
+  { label: '7 天', value: 7 },
+  { label: '30 天', value: 30 },
+];
+
+/**
+ * 创建只读分享链接（看板或单次生成）
+ * 可选有效期和访问密码，生成后可直接复制链接
+ */
+export function ShareDialog({ target, onClose, isLightMode = false }: ShareDialogProps) {
+  const [expiresInDays, setExpiresInDays] = useState<number | null>(7);
+  const [password, setPassword] = useState('');
+  const [share, setShare] = useState<ShareRecord | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    setError(null);
+    try {
+      const data = await shareApi.create({
+        boardId: target.boardId,
+        generationId: target.generationId,
+        expiresInDays,
+        password: password || undefined,
+      });
+      setShare(data.share);
+    } catch (err: any) {
+      setError(err.message || '创建分享失败');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!share) return;
+    try {
+      await navigator.clipboard.writeText(getShareUrl(share.token));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      alert('复制失败，请手动复制链接');
+    }
+  };
+
+  const labelClass = `text-[10px] tracking-wider font-['Noto_Serif_SC_Variable'] ${isLightMode ? 'text-zinc-400' : 'text-zinc-500'}`;
+
+  return (
+    <div className={`fixed inset-0 z-[2000] flex items-center justify-center backdrop-blur-md p-4 ${isLightMode ? 'bg-black/40' : 'bg-black/60'}`} onClick={onClose}>
+      <div
+        className={`relative w-full max-w-sm p-6 rounded-lg shadow-2xl border space-y-5
+          ${isLightMode ? 'bg-white/95 border-zinc-200 text-zinc-800' : 'bg-zinc-950/95 border-zinc-800 text-zinc-200'}`}
+        onClick={e => e.stopPropagation()}
+      >
+        <button onClick={onClose} className={`absolute top-4 right-4 transition-colors ${isLightMode ? 'text-zinc-400 hover:text-zinc-800' : 'text-zinc-500 hover:text-white'}`}>
+          <XMarkIcon className="w-5 h-5" />
+        </button>
+
+        <div>
+          <h3 className="text-sm font-bold tracking-[0.15em] font-['Noto_Serif_SC_Variable']">分享给客户</h3>
+          <p className={`text-[10px] mt-1 truncate ${isLightMode ? 'text-zinc-400' : 'text-zinc-500'}`}>{target.title}</p>
+        </div>
+
+        {share ? (
+          <div className="space-y-3">
+            <div className={`flex items-center gap-2 px-1 py-2.5 border-b ${isLightMode ? 'border-zinc-200' : 'border-zinc-700'}`}>
+              <LinkIcon className="w-4 h-4 flex-shrink-0 text-zinc-500" />
+              <span className="text-xs font-mono truncate select-all">{getShareUrl(share.token)}</span>
+            </div>
+            <button
+              onClick={handleCopy}
+              className={`w-full flex items-center justify-center gap-2 h-10 text-xs font-['Noto_Serif_SC_Variable'] tracking-wide rounded-sm transition-colors
+                ${copied ? 'bg-green-500/10 text-green-600 border border-green-500/20' : isLightMode ? 'bg-zinc-900 text-white hover:bg-zinc-700' : 'bg-white text-black hover:bg-[#00ffff]'}`}
+            >
+              {copied ? <><CheckCircleIcon className="w-4 h-4" /> 已复制</> : <><DocumentDuplicateIcon className="w-4 h-4" /> 复制链接</>}
+            </button>
+            <p className={`text-[10px] font-['Noto_Serif_SC_Variable'] ${isLightMode ? 'text-zinc-400' : 'text-zinc-500'}`}>可在用户中心查看和撤销分享链接</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <span className={labelClass}>有效期</span>
+              <div className="flex gap-1.5">
+                {EXPIRY_OPTIONS.map(option => (
+                  <button
+                    key={option.label}
+                    onClick={() => setExpiresInDays(option.value)}
+                    className={`flex-1 h-8 text-[10px] border rounded-sm transition-colors
+                      ${expiresInDays === option.value
+                        ? (isLightMode ? 'border-zinc-900 bg-zinc-900 text-white' : 'border-white bg-white text-black')
+                        : (isLightMode ? 'border-zinc-200 text-zinc-500 hover:border-zinc-400' : 'border-zinc-700 text-zinc-400 hover:border-zinc-500')}`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <span className={labelClass}>访问密码（可选）</span>
+              <input
+                type="text"
+                value={password}
+                onChange={e => setPassword(e.target.value)}
+                maxLength={50}
+                placeholder="留空则无需密码"
+                className={`w-full h-9 px-3 text-xs border rounded-sm outline-none ${isLightMode ? 'bg-white border-zinc-200 focus:border-zinc-500' : 'bg-zinc-900 border-zinc-700 focus:border-zinc-400'}`}
+              />
+            </div>
+
+            {error && <p className="text-xs text-red-500">{error}</p>}
+
+            <button
+              onClick={handleCreate}
+              disabled={isCreating}
+              className={`w-full h-10 text-xs font-['Noto_Serif_SC_Variable'] tracking-wide rounded-sm transition-colors disabled:opacity-50
+                ${isLightMode ? 'bg-zinc-900 text-white hover:bg-zinc-700' : 'bg-white text-black hover:bg-[#00ffff]'}`}
+            >
+              {isCreating ? '生成中...' : '生成分享链接'}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
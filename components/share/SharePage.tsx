@@ -0,0 +1,136 @@
+import React, { useEffect, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { LockClosedIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { shareApi, type SharedContent } from '../../services/api';
+
+type PageState =
+  | { status: 'loading' }
+  | { status: 'password'; error?: string }
+  | { status: 'error'; message: string }
+  | { status: 'ready'; content: SharedContent };
+
+/**
+ * 只读分享页 (/s/:token)
+ * 无需登录，展示九宫格原图与收藏裁切图，不显示所有者信息
+ */
+export function SharePage() {
+  const { token = '' } = useParams();
+  const [state, setState] = useState<PageState>({ status: 'loading' });
+  const [password, setPassword] = useState('');
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+
+  const load = async (pwd?: string) => {
+    try {
+      const content = await shareApi.get(token, pwd);
+      setState({ status: 'ready', content });
+    } catch (err: any) {
+      if (err.code === 'PASSWORD_REQUIRED') setState({ status: 'password' });
+      else if (err.code === 'PASSWORD_INVALID' || err.code === 'PASSWORD_LOCKED') setState({ status: 'password', error: err.message });
+      else setState({ status: 'error', message: err.message || '分享链接无效' });
+    }
+  };
+
+  useEffect(() => { load(); }, [token]);
+
+  const handleUnlock = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!password) return;
+    setState({ status: 'loading' });
+    load(password);
+  };
+
+  return (
+    <div className="min-h-screen bg-zinc-950 text-zinc-200 font-['Noto_Serif_SC_Variable']">
+      <header className="border-b border-zinc-800 px-6 py-4 flex items-center justify-between">
+        <span className="text-xs tracking-[0.3em] text-zinc-500">DESIGN REFERENCE</span>
+        <a href="/" className="text-[10px] tracking-widest text-zinc-500 hover:text-[#00ffff] transition-colors">abdc.online</a>
+      </header>
+
+      {state.status === 'loading' && (
+        <div className="flex items-center justify-center py-32">
+          <div className="w-6 h-6 border-2 border-zinc-700 border-t-[#00ffff] rounded-full animate-spin" />
+        </div>
+      )}
+
+      {state.status === 'error' && (
+        <div className="flex flex-col items-center justify-center py-32 gap-2">
+          <p className="text-sm text-zinc-300">{state.message}</p>
+          <p className="text-[10px] text-zinc-600">请联系分享者获取新的链接</p>
+        </div>
+      )}
+
+      {state.status === 'password' && (
+        <form onSubmit={handleUnlock} className="max-w-xs mx-auto py-32 flex flex-col items-center gap-4">
+          <LockClosedIcon className="w-8 h-8 text-zinc-600" />
+          <p className="text-sm text-zinc-300">该分享需要访问密码</p>
+          <input
+            type="password"
+            autoFocus
+            value={password}
+            onChange={e => setPassword(e.target.value)}
+            className="w-full h-10 px-3 bg-zinc-900 border border-zinc-700 rounded-sm text-sm outline-none focus:border-[#00ffff]"
+          />
+          {state.error && <p className="text-xs text-red-400">{state.error}</p>}
+          <button type="submit" className="w-full h-10 bg-white text-black text-xs tracking-widest hover:bg-[#00ffff] transition-colors rounded-sm">查看</button>
+        </form>
+      )}
+
+      {state.status === 'ready' && (
+        <main className="max-w-6xl mx-auto px-6 py-10 space-y-12">
+          <div>
+            <h1 className="text-2xl tracking-[0.15em] text-white">{state.content.share.title}</h1>
+            <p className="text-[10px] mt-2 text-zinc-500 font-mono">
+              {new Date(state.content.share.createdAt).toLocaleDateString()}
+              {state.content.share.expiresAt && ` · 有效期至 ${new Date(state.content.share.expiresAt).toLocaleString()}`}
+            </p>
+          </div>
+
+          {state.content.generations.length > 0 && (
+            <section className="space-y-4">
+              <h2 className="text-[10px] tracking-[0.3em] text-zinc-500">方案总览 OVERVIEW</h2>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {state.content.generations.map(generation => (
+                  <figure key={generation.url} className="border border-zinc-800 cursor-zoom-in" onClick={() => setPreviewUrl(generation.url)}>
+                    {/* 按生成时的画幅展示（16:9、9:16、2x3 等），不裁切宫格 */}
+                    <img
+                      src={generation.url}
+                      className="w-full h-auto object-contain"
+                      style={generation.aspectRatio ? { aspectRatio: generation.aspectRatio.replace(':', ' / ') } : undefined}
+                    />
+                    {generation.tags.length > 0 && (
+                      <figcaption className="flex flex-wrap gap-1 p-2">
+                        {generation.tags.map(tag => <span key={tag} className="text-[9px] border border-zinc-700 px-1.5 py-0.5 rounded-sm text-zinc-400">{tag}</span>)}
+                      </figcaption>
+                    )}
+                  </figure>
+                ))}
+              </div>
+            </section>
+          )}
+
+          {state.content.crops.length > 0 && (
+            <section className="space-y-4">
+              <h2 className="text-[10px] tracking-[0.3em] text-zinc-500">细节参考 DETAILS</h2>
+              <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-2">
+                {state.content.crops.map(crop => (
+                  <img key={crop.url} src={crop.url} onClick={() => setPreviewUrl(crop.url)} className="w-full aspect-square object-cover border border-zinc-800 cursor-zoom-in hover:border-[#00ffff] transition-colors" />
+                ))}
+              </div>
+            </section>
+          )}
+
+          {state.content.generations.length === 0 && state.content.crops.length === 0 && (
+            <p className="text-center text-xs text-zinc-600 py-20">暂无内容</p>
+          )}
+        </main>
+      )}
+
+      {previewUrl && (
+        <div className="fixed inset-0 z-50 bg-black/90 flex items-center justify-center p-6" onClick={() => setPreviewUrl(null)}>
+          <button className="absolute top-4 right-4 text-zinc-400 hover:text-white"><XMarkIcon className="w-6 h-6" /></button>
+          <img src={previewUrl} className="max-w-full max-h-full object-contain" />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,3 @@
+export { SharePage } from './SharePage';
+export { ShareDialog } from './ShareDialog';
+export type { ShareTarget } from './ShareDialog';
@@ -23,6 +23,7 @@ export default {
     // JWT
     jwtSecret,
     jwtExpiresIn: '7d',
+    jobEventsTokenExpiresIn: '5m',  // 任务推送 (SSE) 专用令牌，只用于建立连接
 
     // SMTP
     smtp: {
@@ -43,8 +44,22 @@ export default {
     inviteCodesPerUser: parseInt(process.env.INVITE_CODES_PER_USER || '10'),  // 每用户邀请码数量
     dailyLoginPoints: parseInt(process.env.DAILY_LOGIN_POINTS || '500'),      // 每日签到积分
     newUserPoints: parseInt(process.env.NEW_USER_POINTS || '1000'),           // 新用户注册积分
-    consumePerGenerate: parseInt(process.env.CONSUME_PER_GENERATE || '100'),  // 生成一次消耗
+    consumePerGenerate: parseInt(process.env.CONSUME_PER_GENERATE || '100'),  // 生成一次消耗 (2K)
     consumePerUpscale: parseInt(process.env.CONSUME_PER_UPSCALE || '50'),     // 放大一次消耗
+    consumePerEdit: parseInt(process.env.CONSUME_PER_EDIT || '60'),           // 局部编辑一次消耗
+    analysisPerHour: parseInt(process.env.ANALYSIS_PER_HOUR || '30'),        // 参考图分析 + 材质清单每用户每小时次数 (不扣积分)
+
+    // 生成尺寸及对应积分（键为允许的 imageSize）
+    generateSizePoints: {
+        '1K': parseInt(process.env.CONSUME_PER_GENERATE_1K || '60'),
+        '2K': parseInt(process.env.CONSUME_PER_GENERATE || '100'),
+        '4K': parseInt(process.env.CONSUME_PER_GENERATE_4K || '200'),
+    },
+    // 允许的画幅比例（3:2 为 2x3 宫格的默认画幅）
+    generateAspectRatios: ['1:1', '4:5', '3:4', '3:2', '16:9', '9:16'],
+
+    // 生成任务队列
+    jobConcurrency: parseInt(process.env.JOB_CONCURRENCY || '2'),             // 同时执行的生成任务数
 
     // 验证码配置
     verificationCodeExpireMinutes: 10,
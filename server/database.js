@@ -76,9 +76,24 @@ async function initDatabase() {
       prompt TEXT,
       tags TEXT,
       status VARCHAR(20) DEFAULT 'success',
+      operation VARCHAR(20) DEFAULT 'generate',
+      level INTEGER,
       points_consumed INTEGER DEFAULT 0,
+      grid_layout VARCHAR(10),
       aspect_ratio VARCHAR(20),
       image_size VARCHAR(20),
+      parent_id INTEGER REFERENCES generation_history(id),
+      parent_cell INTEGER,
+      source_hash VARCHAR(64),
+      instruction TEXT,
+      source_filename VARCHAR(255),
+      brief TEXT,
+      avoid TEXT,
+      style_id INTEGER REFERENCES styles(id),
+      prompt_version_id INTEGER REFERENCES prompt_versions(id),
+      experiment_id INTEGER REFERENCES prompt_experiments(id),
+      variant VARCHAR(10),
+      palette TEXT,
       created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
       expires_at DATETIME,
       deleted_at DATETIME,
@@ -97,10 +112,172 @@ async function initDatabase() {
       FOREIGN KEY (generation_id) REFERENCES generation_history(id)
     );
 
+    -- 收藏看板（如 "客户A - 大堂"）
+    CREATE TABLE IF NOT EXISTS boards (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL,
+      name VARCHAR(100) NOT NULL,
+      cover_item_id INTEGER,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (user_id) REFERENCES users(id)
+    );
+
+    -- 风格库（管理员维护）
+    CREATE TABLE IF NOT EXISTS styles (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name VARCHAR(50) NOT NULL,
+      description TEXT,
+      palette TEXT,
+      materials TEXT,
+      thumbnail_filename VARCHAR(255),
+      sort_order INTEGER NOT NULL DEFAULT 0,
+      enabled INTEGER NOT NULL DEFAULT 1,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      deleted_at DATETIME
+    );
+
+    -- 提示词配置版本（同一时间只有一个 active 版本，发布 / 回滚即切换）
+    CREATE TABLE IF NOT EXISTS prompt_versions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      config TEXT NOT NULL,
+      note VARCHAR(200),
+      created_by INTEGER,
+      active INTEGER NOT NULL DEFAULT 0,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      activated_at DATETIME,
+      FOREIGN KEY (created_by) REFERENCES users(id)
+    );
+
+    -- 提示词 A/B 实验（variants: [{ key, promptVersionId, weight }]，同一时间只有一个 running 实验）
+    CREATE TABLE IF NOT EXISTS prompt_experiments (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name VARCHAR(100) NOT NULL,
+      assignment VARCHAR(10) NOT NULL DEFAULT 'user',
+      variants TEXT NOT NULL,
+      status VARCHAR(20) NOT NULL DEFAULT 'running',
+      created_by INTEGER,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      stopped_at DATETIME,
+      FOREIGN KEY (created_by) REFERENCES users(id)
+    );
+
+    -- 生成结果信号（collect / upscale / download / regenerate），每条记录每种信号只记一次
+    CREATE TABLE IF NOT EXISTS generation_events (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      generation_id INTEGER NOT NULL,
+      type VARCHAR(20) NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (generation_id) REFERENCES generation_history(id)
+    );
+
+    -- 排除项预设（如 "不要石材 / 吊灯 / 人物"）
+    CREATE TABLE IF NOT EXISTS avoid_presets (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL,
+      name VARCHAR(50) NOT NULL,
+      items TEXT NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (user_id) REFERENCES users(id)
+    );
+
+    -- 生成预设（标签组合 + 自定义标签 + 创意等级 + 画幅 + 设计简报）
+    CREATE TABLE IF NOT EXISTS generation_presets (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL,
+      name VARCHAR(50) NOT NULL,
+      settings TEXT NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (user_id) REFERENCES users(id)
+    );
+
+    -- 收藏库（灵感归档裁切图）
+    CREATE TABLE IF NOT EXISTS collection_items (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL,
+      generation_id INTEGER,
+      board_id INTEGER,
+      filename VARCHAR(255) NOT NULL,
+      file_size INTEGER,
+      mime_type VARCHAR(50),
+      tags TEXT,
+      materials TEXT,
+      palette TEXT,
+      sort_order INTEGER NOT NULL DEFAULT 0,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (user_id) REFERENCES users(id),
+      FOREIGN KEY (generation_id) REFERENCES generation_history(id),
+      FOREIGN KEY (board_id) REFERENCES boards(id)
+    );
+
+    -- 只读分享链接（看板或单次生成）
+    CREATE TABLE IF NOT EXISTS share_links (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL,
+      token VARCHAR(64) UNIQUE NOT NULL,
+      board_id INTEGER,
+      generation_id INTEGER,
+      password_hash VARCHAR(255),
+      expires_at DATETIME,
+      revoked_at DATETIME,
+      view_count INTEGER DEFAULT 0,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (user_id) REFERENCES users(id),
+      FOREIGN KEY (board_id) REFERENCES boards(id),
+      FOREIGN KEY (generation_id) REFERENCES generation_history(id)
+    );
+
+    -- 异步生成任务（图片数据只保存在内存队列中，这里记录状态与结果）
+    CREATE TABLE IF NOT EXISTS generation_jobs (
+      id VARCHAR(36) PRIMARY KEY,
+      user_id INTEGER NOT NULL,
+      type VARCHAR(20) NOT NULL,
+      status VARCHAR(20) NOT NULL DEFAULT 'queued',
+      params TEXT,
+      reservation TEXT,
+      result TEXT,
+      error TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      started_at DATETIME,
+      finished_at DATETIME,
+      FOREIGN KEY (user_id) REFERENCES users(id)
+    );
+
+    -- 以图搜图特征（生成宫格图逐格一行，单图 / 收藏裁切图整张一行；phash 为空表示图片无法读取）
+    CREATE TABLE IF NOT EXISTS image_embeddings (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL,
+      generation_id INTEGER,
+      cell INTEGER,
+      collection_item_id INTEGER,
+      phash VARCHAR(16),
+      histogram VARCHAR(128),
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (user_id) REFERENCES users(id),
+      FOREIGN KEY (generation_id) REFERENCES generation_history(id),
+      FOREIGN KEY (collection_item_id) REFERENCES collection_items(id)
+    );
+
     -- 索引优化 (Performance Optimization)
     CREATE INDEX IF NOT EXISTS idx_invite_codes_owner_id ON invite_codes(owner_id);
     CREATE INDEX IF NOT EXISTS idx_invite_codes_created_at ON invite_codes(created_at);
     CREATE INDEX IF NOT EXISTS idx_users_email ON users(email);
+    CREATE INDEX IF NOT EXISTS idx_generation_history_user_created ON generation_history(user_id, created_at);
+    CREATE INDEX IF NOT EXISTS idx_generation_images_generation_id ON generation_images(generation_id);
+    CREATE INDEX IF NOT EXISTS idx_collection_items_user_order ON collection_items(user_id, sort_order);
+    CREATE INDEX IF NOT EXISTS idx_collection_items_user_created ON collection_items(user_id, created_at);
+    CREATE INDEX IF NOT EXISTS idx_collection_items_generation_id ON collection_items(generation_id);
+    CREATE INDEX IF NOT EXISTS idx_boards_user_id ON boards(user_id);
+    CREATE INDEX IF NOT EXISTS idx_avoid_presets_user_id ON avoid_presets(user_id);
+    CREATE INDEX IF NOT EXISTS idx_generation_presets_user_id ON generation_presets(user_id);
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_generation_events_generation_type ON generation_events(generation_id, type);
+    CREATE INDEX IF NOT EXISTS idx_share_links_user_id ON share_links(user_id);
+    CREATE INDEX IF NOT EXISTS idx_generation_jobs_user_created ON generation_jobs(user_id, created_at);
+    CREATE INDEX IF NOT EXISTS idx_image_embeddings_user_id ON image_embeddings(user_id);
+    CREATE INDEX IF NOT EXISTS idx_image_embeddings_generation_id ON image_embeddings(generation_id);
+    CREATE INDEX IF NOT EXISTS idx_image_embeddings_collection_item_id ON image_embeddings(collection_item_id);
   `);
 
   // ==============================================================================================
@@ -135,6 +312,142 @@ async function initDatabase() {
       db.run('ALTER TABLE users ADD COLUMN login_count INTEGER DEFAULT 0');
       console.log('✅ users 表迁移完成 (login_count)');
     }
+
+    // 4. 检查 generation_history.operation / level
+    try {
+      db.prepare('SELECT operation, level FROM generation_history LIMIT 1').get();
+    } catch (error) {
+      console.log('🔄 执行数据库迁移: 为 generation_history 表添加 operation / level 字段...');
+      db.run("ALTER TABLE generation_history ADD COLUMN operation VARCHAR(20) DEFAULT 'generate'");
+      db.run('ALTER TABLE generation_history ADD COLUMN level INTEGER');
+      console.log('✅ generation_history 表迁移完成');
+    }
+
+    // 5. 检查 collection_items.board_id
+    try {
+      db.prepare('SELECT board_id FROM collection_items LIMIT 1').get();
+    } catch (error) {
+      console.log('🔄 执行数据库迁移: 为 collection_items 表添加 board_id 字段...');
+      db.run('ALTER TABLE collection_items ADD COLUMN board_id INTEGER REFERENCES boards(id)');
+      console.log('✅ collection_items 表迁移完成');
+    }
+    db.run('CREATE INDEX IF NOT EXISTS idx_collection_items_board_id ON collection_items(board_id)');
+
+    // 6. 检查 generation_history.grid_layout
+    try {
+      db.prepare('SELECT grid_layout FROM generation_history LIMIT 1').get();
+    } catch (error) {
+      console.log('🔄 执行数据库迁移: 为 generation_history 表添加 grid_layout 字段...');
+      db.run('ALTER TABLE generation_history ADD COLUMN grid_layout VARCHAR(10)');
+      console.log('✅ generation_history 表迁移完成 (grid_layout)');
+    }
+
+    // 7. 检查 generation_history.parent_id（局部编辑：来源记录、修改指令、编辑前的单元格图）
+    try {
+      db.prepare('SELECT parent_id FROM generation_history LIMIT 1').get();
+    } catch (error) {
+      console.log('🔄 执行数据库迁移: 为 generation_history 表添加 parent_id / instruction / source_filename 字段...');
+      db.run('ALTER TABLE generation_history ADD COLUMN parent_id INTEGER REFERENCES generation_history(id)');
+      db.run('ALTER TABLE generation_history ADD COLUMN instruction TEXT');
+      db.run('ALTER TABLE generation_history ADD COLUMN source_filename VARCHAR(255)');
+      console.log('✅ generation_history 表迁移完成 (parent_id)');
+    }
+    db.run('CREATE INDEX IF NOT EXISTS idx_generation_history_parent_id ON generation_history(parent_id)');
+
+    // 8. 检查 generation_history.parent_cell（从某一格延展生成时记录来源单元格）
+    try {
+      db.prepare('SELECT parent_cell FROM generation_history LIMIT 1').get();
+    } catch (error) {
+      console.log('🔄 执行数据库迁移: 为 generation_history 表添加 parent_cell 字段...');
+      db.run('ALTER TABLE generation_history ADD COLUMN parent_cell INTEGER');
+      console.log('✅ generation_history 表迁移完成 (parent_cell)');
+    }
+
+    // 9. 检查 generation_history.source_hash（输入图片哈希，用于谱系追溯参考图）
+    try {
+      db.prepare('SELECT source_hash FROM generation_history LIMIT 1').get();
+    } catch (error) {
+      console.log('🔄 执行数据库迁移: 为 generation_history 表添加 source_hash 字段...');
+      db.run('ALTER TABLE generation_history ADD COLUMN source_hash VARCHAR(64)');
+      console.log('✅ generation_history 表迁移完成 (source_hash)');
+    }
+
+    // 10. 检查 generation_history.brief（设计简报 JSON，便于从历史复用）
+    try {
+      db.prepare('SELECT brief FROM generation_history LIMIT 1').get();
+    } catch (error) {
+      console.log('🔄 执行数据库迁移: 为 generation_history 表添加 brief 字段...');
+      db.run('ALTER TABLE generation_history ADD COLUMN brief TEXT');
+      console.log('✅ generation_history 表迁移完成 (brief)');
+    }
+
+    // 11. 检查 generation_history.avoid（排除项 JSON 数组，历史中以徽标展示）
+    try {
+      db.prepare('SELECT avoid FROM generation_history LIMIT 1').get();
+    } catch (error) {
+      console.log('🔄 执行数据库迁移: 为 generation_history 表添加 avoid 字段...');
+      db.run('ALTER TABLE generation_history ADD COLUMN avoid TEXT');
+      console.log('✅ generation_history 表迁移完成 (avoid)');
+    }
+
+    // 12. 检查 generation_history.style_id（所选风格，用于历史 / 收藏按风格筛选）
+    try {
+      db.prepare('SELECT style_id FROM generation_history LIMIT 1').get();
+    } catch (error) {
+      console.log('🔄 执行数据库迁移: 为 generation_history 表添加 style_id 字段...');
+      db.run('ALTER TABLE generation_history ADD COLUMN style_id INTEGER REFERENCES styles(id)');
+      console.log('✅ generation_history 表迁移完成 (style_id)');
+    }
+    db.run('CREATE INDEX IF NOT EXISTS idx_generation_history_style_id ON generation_history(style_id)');
+
+    // 13. 检查 generation_history.prompt_version_id（生成时使用的提示词配置版本）
+    try {
+      db.prepare('SELECT prompt_version_id FROM generation_history LIMIT 1').get();
+    } catch (error) {
+      console.log('🔄 执行数据库迁移: 为 generation_history 表添加 prompt_version_id 字段...');
+      db.run('ALTER TABLE generation_history ADD COLUMN prompt_version_id INTEGER REFERENCES prompt_versions(id)');
+      console.log('✅ generation_history 表迁移完成 (prompt_version_id)');
+    }
+
+    // 14. 检查 generation_history.experiment_id / variant（A/B 实验分组）
+    try {
+      db.prepare('SELECT experiment_id, variant FROM generation_history LIMIT 1').get();
+    } catch (error) {
+      console.log('🔄 执行数据库迁移: 为 generation_history 表添加 experiment_id / variant 字段...');
+      db.run('ALTER TABLE generation_history ADD COLUMN experiment_id INTEGER REFERENCES prompt_experiments(id)');
+      db.run('ALTER TABLE generation_history ADD COLUMN variant VARCHAR(10)');
+      console.log('✅ generation_history 表迁移完成 (experiment_id / variant)');
+    }
+    db.run('CREATE INDEX IF NOT EXISTS idx_generation_history_experiment ON generation_history(experiment_id, variant)');
+
+    // 15. 检查 collection_items.materials（材质清单，JSON，未分析时为空）
+    try {
+      db.prepare('SELECT materials FROM collection_items LIMIT 1').get();
+    } catch (error) {
+      console.log('🔄 执行数据库迁移: 为 collection_items 表添加 materials 字段...');
+      db.run('ALTER TABLE collection_items ADD COLUMN materials TEXT');
+      console.log('✅ collection_items 表迁移完成 (materials)');
+    }
+
+    // 16. 检查 collection_items.palette（前端提取的色板，JSON）
+    try {
+      db.prepare('SELECT palette FROM collection_items LIMIT 1').get();
+    } catch (error) {
+      console.log('🔄 执行数据库迁移: 为 collection_items 表添加 palette 字段...');
+      db.run('ALTER TABLE collection_items ADD COLUMN palette TEXT');
+      console.log('✅ collection_items 表迁移完成 (palette)');
+    }
+
+    // 17. 检查 generation_history.palette（服务端提取的宫格图色板，JSON，用于按颜色检索历史；空数组表示无法提取）
+    try {
+      db.prepare('SELECT palette FROM generation_history LIMIT 1').get();
+    } catch (error) {
+      console.log('🔄 执行数据库迁移: 为 generation_history 表添加 palette 字段...');
+      db.run('ALTER TABLE generation_history ADD COLUMN palette TEXT');
+      console.log('✅ generation_history 表迁移完成 (palette)');
+    }
+    // 历史检索按创意等级筛选
+    db.run('CREATE INDEX IF NOT EXISTS idx_generation_history_user_level ON generation_history(user_id, level)');
   } catch (error) {
     console.error('❌ 数据库迁移失败:', error);
     // 不抛出错误，尝试继续运行，因为可能只是部分迁移失败
@@ -162,11 +475,12 @@ const dbWrapper = {
   prepare: (sql) => ({
     run: (...params) => {
       db.run(sql, params);
-      if (!inTransaction) saveDatabase();
-      // 获取 last_insert_rowid - 使用 exec 并正确解析
+      // 先读取 changes 和 last_insert_rowid，再落盘（export 会重置这两个值）
+      const changes = db.getRowsModified();
       const result = db.exec('SELECT last_insert_rowid() as id');
       const lastId = result.length > 0 && result[0].values.length > 0 ? result[0].values[0][0] : 0;
-      return { lastInsertRowid: lastId, changes: db.getRowsModified() };
+      if (!inTransaction) saveDatabase();
+      return { lastInsertRowid: lastId, changes };
     },
     get: (...params) => {
       const result = db.exec(sql, params);
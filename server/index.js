@@ -12,6 +12,16 @@ import userRoutes from './routes/user.js';
 import inviteRoutes from './routes/invite.js';
 import adminRoutes from './routes/admin.js';
 import geminiRoutes from './routes/gemini.js';
+import collectionRoutes from './routes/collections.js';
+import boardRoutes from './routes/boards.js';
+import shareRoutes from './routes/share.js';
+import jobRoutes from './routes/jobs.js';
+import styleRoutes from './routes/styles.js';
+import taxonomyRoutes from './routes/taxonomy.js';
+import { recoverInterruptedJobs } from './services/jobs.js';
+import { seedDefaultStyles } from './services/styles.js';
+import { initPromptVersions } from './services/promptVersions.js';
+import { backfillGenerationPalettes } from './services/generations.js';
 
 const app = express();
 const PORT = process.env.PORT || 3001;
@@ -46,6 +56,9 @@ app.use(cors({
     credentials: true,
 }));
 
+// 生产环境由本机 Nginx 反向代理，信任其 X-Forwarded-For 以取得真实来访 IP（分享密码错误次数限制）
+app.set('trust proxy', 'loopback');
+
 app.use(express.json({ limit: '50mb' }));
 
 // 请求日志
@@ -62,6 +75,12 @@ app.use('/api/auth', authRoutes);
 app.use('/api/user', userRoutes);
 app.use('/api/invite', inviteRoutes);
 app.use('/api/admin', adminRoutes);
+app.use('/api/collections', collectionRoutes);
+app.use('/api/boards', boardRoutes);
+app.use('/api/share', shareRoutes);
+app.use('/api/jobs', jobRoutes);
+app.use('/api/styles', styleRoutes);
+app.use('/api/taxonomy', taxonomyRoutes);
 app.use('/api', geminiRoutes);
 
 // 本地开发: 静态文件服务 (生产环境由 Nginx 处理)
@@ -101,9 +120,21 @@ async function startServer() {
     // 初始化数据库
     await initDatabase();
 
+    // 退还上次未完成任务的积分
+    recoverInterruptedJobs();
+
+    // 首次启动写入默认风格库
+    seedDefaultStyles();
+
+    // 加载当前提示词配置版本（首次启动从 config/prompts.json 导入）
+    initPromptVersions();
+
     // 启动定时任务
     startCronJobs();
 
+    // 后台为旧生成记录补算色板（不阻塞启动）
+    backfillGenerationPalettes().catch(error => console.error('补算生成记录色板失败:', error));
+
     app.listen(PORT, async () => {
         console.log(`
 ╔═══════════════════════════════════════════════════════════╗
@@ -18,6 +18,11 @@ export function authMiddleware(req, res, next) {
     try {
         const decoded = jwt.verify(token, config.jwtSecret);
 
+        // 限定用途的令牌（如任务推送令牌）不能当作登录令牌使用
+        if (decoded.scope) {
+            return res.status(401).json({ error: '无效的认证令牌' });
+        }
+
         // 查询用户是否存在
         const user = db.prepare('SELECT id, email, points FROM users WHERE id = ?').get(decoded.userId);
 
@@ -40,3 +45,39 @@ export function authMiddleware(req, res, next) {
 export function generateToken(userId) {
     return jwt.sign({ userId }, config.jwtSecret, { expiresIn: config.jwtExpiresIn });
 }
+
+/**
+ * 任务推送令牌认证中间件
+ * EventSource 无法设置请求头，只能通过 ?token= 传递令牌；
+ * 为避免登录令牌出现在访问日志、代理和浏览器历史中，这里只接受绑定到该任务的短期令牌
+ */
+export function jobEventsAuthMiddleware(req, res, next) {
+    const token = typeof req.query.token === 'string' ? req.query.token : '';
+
+    try {
+        const decoded = jwt.verify(token, config.jwtSecret);
+        if (decoded.scope !== 'job-events' || decoded.jobId !== req.params.id) {
+            return res.status(401).json({ error: '无效的认证令牌' });
+        }
+
+        const user = db.prepare('SELECT id, email, points FROM users WHERE id = ?').get(decoded.userId);
+        if (!user) {
+            return res.status(401).json({ error: '用户不存在' });
+        }
+
+        req.user = user;
+        next();
+    } catch (error) {
+        return res.status(401).json({ error: '无效的认证令牌' });
+    }
+}
+
+/**
+ * 生成任务推送令牌（只能订阅指定任务，有效期很短）
+ * @param {number} userId 用户 ID
+ * @param {string} jobId 任务 ID
+ * @returns {string} JWT Token
+ */
+export function generateJobEventsToken(userId, jobId) {
+    return jwt.sign({ userId, jobId, scope: 'job-events' }, config.jwtSecret, { expiresIn: config.jobEventsTokenExpiresIn });
+}
@@ -2,6 +2,18 @@ import { Router } from 'express';
 import { authMiddleware } from '../middleware/auth.js';
 import db from '../database.js';
 import config from '../config.js';
+import { saveImage, decodeDataUrl, deleteImage } from '../services/storage.js';
+import {
+    listStyles, createStyle, updateStyle, deleteStyle, getStyleThumbnail,
+    MAX_STYLE_NAME_LENGTH, MAX_STYLE_DESCRIPTION_LENGTH, MAX_STYLE_PALETTE, MAX_STYLE_MATERIALS, MAX_STYLE_MATERIAL_LENGTH,
+} from '../services/styles.js';
+import {
+    listPromptVersions, findPromptVersion, publishPromptVersion, activatePromptVersion, MAX_PROMPT_NOTE_LENGTH,
+} from '../services/promptVersions.js';
+import { validatePromptConfig } from '../services/prompts.js';
+import {
+    listExperiments, createExperiment, stopExperiment, normalizeVariants, EXPERIMENT_ASSIGNMENTS, MAX_EXPERIMENT_NAME_LENGTH,
+} from '../services/experiments.js';
 
 const router = Router();
 
@@ -423,4 +435,284 @@ router.post('/generate-codes', authMiddleware, adminMiddleware, (req, res) => {
     }
 });
 
+// ============================================================================
+// 风格库管理
+// ============================================================================
+const HEX_COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+/**
+ * 校验风格字段（PATCH 时只校验传入的字段）
+ * @returns {{ updates?: object, error?: string }}
+ */
+function parseStyleInput(body, { partial = false } = {}) {
+    const updates = {};
+
+    if (!partial || body.name !== undefined) {
+        const name = typeof body.name === 'string' ? body.name.trim() : '';
+        if (!name || name.length > MAX_STYLE_NAME_LENGTH) {
+            return { error: `风格名称不能为空且不超过 ${MAX_STYLE_NAME_LENGTH} 个字符` };
+        }
+        updates.name = name;
+    }
+    if (body.description !== undefined) {
+        if (typeof body.description !== 'string' || body.description.length > MAX_STYLE_DESCRIPTION_LENGTH) {
+            return { error: `风格描述不超过 ${MAX_STYLE_DESCRIPTION_LENGTH} 个字符` };
+        }
+        updates.description = body.description.trim();
+    }
+    if (body.palette !== undefined) {
+        if (!Array.isArray(body.palette) || body.palette.length > MAX_STYLE_PALETTE || !body.palette.every(c => HEX_COLOR_PATTERN.test(c))) {
+            return { error: `色板最多 ${MAX_STYLE_PALETTE} 个 #RRGGBB 颜色` };
+        }
+        updates.palette = body.palette.map(c => c.toUpperCase());
+    }
+    if (body.materials !== undefined) {
+        const materials = Array.isArray(body.materials)
+            ? body.materials.filter(m => typeof m === 'string').map(m => m.trim()).filter(Boolean)
+            : null;
+        if (!materials || materials.length > MAX_STYLE_MATERIALS || materials.some(m => m.length > MAX_STYLE_MATERIAL_LENGTH)) {
+            return { error: `材质关键词最多 ${MAX_STYLE_MATERIALS} 个，每个不超过 ${MAX_STYLE_MATERIAL_LENGTH} 个字符` };
+        }
+        updates.materials = materials;
+    }
+    if (body.sortOrder !== undefined) {
+        if (!Number.isInteger(body.sortOrder)) return { error: '无效的排序值' };
+        updates.sortOrder = body.sortOrder;
+    }
+    if (body.enabled !== undefined) {
+        updates.enabled = !!body.enabled;
+    }
+
+    return { updates };
+}
+
+// ============================================================================
+// GET /api/admin/styles - 获取全部风格（含已停用）
+// ============================================================================
+router.get('/styles', authMiddleware, adminMiddleware, (req, res) => {
+    res.json({ styles: listStyles({ includeDisabled: true }) });
+});
+
+// ============================================================================
+// POST /api/admin/styles - 新建风格
+// Body: { name, description?, palette?: string[], materials?: string[], enabled?, thumbnail?: 'data:image/...' }
+// ============================================================================
+router.post('/styles', authMiddleware, adminMiddleware, async (req, res) => {
+    const { updates, error } = parseStyleInput(req.body);
+    if (error) {
+        return res.status(400).json({ error });
+    }
+
+    let thumbnail = null;
+    try {
+        if (req.body.thumbnail) {
+            const decoded = decodeDataUrl(req.body.thumbnail);
+            if (!decoded) {
+                return res.status(400).json({ error: '缩略图格式无效' });
+            }
+            thumbnail = await saveImage(decoded.buffer, decoded.mimeType, 'style_');
+        }
+
+        res.json({ style: createStyle({ ...updates, thumbnailFilename: thumbnail?.filename ?? null }) });
+    } catch (error) {
+        if (thumbnail) await deleteImage(thumbnail.filename);
+        console.error('新建风格失败:', error);
+        res.status(500).json({ error: '新建风格失败，请重试' });
+    }
+});
+
+// ============================================================================
+// PATCH /api/admin/styles/:id - 更新风格
+// Body: 同 POST（字段均可选），thumbnail 为 null 表示移除缩略图
+// ============================================================================
+router.patch('/styles/:id', authMiddleware, adminMiddleware, async (req, res) => {
+    const styleId = parseInt(req.params.id);
+    if (!styleId) {
+        return res.status(400).json({ error: '无效的风格 ID' });
+    }
+
+    const { updates, error } = parseStyleInput(req.body, { partial: true });
+    if (error) {
+        return res.status(400).json({ error });
+    }
+
+    let thumbnail = null;
+    try {
+        const previousThumbnail = getStyleThumbnail(styleId);
+        if (req.body.thumbnail === null) {
+            updates.thumbnailFilename = null;
+        } else if (req.body.thumbnail !== undefined) {
+            const decoded = decodeDataUrl(req.body.thumbnail);
+            if (!decoded) {
+                return res.status(400).json({ error: '缩略图格式无效' });
+            }
+            thumbnail = await saveImage(decoded.buffer, decoded.mimeType, 'style_');
+            updates.thumbnailFilename = thumbnail.filename;
+        }
+
+        const style = updateStyle(styleId, updates);
+        if (!style) {
+            if (thumbnail) await deleteImage(thumbnail.filename);
+            return res.status(404).json({ error: '风格不存在' });
+        }
+
+        // 缩略图被替换或移除后清理旧文件
+        if (updates.thumbnailFilename !== undefined && previousThumbnail) {
+            await deleteImage(previousThumbnail);
+        }
+        res.json({ style });
+    } catch (error) {
+        if (thumbnail) await deleteImage(thumbnail.filename);
+        console.error('更新风格失败:', error);
+        res.status(500).json({ error: '更新风格失败，请重试' });
+    }
+});
+
+// ============================================================================
+// DELETE /api/admin/styles/:id - 删除风格（软删除，历史记录保留风格关联）
+// ============================================================================
+router.delete('/styles/:id', authMiddleware, adminMiddleware, (req, res) => {
+    const styleId = parseInt(req.params.id);
+    if (!styleId) {
+        return res.status(400).json({ error: '无效的风格 ID' });
+    }
+
+    if (!deleteStyle(styleId)) {
+        return res.status(404).json({ error: '风格不存在' });
+    }
+
+    res.json({ success: true });
+});
+
+// ============================================================================
+// GET /api/admin/prompt-versions - 获取提示词配置版本列表（不含配置内容）
+// ============================================================================
+router.get('/prompt-versions', authMiddleware, adminMiddleware, (req, res) => {
+    res.json({ versions: listPromptVersions() });
+});
+
+// ============================================================================
+// GET /api/admin/prompt-versions/:id - 获取某个版本的完整配置
+// ============================================================================
+router.get('/prompt-versions/:id', authMiddleware, adminMiddleware, (req, res) => {
+    const version = findPromptVersion(parseInt(req.params.id));
+    if (!version) {
+        return res.status(404).json({ error: '版本不存在' });
+    }
+    res.json({ version });
+});
+
+// ============================================================================
+// POST /api/admin/prompt-versions - 发布新版本
+// Body: { config: object, note?: string, activate?: boolean (默认 true，立即生效) }
+// 配置不合法时返回 400 及 details 错误列表
+// ============================================================================
+router.post('/prompt-versions', authMiddleware, adminMiddleware, (req, res) => {
+    const { config: promptConfig, note = '', activate = true } = req.body;
+
+    if (typeof note !== 'string' || note.length > MAX_PROMPT_NOTE_LENGTH) {
+        return res.status(400).json({ error: `版本说明不超过 ${MAX_PROMPT_NOTE_LENGTH} 个字符` });
+    }
+    const errors = validatePromptConfig(promptConfig);
+    if (errors.length > 0) {
+        return res.status(400).json({ error: '提示词配置不合法', details: errors });
+    }
+
+    try {
+        const version = publishPromptVersion(promptConfig, { note: note.trim(), userId: req.user.id, activate: !!activate });
+        console.log(`[Admin] Prompt version #${version.id} published by ${req.user.email}${version.active ? ' (active)' : ''}`);
+        res.json({ version });
+    } catch (error) {
+        console.error('发布提示词版本失败:', error);
+        res.status(500).json({ error: '发布失败，请重试' });
+    }
+});
+
+// ============================================================================
+// POST /api/admin/prompt-versions/:id/activate - 激活指定版本（回滚）
+// ============================================================================
+router.post('/prompt-versions/:id/activate', authMiddleware, adminMiddleware, (req, res) => {
+    const versionId = parseInt(req.params.id);
+    if (!versionId) {
+        return res.status(400).json({ error: '无效的版本 ID' });
+    }
+
+    // 旧版本可能缺少必需占位符，激活前按当前规则重新校验
+    const existing = findPromptVersion(versionId);
+    if (!existing) {
+        return res.status(404).json({ error: '版本不存在' });
+    }
+    const errors = validatePromptConfig(existing.config);
+    if (errors.length > 0) {
+        return res.status(400).json({ error: '提示词配置不合法', details: errors });
+    }
+
+    try {
+        const version = activatePromptVersion(versionId);
+        if (!version) {
+            return res.status(404).json({ error: '版本不存在' });
+        }
+        console.log(`[Admin] Prompt version #${version.id} activated by ${req.user.email}`);
+        res.json({ version });
+    } catch (error) {
+        console.error('激活提示词版本失败:', error);
+        res.status(500).json({ error: '激活失败，请重试' });
+    }
+});
+
+// ============================================================================
+// GET /api/admin/experiments - 获取 A/B 实验列表及各分组结果
+// ============================================================================
+router.get('/experiments', authMiddleware, adminMiddleware, (req, res) => {
+    res.json({ experiments: listExperiments() });
+});
+
+// ============================================================================
+// POST /api/admin/experiments - 新建并开始实验（同一时间只能有一个进行中的实验）
+// Body: { name: string, assignment: 'user' | 'request', variants: [{ promptVersionId: number, weight: number }] }
+// ============================================================================
+router.post('/experiments', authMiddleware, adminMiddleware, (req, res) => {
+    const name = typeof req.body.name === 'string' ? req.body.name.trim() : '';
+    if (!name || name.length > MAX_EXPERIMENT_NAME_LENGTH) {
+        return res.status(400).json({ error: `实验名称不能为空且不超过 ${MAX_EXPERIMENT_NAME_LENGTH} 个字符` });
+    }
+    const assignment = req.body.assignment ?? 'user';
+    if (!EXPERIMENT_ASSIGNMENTS.includes(assignment)) {
+        return res.status(400).json({ error: `分配方式只能是 ${EXPERIMENT_ASSIGNMENTS.join(' / ')}` });
+    }
+    const { variants, error } = normalizeVariants(req.body.variants);
+    if (error) {
+        return res.status(400).json({ error });
+    }
+
+    try {
+        const experiment = createExperiment(req.user.id, { name, assignment, variants });
+        console.log(`[Admin] Experiment #${experiment.id} started by ${req.user.email}`);
+        res.json({ experiment });
+    } catch (error) {
+        if (error.status === 409) {
+            return res.status(409).json({ error: error.message });
+        }
+        console.error('创建实验失败:', error);
+        res.status(500).json({ error: '创建实验失败，请重试' });
+    }
+});
+
+// ============================================================================
+// POST /api/admin/experiments/:id/stop - 停止实验
+// ============================================================================
+router.post('/experiments/:id/stop', authMiddleware, adminMiddleware, (req, res) => {
+    const experimentId = parseInt(req.params.id);
+    if (!experimentId) {
+        return res.status(400).json({ error: '无效的实验 ID' });
+    }
+
+    if (!stopExperiment(experimentId)) {
+        return res.status(404).json({ error: '实验不存在或已停止' });
+    }
+
+    console.log(`[Admin] Experiment #${experimentId} stopped by ${req.user.email}`);
+    res.json({ success: true });
+});
+
 export default router;
@@ -0,0 +1,93 @@
+import { Router } from 'express';
+import { authMiddleware } from '../middleware/auth.js';
+import { listBoards, createBoard, updateBoard, deleteBoard, MAX_BOARD_NAME_LENGTH } from '../services/boards.js';
+
+const router = Router();
+
+// 看板名称校验：返回清洗后的名称，不合法时返回 null
+const sanitizeName = (name) => {
+    if (typeof name !== 'string') return null;
+    const trimmed = name.trim();
+    return trimmed && trimmed.length <= MAX_BOARD_NAME_LENGTH ? trimmed : null;
+};
+
+// ============================================================================
+// GET /api/boards - 获取看板列表（含封面和条目数）
+// ============================================================================
+router.get('/', authMiddleware, (req, res) => {
+    res.json({ boards: listBoards(req.user.id) });
+});
+
+// ============================================================================
+// POST /api/boards - 新建看板
+// Body: { name: string }
+// ============================================================================
+router.post('/', authMiddleware, (req, res) => {
+    const name = sanitizeName(req.body.name);
+    if (!name) {
+        return res.status(400).json({ error: `看板名称不能为空且不超过 ${MAX_BOARD_NAME_LENGTH} 个字符` });
+    }
+
+    res.json({ board: createBoard(req.user.id, name) });
+});
+
+// ============================================================================
+// PATCH /api/boards/:id - 重命名 / 设置封面
+// Body: { name?: string, coverItemId?: number | null }
+// ============================================================================
+router.patch('/:id', authMiddleware, (req, res) => {
+    const boardId = parseInt(req.params.id);
+    if (!boardId) {
+        return res.status(400).json({ error: '无效的看板 ID' });
+    }
+
+    const updates = {};
+    if (req.body.name !== undefined) {
+        updates.name = sanitizeName(req.body.name);
+        if (!updates.name) {
+            return res.status(400).json({ error: `看板名称不能为空且不超过 ${MAX_BOARD_NAME_LENGTH} 个字符` });
+        }
+    }
+    if (req.body.coverItemId !== undefined) {
+        if (req.body.coverItemId !== null && !Number.isInteger(req.body.coverItemId)) {
+            return res.status(400).json({ error: '无效的封面图片' });
+        }
+        updates.coverItemId = req.body.coverItemId;
+    }
+
+    try {
+        const board = updateBoard(req.user.id, boardId, updates);
+        if (!board) {
+            return res.status(404).json({ error: '看板不存在' });
+        }
+        res.json({ board });
+    } catch (error) {
+        if (error.status === 400) {
+            return res.status(400).json({ error: error.message });
+        }
+        console.error('更新看板失败:', error);
+        res.status(500).json({ error: '更新看板失败，请重试' });
+    }
+});
+
+// ============================================================================
+// DELETE /api/boards/:id - 删除看板（看板内图片回到未分组）
+// ============================================================================
+router.delete('/:id', authMiddleware, (req, res) => {
+    const boardId = parseInt(req.params.id);
+    if (!boardId) {
+        return res.status(400).json({ error: '无效的看板 ID' });
+    }
+
+    try {
+        if (!deleteBoard(req.user.id, boardId)) {
+            return res.status(404).json({ error: '看板不存在' });
+        }
+        res.json({ success: true });
+    } catch (error) {
+        console.error('删除看板失败:', error);
+        res.status(500).json({ error: '删除看板失败，请重试' });
+    }
+});
+
+export default router;
@@ -0,0 +1,268 @@
+import { Router } from 'express';
+import { authMiddleware } from '../middleware/auth.js';
+import { saveImage, decodeDataUrl, deleteImage, readImage } from '../services/storage.js';
+import {
+    listCollection,
+    addCollectionItems,
+    updateCollectionItem,
+    deleteCollectionItem,
+    reorderCollection,
+    moveCollectionItems,
+    findCollectionImage,
+    updateCollectionMaterials,
+    searchCollection,
+} from '../services/collections.js';
+import { sanitizePalette, parseHexColor } from '../services/palettes.js';
+import { boardExists } from '../services/boards.js';
+import { indexCollectionImage } from '../services/similarity.js';
+import { recordOutcome } from '../services/experiments.js';
+import { generateContent, formatError } from '../services/vertexai.js';
+import { analysisLimiter } from '../services/rateLimit.js';
+import { buildMaterialSchedulePrompt, parseMaterialSchedule } from '../services/prompts.js';
+
+const router = Router();
+
+// 单次最多上传的裁切图数量
+const MAX_UPLOAD_ITEMS = 20;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// 材质分析失败时按模型接口的状态码给出提示
+const MATERIAL_ERROR_MESSAGES = {
+    400: '图片无法识别，请换一张图片试试',
+    404: '收藏图片不存在',
+    429: '当前使用人数较多，请稍后重试',
+    503: '分析服务暂时不可用，请稍后重试',
+    504: '分析超时，请稍后重试',
+};
+
+// 标签参数清洗：只保留非空字符串
+const sanitizeTags = (tags) => Array.isArray(tags)
+    ? tags.filter(t => typeof t === 'string' && t.trim()).map(t => t.trim()).slice(0, 20)
+    : [];
+
+// ============================================================================
+// GET /api/collections - 获取收藏列表（按排序）
+// ============================================================================
+router.get('/', authMiddleware, (req, res) => {
+    res.json({ items: listCollection(req.user.id) });
+});
+
+// ============================================================================
+// GET /api/collections/search - 检索收藏（所有条件同时满足）
+// Query: tag (可逗号分隔多个，需全部包含), from (YYYY-MM-DD), to (YYYY-MM-DD),
+//        generationId (来源生成记录), level (来源记录的创意等级 1-5), color (#rrggbb，按色板接近程度排序)
+// ============================================================================
+router.get('/search', authMiddleware, (req, res) => {
+    const tags = typeof req.query.tag === 'string' ? sanitizeTags(req.query.tag.split(',')) : [];
+    const { from, to } = req.query;
+    const generationId = parseInt(req.query.generationId) || undefined;
+    const level = parseInt(req.query.level) || undefined;
+    const color = req.query.color ? parseHexColor(req.query.color) : undefined;
+
+    if ((from && !DATE_PATTERN.test(from)) || (to && !DATE_PATTERN.test(to))) {
+        return res.status(400).json({ error: '日期格式应为 YYYY-MM-DD' });
+    }
+    if (level !== undefined && (level < 1 || level > 5)) {
+        return res.status(400).json({ error: '创意等级应为 1-5' });
+    }
+    if (color === null) {
+        return res.status(400).json({ error: '颜色格式应为 #RRGGBB' });
+    }
+
+    try {
+        res.json({ items: searchCollection(req.user.id, { tags, from, to, generationId, level, color }) });
+    } catch (error) {
+        console.error('检索收藏失败:', error);
+        res.status(500).json({ error: '检索收藏失败' });
+    }
+});
+
+// ============================================================================
+// POST /api/collections - 上传裁切图并加入收藏（插入到最前面）
+// Body: { items: [{ image: 'data:image/png;base64,...', tags?: string[], generationId?: number, palette?: Swatch[] }], boardId?: number }
+// Swatch: { hex: '#rrggbb', rgb: [r, g, b], lab: [L, a, b], proportion: 0-1 }  (前端提取，服务端只做校验)
+// ============================================================================
+router.post('/', authMiddleware, async (req, res) => {
+    const { items } = req.body;
+    const boardId = req.body.boardId ?? null;
+
+    if (!Array.isArray(items) || items.length === 0) {
+        return res.status(400).json({ error: '请提供需要收藏的图片' });
+    }
+    if (items.length > MAX_UPLOAD_ITEMS) {
+        return res.status(400).json({ error: `单次最多收藏 ${MAX_UPLOAD_ITEMS} 张图片` });
+    }
+    if (boardId !== null && (!Number.isInteger(boardId) || !boardExists(req.user.id, boardId))) {
+        return res.status(404).json({ error: '看板不存在' });
+    }
+
+    const decoded = items.map(item => decodeDataUrl(item?.image));
+    if (decoded.some(d => !d)) {
+        return res.status(400).json({ error: '图片格式无效' });
+    }
+
+    const saved = [];
+    try {
+        for (const { buffer, mimeType } of decoded) {
+            saved.push(await saveImage(buffer, mimeType, 'crop_'));
+        }
+
+        const created = addCollectionItems(req.user.id, items.map((item, index) => ({
+            image: saved[index],
+            tags: sanitizeTags(item.tags),
+            generationId: Number.isInteger(item.generationId) ? item.generationId : null,
+            palette: sanitizePalette(item.palette),
+        })), boardId);
+        new Set(created.map(item => item.generationId)).forEach(id => recordOutcome(id, 'collect'));
+        // 计算以图搜图特征（不阻塞返回）
+        created.forEach((item, index) => indexCollectionImage(req.user.id, item.id, decoded[index].buffer));
+
+        res.json({ items: created });
+    } catch (error) {
+        // 落库失败时清理已写入的文件
+        await Promise.all(saved.map(image => deleteImage(image.filename)));
+        console.error('收藏保存失败:', error);
+        res.status(500).json({ error: '收藏保存失败，请重试' });
+    }
+});
+
+// ============================================================================
+// PUT /api/collections/order - 重排收藏
+// Body: { ids: number[] }
+// ============================================================================
+router.put('/order', authMiddleware, (req, res) => {
+    const { ids } = req.body;
+
+    if (!Array.isArray(ids) || !ids.every(id => Number.isInteger(id))) {
+        return res.status(400).json({ error: '无效的排序参数' });
+    }
+
+    try {
+        res.json({ items: reorderCollection(req.user.id, ids) });
+    } catch (error) {
+        console.error('收藏排序失败:', error);
+        res.status(500).json({ error: '收藏排序失败，请重试' });
+    }
+});
+
+// ============================================================================
+// PUT /api/collections/board - 批量移动收藏到看板
+// Body: { ids: number[], boardId: number | null }  (boardId 为 null 表示移回未分组)
+// ============================================================================
+router.put('/board', authMiddleware, (req, res) => {
+    const { ids } = req.body;
+    const boardId = req.body.boardId ?? null;
+
+    if (!Array.isArray(ids) || ids.length === 0 || !ids.every(id => Number.isInteger(id))) {
+        return res.status(400).json({ error: '请选择需要移动的图片' });
+    }
+    if (boardId !== null && (!Number.isInteger(boardId) || !boardExists(req.user.id, boardId))) {
+        return res.status(404).json({ error: '看板不存在' });
+    }
+
+    try {
+        const moved = moveCollectionItems(req.user.id, ids, boardId);
+        res.json({ success: true, moved });
+    } catch (error) {
+        console.error('移动收藏失败:', error);
+        res.status(500).json({ error: '移动收藏失败，请重试' });
+    }
+});
+
+// ============================================================================
+// PATCH /api/collections/:id - 更新收藏标签 / 色板
+// Body: { tags?: string[], palette?: Swatch[] }  (至少提供一项)
+// ============================================================================
+router.patch('/:id', authMiddleware, (req, res) => {
+    const itemId = parseInt(req.params.id);
+    const { tags, palette } = req.body;
+    if (!itemId) {
+        return res.status(400).json({ error: '无效的收藏 ID' });
+    }
+    if (tags === undefined && palette === undefined) {
+        return res.status(400).json({ error: '请提供需要更新的内容' });
+    }
+    if (tags !== undefined && !Array.isArray(tags)) {
+        return res.status(400).json({ error: '无效的标签参数' });
+    }
+    if (palette !== undefined && !sanitizePalette(palette)) {
+        return res.status(400).json({ error: '无效的色板参数' });
+    }
+
+    const item = updateCollectionItem(req.user.id, itemId, {
+        tags: tags !== undefined ? sanitizeTags(tags) : undefined,
+        palette: palette !== undefined ? sanitizePalette(palette) : undefined,
+    });
+    if (!item) {
+        return res.status(404).json({ error: '收藏不存在' });
+    }
+
+    res.json({ item });
+});
+
+// ============================================================================
+// POST /api/collections/:id/materials - 分析裁切图的材质清单并保存（重复调用会重新分析）
+// 不扣积分，与参考图分析共用每用户每小时次数限制 (config.analysisPerHour)
+// Response: { item }  (item.materials 为 [{ element, material, finish, color, colorCode, supplierCategory }])
+// ============================================================================
+router.post('/:id/materials', authMiddleware, async (req, res) => {
+    const itemId = parseInt(req.params.id);
+    if (!itemId) {
+        return res.status(400).json({ error: '无效的收藏 ID' });
+    }
+
+    const image = findCollectionImage(req.user.id, itemId);
+    if (!image) {
+        return res.status(404).json({ error: '收藏不存在' });
+    }
+
+    // 不扣积分，按用户限制调用次数（与参考图分析共用）
+    const retryAfter = analysisLimiter.retryAfter(req.user.id);
+    if (retryAfter > 0) {
+        res.set('Retry-After', String(retryAfter));
+        return res.status(429).json({ error: `分析次数过多，请 ${Math.ceil(retryAfter / 60)} 分钟后再试`, code: 'RATE_LIMITED' });
+    }
+    analysisLimiter.hit(req.user.id);
+
+    const startTime = Date.now();
+    try {
+        const buffer = await readImage(image.filename);
+        const result = await generateContent(buildMaterialSchedulePrompt(), {
+            inputImages: [`data:${image.mimeType || 'image/png'};base64,${buffer.toString('base64')}`],
+            responseMimeType: 'application/json',
+        });
+        const materials = parseMaterialSchedule(result.text);
+        if (materials.length === 0) {
+            return res.status(422).json({ error: '未能识别出材质，请换一张图片试试' });
+        }
+
+        console.log(`[Collections/Materials] OK | ${Date.now() - startTime}ms | rows=${materials.length}`);
+        res.json({ item: updateCollectionMaterials(req.user.id, itemId, materials) });
+    } catch (error) {
+        // 图片文件丢失按 404 处理，其余沿用模型接口的状态码
+        const { status, code } = error.code === 'ENOENT' ? { status: 404, code: 'NOT_FOUND' } : formatError(error);
+        console.error(`[Collections/Materials] ERR ${status} | ${Date.now() - startTime}ms | ${code}`);
+        res.status(status).json({ error: MATERIAL_ERROR_MESSAGES[status] || '材质分析失败，请稍后重试', code });
+    }
+});
+
+// ============================================================================
+// DELETE /api/collections/:id - 删除收藏（同时删除图片文件）
+// ============================================================================
+router.delete('/:id', authMiddleware, async (req, res) => {
+    const itemId = parseInt(req.params.id);
+    if (!itemId) {
+        return res.status(400).json({ error: '无效的收藏 ID' });
+    }
+
+    const filename = deleteCollectionItem(req.user.id, itemId);
+    if (!filename) {
+        return res.status(404).json({ error: '收藏不存在' });
+    }
+
+    await deleteImage(filename);
+    res.json({ success: true });
+});
+
+export default router;
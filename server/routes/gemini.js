@@ -1,23 +1,34 @@
 /**
  * Gemini API Route
  * POST /api/gemini - 文本生成
- * POST /api/gemini/image - 图像生成 (静态文件落盘模式, 需要 JWT 鉴权)
+ * POST /api/gemini/analyze - 参考图分析，建议空间标签 (需要 JWT 鉴权)
+ * POST /api/gemini/image - 图像生成 (异步任务, 需要 JWT 鉴权)
+ * POST /api/gemini/upscale - 高清放大 (异步任务, 需要 JWT 鉴权)
+ * POST /api/gemini/edit - 局部编辑 (异步任务, 需要 JWT 鉴权)
+ *
+ * 图像类接口预扣积分后入队，立即返回任务 ID，进度通过 /api/jobs/:id 查询
  */
 import express from 'express';
-import { writeFile, mkdir } from 'node:fs/promises';
 import { existsSync } from 'node:fs';
-import { randomUUID } from 'node:crypto';
 import path from 'node:path';
 import { generateContent, generateImage, formatError } from '../services/vertexai.js';
-import { buildGenerationPrompt, getGenerationConfig } from '../services/prompts.js';
+import {
+    buildGenerationPrompt, buildEditPrompt, buildAnalysisPrompt, parseAnalysisResult, getGenerationConfig, getActivePromptVersionId, sanitizeBrief, sanitizeAvoidList, sanitizeEditInstruction,
+    GRID_LAYOUTS, DEFAULT_GRID_LAYOUT, REFERENCE_ROLES, MAX_REFERENCE_IMAGES, MAX_AVOID_ITEMS, MAX_EDIT_INSTRUCTION_LENGTH,
+} from '../services/prompts.js';
+import { reservePoints, commitPoints, refundPoints } from '../services/points.js';
+import { STATIC_DIR, saveImage, deleteImage, decodeDataUrl, hashImage, toPublicUrl } from '../services/storage.js';
+import { recordGeneration, findGeneration, indexGenerationPalette } from '../services/generations.js';
+import { indexGenerationImage } from '../services/similarity.js';
+import { enqueueJob, registerJobHandler } from '../services/jobs.js';
+import { analysisLimiter } from '../services/rateLimit.js';
+import { findStyle } from '../services/styles.js';
+import { assignVariant, recordOutcome, recordDownload, recordRegenerate } from '../services/experiments.js';
 import { authMiddleware } from '../middleware/auth.js';
+import config from '../config.js';
 
 const router = express.Router();
 
-// 静态文件存储配置 (可通过环境变量覆盖，默认使用生产路径)
-const STATIC_DIR = process.env.STATIC_DIR || '/www/generator/runtime/generated';
-const STATIC_URL_BASE = process.env.STATIC_URL_BASE || 'https://api.abdc.online/generated';
-
 /**
  * POST /api/gemini
  * 
@@ -68,66 +79,326 @@ router.post('/gemini', async (req, res) => {
 });
 
 /**
- * POST /api/gemini/image
- * 
- * Response:
- *   { url: string }  → Nginx 静态分发的图片 URL
- * 
+ * POST /api/gemini/analyze
+ *
+ * 分析上传的参考图：从标签体系中建议空间标签，并识别风格与主要材质
+ * 不扣积分，每用户每小时最多 config.analysisPerHour 次（与收藏材质清单共用）
+ *
  * Request Body:
- * {
- *   tags?: string[],          // 空间标签数组 (可选, 默认 [])
- *   level?: number,           // 创意等级 1-5 (可选, 默认 3)
- *   imageSize?: string,       // 可选, 默认 "2K"
- *   aspectRatio?: string,     // 可选, 默认 "1:1"
- *   inputImage?: string       // 可选, base64 输入图像
- * }
+ * { inputImage: string }    // base64 图像（可带 Data URL 前缀）
+ *
+ * Response:
+ * { tags: string[], style: string, materials: string[], vibeDescription: string }
+ *   429 { error: { code: 'RATE_LIMITED' } }  → 超出次数，Retry-After 头为需等待的秒数
  */
-router.post('/gemini/image', authMiddleware, async (req, res) => {
+router.post('/gemini/analyze', authMiddleware, async (req, res) => {
     const startTime = Date.now();
-    const { tags, level, imageSize, aspectRatio, inputImage } = req.body;
-    const userId = req.user.id; // 从 JWT 中获取用户 ID
+    const { inputImage } = req.body;
 
-    // 参数验证
-    const safeTags = Array.isArray(tags) ? tags : [];
-    const safeLevel = typeof level === 'number' && level >= 1 && level <= 5 ? level : 3;
+    if (!inputImage || typeof inputImage !== 'string') {
+        return res.status(400).json({
+            error: { message: 'inputImage is required', status: 400, code: 'INVALID_ARGUMENT' }
+        });
+    }
 
-    // 在服务端构建完整 prompt（不暴露给前端）
-    const prompt = buildGenerationPrompt(safeTags, safeLevel);
-    const config = getGenerationConfig(safeLevel);
+    // 不扣积分，按用户限制调用次数（与材质清单共用）
+    const retryAfter = analysisLimiter.retryAfter(req.user.id);
+    if (retryAfter > 0) {
+        res.set('Retry-After', String(retryAfter));
+        return res.status(429).json({
+            error: { message: 'Analysis rate limit exceeded', status: 429, code: 'RATE_LIMITED' }
+        });
+    }
+    analysisLimiter.hit(req.user.id);
 
     try {
-        const result = await generateImage(prompt, { imageSize, aspectRatio, inputImage });
+        const result = await generateContent(buildAnalysisPrompt(), {
+            inputImages: [inputImage],
+            responseMimeType: 'application/json',
+            maxOutputTokens: 1024,
+        });
+        const analysis = parseAnalysisResult(result.text);
+
+        console.log(`[Gemini/Analyze] OK | ${Date.now() - startTime}ms | tags=${analysis.tags.length} | materials=${analysis.materials.length}`);
+        res.json(analysis);
+    } catch (err) {
+        const status = err.status || 500;
+        console.error(`[Gemini/Analyze] ERR ${status} | ${Date.now() - startTime}ms | ${err.code || 'UNKNOWN'}`);
+        res.status(status).json({ error: formatError(err, err.rawError) });
+    }
+});
+
+/**
+ * 预扣积分，余额不足时直接返回错误响应
+ * @returns {object | null} 预扣记录；返回 null 表示已响应错误
+ */
+function reserveOrReject(res, userId, amount, action) {
+    try {
+        return reservePoints(userId, amount, action);
+    } catch (err) {
+        res.status(err.status || 500).json({
+            error: { ...formatError(err), required: err.required, totalPoints: err.totalPoints }
+        });
+        return null;
+    }
+}
+
+/**
+ * 校验多参考图参数
+ */
+function isValidReferences(references) {
+    return Array.isArray(references)
+        && references.length >= 1
+        && references.length <= MAX_REFERENCE_IMAGES
+        && references.every(ref => ref
+            && typeof ref.image === 'string' && ref.image.length > 0
+            && Object.hasOwn(REFERENCE_ROLES, ref.role)
+            && Number.isInteger(ref.weight) && ref.weight >= 1 && ref.weight <= 5);
+}
+
+/**
+ * 图像生成任务
+ * 调用 Vertex 成功并落盘后确认扣费，失败则退还；成功与失败均写入 generation_history
+ * 以某次生成的单元格为源图时记为 operation = 'expand'
+ * @returns {{ url, generationId, newPoints, newDailyPoints, totalPoints, consumed }}
+ */
+registerJobHandler('generate', async ({ userId, params, payload, reservation }, { onRetry }) => {
+    const startTime = Date.now();
+    const { tags, level, gridLayout, imageSize, aspectRatio, parentId = null, parentCell = null, sourceHash = null, brief = null, avoid = [], styleId = null, promptVersionId = null, experimentId = null, variant = null } = params;
+    const operation = parentId ? 'expand' : 'generate';
+    const { prompt, inputImages } = payload;
+    let image = null;
+    let committed = false;
+
+    try {
+        const result = await generateImage(prompt, { imageSize, aspectRatio, inputImages, onRetry });
         const elapsed = Date.now() - startTime;
 
         // 二进制转换
         const buffer = Buffer.from(result.base64, 'base64');
 
         // 脱敏日志：只打印标签数和等级，不打印 prompt
-        console.log(`[Gemini/Image] OK | ${elapsed}ms | tags=${safeTags.length} | level=${safeLevel} | size=${imageSize || '2K'} | ratio=${aspectRatio || '1:1'} | bytes=${buffer.length} | hasInput=${!!inputImage}`);
-        // 确保目录存在
-        await mkdir(STATIC_DIR, { recursive: true });
-
-        // 生成文件名（基于 MIME 类型确定扩展名）
-        const ext = result.mimeType === 'image/png' ? 'png' :
-            result.mimeType === 'image/webp' ? 'webp' : 'jpg';
-        const filename = `${randomUUID()}.${ext}`;
-        const filepath = path.join(STATIC_DIR, filename);
+        console.log(`[Gemini/Image] OK | ${elapsed}ms | tags=${tags.length} | level=${level} | grid=${gridLayout} | size=${imageSize} | ratio=${aspectRatio} | bytes=${buffer.length} | inputs=${inputImages.length}`);
+
+        // 写入文件（基于 MIME 类型确定扩展名）
+        image = await saveImage(buffer, result.mimeType);
+        console.log(`[Gemini/Image] Saved to ${image.filepath}`);
+
+        // 图片落盘成功后确认扣费，此后不再退还
+        const points = commitPoints(reservation);
+        committed = true;
+
+        // 写入生成历史
+        const generationId = recordGeneration({
+            userId,
+            operation,
+            tags,
+            level,
+            gridLayout,
+            aspectRatio,
+            imageSize,
+            parentId,
+            parentCell,
+            sourceHash,
+            brief,
+            avoid,
+            styleId,
+            promptVersionId,
+            experimentId,
+            variant,
+            pointsConsumed: points.consumed,
+            status: 'success',
+            image,
+        });
+        // 计算以图搜图特征与色板（不阻塞返回）
+        indexGenerationImage(userId, generationId, buffer, gridLayout);
+        indexGenerationPalette(generationId, buffer);
 
-        // 写入文件
-        await writeFile(filepath, buffer);
-        console.log(`[Gemini/Image] Saved to ${filepath}`);
-        // 返回 JSON URL（由 Nginx 静态分发）
-        res.json({ url: `${STATIC_URL_BASE}/${filename}` });
+        // 返回图片 URL（由 Nginx 静态分发）及最新积分
+        return { url: toPublicUrl(image.filename), generationId, ...points };
 
     } catch (err) {
         const elapsed = Date.now() - startTime;
-        const status = err.status || 500;
+
+        // 扣费前失败：退还预扣积分、删除已落盘的图片并记录失败历史
+        if (!committed) {
+            refundPoints(reservation);
+            if (image) await deleteImage(image.filename);
+            recordGeneration({ userId, operation, tags, level, gridLayout, aspectRatio, imageSize, parentId, parentCell, sourceHash, brief, avoid, styleId, promptVersionId, experimentId, variant, status: 'failed' });
+        }
 
         // 脱敏日志：只打印错误码和参数元数据
-        console.error(`[Gemini/Image] ERR ${status} | ${elapsed}ms | ${err.code || 'UNKNOWN'} | size=${imageSize || '2K'} | ratio=${aspectRatio || '1:1'}`);
+        console.error(`[Gemini/Image] ERR ${err.status || 500} | ${elapsed}ms | ${err.code || 'UNKNOWN'} | size=${imageSize} | ratio=${aspectRatio}`);
+        throw err;
+    }
+});
 
-        res.status(status).json({ error: formatError(err, err.rawError) });
+/**
+ * GET /api/gemini/image/options
+ * 
+ * 可选的宫格布局、画幅比例、各尺寸的积分价格及局部编辑价格
+ * 
+ * Response:
+ * { gridLayouts: string[], aspectRatios: string[], imageSizes: { [size]: points }, editPoints: number }
+ */
+router.get('/gemini/image/options', (req, res) => {
+    res.json({
+        gridLayouts: Object.keys(GRID_LAYOUTS),
+        aspectRatios: config.generateAspectRatios,
+        imageSizes: config.generateSizePoints,
+        editPoints: config.consumePerEdit,
+    });
+});
+
+/**
+ * POST /api/gemini/image
+ * 
+ * 按尺寸预扣积分 (config.generateSizePoints) 后加入生成队列，立即返回任务 ID
+ * 
+ * Response:
+ *   202 { jobId, status, position }  → 通过 GET /api/jobs/:id 或 /api/jobs/:id/events 获取结果
+ *   402 { error: { code: 'INSUFFICIENT_POINTS', required, totalPoints } }  → 积分不足
+ * 
+ * Request Body:
+ * {
+ *   tags?: string[],          // 空间标签数组 (可选, 默认 [])
+ *   level?: number,           // 创意等级 1-5 (可选, 默认 3)
+ *   gridLayout?: string,      // 宫格布局 1x1 / 2x2 / 3x3 / 4x4 / 2x3 (可选, 默认 "3x3")
+ *   imageSize?: string,       // 1K / 2K / 4K (可选, 默认 "2K")
+ *   aspectRatio?: string,     // 1:1 / 4:5 / 3:4 / 3:2 / 16:9 / 9:16 (可选, 默认跟随宫格布局: 2x3 为 "3:2", 其余 "1:1")
+ *   inputImage?: string,      // 可选, base64 输入图像 (单参考图)
+ *   references?: [{           // 可选, 多参考图 (最多 4 张，优先于 inputImage)
+ *     image: string,          //   base64 图像
+ *     role: string,           //   layout / material / color / mood
+ *     weight: number          //   借用强度 1-5
+ *   }],
+ *   parentId?: number,        // 可选, 以某次生成的单元格为源图延展时的来源记录 ID
+ *   parentCell?: number,      // 可选, 来源单元格序号 (从 0 开始按行排列)，需与 parentId 同时提供
+ *   brief?: {                 // 可选, 设计简报 (服务端清洗，每项最多 200 字)
+ *     style?: string,         //   风格
+ *     materials?: string,     //   材料
+ *     budget?: string,        //   预算档位 economy / standard / premium / luxury
+ *     mustKeep?: string,      //   必须保留的元素
+ *     avoid?: string          //   需要避免的内容
+ *   },
+ *   avoid?: string[],         // 可选, 排除项 (最多 20 项，每项最多 30 字)，作为硬性约束写入 prompt
+ *   styleId?: number          // 可选, 风格库中启用的风格 ID
+ * }
+ */
+router.post('/gemini/image', authMiddleware, (req, res) => {
+    const { tags, level, gridLayout, imageSize, aspectRatio, inputImage, references, parentId, parentCell, brief, avoid, styleId } = req.body;
+    const userId = req.user.id; // 从 JWT 中获取用户 ID
+
+    // 参数验证
+    if (gridLayout !== undefined && !GRID_LAYOUTS[gridLayout]) {
+        return res.status(400).json({
+            error: { message: `gridLayout must be one of ${Object.keys(GRID_LAYOUTS).join(', ')}`, status: 400, code: 'INVALID_ARGUMENT' }
+        });
+    }
+    if (imageSize !== undefined && !Object.hasOwn(config.generateSizePoints, imageSize)) {
+        return res.status(400).json({
+            error: { message: `imageSize must be one of ${Object.keys(config.generateSizePoints).join(', ')}`, status: 400, code: 'INVALID_ARGUMENT' }
+        });
+    }
+    if (aspectRatio !== undefined && !config.generateAspectRatios.includes(aspectRatio)) {
+        return res.status(400).json({
+            error: { message: `aspectRatio must be one of ${config.generateAspectRatios.join(', ')}`, status: 400, code: 'INVALID_ARGUMENT' }
+        });
+    }
+    if (references !== undefined && !isValidReferences(references)) {
+        return res.status(400).json({
+            error: {
+                message: `references must be 1-${MAX_REFERENCE_IMAGES} items of { image, role: ${Object.keys(REFERENCE_ROLES).join(' / ')}, weight: 1-5 }`,
+                status: 400,
+                code: 'INVALID_ARGUMENT',
+            }
+        });
+    }
+    if (brief !== undefined && brief !== null && (typeof brief !== 'object' || Array.isArray(brief))) {
+        return res.status(400).json({
+            error: { message: 'brief must be an object', status: 400, code: 'INVALID_ARGUMENT' }
+        });
+    }
+    if (avoid !== undefined && (!Array.isArray(avoid) || avoid.length > MAX_AVOID_ITEMS)) {
+        return res.status(400).json({
+            error: { message: `avoid must be an array of at most ${MAX_AVOID_ITEMS} strings`, status: 400, code: 'INVALID_ARGUMENT' }
+        });
+    }
+    const style = styleId !== undefined && styleId !== null ? findStyle(styleId, { enabledOnly: true }) : null;
+    if (styleId !== undefined && styleId !== null && !style) {
+        return res.status(404).json({
+            error: { message: 'style not found', status: 404, code: 'NOT_FOUND' }
+        });
+    }
+    if (parentId !== undefined && parentId !== null) {
+        // 来源单元格必须落在来源记录的宫格范围内
+        const parent = findGeneration(userId, parentId);
+        if (!parent) {
+            return res.status(404).json({
+                error: { message: 'parent generation not found', status: 404, code: 'NOT_FOUND' }
+            });
+        }
+        const { rows, cols } = GRID_LAYOUTS[parent.gridLayout] || GRID_LAYOUTS[DEFAULT_GRID_LAYOUT];
+        if (!Number.isInteger(parentCell) || parentCell < 0 || parentCell >= rows * cols) {
+            return res.status(400).json({
+                error: { message: `parentCell must be an integer between 0 and ${rows * cols - 1}`, status: 400, code: 'INVALID_ARGUMENT' }
+            });
+        }
     }
+    const safeTags = Array.isArray(tags) ? tags : [];
+    const safeLevel = typeof level === 'number' && level >= 1 && level <= 5 ? level : 3;
+    const safeLayout = gridLayout || DEFAULT_GRID_LAYOUT;
+    const safeSize = imageSize || '2K';
+    const safeRatio = aspectRatio || GRID_LAYOUTS[safeLayout].canvas;
+    const inputImages = references ? references.map(ref => ref.image) : (inputImage ? [inputImage] : []);
+    const safeBrief = sanitizeBrief(brief);
+    const safeAvoid = sanitizeAvoidList(avoid);
+    // A/B 实验进行中时按分组使用对应的提示词版本
+    const experiment = assignVariant(userId);
+
+    // 在服务端构建完整 prompt（不暴露给前端）
+    const prompt = buildGenerationPrompt(safeTags, safeLevel, safeLayout, safeRatio, {
+        references: references?.map(({ role, weight }) => ({ role, weight })),
+        brief: safeBrief,
+        avoid: safeAvoid,
+        style,
+        promptConfig: experiment?.promptConfig,
+    });
+    const generationConfig = getGenerationConfig(safeLevel);
+
+    // 预扣积分（余额不足直接拒绝，不入队）
+    const reservation = reserveOrReject(res, userId, config.generateSizePoints[safeSize], 'generate');
+    if (!reservation) return;
+
+    const sourceHash = hashImage(inputImages);
+
+    // 上一次生成刚完成就用同一源图再次生成，记为 regenerate 信号（延展不计入）
+    if (parentId === undefined || parentId === null) recordRegenerate(userId, sourceHash);
+
+    const job = enqueueJob({
+        userId,
+        type: 'generate',
+        params: {
+            tags: safeTags,
+            level: safeLevel,
+            gridLayout: safeLayout,
+            imageSize: safeSize,
+            aspectRatio: safeRatio,
+            parentId: parentId ?? null,
+            parentCell: parentId ? parentCell : null,
+            sourceHash,
+            brief: safeBrief,
+            avoid: safeAvoid,
+            styleId: style?.id ?? null,
+            promptVersionId: experiment?.promptVersionId ?? getActivePromptVersionId(),
+            experimentId: experiment?.experimentId ?? null,
+            variant: experiment?.variant ?? null,
+        },
+        payload: { prompt, generationConfig, inputImages },
+        reservation,
+    });
+
+    res.status(202).json({ jobId: job.id, status: job.status, position: job.position });
 });
 
 // 放大/修复专用提示词（服务端保密）
@@ -143,22 +414,85 @@ CRITICAL INSTRUCTIONS:
 
 Output: Professional Architectural Photography, 2K Resolution, Noise-free, Sharp Focus.`;
 
+/**
+ * 放大/修复任务，使用固定的专用提示词
+ * 成功后确认扣费，失败则退还；成功与失败均写入 generation_history (operation = 'upscale')
+ * @returns {{ url, generationId, newPoints, newDailyPoints, totalPoints, consumed }}
+ */
+registerJobHandler('upscale', async ({ userId, params, payload, reservation }, { onRetry }) => {
+    const startTime = Date.now();
+    const { parentId = null, sourceHash = null } = params;
+    let image = null;
+    let committed = false;
+
+    try {
+        // 使用服务端保密的放大提示词
+        const result = await generateImage(UPSCALE_PROMPT, { imageSize: '2K', inputImage: payload.inputImage, onRetry });
+        const elapsed = Date.now() - startTime;
+
+        // 二进制转换
+        const buffer = Buffer.from(result.base64, 'base64');
+
+        console.log(`[Gemini/Upscale] OK | ${elapsed}ms | userId=${userId} | bytes=${buffer.length}`);
+
+        // 写入文件
+        image = await saveImage(buffer, result.mimeType, 'upscaled_');
+        console.log(`[Gemini/Upscale] Saved to ${image.filepath}`);
+
+        // 图片落盘成功后确认扣费，此后不再退还
+        const points = commitPoints(reservation);
+        committed = true;
+
+        // 写入生成历史
+        const generationId = recordGeneration({
+            userId,
+            operation: 'upscale',
+            imageSize: '2K',
+            parentId,
+            sourceHash,
+            pointsConsumed: points.consumed,
+            status: 'success',
+            image,
+        });
+        recordOutcome(parentId, 'upscale');
+        indexGenerationImage(userId, generationId, buffer, null);
+        indexGenerationPalette(generationId, buffer);
+
+        // 返回图片 URL 及最新积分
+        return { url: toPublicUrl(image.filename), generationId, ...points };
+
+    } catch (err) {
+        const elapsed = Date.now() - startTime;
+
+        // 扣费前失败：退还预扣积分、删除已落盘的图片并记录失败历史
+        if (!committed) {
+            refundPoints(reservation);
+            if (image) await deleteImage(image.filename);
+            recordGeneration({ userId, operation: 'upscale', imageSize: '2K', parentId, sourceHash, status: 'failed' });
+        }
+
+        console.error(`[Gemini/Upscale] ERR ${err.status || 500} | ${elapsed}ms | ${err.code || 'UNKNOWN'}`);
+        throw err;
+    }
+});
+
 /**
  * POST /api/gemini/upscale
  * 
- * 放大/修复图像端点，使用固定的专用提示词
+ * 预扣积分 (config.consumePerUpscale) 后加入生成队列，立即返回任务 ID
  * 
  * Request Body:
  * {
- *   inputImage: string       // 必填, base64 输入图像
+ *   inputImage: string,      // 必填, base64 输入图像
+ *   parentId?: number        // 可选, 来源生成记录 ID（如收藏裁切图所属的生成），放大结果记为其子记录
  * }
  * 
  * Response:
- *   { url: string }  → Nginx 静态分发的图片 URL
+ *   202 { jobId, status, position }  → 通过 GET /api/jobs/:id 或 /api/jobs/:id/events 获取结果
+ *   402 { error: { code: 'INSUFFICIENT_POINTS', required, totalPoints } }  → 积分不足
  */
-router.post('/gemini/upscale', authMiddleware, async (req, res) => {
-    const startTime = Date.now();
-    const { inputImage } = req.body;
+router.post('/gemini/upscale', authMiddleware, (req, res) => {
+    const { inputImage, parentId } = req.body;
     const userId = req.user.id;
 
     // 参数验证
@@ -167,43 +501,177 @@ router.post('/gemini/upscale', authMiddleware, async (req, res) => {
             error: { message: 'inputImage is required', status: 400, code: 'INVALID_ARGUMENT' }
         });
     }
+    if (parentId !== undefined && parentId !== null && !findGeneration(userId, parentId)) {
+        return res.status(404).json({
+            error: { message: 'parent generation not found', status: 404, code: 'NOT_FOUND' }
+        });
+    }
+
+    // 预扣积分（余额不足直接拒绝，不入队）
+    const reservation = reserveOrReject(res, userId, config.consumePerUpscale, 'upscale');
+    if (!reservation) return;
+
+    const job = enqueueJob({
+        userId,
+        type: 'upscale',
+        params: { parentId: parentId ?? null, sourceHash: hashImage(inputImage) },
+        payload: { inputImage },
+        reservation,
+    });
+
+    res.status(202).json({ jobId: job.id, status: job.status, position: job.position });
+});
+
+// PNG 文件头，用于校验蒙版内容
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+/**
+ * 局部编辑任务：按指令（及可选蒙版）修改单元格图
+ * 编辑前的单元格图一并落盘，用于前后对比；成功与失败均写入 generation_history (operation = 'edit')
+ * @returns {{ url, sourceUrl, generationId, newPoints, newDailyPoints, totalPoints, consumed }}
+ */
+registerJobHandler('edit', async ({ userId, params, payload, reservation }, { onRetry }) => {
+    const startTime = Date.now();
+    const { parentId, instruction, aspectRatio, sourceHash = null } = params;
+    const { inputImage, maskImage } = payload;
+    let image = null;
+    let source = null;
+    let committed = false;
 
     try {
-        // 使用服务端保密的放大提示词
-        const result = await generateImage(UPSCALE_PROMPT, { imageSize: '2K', inputImage });
+        const prompt = buildEditPrompt(instruction, !!maskImage);
+        const result = await generateImage(prompt, {
+            imageSize: '2K',
+            aspectRatio,
+            inputImage: `data:${inputImage.mimeType};base64,${inputImage.base64}`,
+            maskImage: maskImage && `data:image/png;base64,${maskImage}`,
+            onRetry,
+        });
         const elapsed = Date.now() - startTime;
 
         // 二进制转换
         const buffer = Buffer.from(result.base64, 'base64');
 
-        console.log(`[Gemini/Upscale] OK | ${elapsed}ms | userId=${userId} | bytes=${buffer.length}`);
-
-        // 确保目录存在
-        await mkdir(STATIC_DIR, { recursive: true });
-
-        // 生成文件名
-        const ext = result.mimeType === 'image/png' ? 'png' :
-            result.mimeType === 'image/webp' ? 'webp' : 'jpg';
-        const filename = `upscaled_${randomUUID()}.${ext}`;
-        const filepath = path.join(STATIC_DIR, filename);
-
-        // 写入文件
-        await writeFile(filepath, buffer);
-        console.log(`[Gemini/Upscale] Saved to ${filepath}`);
+        // 脱敏日志：不打印指令内容
+        console.log(`[Gemini/Edit] OK | ${elapsed}ms | userId=${userId} | parent=${parentId} | hasMask=${!!maskImage} | bytes=${buffer.length}`);
+
+        // 编辑结果与编辑前的单元格图分别落盘
+        image = await saveImage(buffer, result.mimeType, 'edited_');
+        source = await saveImage(Buffer.from(inputImage.base64, 'base64'), inputImage.mimeType, 'edit_source_');
+        console.log(`[Gemini/Edit] Saved to ${image.filepath}`);
+
+        // 图片落盘成功后确认扣费，此后不再退还
+        const points = commitPoints(reservation);
+        committed = true;
+
+        // 写入生成历史（作为来源记录的子记录）
+        const generationId = recordGeneration({
+            userId,
+            operation: 'edit',
+            parentId,
+            gridLayout: '1x1',
+            sourceHash,
+            instruction,
+            sourceFilename: source.filename,
+            aspectRatio,
+            imageSize: '2K',
+            pointsConsumed: points.consumed,
+            status: 'success',
+            image,
+        });
+        indexGenerationImage(userId, generationId, buffer, '1x1');
+        indexGenerationPalette(generationId, buffer);
 
-        // 返回 JSON URL
-        res.json({ url: `${STATIC_URL_BASE}/${filename}` });
+        return { url: toPublicUrl(image.filename), sourceUrl: toPublicUrl(source.filename), generationId, ...points };
 
     } catch (err) {
         const elapsed = Date.now() - startTime;
-        const status = err.status || 500;
 
-        console.error(`[Gemini/Upscale] ERR ${status} | ${elapsed}ms | ${err.code || 'UNKNOWN'}`);
+        // 扣费前失败：退还预扣积分、删除已落盘的图片并记录失败历史
+        if (!committed) {
+            refundPoints(reservation);
+            if (image) await deleteImage(image.filename);
+            if (source) await deleteImage(source.filename);
+            recordGeneration({ userId, operation: 'edit', parentId, instruction, aspectRatio, imageSize: '2K', sourceHash, status: 'failed' });
+        }
 
-        res.status(status).json({ error: formatError(err, err.rawError) });
+        console.error(`[Gemini/Edit] ERR ${err.status || 500} | ${elapsed}ms | ${err.code || 'UNKNOWN'}`);
+        throw err;
     }
 });
 
+/**
+ * POST /api/gemini/edit
+ * 
+ * 预扣积分 (config.consumePerEdit) 后加入生成队列，立即返回任务 ID
+ * 
+ * Request Body:
+ * {
+ *   inputImage: string,       // 必填, 单元格图 Data URL (data:image/png;base64,...)
+ *   instruction: string,      // 必填, 修改指令 (如 "把沙发换成绿色丝绒")，最长 200 字
+ *   maskImage?: string,       // 可选, 与单元格同尺寸的黑白蒙版 PNG Data URL (白色为可编辑区域)，不传则按指令整体修改
+ *   parentId?: number,        // 可选, 来源生成记录 ID，编辑结果记为其子记录
+ *   aspectRatio?: string      // 可选, 单元格画幅比例, 默认 "1:1"
+ * }
+ * 
+ * Response:
+ *   202 { jobId, status, position }  → 通过 GET /api/jobs/:id 或 /api/jobs/:id/events 获取结果
+ *   402 { error: { code: 'INSUFFICIENT_POINTS', required, totalPoints } }  → 积分不足
+ */
+router.post('/gemini/edit', authMiddleware, (req, res) => {
+    const { inputImage, maskImage, parentId, aspectRatio } = req.body;
+    const rawInstruction = typeof req.body.instruction === 'string' ? req.body.instruction.trim() : '';
+    // 去掉引号、括号与换行等可能破坏 prompt 结构的字符
+    const instruction = sanitizeEditInstruction(rawInstruction);
+    const userId = req.user.id;
+
+    // 参数验证
+    const decoded = decodeDataUrl(inputImage);
+    if (!decoded) {
+        return res.status(400).json({
+            error: { message: 'inputImage must be an image data URL', status: 400, code: 'INVALID_ARGUMENT' }
+        });
+    }
+    if (!instruction || rawInstruction.length > MAX_EDIT_INSTRUCTION_LENGTH) {
+        return res.status(400).json({
+            error: { message: `instruction is required (max ${MAX_EDIT_INSTRUCTION_LENGTH} characters)`, status: 400, code: 'INVALID_ARGUMENT' }
+        });
+    }
+    const mask = maskImage === undefined || maskImage === null ? null : decodeDataUrl(maskImage);
+    if (maskImage !== undefined && maskImage !== null && !(mask?.mimeType === 'image/png' && mask.buffer.subarray(0, 8).equals(PNG_SIGNATURE))) {
+        return res.status(400).json({
+            error: { message: 'maskImage must be a PNG data URL', status: 400, code: 'INVALID_ARGUMENT' }
+        });
+    }
+    if (aspectRatio !== undefined && !config.generateAspectRatios.includes(aspectRatio)) {
+        return res.status(400).json({
+            error: { message: `aspectRatio must be one of ${config.generateAspectRatios.join(', ')}`, status: 400, code: 'INVALID_ARGUMENT' }
+        });
+    }
+    if (parentId !== undefined && parentId !== null && !findGeneration(userId, parentId)) {
+        return res.status(404).json({
+            error: { message: 'parent generation not found', status: 404, code: 'NOT_FOUND' }
+        });
+    }
+
+    // 预扣积分（余额不足直接拒绝，不入队）
+    const reservation = reserveOrReject(res, userId, config.consumePerEdit, 'edit');
+    if (!reservation) return;
+
+    const job = enqueueJob({
+        userId,
+        type: 'edit',
+        params: { parentId: parentId ?? null, instruction, aspectRatio: aspectRatio || '1:1', sourceHash: hashImage(inputImage) },
+        payload: {
+            inputImage: { base64: decoded.buffer.toString('base64'), mimeType: decoded.mimeType },
+            maskImage: mask ? mask.buffer.toString('base64') : null,
+        },
+        reservation,
+    });
+
+    res.status(202).json({ jobId: job.id, status: job.status, position: job.position });
+});
+
 /**
  * GET /api/images/:filename/download
  * 
@@ -248,6 +716,7 @@ router.get('/images/:filename/download', authMiddleware, (req, res) => {
     res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
 
     console.log(`[Download] Serving ${filename} for user ${req.user.id}`);
+    recordDownload(req.user.id, filename);
 
     // Stream file to response (filepath is now absolute)
     res.sendFile(filepath, (err) => {
@@ -0,0 +1,69 @@
+import { Router } from 'express';
+import { authMiddleware, jobEventsAuthMiddleware, generateJobEventsToken } from '../middleware/auth.js';
+import { getJob, subscribeJob, FINISHED_STATUSES } from '../services/jobs.js';
+
+const router = Router();
+
+// SSE 心跳间隔，防止代理断开空闲连接
+const HEARTBEAT_MS = 15000;
+
+// ============================================================================
+// GET /api/jobs/:id - 查询任务状态
+// ============================================================================
+router.get('/:id', authMiddleware, (req, res) => {
+    const job = getJob(req.user.id, req.params.id);
+    if (!job) {
+        return res.status(404).json({ error: '任务不存在' });
+    }
+    res.json({ job });
+});
+
+// ============================================================================
+// POST /api/jobs/:id/events-token - 获取任务推送令牌
+// 返回 { token }，仅可用于订阅该任务的 /events，有效期 5 分钟
+// ============================================================================
+router.post('/:id/events-token', authMiddleware, (req, res) => {
+    const job = getJob(req.user.id, req.params.id);
+    if (!job) {
+        return res.status(404).json({ error: '任务不存在' });
+    }
+    res.json({ token: generateJobEventsToken(req.user.id, job.id) });
+});
+
+// ============================================================================
+// GET /api/jobs/:id/events?token= - 任务状态推送 (Server-Sent Events)
+// token 为 events-token 返回的任务令牌（不接受登录令牌）
+// 每次状态或排队位置变化推送一条 data: { job }，任务结束后关闭连接
+// ============================================================================
+router.get('/:id/events', jobEventsAuthMiddleware, (req, res) => {
+    const job = getJob(req.user.id, req.params.id);
+    if (!job) {
+        return res.status(404).json({ error: '任务不存在' });
+    }
+
+    res.set({
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no', // 关闭 Nginx 缓冲
+    });
+    res.flushHeaders();
+
+    const send = (current) => {
+        res.write(`data: ${JSON.stringify({ job: current })}\n\n`);
+        if (FINISHED_STATUSES.includes(current.status)) res.end();
+    };
+
+    send(job);
+    if (FINISHED_STATUSES.includes(job.status)) return;
+
+    const unsubscribe = subscribeJob(job.id, send);
+    const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_MS);
+
+    res.on('close', () => {
+        unsubscribe();
+        clearInterval(heartbeat);
+    });
+});
+
+export default router;
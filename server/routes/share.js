@@ -0,0 +1,78 @@
+import { Router } from 'express';
+import { authMiddleware } from '../middleware/auth.js';
+import { createShare, listShares, revokeShare, resolveShare, SHARE_EXPIRY_OPTIONS } from '../services/shares.js';
+
+const router = Router();
+
+// ============================================================================
+// GET /api/share - 获取我创建的分享链接
+// ============================================================================
+router.get('/', authMiddleware, (req, res) => {
+    res.json({ shares: listShares(req.user.id) });
+});
+
+// ============================================================================
+// POST /api/share - 创建分享链接
+// Body: { boardId?: number, generationId?: number, expiresInDays?: 1 | 7 | 30 | null, password?: string }
+// ============================================================================
+router.post('/', authMiddleware, async (req, res) => {
+    const { boardId, generationId, password } = req.body;
+    const expiresInDays = req.body.expiresInDays ?? null;
+
+    if (!!boardId === !!generationId || ![boardId, generationId].some(id => Number.isInteger(id))) {
+        return res.status(400).json({ error: '请指定分享的看板或生成记录' });
+    }
+    if (expiresInDays !== null && !SHARE_EXPIRY_OPTIONS.includes(expiresInDays)) {
+        return res.status(400).json({ error: '无效的有效期' });
+    }
+    if (password !== undefined && password !== '' && (typeof password !== 'string' || password.length > 50)) {
+        return res.status(400).json({ error: '访问密码不能超过 50 个字符' });
+    }
+
+    try {
+        const share = await createShare(req.user.id, { boardId, generationId, expiresInDays, password });
+        res.json({ share });
+    } catch (error) {
+        if (error.status === 404) {
+            return res.status(404).json({ error: error.message });
+        }
+        console.error('创建分享失败:', error);
+        res.status(500).json({ error: '创建分享失败，请重试' });
+    }
+});
+
+// ============================================================================
+// DELETE /api/share/:id - 撤销分享链接
+// ============================================================================
+router.delete('/:id', authMiddleware, (req, res) => {
+    const shareId = parseInt(req.params.id);
+    if (!shareId) {
+        return res.status(400).json({ error: '无效的分享 ID' });
+    }
+
+    if (!revokeShare(req.user.id, shareId)) {
+        return res.status(404).json({ error: '分享不存在或已撤销' });
+    }
+
+    res.json({ success: true });
+});
+
+// ============================================================================
+// GET /api/share/:token - 读取分享内容（公开，无需登录）
+// Header: X-Share-Password (设置了访问密码时必填)
+// 密码错误次数过多时返回 429 PASSWORD_LOCKED（按 IP 与链接计数，15 分钟后解除）
+// ============================================================================
+router.get('/:token', async (req, res) => {
+    try {
+        const result = await resolveShare(req.params.token, req.get('X-Share-Password'), req.ip);
+        res.json(result);
+    } catch (error) {
+        if (error.status) {
+            return res.status(error.status).json({ error: error.message, code: error.code });
+        }
+        console.error('读取分享失败:', error);
+        res.status(500).json({ error: '读取分享失败，请重试' });
+    }
+});
+
+export default router;
@@ -0,0 +1,14 @@
+import { Router } from 'express';
+import { authMiddleware } from '../middleware/auth.js';
+import { listStyles } from '../services/styles.js';
+
+const router = Router();
+
+// ============================================================================
+// GET /api/styles - 获取启用中的风格库（生成时与空间标签一起选择）
+// ============================================================================
+router.get('/', authMiddleware, (req, res) => {
+    res.json({ styles: listStyles() });
+});
+
+export default router;
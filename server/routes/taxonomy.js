@@ -0,0 +1,14 @@
+import { Router } from 'express';
+import { authMiddleware } from '../middleware/auth.js';
+import { getTaxonomy } from '../services/taxonomy.js';
+
+const router = Router();
+
+// ============================================================================
+// GET /api/taxonomy - 获取空间标签体系（分类、分组、标签角色与多语言名称）
+// ============================================================================
+router.get('/', authMiddleware, (req, res) => {
+    res.json(getTaxonomy());
+});
+
+export default router;
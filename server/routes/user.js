@@ -2,6 +2,18 @@ import { Router } from 'express';
 import { authMiddleware } from '../middleware/auth.js';
 import db from '../database.js';
 import config from '../config.js';
+import { getBalance, reservePoints, commitPoints } from '../services/points.js';
+import { listGenerations, getLineage, deleteGeneration, findGeneration } from '../services/generations.js';
+import { parseHexColor } from '../services/palettes.js';
+import { findSimilar, parseImageId } from '../services/similarity.js';
+import { recordOutcome } from '../services/experiments.js';
+import { listAvoidPresets, createAvoidPreset, deleteAvoidPreset, MAX_PRESET_NAME_LENGTH } from '../services/avoidPresets.js';
+import { sanitizeAvoidList } from '../services/prompts.js';
+import {
+    listGenerationPresets, createGenerationPreset, deleteGenerationPreset, exportGenerationPresets, importGenerationPresets,
+    sanitizePresetSettings, validatePresetName, MAX_PRESET_NAME_LENGTH as MAX_GENERATION_PRESET_NAME_LENGTH, MAX_PRESETS_PER_USER,
+    PRESET_PACK_TYPE,
+} from '../services/generationPresets.js';
 
 const router = Router();
 
@@ -126,13 +138,19 @@ router.get('/points-log', authMiddleware, (req, res) => {
 });
 
 // ============================================================================
-// POST /api/user/consume-points - 消耗积分 (生成/放大)
+// POST /api/user/consume-points - 消耗积分 (其他动作)
 // 规则: 优先扣每日积分，不足时扣永久积分
+// 生成/放大/局部编辑已改为在 /api/gemini/image、/api/gemini/upscale、/api/gemini/edit 内由服务端扣费，此处不再受理
 // ============================================================================
+const SERVER_CHARGED_ACTIONS = ['generate', 'upscale', 'edit'];
+
 router.post('/consume-points', authMiddleware, (req, res) => {
     const { amount = 100, action = 'generate' } = req.body;
     const userId = req.user.id;
-    const today = new Date().toISOString().split('T')[0];
+
+    if (SERVER_CHARGED_ACTIONS.includes(action)) {
+        return res.status(410).json({ error: '该操作已由生成接口自动扣费，无需单独调用' });
+    }
 
     // 验证 amount 参数
     if (typeof amount !== 'number' || amount <= 0 || amount > 10000) {
@@ -140,75 +158,32 @@ router.post('/consume-points', authMiddleware, (req, res) => {
     }
 
     try {
-        // 获取当前用户积分
-        const user = db.prepare('SELECT points, daily_points, daily_points_date FROM users WHERE id = ?').get(userId);
-        if (!user) {
-            return res.status(404).json({ error: '用户不存在' });
-        }
-
-        // 计算当日可用积分（如果日期不是今天则为0）
-        const dailyAvailable = user.daily_points_date === today ? (user.daily_points || 0) : 0;
-        const permanentPoints = user.points || 0;
-        const totalAvailable = dailyAvailable + permanentPoints;
-
-        // 检查总积分是否足够
-        if (totalAvailable < amount) {
-            return res.status(400).json({
-                error: '积分不足',
-                currentPoints: permanentPoints,
-                dailyPoints: dailyAvailable,
-                totalPoints: totalAvailable,
-                required: amount
-            });
-        }
-
-        // 计算扣费分配：优先扣每日积分
-        let remaining = amount;
-        let dailyDeduct = Math.min(dailyAvailable, remaining);
-        remaining -= dailyDeduct;
-        let permanentDeduct = remaining;
-
-        // 更新积分
-        const newDailyPoints = dailyAvailable - dailyDeduct;
-        const newPermanentPoints = permanentPoints - permanentDeduct;
-
-        db.prepare('UPDATE users SET points = ?, daily_points = ? WHERE id = ?')
-            .run(newPermanentPoints, newDailyPoints, userId);
-
-        // 记录积分日志
-        const actionLabels = {
-            generate: '生成图片',
-            upscale: '高清放大',
-        };
-
-        // 记录消耗明细
-        let description = actionLabels[action] || action;
-        if (dailyDeduct > 0 && permanentDeduct > 0) {
-            description += ` (每日${dailyDeduct}+永久${permanentDeduct})`;
-        } else if (dailyDeduct > 0) {
-            description += ' (每日积分)';
-        } else {
-            description += ' (永久积分)';
-        }
-
-        db.prepare(`
-            INSERT INTO points_log (user_id, points, reason, created_at)
-            VALUES (?, ?, ?, datetime('now'))
-        `).run(userId, -amount, description);
+        const reservation = reservePoints(userId, amount, action);
+        const points = commitPoints(reservation);
 
         res.json({
             success: true,
-            newPoints: newPermanentPoints,
-            newDailyPoints: newDailyPoints,
-            totalPoints: newPermanentPoints + newDailyPoints,
-            consumed: amount,
+            ...points,
             action,
             breakdown: {
-                fromDaily: dailyDeduct,
-                fromPermanent: permanentDeduct
+                fromDaily: reservation.fromDaily,
+                fromPermanent: reservation.fromPermanent
             }
         });
     } catch (error) {
+        if (error.code === 'USER_NOT_FOUND') {
+            return res.status(404).json({ error: '用户不存在' });
+        }
+        if (error.code === 'INSUFFICIENT_POINTS') {
+            const balance = getBalance(userId);
+            return res.status(400).json({
+                error: '积分不足',
+                currentPoints: balance.permanentPoints,
+                dailyPoints: balance.dailyPoints,
+                totalPoints: balance.totalPoints,
+                required: amount
+            });
+        }
         console.error('积分消耗失败:', error);
         res.status(500).json({ error: '积分消耗失败，请重试' });
     }
@@ -242,4 +217,251 @@ router.get('/check-points', authMiddleware, (req, res) => {
     });
 });
 
+// ============================================================================
+// GET /api/user/generations - 获取生成历史（分页）
+// Query: page, limit, tag (可逗号分隔多个，需全部包含), from (YYYY-MM-DD), to (YYYY-MM-DD),
+//        operation (generate / upscale / edit / expand，可逗号分隔多个), styleId, level (1-5),
+//        parentId (来源记录), color (#rrggbb，按色板接近程度排序)
+// 色板在图片落盘时由服务端提取；旧记录在服务启动时补算
+// ============================================================================
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const GENERATION_OPERATIONS = ['generate', 'upscale', 'edit', 'expand'];
+
+router.get('/generations', authMiddleware, (req, res) => {
+    const page = Math.max(1, parseInt(req.query.page) || 1);
+    const limit = Math.min(100, Math.max(1, parseInt(req.query.limit) || 20));
+    const tags = typeof req.query.tag === 'string' ? req.query.tag.split(',').map(t => t.trim()).filter(Boolean) : [];
+    const { from, to, operation } = req.query;
+    const styleId = parseInt(req.query.styleId) || undefined;
+    const level = parseInt(req.query.level) || undefined;
+    const parentId = parseInt(req.query.parentId) || undefined;
+    const color = req.query.color ? parseHexColor(req.query.color) : undefined;
+
+    if ((from && !DATE_PATTERN.test(from)) || (to && !DATE_PATTERN.test(to))) {
+        return res.status(400).json({ error: '日期格式应为 YYYY-MM-DD' });
+    }
+    const operations = typeof operation === 'string' && operation ? operation.split(',') : [];
+    if (operations.some(op => !GENERATION_OPERATIONS.includes(op))) {
+        return res.status(400).json({ error: '无效的操作类型' });
+    }
+    if (level !== undefined && (level < 1 || level > 5)) {
+        return res.status(400).json({ error: '创意等级应为 1-5' });
+    }
+    if (color === null) {
+        return res.status(400).json({ error: '颜色格式应为 #RRGGBB' });
+    }
+
+    try {
+        const result = listGenerations(req.user.id, { page, limit, tags, from, to, operations, styleId, level, parentId, color });
+        res.json(result);
+    } catch (error) {
+        console.error('获取生成历史失败:', error);
+        res.status(500).json({ error: '获取生成历史失败' });
+    }
+});
+
+// ============================================================================
+// GET /api/user/generations/:id/lineage - 获取生成谱系（参考图 → 生成 → 放大 / 编辑 / 延展）
+// ============================================================================
+router.get('/generations/:id/lineage', authMiddleware, (req, res) => {
+    const generationId = parseInt(req.params.id);
+    if (!generationId) {
+        return res.status(400).json({ error: '无效的记录 ID' });
+    }
+
+    try {
+        const lineage = getLineage(req.user.id, generationId);
+        if (!lineage) {
+            return res.status(404).json({ error: '记录不存在' });
+        }
+        res.json(lineage);
+    } catch (error) {
+        console.error('获取生成谱系失败:', error);
+        res.status(500).json({ error: '获取生成谱系失败' });
+    }
+});
+
+// ============================================================================
+// POST /api/user/generations/downloads - 上报前端打包下载的生成记录（A/B 实验的 download 信号）
+// Body: { ids: number[] }
+// ============================================================================
+router.post('/generations/downloads', authMiddleware, (req, res) => {
+    const { ids } = req.body;
+    if (!Array.isArray(ids) || ids.length === 0 || ids.length > 100 || !ids.every(Number.isInteger)) {
+        return res.status(400).json({ error: '请提供 1-100 个记录 ID' });
+    }
+
+    const owned = [...new Set(ids)].filter(id => findGeneration(req.user.id, id));
+    owned.forEach(id => recordOutcome(id, 'download'));
+
+    res.json({ recorded: owned.length });
+});
+
+// ============================================================================
+// DELETE /api/user/generations/:id - 删除生成记录（软删除）
+// ============================================================================
+router.delete('/generations/:id', authMiddleware, (req, res) => {
+    const generationId = parseInt(req.params.id);
+    if (!generationId) {
+        return res.status(400).json({ error: '无效的记录 ID' });
+    }
+
+    if (!deleteGeneration(req.user.id, generationId)) {
+        return res.status(404).json({ error: '记录不存在' });
+    }
+
+    res.json({ success: true });
+});
+
+// ============================================================================
+// GET /api/user/similar/:imageId - 以图搜图（在自己的生成记录与收藏中查找视觉相似的图片）
+// imageId: g{生成记录 ID}-{单元格序号}（宫格图的某一格）/ g{生成记录 ID}（单图）/ c{收藏 ID}
+// Response: { query, results: [{ imageId, source, generationId, cell, collectionId, url, gridLayout, score }] }
+// ============================================================================
+router.get('/similar/:imageId', authMiddleware, async (req, res) => {
+    const target = parseImageId(req.params.imageId);
+    if (!target) {
+        return res.status(400).json({ error: '无效的图片 ID' });
+    }
+
+    try {
+        const result = await findSimilar(req.user.id, target);
+        if (!result) {
+            return res.status(404).json({ error: '图片不存在' });
+        }
+        res.json(result);
+    } catch (error) {
+        console.error('相似图检索失败:', error);
+        res.status(500).json({ error: '相似图检索失败，请稍后重试' });
+    }
+});
+
+// ============================================================================
+// GET /api/user/avoid-presets - 获取排除项预设
+// ============================================================================
+router.get('/avoid-presets', authMiddleware, (req, res) => {
+    res.json({ presets: listAvoidPresets(req.user.id) });
+});
+
+// ============================================================================
+// POST /api/user/avoid-presets - 保存排除项预设
+// Body: { name: string, items: string[] }
+// ============================================================================
+router.post('/avoid-presets', authMiddleware, (req, res) => {
+    const name = typeof req.body.name === 'string' ? req.body.name.trim() : '';
+    if (!name || name.length > MAX_PRESET_NAME_LENGTH) {
+        return res.status(400).json({ error: `预设名称不能为空且不超过 ${MAX_PRESET_NAME_LENGTH} 个字符` });
+    }
+    const items = sanitizeAvoidList(req.body.items);
+    if (items.length === 0) {
+        return res.status(400).json({ error: '排除项不能为空' });
+    }
+
+    try {
+        res.json({ preset: createAvoidPreset(req.user.id, name, items) });
+    } catch (error) {
+        if (error.status === 400) {
+            return res.status(400).json({ error: error.message });
+        }
+        console.error('保存排除项预设失败:', error);
+        res.status(500).json({ error: '保存预设失败，请重试' });
+    }
+});
+
+// ============================================================================
+// DELETE /api/user/avoid-presets/:id - 删除排除项预设
+// ============================================================================
+router.delete('/avoid-presets/:id', authMiddleware, (req, res) => {
+    const presetId = parseInt(req.params.id);
+    if (!presetId) {
+        return res.status(400).json({ error: '无效的预设 ID' });
+    }
+
+    if (!deleteAvoidPreset(req.user.id, presetId)) {
+        return res.status(404).json({ error: '预设不存在' });
+    }
+
+    res.json({ success: true });
+});
+
+// ============================================================================
+// GET /api/user/generation-presets - 获取生成预设
+// ============================================================================
+router.get('/generation-presets', authMiddleware, (req, res) => {
+    res.json({ presets: listGenerationPresets(req.user.id) });
+});
+
+// ============================================================================
+// POST /api/user/generation-presets - 保存当前设置为生成预设
+// Body: { name: string, settings: { tags, customTags: { res, com }, level, aspectRatio, brief } }
+// ============================================================================
+router.post('/generation-presets', authMiddleware, (req, res) => {
+    const name = validatePresetName(req.body.name);
+    if (!name) {
+        return res.status(400).json({ error: `预设名称不能为空且不超过 ${MAX_GENERATION_PRESET_NAME_LENGTH} 个字符` });
+    }
+    const settings = sanitizePresetSettings(req.body.settings);
+    if (settings.tags.length === 0) {
+        return res.status(400).json({ error: '请至少选择一个空间标签' });
+    }
+
+    try {
+        res.json({ preset: createGenerationPreset(req.user.id, name, settings) });
+    } catch (error) {
+        if (error.status === 400) {
+            return res.status(400).json({ error: error.message });
+        }
+        console.error('保存生成预设失败:', error);
+        res.status(500).json({ error: '保存预设失败，请重试' });
+    }
+});
+
+// ============================================================================
+// GET /api/user/generation-presets/export - 导出预设包（JSON）
+// ============================================================================
+router.get('/generation-presets/export', authMiddleware, (req, res) => {
+    res.json(exportGenerationPresets(req.user.id));
+});
+
+// ============================================================================
+// POST /api/user/generation-presets/import - 导入预设包，同名预设覆盖
+// Body: 导出的预设包 { type, version, presets: [{ name, settings }] }
+// ============================================================================
+router.post('/generation-presets/import', authMiddleware, (req, res) => {
+    const { type, presets } = req.body;
+    if (type !== PRESET_PACK_TYPE || !Array.isArray(presets)) {
+        return res.status(400).json({ error: '无效的预设包文件' });
+    }
+    if (presets.length === 0 || presets.length > MAX_PRESETS_PER_USER) {
+        return res.status(400).json({ error: `预设包须包含 1-${MAX_PRESETS_PER_USER} 个预设` });
+    }
+
+    try {
+        const summary = importGenerationPresets(req.user.id, presets);
+        res.json({ ...summary, presets: listGenerationPresets(req.user.id) });
+    } catch (error) {
+        if (error.status === 400) {
+            return res.status(400).json({ error: error.message });
+        }
+        console.error('导入生成预设失败:', error);
+        res.status(500).json({ error: '导入预设失败，请重试' });
+    }
+});
+
+// ============================================================================
+// DELETE /api/user/generation-presets/:id - 删除生成预设
+// ============================================================================
+router.delete('/generation-presets/:id', authMiddleware, (req, res) => {
+    const presetId = parseInt(req.params.id);
+    if (!presetId) {
+        return res.status(400).json({ error: '无效的预设 ID' });
+    }
+
+    if (!deleteGenerationPreset(req.user.id, presetId)) {
+        return res.status(404).json({ error: '预设不存在' });
+    }
+
+    res.json({ success: true });
+});
+
 export default router;
@@ -0,0 +1,63 @@
+/**
+ * Avoid Preset Service
+ * 排除项预设：用户保存常用的排除项组合，生成时一键套用
+ */
+import db from '../database.js';
+import { sanitizeAvoidList } from './prompts.js';
+
+export const MAX_PRESET_NAME_LENGTH = 50;
+export const MAX_PRESETS_PER_USER = 30;
+
+// SQLite CURRENT_TIMESTAMP 存储的是 UTC 时间，添加 'Z' 后缀让前端正确转换为本地时间
+const toUtcIso = (datetime) => datetime ? datetime.replace(' ', 'T') + 'Z' : null;
+
+function formatPreset(row) {
+    let items = [];
+    try {
+        items = sanitizeAvoidList(JSON.parse(row.items));
+    } catch {
+        // 数据异常时按空预设返回
+    }
+    return {
+        id: row.id,
+        name: row.name,
+        items,
+        createdAt: toUtcIso(row.created_at),
+    };
+}
+
+/**
+ * 获取用户的全部排除项预设（按创建时间）
+ */
+export function listAvoidPresets(userId) {
+    return db.prepare('SELECT * FROM avoid_presets WHERE user_id = ? ORDER BY created_at ASC, id ASC')
+        .all(userId)
+        .map(formatPreset);
+}
+
+/**
+ * 新建排除项预设，超过数量上限时抛出 status=400 的错误
+ * @param {string} name 预设名称（已校验）
+ * @param {string[]} items 排除项（已清洗）
+ */
+export function createAvoidPreset(userId, name, items) {
+    const { count } = db.prepare('SELECT COUNT(*) as count FROM avoid_presets WHERE user_id = ?').get(userId);
+    if (count >= MAX_PRESETS_PER_USER) {
+        const error = new Error(`最多保存 ${MAX_PRESETS_PER_USER} 个排除项预设`);
+        error.status = 400;
+        throw error;
+    }
+
+    const result = db.prepare('INSERT INTO avoid_presets (user_id, name, items) VALUES (?, ?, ?)')
+        .run(userId, name, JSON.stringify(items));
+    return formatPreset(db.prepare('SELECT * FROM avoid_presets WHERE id = ?').get(result.lastInsertRowid));
+}
+
+/**
+ * 删除排除项预设
+ * @returns {boolean} 是否删除成功（不存在或不属于该用户时返回 false）
+ */
+export function deleteAvoidPreset(userId, presetId) {
+    const result = db.prepare('DELETE FROM avoid_presets WHERE id = ? AND user_id = ?').run(presetId, userId);
+    return result.changes > 0;
+}
@@ -0,0 +1,108 @@
+/**
+ * Board Service
+ * 收藏看板：命名分组、封面与条目归属
+ *
+ * 一个收藏条目最多属于一个看板 (collection_items.board_id)，为空表示未分组
+ * 封面优先使用 cover_item_id，未设置或该条目已移出看板时取看板内排序第一的条目
+ */
+import db from '../database.js';
+import { toPublicUrl } from './storage.js';
+
+export const MAX_BOARD_NAME_LENGTH = 100;
+
+// SQLite CURRENT_TIMESTAMP 存储的是 UTC 时间，添加 'Z' 后缀让前端正确转换为本地时间
+const toUtcIso = (datetime) => datetime ? datetime.replace(' ', 'T') + 'Z' : null;
+
+function getBoardRow(userId, boardId) {
+    return db.prepare(`
+        SELECT b.*,
+            (SELECT COUNT(*) FROM collection_items WHERE board_id = b.id) as item_count,
+            COALESCE(
+                (SELECT filename FROM collection_items WHERE id = b.cover_item_id AND board_id = b.id),
+                (SELECT filename FROM collection_items WHERE board_id = b.id ORDER BY sort_order ASC, id DESC LIMIT 1)
+            ) as cover_filename
+        FROM boards b
+        WHERE b.id = ? AND b.user_id = ?
+    `).get(boardId, userId);
+}
+
+function formatBoard(row) {
+    return {
+        id: row.id,
+        name: row.name,
+        coverItemId: row.cover_item_id,
+        coverUrl: row.cover_filename ? toPublicUrl(row.cover_filename) : null,
+        itemCount: row.item_count,
+        createdAt: toUtcIso(row.created_at),
+        updatedAt: toUtcIso(row.updated_at),
+    };
+}
+
+/**
+ * 判断看板是否属于该用户
+ */
+export function boardExists(userId, boardId) {
+    return !!db.prepare('SELECT id FROM boards WHERE id = ? AND user_id = ?').get(boardId, userId);
+}
+
+/**
+ * 获取用户的全部看板（按创建时间）
+ */
+export function listBoards(userId) {
+    const ids = db.prepare('SELECT id FROM boards WHERE user_id = ? ORDER BY created_at ASC, id ASC').all(userId);
+    return ids.map(({ id }) => formatBoard(getBoardRow(userId, id)));
+}
+
+/**
+ * 新建看板
+ */
+export function createBoard(userId, name) {
+    const result = db.prepare('INSERT INTO boards (user_id, name) VALUES (?, ?)').run(userId, name);
+    return formatBoard(getBoardRow(userId, result.lastInsertRowid));
+}
+
+/**
+ * 更新看板名称 / 封面
+ * 封面条目必须属于该看板，否则抛出 status=400 的错误
+ * @returns {object | null} 更新后的看板；不存在时返回 null
+ */
+export function updateBoard(userId, boardId, { name, coverItemId }) {
+    if (!boardExists(userId, boardId)) return null;
+
+    if (coverItemId !== undefined && coverItemId !== null) {
+        const item = db.prepare('SELECT id FROM collection_items WHERE id = ? AND board_id = ?').get(coverItemId, boardId);
+        if (!item) {
+            const error = new Error('封面图片不在该看板中');
+            error.status = 400;
+            throw error;
+        }
+    }
+
+    if (name !== undefined) {
+        db.prepare("UPDATE boards SET name = ?, updated_at = datetime('now') WHERE id = ?").run(name, boardId);
+    }
+    if (coverItemId !== undefined) {
+        db.prepare("UPDATE boards SET cover_item_id = ?, updated_at = datetime('now') WHERE id = ?").run(coverItemId, boardId);
+    }
+
+    return formatBoard(getBoardRow(userId, boardId));
+}
+
+/**
+ * 删除看板（看板内的收藏条目回到未分组，不删除图片）
+ * @returns {boolean} 是否删除成功
+ */
+export function deleteBoard(userId, boardId) {
+    if (!boardExists(userId, boardId)) return false;
+
+    db.beginTransaction();
+    try {
+        db.prepare('UPDATE collection_items SET board_id = NULL WHERE board_id = ?').run(boardId);
+        db.prepare('DELETE FROM boards WHERE id = ?').run(boardId);
+        db.commit();
+        return true;
+    } catch (err) {
+        db.rollback();
+        throw err;
+    }
+}
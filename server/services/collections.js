@@ -0,0 +1,268 @@
+/**
+ * Collection Service
+ * 收藏库（灵感归档裁切图）的增删改查与排序
+ *
+ * 图片文件与生成图片一起存放在 STATIC_DIR，库中只记录文件名
+ * sort_order 越小越靠前，新收藏的条目插入到最前面
+ * board_id 为所属看板，为空表示未分组
+ * style_id / level 取自来源生成记录，用于按风格、创意等级筛选
+ * materials 为材质清单（JSON 数组），未分析时为空
+ * palette 为前端提取的色板（JSON 数组），用于展示与按颜色检索
+ */
+import db from '../database.js';
+import { toPublicUrl } from './storage.js';
+import { rankByColor } from './palettes.js';
+
+// SQLite CURRENT_TIMESTAMP 存储的是 UTC 时间，添加 'Z' 后缀让前端正确转换为本地时间
+const toUtcIso = (datetime) => datetime ? datetime.replace(' ', 'T') + 'Z' : null;
+
+function parseTags(raw) {
+    try {
+        const tags = JSON.parse(raw || '[]');
+        return Array.isArray(tags) ? tags : [];
+    } catch {
+        return [];
+    }
+}
+
+// 材质清单 / 色板：未生成时为 null
+function parseJsonList(raw) {
+    if (!raw) return null;
+    try {
+        const list = JSON.parse(raw);
+        return Array.isArray(list) ? list : null;
+    } catch {
+        return null;
+    }
+}
+
+// 收藏条目连同来源生成记录的风格 / 创意等级
+const SELECT_ITEM = `
+    SELECT ci.*, gh.style_id, gh.level FROM collection_items ci
+    LEFT JOIN generation_history gh ON gh.id = ci.generation_id
+`;
+
+function formatItem(row) {
+    return {
+        id: row.id,
+        url: toPublicUrl(row.filename),
+        tags: parseTags(row.tags),
+        generationId: row.generation_id,
+        boardId: row.board_id,
+        styleId: row.style_id ?? null,
+        level: row.level ?? null,
+        materials: parseJsonList(row.materials),
+        palette: parseJsonList(row.palette),
+        sortOrder: row.sort_order,
+        createdAt: toUtcIso(row.created_at),
+    };
+}
+
+/**
+ * 获取用户的全部收藏（按排序）
+ * @param {number} userId 用户 ID
+ */
+export function listCollection(userId) {
+    const rows = db.prepare(`
+        ${SELECT_ITEM}
+        WHERE ci.user_id = ?
+        ORDER BY ci.sort_order ASC, ci.id DESC
+    `).all(userId);
+    return rows.map(formatItem);
+}
+
+/**
+ * 按条件检索收藏（所有条件同时满足）
+ * @param {number} userId 用户 ID
+ * @param {object} filters
+ * @param {string[]} [filters.tags] 标签（需全部包含）
+ * @param {string} [filters.from] 起始日期 YYYY-MM-DD (含)
+ * @param {string} [filters.to] 结束日期 YYYY-MM-DD (含)
+ * @param {number} [filters.generationId] 来源生成记录
+ * @param {number} [filters.level] 来源生成记录的创意等级
+ * @param {string} [filters.color] 目标颜色 #rrggbb，指定时按色板的接近程度排序
+ * @returns {object[]} 匹配的收藏条目（未指定颜色时按收藏排序）
+ */
+export function searchCollection(userId, { tags = [], from, to, generationId, level, color }) {
+    let whereClause = 'WHERE ci.user_id = ?';
+    const params = [userId];
+
+    // tags 以 JSON 数组存储，按带引号的完整标签匹配
+    tags.forEach(tag => {
+        whereClause += ' AND instr(ci.tags, ?) > 0';
+        params.push(JSON.stringify(tag));
+    });
+    if (from) {
+        whereClause += ' AND ci.created_at >= ?';
+        params.push(from);
+    }
+    if (to) {
+        // 按区间比较而非 date()，以便使用 (user_id, created_at) 索引
+        whereClause += " AND ci.created_at < date(?, '+1 day')";
+        params.push(to);
+    }
+    if (generationId) {
+        whereClause += ' AND ci.generation_id = ?';
+        params.push(generationId);
+    }
+    if (level) {
+        whereClause += ' AND gh.level = ?';
+        params.push(level);
+    }
+    if (color) {
+        whereClause += ' AND ci.palette IS NOT NULL';
+    }
+
+    const rows = db.prepare(`
+        ${SELECT_ITEM}
+        ${whereClause}
+        ORDER BY ci.sort_order ASC, ci.id DESC
+    `).all(...params);
+
+    return (color ? rankByColor(rows, row => parseJsonList(row.palette), color) : rows).map(formatItem);
+}
+
+/**
+ * 批量新增收藏（插入到最前面，保持传入顺序）
+ * @param {number} userId 用户 ID
+ * @param {Array<{ image: { filename: string, fileSize: number, mimeType: string }, tags: string[], generationId: number | null, palette: object[] | null }>} items
+ * @param {number | null} boardId 所属看板（调用方需先校验归属）
+ * @returns {object[]} 新增的收藏条目
+ */
+export function addCollectionItems(userId, items, boardId = null) {
+    db.beginTransaction();
+    try {
+        const first = db.prepare('SELECT MIN(sort_order) as minOrder FROM collection_items WHERE user_id = ?').get(userId);
+        const startOrder = (first?.minOrder ?? 0) - items.length;
+
+        const ids = items.map((item, index) => {
+            // 来源生成记录必须属于当前用户，否则不做关联
+            const generation = item.generationId
+                ? db.prepare('SELECT id FROM generation_history WHERE id = ? AND user_id = ?').get(item.generationId, userId)
+                : null;
+
+            const result = db.prepare(`
+                INSERT INTO collection_items (user_id, generation_id, board_id, filename, file_size, mime_type, tags, palette, sort_order)
+                VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+            `).run(userId, generation?.id ?? null, boardId, item.image.filename, item.image.fileSize, item.image.mimeType,
+                JSON.stringify(item.tags), item.palette ? JSON.stringify(item.palette) : null, startOrder + index);
+            return result.lastInsertRowid;
+        });
+
+        db.commit();
+
+        return ids.map(id => formatItem(db.prepare(`${SELECT_ITEM} WHERE ci.id = ?`).get(id)));
+    } catch (err) {
+        db.rollback();
+        throw err;
+    }
+}
+
+/**
+ * 更新收藏标签 / 色板（只更新传入的字段）
+ * @param {{ tags?: string[], palette?: object[] | null }} fields
+ * @returns {object | null} 更新后的条目；不存在时返回 null
+ */
+export function updateCollectionItem(userId, itemId, fields) {
+    const updates = [];
+    const params = [];
+    if (fields.tags !== undefined) {
+        updates.push('tags = ?');
+        params.push(JSON.stringify(fields.tags));
+    }
+    if (fields.palette !== undefined) {
+        updates.push('palette = ?');
+        params.push(fields.palette ? JSON.stringify(fields.palette) : null);
+    }
+
+    const result = db.prepare(`UPDATE collection_items SET ${updates.join(', ')} WHERE id = ? AND user_id = ?`)
+        .run(...params, itemId, userId);
+    if (result.changes === 0) return null;
+
+    return formatItem(db.prepare(`${SELECT_ITEM} WHERE ci.id = ?`).get(itemId));
+}
+
+/**
+ * 查询收藏条目的图片文件
+ * @returns {{ filename: string, mimeType: string } | null}
+ */
+export function findCollectionImage(userId, itemId) {
+    const row = db.prepare('SELECT filename, mime_type FROM collection_items WHERE id = ? AND user_id = ?').get(itemId, userId);
+    return row ? { filename: row.filename, mimeType: row.mime_type } : null;
+}
+
+/**
+ * 保存材质清单（重新分析时覆盖）
+ * @param {object[]} materials 已清洗的材质清单
+ * @returns {object | null} 更新后的条目；不存在时返回 null
+ */
+export function updateCollectionMaterials(userId, itemId, materials) {
+    const result = db.prepare('UPDATE collection_items SET materials = ? WHERE id = ? AND user_id = ?')
+        .run(JSON.stringify(materials), itemId, userId);
+    if (result.changes === 0) return null;
+
+    return formatItem(db.prepare(`${SELECT_ITEM} WHERE ci.id = ?`).get(itemId));
+}
+
+/**
+ * 批量移动收藏到看板
+ * @param {number} userId 用户 ID
+ * @param {number[]} ids 收藏条目 ID
+ * @param {number | null} boardId 目标看板（调用方需先校验归属），null 表示移回未分组
+ * @returns {number} 实际移动的条目数
+ */
+export function moveCollectionItems(userId, ids, boardId) {
+    db.beginTransaction();
+    try {
+        const moved = ids.reduce((count, id) => count + db.prepare(
+            'UPDATE collection_items SET board_id = ? WHERE id = ? AND user_id = ?'
+        ).run(boardId, id, userId).changes, 0);
+        db.commit();
+        return moved;
+    } catch (err) {
+        db.rollback();
+        throw err;
+    }
+}
+
+/**
+ * 删除收藏
+ * @returns {string | null} 被删除条目的文件名（由调用方清理文件）；不存在时返回 null
+ */
+export function deleteCollectionItem(userId, itemId) {
+    const item = db.prepare('SELECT filename FROM collection_items WHERE id = ? AND user_id = ?').get(itemId, userId);
+    if (!item) return null;
+
+    db.prepare('DELETE FROM image_embeddings WHERE collection_item_id = ?').run(itemId);
+    db.prepare('DELETE FROM collection_items WHERE id = ?').run(itemId);
+    return item.filename;
+}
+
+/**
+ * 按给定 ID 顺序重排收藏
+ * 未包含在 ids 中的条目保持相对顺序，排在末尾
+ * @param {number} userId 用户 ID
+ * @param {number[]} ids 新顺序
+ * @returns {object[]} 重排后的完整列表
+ */
+export function reorderCollection(userId, ids) {
+    db.beginTransaction();
+    try {
+        const existing = db.prepare('SELECT id FROM collection_items WHERE user_id = ? ORDER BY sort_order ASC, id DESC')
+            .all(userId).map(row => row.id);
+        const owned = new Set(existing);
+        const ordered = [...new Set(ids)].filter(id => owned.has(id));
+        const rest = existing.filter(id => !ordered.includes(id));
+
+        [...ordered, ...rest].forEach((id, index) => {
+            db.prepare('UPDATE collection_items SET sort_order = ? WHERE id = ?').run(index, id);
+        });
+
+        db.commit();
+    } catch (err) {
+        db.rollback();
+        throw err;
+    }
+
+    return listCollection(userId);
+}
@@ -0,0 +1,227 @@
+/**
+ * Prompt Experiment Service
+ * 提示词 A/B 实验：按百分比将用户（或每次请求）分配到不同的提示词配置版本
+ *
+ * 每次生成记录所属实验与分组；结果信号记录在 generation_events 中：
+ *   collect    - 从该次生成裁切并收藏
+ *   upscale    - 对该次生成（或其裁切图）做高清放大
+ *   download   - 下载该次生成（或其裁切图 / 放大图）
+ *   regenerate - 生成后短时间内未收藏就用同一源图再次生成（视为不满意）
+ */
+import { createHash } from 'node:crypto';
+import db from '../database.js';
+import { getPromptConfig } from './promptVersions.js';
+import { validatePromptConfig } from './prompts.js';
+
+export const EXPERIMENT_ASSIGNMENTS = ['user', 'request'];
+export const OUTCOME_TYPES = ['collect', 'upscale', 'download', 'regenerate'];
+export const MAX_EXPERIMENT_NAME_LENGTH = 100;
+export const MIN_VARIANTS = 2;
+export const MAX_VARIANTS = 4;
+
+// 上一次生成完成后多久内再次生成算作“立即重新生成”
+const REGENERATE_WINDOW_SECONDS = 120;
+// 批量生成的各张几乎同时提交，此时间内的连续提交视为同一批
+const BATCH_WINDOW_SECONDS = 10;
+
+const VARIANT_KEYS = ['A', 'B', 'C', 'D'];
+
+// SQLite CURRENT_TIMESTAMP 存储的是 UTC 时间，添加 'Z' 后缀让前端正确转换为本地时间
+const toUtcIso = (datetime) => datetime ? datetime.replace(' ', 'T') + 'Z' : null;
+
+function parseVariants(raw) {
+    try {
+        const variants = JSON.parse(raw);
+        return Array.isArray(variants) ? variants : [];
+    } catch {
+        return [];
+    }
+}
+
+function formatExperiment(row) {
+    return {
+        id: row.id,
+        name: row.name,
+        assignment: row.assignment,
+        variants: parseVariants(row.variants),
+        status: row.status,
+        createdAt: toUtcIso(row.created_at),
+        stoppedAt: toUtcIso(row.stopped_at),
+    };
+}
+
+/**
+ * 校验并规范化分组（按顺序分配 A / B / C / D）
+ * @param {{ promptVersionId: number, weight: number }[]} variants
+ * @returns {{ variants?: object[], error?: string }}
+ */
+export function normalizeVariants(variants) {
+    if (!Array.isArray(variants) || variants.length < MIN_VARIANTS || variants.length > MAX_VARIANTS) {
+        return { error: `实验需要 ${MIN_VARIANTS}-${MAX_VARIANTS} 个分组` };
+    }
+    if (!variants.every(v => Number.isInteger(v?.weight) && v.weight > 0)) {
+        return { error: '分组流量必须为正整数百分比' };
+    }
+    if (variants.reduce((sum, v) => sum + v.weight, 0) !== 100) {
+        return { error: '各分组流量之和必须为 100%' };
+    }
+    const promptConfigs = variants.map(v => Number.isInteger(v.promptVersionId) ? getPromptConfig(v.promptVersionId) : null);
+    if (!promptConfigs.every(Boolean)) {
+        return { error: '分组的提示词版本不存在' };
+    }
+    if (!promptConfigs.every(promptConfig => validatePromptConfig(promptConfig).length === 0)) {
+        return { error: '分组的提示词版本配置不合法（缺少必需的占位符）' };
+    }
+
+    return {
+        variants: variants.map((v, index) => ({ key: VARIANT_KEYS[index], promptVersionId: v.promptVersionId, weight: v.weight })),
+    };
+}
+
+function findRunningExperiment() {
+    const row = db.prepare("SELECT * FROM prompt_experiments WHERE status = 'running' ORDER BY id DESC LIMIT 1").get();
+    return row ? formatExperiment(row) : null;
+}
+
+/**
+ * 新建实验并立即开始；已有进行中的实验时抛出 status=409 的错误
+ * @param {{ name: string, assignment: string, variants: object[] }} experiment 已校验的字段
+ */
+export function createExperiment(userId, { name, assignment, variants }) {
+    if (findRunningExperiment()) {
+        const error = new Error('已有进行中的实验，请先停止');
+        error.status = 409;
+        throw error;
+    }
+
+    const result = db.prepare('INSERT INTO prompt_experiments (name, assignment, variants, created_by) VALUES (?, ?, ?, ?)')
+        .run(name, assignment, JSON.stringify(variants), userId);
+    return formatExperiment(db.prepare('SELECT * FROM prompt_experiments WHERE id = ?').get(result.lastInsertRowid));
+}
+
+/**
+ * 停止实验（停止后新的生成恢复使用当前生效版本）
+ * @returns {boolean} 是否停止成功
+ */
+export function stopExperiment(experimentId) {
+    const result = db.prepare("UPDATE prompt_experiments SET status = 'stopped', stopped_at = datetime('now') WHERE id = ? AND status = 'running'")
+        .run(experimentId);
+    return result.changes > 0;
+}
+
+/**
+ * 为一次生成分配实验分组；没有进行中的实验时返回 null
+ * 按用户分配时同一用户始终落在同一分组（哈希取模），按请求分配时每次随机
+ * @returns {{ experimentId: number, variant: string, promptVersionId: number, promptConfig: object } | null}
+ */
+export function assignVariant(userId) {
+    const experiment = findRunningExperiment();
+    if (!experiment) return null;
+
+    const bucket = experiment.assignment === 'user'
+        ? createHash('sha256').update(`${experiment.id}:${userId}`).digest().readUInt32BE(0) % 100
+        : Math.floor(Math.random() * 100);
+
+    let cumulative = 0;
+    const variant = experiment.variants.find(v => bucket < (cumulative += v.weight)) || experiment.variants[0];
+    const promptConfig = getPromptConfig(variant.promptVersionId);
+    if (!promptConfig) return null;
+
+    return { experimentId: experiment.id, variant: variant.key, promptVersionId: variant.promptVersionId, promptConfig };
+}
+
+/**
+ * 记录结果信号（同一记录的同一信号只记一次）
+ * 放大图的信号归到其来源记录，便于按原始生成统计
+ */
+export function recordOutcome(generationId, type) {
+    if (!generationId || !OUTCOME_TYPES.includes(type)) return;
+
+    try {
+        const row = db.prepare('SELECT id, operation, parent_id FROM generation_history WHERE id = ?').get(generationId);
+        if (!row) return;
+        const targetId = row.operation === 'upscale' && row.parent_id ? row.parent_id : row.id;
+        db.prepare('INSERT OR IGNORE INTO generation_events (generation_id, type) VALUES (?, ?)').run(targetId, type);
+    } catch (err) {
+        // 信号记录失败不影响主流程
+        console.error('[Experiments] Failed to record outcome:', err.message);
+    }
+}
+
+/**
+ * 根据文件名记录下载信号（生成原图、放大图或收藏裁切图）
+ */
+export function recordDownload(userId, filename) {
+    const generation = db.prepare(`
+        SELECT gh.id FROM generation_images gi
+        JOIN generation_history gh ON gi.generation_id = gh.id
+        WHERE gi.original_filename = ? AND gh.user_id = ?
+    `).get(filename, userId) || db.prepare(
+        'SELECT generation_id as id FROM collection_items WHERE filename = ? AND user_id = ?'
+    ).get(filename, userId);
+
+    if (generation?.id) recordOutcome(generation.id, 'download');
+}
+
+/**
+ * 新的生成请求到来时（需在入队前调用）：若同一源图的上一次生成刚完成且没有被收藏，记为 regenerate
+ * 延展（带 parentId）是对上一次结果的认可，不计入；同一批的其余几张只由第一张判断
+ * @param {number} userId
+ * @param {string | null} sourceHash 本次请求输入图的哈希
+ */
+export function recordRegenerate(userId, sourceHash) {
+    if (!sourceHash) return;
+
+    const batchSibling = db.prepare(`
+        SELECT 1 FROM generation_jobs
+        WHERE user_id = ? AND type = 'generate' AND created_at >= datetime('now', ?)
+        LIMIT 1
+    `).get(userId, `-${BATCH_WINDOW_SECONDS} seconds`);
+    if (batchSibling) return;
+
+    const previous = db.prepare(`
+        SELECT gh.id FROM generation_history gh
+        WHERE gh.user_id = ? AND gh.status = 'success' AND gh.operation = 'generate' AND gh.source_hash = ?
+          AND gh.created_at >= datetime('now', ?)
+        ORDER BY gh.id DESC LIMIT 1
+    `).get(userId, sourceHash, `-${REGENERATE_WINDOW_SECONDS} seconds`);
+    if (!previous) return;
+
+    const collected = db.prepare("SELECT 1 FROM generation_events WHERE generation_id = ? AND type = 'collect'").get(previous.id);
+    if (!collected) recordOutcome(previous.id, 'regenerate');
+}
+
+/**
+ * 实验列表（新实验在前），附带各分组的统计
+ */
+export function listExperiments() {
+    return db.prepare('SELECT * FROM prompt_experiments ORDER BY id DESC').all().map(row => {
+        const experiment = formatExperiment(row);
+        return { ...experiment, results: getExperimentResults(experiment) };
+    });
+}
+
+/**
+ * 各分组统计：成功生成数，以及出现各信号的生成数
+ */
+function getExperimentResults(experiment) {
+    const signalColumns = OUTCOME_TYPES.map(type =>
+        `SUM(CASE WHEN EXISTS (SELECT 1 FROM generation_events ge WHERE ge.generation_id = gh.id AND ge.type = '${type}') THEN 1 ELSE 0 END) as ${type}`
+    ).join(',\n            ');
+
+    const rows = db.prepare(`
+        SELECT gh.variant,
+            COUNT(*) as generations,
+            ${signalColumns}
+        FROM generation_history gh
+        WHERE gh.experiment_id = ? AND gh.status = 'success'
+        GROUP BY gh.variant
+    `).all(experiment.id);
+
+    return experiment.variants.map(({ key, promptVersionId, weight }) => {
+        const row = rows.find(r => r.variant === key);
+        const generations = row?.generations || 0;
+        const outcomes = Object.fromEntries(OUTCOME_TYPES.map(type => [type, row?.[type] || 0]));
+        return { variant: key, promptVersionId, weight, generations, outcomes };
+    });
+}
@@ -0,0 +1,168 @@
+/**
+ * Generation Preset Service
+ * 生成预设：保存常用的标签组合、自定义标签、创意等级、画幅比例与设计简报，按账号存储
+ *
+ * 预设包（JSON）可导出后分发给团队成员导入，导入时同名预设会被覆盖
+ */
+import db from '../database.js';
+import config from '../config.js';
+import { sanitizeBrief } from './prompts.js';
+
+export const MAX_PRESET_NAME_LENGTH = 50;
+export const MAX_PRESETS_PER_USER = 50;
+export const MAX_PRESET_TAGS = 30;
+export const MAX_PRESET_TAG_LENGTH = 30;
+
+// 预设包格式标识与版本，导入时校验
+export const PRESET_PACK_TYPE = 'generation-presets';
+export const PRESET_PACK_VERSION = 1;
+
+// SQLite CURRENT_TIMESTAMP 存储的是 UTC 时间，添加 'Z' 后缀让前端正确转换为本地时间
+const toUtcIso = (datetime) => datetime ? datetime.replace(' ', 'T') + 'Z' : null;
+
+function cleanTag(tag) {
+    if (typeof tag !== 'string') return null;
+    return tag.replace(/[\u0000-\u001f\u007f]/g, '').trim().slice(0, MAX_PRESET_TAG_LENGTH) || null;
+}
+
+/**
+ * 清洗预设内容（接口提交与导入共用），缺失或非法的字段按默认值处理
+ * @returns {{ tags: string[], customTags: { res: string|null, com: string|null }, level: number, aspectRatio: string|null, brief: object|null }}
+ */
+export function sanitizePresetSettings(settings) {
+    const source = settings && typeof settings === 'object' ? settings : {};
+
+    const tags = [];
+    for (const tag of Array.isArray(source.tags) ? source.tags : []) {
+        const text = cleanTag(tag);
+        if (text && !tags.includes(text)) tags.push(text);
+        if (tags.length >= MAX_PRESET_TAGS) break;
+    }
+
+    return {
+        tags,
+        customTags: {
+            res: cleanTag(source.customTags?.res),
+            com: cleanTag(source.customTags?.com),
+        },
+        level: Number.isInteger(source.level) && source.level >= 1 && source.level <= 5 ? source.level : 3,
+        aspectRatio: config.generateAspectRatios.includes(source.aspectRatio) ? source.aspectRatio : null,
+        brief: sanitizeBrief(source.brief),
+    };
+}
+
+/**
+ * 校验预设名称
+ * @returns {string | null} 合法时返回去掉首尾空白的名称
+ */
+export function validatePresetName(name) {
+    const text = typeof name === 'string' ? name.trim() : '';
+    return text && text.length <= MAX_PRESET_NAME_LENGTH ? text : null;
+}
+
+function formatPreset(row) {
+    let settings = null;
+    try {
+        settings = JSON.parse(row.settings);
+    } catch {
+        // 数据异常时按默认设置返回
+    }
+    return {
+        id: row.id,
+        name: row.name,
+        settings: sanitizePresetSettings(settings),
+        createdAt: toUtcIso(row.created_at),
+        updatedAt: toUtcIso(row.updated_at),
+    };
+}
+
+function countPresets(userId) {
+    return db.prepare('SELECT COUNT(*) as count FROM generation_presets WHERE user_id = ?').get(userId).count;
+}
+
+function limitError() {
+    const error = new Error(`最多保存 ${MAX_PRESETS_PER_USER} 个生成预设`);
+    error.status = 400;
+    return error;
+}
+
+/**
+ * 获取用户的全部生成预设（按创建时间）
+ */
+export function listGenerationPresets(userId) {
+    return db.prepare('SELECT * FROM generation_presets WHERE user_id = ? ORDER BY created_at ASC, id ASC')
+        .all(userId)
+        .map(formatPreset);
+}
+
+/**
+ * 新建生成预设，超过数量上限时抛出 status=400 的错误
+ * @param {string} name 预设名称（已校验）
+ * @param {object} settings 预设内容（已清洗）
+ */
+export function createGenerationPreset(userId, name, settings) {
+    if (countPresets(userId) >= MAX_PRESETS_PER_USER) throw limitError();
+
+    const result = db.prepare('INSERT INTO generation_presets (user_id, name, settings) VALUES (?, ?, ?)')
+        .run(userId, name, JSON.stringify(settings));
+    return formatPreset(db.prepare('SELECT * FROM generation_presets WHERE id = ?').get(result.lastInsertRowid));
+}
+
+/**
+ * 删除生成预设
+ * @returns {boolean} 是否删除成功（不存在或不属于该用户时返回 false）
+ */
+export function deleteGenerationPreset(userId, presetId) {
+    const result = db.prepare('DELETE FROM generation_presets WHERE id = ? AND user_id = ?').run(presetId, userId);
+    return result.changes > 0;
+}
+
+/**
+ * 导出预设包
+ */
+export function exportGenerationPresets(userId) {
+    return {
+        type: PRESET_PACK_TYPE,
+        version: PRESET_PACK_VERSION,
+        exportedAt: new Date().toISOString(),
+        presets: listGenerationPresets(userId).map(({ name, settings }) => ({ name, settings })),
+    };
+}
+
+/**
+ * 导入预设包：同名预设覆盖，其余新建；名称不合法的条目跳过
+ * 新建后超过数量上限时整体回滚并抛出 status=400 的错误
+ * @param {{ name, settings }[]} presets 预设包中的条目（未清洗）
+ * @returns {{ created: number, updated: number, skipped: number }}
+ */
+export function importGenerationPresets(userId, presets) {
+    const summary = { created: 0, updated: 0, skipped: 0 };
+
+    db.beginTransaction();
+    try {
+        for (const preset of presets) {
+            const name = validatePresetName(preset?.name);
+            if (!name) {
+                summary.skipped++;
+                continue;
+            }
+            const settings = JSON.stringify(sanitizePresetSettings(preset.settings));
+
+            const existing = db.prepare('SELECT id FROM generation_presets WHERE user_id = ? AND name = ?').get(userId, name);
+            if (existing) {
+                db.prepare("UPDATE generation_presets SET settings = ?, updated_at = datetime('now') WHERE id = ?").run(settings, existing.id);
+                summary.updated++;
+            } else {
+                db.prepare('INSERT INTO generation_presets (user_id, name, settings) VALUES (?, ?, ?)').run(userId, name, settings);
+                summary.created++;
+            }
+        }
+        if (countPresets(userId) > MAX_PRESETS_PER_USER) throw limitError();
+
+        db.commit();
+        return summary;
+    } catch (err) {
+        db.rollback();
+        throw err;
+    }
+}
@@ -0,0 +1,368 @@
+/**
+ * Generation History Service
+ * 生图历史落库（generation_history / generation_images）及查询
+ */
+import db from '../database.js';
+import { readImage, toPublicUrl } from './storage.js';
+import { rankByColor, extractPalette } from './palettes.js';
+
+// 按颜色检索时最多参与排序的候选记录数（按时间倒序取最近的）
+const MAX_COLOR_CANDIDATES = 1000;
+// 旧记录补算色板时每批处理的数量
+const PALETTE_BACKFILL_BATCH_SIZE = 40;
+
+// SQLite CURRENT_TIMESTAMP 存储的是 UTC 时间，添加 'Z' 后缀让前端正确转换为本地时间
+const toUtcIso = (datetime) => datetime ? datetime.replace(' ', 'T') + 'Z' : null;
+
+function parseTags(raw) {
+    try {
+        const tags = JSON.parse(raw || '[]');
+        return Array.isArray(tags) ? tags : [];
+    } catch {
+        return [];
+    }
+}
+
+// 色板：未提取或图片无法读取（存为空数组）时为 null
+function parsePalette(raw) {
+    if (!raw) return null;
+    try {
+        const palette = JSON.parse(raw);
+        return Array.isArray(palette) && palette.length > 0 ? palette : null;
+    } catch {
+        return null;
+    }
+}
+
+function parseBrief(raw) {
+    if (!raw) return null;
+    try {
+        const brief = JSON.parse(raw);
+        return brief && typeof brief === 'object' ? brief : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * 记录一次生成/放大（成功或失败）
+ * @param {object} record
+ * @param {number} record.userId 用户 ID
+ * @param {string} record.operation 操作类型 (generate / upscale / edit / expand)
+ * @param {string[]} [record.tags] 空间标签
+ * @param {number} [record.level] 创意等级
+ * @param {string} [record.gridLayout] 宫格布局 (如 3x3)
+ * @param {string} [record.aspectRatio] 宽高比
+ * @param {string} [record.imageSize] 图像尺寸
+ * @param {number} [record.parentId] 来源记录 ID（局部编辑 / 单元格延展）
+ * @param {number} [record.parentCell] 来源单元格序号，从 0 开始按行排列（单元格延展）
+ * @param {string} [record.sourceHash] 输入图片哈希
+ * @param {string} [record.instruction] 修改指令（局部编辑）
+ * @param {string} [record.sourceFilename] 编辑前的单元格图文件名（局部编辑）
+ * @param {object} [record.brief] 设计简报（已清洗）
+ * @param {string[]} [record.avoid] 排除项（已清洗）
+ * @param {number} [record.styleId] 所选风格
+ * @param {number} [record.promptVersionId] 生成时使用的提示词配置版本
+ * @param {number} [record.experimentId] 所属 A/B 实验
+ * @param {string} [record.variant] 实验分组 (A / B / C / D)
+ * @param {number} [record.pointsConsumed] 消耗积分
+ * @param {string} record.status 状态 (success / failed)
+ * @param {{ filename: string, fileSize: number, mimeType: string }} [record.image] 落盘文件
+ * @returns {number | null} generation_history.id，写入失败返回 null
+ */
+export function recordGeneration(record) {
+    const {
+        userId, operation, tags = [], level = null, gridLayout = null, aspectRatio = null, imageSize = null,
+        parentId = null, parentCell = null, sourceHash = null, instruction = null, sourceFilename = null, brief = null, avoid = [], styleId = null, promptVersionId = null, experimentId = null, variant = null, pointsConsumed = 0, status, image = null,
+    } = record;
+
+    // 历史记录失败不应影响生成结果，只记录日志
+    try {
+        db.beginTransaction();
+
+        const result = db.prepare(`
+            INSERT INTO generation_history (user_id, tags, status, operation, level, points_consumed, grid_layout, aspect_ratio, image_size, parent_id, parent_cell, source_hash, instruction, source_filename, brief, avoid, style_id, prompt_version_id, experiment_id, variant)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `).run(userId, JSON.stringify(tags), status, operation, level, pointsConsumed, gridLayout, aspectRatio, imageSize, parentId, parentCell, sourceHash, instruction, sourceFilename, brief ? JSON.stringify(brief) : null, avoid.length > 0 ? JSON.stringify(avoid) : null, styleId, promptVersionId, experimentId, variant);
+        const generationId = result.lastInsertRowid;
+
+        if (image) {
+            db.prepare(`
+                INSERT INTO generation_images (generation_id, original_filename, file_size, mime_type)
+                VALUES (?, ?, ?, ?)
+            `).run(generationId, image.filename, image.fileSize, image.mimeType);
+        }
+
+        db.commit();
+        return generationId;
+    } catch (err) {
+        db.rollback();
+        console.error(`[Generations] Record failed | userId=${userId} | op=${operation}:`, err);
+        return null;
+    }
+}
+
+/**
+ * 分页查询用户的成功生成记录（所有条件同时满足）
+ * @param {number} userId 用户 ID
+ * @param {object} filters
+ * @param {number} filters.page 页码 (从 1 开始)
+ * @param {number} filters.limit 每页数量
+ * @param {string[]} [filters.tags] 标签过滤（需全部包含）
+ * @param {string} [filters.from] 起始日期 YYYY-MM-DD (含)
+ * @param {string} [filters.to] 结束日期 YYYY-MM-DD (含)
+ * @param {string[]} [filters.operations] 操作类型过滤（任一匹配）
+ * @param {number} [filters.styleId] 风格过滤
+ * @param {number} [filters.level] 创意等级过滤
+ * @param {number} [filters.parentId] 来源记录过滤（查看某条记录的编辑 / 延展 / 放大结果）
+ * @param {string} [filters.color] 目标颜色 #rrggbb，指定时按色板的接近程度排序
+ */
+export function listGenerations(userId, { page, limit, tags = [], from, to, operations, styleId, level, parentId, color }) {
+    let whereClause = "WHERE gh.user_id = ? AND gh.deleted_at IS NULL AND gh.status = 'success'";
+    const params = [userId];
+
+    // tags 以 JSON 数组存储，按带引号的完整标签匹配
+    tags.forEach(tag => {
+        whereClause += ' AND instr(gh.tags, ?) > 0';
+        params.push(JSON.stringify(tag));
+    });
+    if (from) {
+        whereClause += ' AND gh.created_at >= ?';
+        params.push(from);
+    }
+    if (to) {
+        // 按区间比较而非 date()，以便使用 (user_id, created_at) 索引
+        whereClause += " AND gh.created_at < date(?, '+1 day')";
+        params.push(to);
+    }
+    if (operations?.length) {
+        whereClause += ` AND gh.operation IN (${operations.map(() => '?').join(', ')})`;
+        params.push(...operations);
+    }
+    if (styleId) {
+        whereClause += ' AND gh.style_id = ?';
+        params.push(styleId);
+    }
+    if (level) {
+        whereClause += ' AND gh.level = ?';
+        params.push(level);
+    }
+    if (parentId) {
+        whereClause += ' AND gh.parent_id = ?';
+        params.push(parentId);
+    }
+    if (color) {
+        whereClause += ' AND gh.palette IS NOT NULL';
+    }
+
+    const selectRows = (extraClause, ...extraParams) => db.prepare(`
+        SELECT gh.*, gi.original_filename
+        FROM generation_history gh
+        LEFT JOIN generation_images gi ON gi.generation_id = gh.id
+        ${whereClause}
+        ORDER BY gh.created_at DESC, gh.id DESC
+        ${extraClause}
+    `).all(...params, ...extraParams);
+
+    let total;
+    let rows;
+    if (color) {
+        // 颜色距离无法在 SQL 中计算：取出有色板的候选记录，排序后再分页
+        const ranked = rankByColor(selectRows('LIMIT ?', MAX_COLOR_CANDIDATES), row => parsePalette(row.palette), color);
+        total = ranked.length;
+        rows = ranked.slice((page - 1) * limit, page * limit);
+    } else {
+        total = db.prepare(`SELECT COUNT(*) as count FROM generation_history gh ${whereClause}`).get(...params)?.count || 0;
+        rows = selectRows('LIMIT ? OFFSET ?', limit, (page - 1) * limit);
+    }
+
+    return {
+        generations: rows.map(formatGeneration),
+        pagination: {
+            page,
+            limit,
+            total,
+            totalPages: Math.ceil(total / limit),
+        },
+    };
+}
+
+/**
+ * 查询用户的一条成功生成记录
+ * @returns {object | null} 记录不存在、已删除或不属于该用户时返回 null
+ */
+export function findGeneration(userId, generationId) {
+    const row = db.prepare(`
+        SELECT gh.*, gi.original_filename
+        FROM generation_history gh
+        LEFT JOIN generation_images gi ON gi.generation_id = gh.id
+        WHERE gh.id = ? AND gh.user_id = ? AND gh.deleted_at IS NULL AND gh.status = 'success'
+    `).get(generationId, userId);
+    return row ? formatGeneration(row) : null;
+}
+
+// 谱系查询的节点上限，避免异常数据导致全表遍历
+const MAX_LINEAGE_NODES = 200;
+
+/**
+ * 查询一条记录所在的生成谱系
+ * 先沿 parent_id 回溯到根记录，再把与根记录使用同一参考图（source_hash）的其他根记录一并纳入，
+ * 最后逐层展开所有子记录（放大 / 编辑 / 延展）
+ * @returns {{ generations: object[], sourceHash: string | null } | null} 记录不存在时返回 null
+ */
+export function getLineage(userId, generationId) {
+    const selectNode = db.prepare(`
+        SELECT gh.*, gi.original_filename
+        FROM generation_history gh
+        LEFT JOIN generation_images gi ON gi.generation_id = gh.id
+        WHERE gh.id = ? AND gh.user_id = ? AND gh.status = 'success'
+    `);
+
+    let node = selectNode.get(generationId, userId);
+    if (!node || node.deleted_at) return null;
+
+    // 回溯到根（已删除的中间节点仍用于连接谱系，只是不返回）
+    const visited = new Set([node.id]);
+    while (node.parent_id && !visited.has(node.parent_id)) {
+        const parent = selectNode.get(node.parent_id, userId);
+        if (!parent) break;
+        visited.add(parent.id);
+        node = parent;
+    }
+
+    const roots = node.source_hash
+        ? db.prepare(`
+            SELECT gh.*, gi.original_filename
+            FROM generation_history gh
+            LEFT JOIN generation_images gi ON gi.generation_id = gh.id
+            WHERE gh.user_id = ? AND gh.status = 'success' AND gh.parent_id IS NULL AND gh.source_hash = ?
+            ORDER BY gh.created_at, gh.id
+            LIMIT ?
+        `).all(userId, node.source_hash, MAX_LINEAGE_NODES)
+        : [node];
+
+    const selectChildren = db.prepare(`
+        SELECT gh.*, gi.original_filename
+        FROM generation_history gh
+        LEFT JOIN generation_images gi ON gi.generation_id = gh.id
+        WHERE gh.user_id = ? AND gh.status = 'success' AND gh.parent_id = ?
+        ORDER BY gh.created_at, gh.id
+    `);
+
+    // 逐层展开子记录
+    const rows = [];
+    const seen = new Set();
+    const queue = [...roots];
+    while (queue.length > 0 && rows.length < MAX_LINEAGE_NODES) {
+        const row = queue.shift();
+        if (seen.has(row.id)) continue;
+        seen.add(row.id);
+        rows.push(row);
+        queue.push(...selectChildren.all(userId, row.id));
+    }
+
+    return {
+        sourceHash: node.source_hash,
+        generations: rows.filter(row => !row.deleted_at).map(formatGeneration),
+    };
+}
+
+/**
+ * 提取并保存生成图片的色板，用于按颜色检索历史
+ * 提取失败不应影响生成结果：只记录日志，并存为空数组避免反复补算；不会抛出异常
+ * @param {number} generationId 生成记录 ID
+ * @param {Buffer} buffer 图片二进制
+ * @returns {Promise<boolean>} 是否提取成功
+ */
+export async function indexGenerationPalette(generationId, buffer) {
+    if (!generationId) return false;
+    let palette = null;
+    try {
+        palette = await extractPalette(buffer);
+    } catch (err) {
+        console.error(`[Generations] Palette failed | generationId=${generationId}:`, err.message);
+    }
+    try {
+        db.prepare('UPDATE generation_history SET palette = ? WHERE id = ?').run(JSON.stringify(palette || []), generationId);
+    } catch (err) {
+        console.error(`[Generations] Palette save failed | generationId=${generationId}:`, err.message);
+        return false;
+    }
+    return !!palette;
+}
+
+/**
+ * 为还没有色板的旧记录补算（服务启动时在后台执行一次）
+ * 按时间倒序分批处理，批次之间让出事件循环，避免长时间占用 CPU
+ */
+export async function backfillGenerationPalettes() {
+    let lastId = Number.MAX_SAFE_INTEGER;
+    let count = 0;
+
+    for (;;) {
+        const rows = db.prepare(`
+            SELECT gh.id, gi.original_filename AS filename
+            FROM generation_history gh
+            JOIN generation_images gi ON gi.generation_id = gh.id
+            WHERE gh.status = 'success' AND gh.deleted_at IS NULL AND gh.palette IS NULL AND gh.id < ?
+            ORDER BY gh.id DESC
+            LIMIT ?
+        `).all(lastId, PALETTE_BACKFILL_BATCH_SIZE);
+        if (rows.length === 0) break;
+
+        for (const row of rows) {
+            let buffer = null;
+            try {
+                buffer = await readImage(row.filename);
+            } catch (err) {
+                console.error(`[Generations] Read failed | ${row.filename}:`, err.message);
+            }
+            if (buffer) await indexGenerationPalette(row.id, buffer);
+            else db.prepare("UPDATE generation_history SET palette = '[]' WHERE id = ?").run(row.id);
+        }
+
+        count += rows.length;
+        lastId = rows[rows.length - 1].id;
+        await new Promise(resolve => setImmediate(resolve));
+    }
+
+    if (count > 0) console.log(`[Generations] Palette backfill done | records=${count}`);
+}
+
+/**
+ * 软删除一条生成记录
+ * @returns {boolean} 是否删除成功（记录不存在或不属于该用户时返回 false）
+ */
+export function deleteGeneration(userId, generationId) {
+    const result = db.prepare(`
+        UPDATE generation_history SET deleted_at = datetime('now')
+        WHERE id = ? AND user_id = ? AND deleted_at IS NULL
+    `).run(generationId, userId);
+    return result.changes > 0;
+}
+
+function formatGeneration(row) {
+    return {
+        id: row.id,
+        url: row.original_filename ? toPublicUrl(row.original_filename) : null,
+        tags: parseTags(row.tags),
+        level: row.level,
+        operation: row.operation,
+        gridLayout: row.grid_layout,
+        aspectRatio: row.aspect_ratio,
+        imageSize: row.image_size,
+        parentId: row.parent_id,
+        parentCell: row.parent_cell,
+        sourceHash: row.source_hash,
+        instruction: row.instruction,
+        sourceUrl: row.source_filename ? toPublicUrl(row.source_filename) : null,
+        brief: parseBrief(row.brief),
+        avoid: parseTags(row.avoid),
+        styleId: row.style_id,
+        promptVersionId: row.prompt_version_id,
+        palette: parsePalette(row.palette),
+        pointsConsumed: row.points_consumed,
+        status: row.status,
+        createdAt: toUtcIso(row.created_at),
+    };
+}
@@ -0,0 +1,191 @@
+/**
+ * Generation Job Service
+ * 图像生成 / 放大的异步任务队列
+ *
+ * 路由预扣积分后入队并立即返回任务 ID，后台按 config.jobConcurrency 并发执行。
+ * 任务状态写入 generation_jobs，输入图像等大字段只保存在内存队列中。
+ * 状态流转: queued → running ⇄ retrying → succeeded / failed
+ */
+import { EventEmitter } from 'node:events';
+import { randomUUID } from 'node:crypto';
+import db from '../database.js';
+import config from '../config.js';
+import { refundPoints } from './points.js';
+import { formatError } from './vertexai.js';
+
+export const FINISHED_STATUSES = ['succeeded', 'failed'];
+
+// 任务类型 → 执行函数
+const handlers = new Map();
+
+// 排队中的任务（按入队顺序）
+const pending = [];
+
+// 重试等待信息（仅 retrying 状态存在）
+const retryInfo = new Map();
+
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0);
+
+let runningCount = 0;
+
+// SQLite CURRENT_TIMESTAMP 存储的是 UTC 时间，添加 'Z' 后缀让前端正确转换为本地时间
+const toUtcIso = (datetime) => datetime ? datetime.replace(' ', 'T') + 'Z' : null;
+
+function parseJson(raw) {
+    try {
+        return raw ? JSON.parse(raw) : null;
+    } catch {
+        return null;
+    }
+}
+
+function formatJob(row) {
+    const position = row.status === 'queued' ? pending.findIndex(job => job.id === row.id) + 1 : 0;
+    return {
+        id: row.id,
+        type: row.type,
+        status: row.status,
+        position: position || null,
+        retry: retryInfo.get(row.id) || null,
+        result: parseJson(row.result),
+        error: parseJson(row.error),
+        createdAt: toUtcIso(row.created_at),
+        startedAt: toUtcIso(row.started_at),
+        finishedAt: toUtcIso(row.finished_at),
+    };
+}
+
+function loadJob(jobId) {
+    const row = db.prepare('SELECT * FROM generation_jobs WHERE id = ?').get(jobId);
+    return row ? formatJob(row) : null;
+}
+
+function notify(jobId) {
+    const job = loadJob(jobId);
+    if (job) emitter.emit(jobId, job);
+}
+
+/**
+ * 注册任务执行函数
+ * handler(job, { onRetry }) 返回的结果对象会作为任务 result 返回给前端；
+ * 抛出错误时任务标记为失败，积分的确认 / 退还由 handler 自行处理
+ * @param {string} type 任务类型 (generate / upscale / edit)
+ * @param {(job: object, context: { onRetry: Function }) => Promise<object>} handler
+ */
+export function registerJobHandler(type, handler) {
+    handlers.set(type, handler);
+}
+
+/**
+ * 创建任务并加入队列
+ * @param {object} options
+ * @param {number} options.userId 用户 ID
+ * @param {string} options.type 任务类型
+ * @param {object} options.params 可持久化的任务参数（标签、尺寸等）
+ * @param {object} [options.payload] 仅保存在内存中的数据（如输入图像）
+ * @param {object} options.reservation reservePoints 的返回值，服务重启时用于退还积分
+ * @returns {object} 任务状态
+ */
+export function enqueueJob({ userId, type, params, payload = {}, reservation }) {
+    if (!handlers.has(type)) throw new Error(`Unknown job type: ${type}`);
+
+    const id = randomUUID();
+    db.prepare(`
+        INSERT INTO generation_jobs (id, user_id, type, status, params, reservation)
+        VALUES (?, ?, ?, 'queued', ?, ?)
+    `).run(id, userId, type, JSON.stringify(params), JSON.stringify(reservation));
+
+    pending.push({ id, userId, type, params, payload, reservation });
+    const job = loadJob(id);
+    setImmediate(processQueue);
+    return job;
+}
+
+/**
+ * 获取任务状态（只能查看自己的任务）
+ * @returns {object | null}
+ */
+export function getJob(userId, jobId) {
+    const row = db.prepare('SELECT * FROM generation_jobs WHERE id = ? AND user_id = ?').get(jobId, userId);
+    return row ? formatJob(row) : null;
+}
+
+/**
+ * 订阅任务状态变化
+ * @returns {() => void} 取消订阅
+ */
+export function subscribeJob(jobId, listener) {
+    emitter.on(jobId, listener);
+    return () => emitter.off(jobId, listener);
+}
+
+function processQueue() {
+    while (runningCount < config.jobConcurrency && pending.length > 0) {
+        const job = pending.shift();
+        runningCount++;
+        runJob(job).finally(() => {
+            runningCount--;
+            processQueue();
+        });
+        // 队列前移，通知其余排队任务更新位置
+        pending.forEach(queued => notify(queued.id));
+    }
+}
+
+async function runJob(job) {
+    const handler = handlers.get(job.type);
+    db.prepare(`UPDATE generation_jobs SET status = 'running', started_at = datetime('now') WHERE id = ?`).run(job.id);
+    notify(job.id);
+
+    const onRetry = ({ round, maxRounds, delayMs }) => {
+        retryInfo.set(job.id, { round, maxRounds, retryAt: new Date(Date.now() + delayMs).toISOString() });
+        db.prepare(`UPDATE generation_jobs SET status = 'retrying' WHERE id = ?`).run(job.id);
+        notify(job.id);
+        // 等待结束后恢复为 running
+        setTimeout(() => {
+            if (!retryInfo.has(job.id)) return;
+            retryInfo.delete(job.id);
+            db.prepare(`UPDATE generation_jobs SET status = 'running' WHERE id = ? AND status = 'retrying'`).run(job.id);
+            notify(job.id);
+        }, delayMs);
+    };
+
+    try {
+        const result = await handler(job, { onRetry });
+        retryInfo.delete(job.id);
+        db.prepare(`
+            UPDATE generation_jobs SET status = 'succeeded', result = ?, finished_at = datetime('now') WHERE id = ?
+        `).run(JSON.stringify(result), job.id);
+    } catch (err) {
+        retryInfo.delete(job.id);
+        db.prepare(`
+            UPDATE generation_jobs SET status = 'failed', error = ?, finished_at = datetime('now') WHERE id = ?
+        `).run(JSON.stringify(formatError(err, err.rawError)), job.id);
+    }
+    notify(job.id);
+}
+
+/**
+ * 服务启动时处理上次未完成的任务
+ * 内存队列已丢失，统一标记为失败并退还预扣积分
+ */
+export function recoverInterruptedJobs() {
+    const rows = db.prepare(`
+        SELECT id, reservation FROM generation_jobs WHERE status IN ('queued', 'running', 'retrying')
+    `).all();
+
+    for (const row of rows) {
+        const reservation = parseJson(row.reservation);
+        if (reservation) refundPoints(reservation);
+
+        const error = { message: '服务重启，任务已中断，积分已退还', status: 503, code: 'JOB_INTERRUPTED' };
+        db.prepare(`
+            UPDATE generation_jobs SET status = 'failed', error = ?, finished_at = datetime('now') WHERE id = ?
+        `).run(JSON.stringify(error), row.id);
+    }
+
+    if (rows.length > 0) {
+        console.log(`[Jobs] 已中断 ${rows.length} 个未完成任务并退还积分`);
+    }
+}
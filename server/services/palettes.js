@@ -0,0 +1,191 @@
+/**
+ * Palette Service
+ * 色板的提取、校验与按颜色检索（收藏裁切图与生成记录共用）
+ *
+ * 收藏裁切图的色板由前端提取（canvas 中位切分）后提交，服务端只做校验；
+ * 生成记录的色板在图片落盘时由服务端用 sharp 提取，不依赖浏览器能否读取跨域图片
+ * 提取算法与颜色距离 (CIE76 ΔE) 均与前端 services/imageProcessor.ts 保持一致
+ */
+import sharp from 'sharp';
+
+// 色板最多 / 最少保留的色块数
+export const MAX_PALETTE_SWATCHES = 8;
+const MIN_PALETTE_SWATCHES = 5;
+
+// 提取时的采样尺寸、中位切分的箱数，以及合并相近色块的 ΔE 阈值
+const PALETTE_SAMPLE_SIZE = 64;
+const PALETTE_BOXES = 16;
+const PALETTE_MERGE_DELTA_E = 10;
+
+// 按颜色检索：色块与目标颜色的 ΔE 小于此值才算匹配，且色块需占画面一定比例
+const COLOR_MATCH_DELTA_E = 20;
+const COLOR_MATCH_MIN_PROPORTION = 0.05;
+
+const HEX_PATTERN = /^#?[0-9a-f]{6}$/i;
+
+const isNumberTuple = (value, min, max) => Array.isArray(value) && value.length === 3
+    && value.every(v => typeof v === 'number' && Number.isFinite(v) && v >= min && v <= max);
+
+/**
+ * 清洗前端提交的色板：只保留格式正确的色块，并统一精度
+ * @param {Array<{ hex, rgb, lab, proportion }>} palette
+ * @returns {object[] | null} 没有有效色块时返回 null
+ */
+export function sanitizePalette(palette) {
+    if (!Array.isArray(palette)) return null;
+
+    const swatches = palette
+        .filter(swatch => swatch
+            && typeof swatch.hex === 'string' && /^#[0-9a-f]{6}$/i.test(swatch.hex)
+            && isNumberTuple(swatch.rgb, 0, 255)
+            && isNumberTuple(swatch.lab, -128, 128)
+            && typeof swatch.proportion === 'number' && swatch.proportion > 0 && swatch.proportion <= 1)
+        .slice(0, MAX_PALETTE_SWATCHES)
+        .map(swatch => ({
+            hex: swatch.hex.toLowerCase(),
+            rgb: swatch.rgb.map(Math.round),
+            lab: swatch.lab.map(v => Math.round(v * 10) / 10),
+            proportion: Math.round(swatch.proportion * 1000) / 1000,
+        }));
+    return swatches.length > 0 ? swatches : null;
+}
+
+/**
+ * 解析检索参数中的颜色（#rrggbb 或 rrggbb）
+ * @returns {string | null} 统一为小写 #rrggbb，格式无效时返回 null
+ */
+export function parseHexColor(value) {
+    if (typeof value !== 'string' || !HEX_PATTERN.test(value)) return null;
+    return `#${value.replace('#', '').toLowerCase()}`;
+}
+
+/**
+ * sRGB (0-255) → CIE L*a*b* (D65)
+ */
+function rgbToLab([r, g, b]) {
+    const linear = [r, g, b].map(v => {
+        const c = v / 255;
+        return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+    });
+    const x = (linear[0] * 0.4124 + linear[1] * 0.3576 + linear[2] * 0.1805) / 0.95047;
+    const y = linear[0] * 0.2126 + linear[1] * 0.7152 + linear[2] * 0.0722;
+    const z = (linear[0] * 0.0193 + linear[1] * 0.1192 + linear[2] * 0.9505) / 1.08883;
+    const f = (t) => t > 0.008856 ? Math.cbrt(t) : 7.787 * t + 16 / 116;
+    return [116 * f(y) - 16, 500 * (f(x) - f(y)), 200 * (f(y) - f(z))];
+}
+
+const hexToLab = (hex) => rgbToLab([1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16)));
+
+const deltaE = (a, b) => Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+
+const rgbToHex = (rgb) => '#' + rgb.map(v => v.toString(16).padStart(2, '0')).join('');
+
+/**
+ * 中位切分：反复在通道跨度最大的箱子中位处切开，直到达到 boxCount 个箱子
+ */
+function medianCut(pixels, boxCount) {
+    const range = (box, channel) => {
+        let min = 255, max = 0;
+        for (const p of box) { min = Math.min(min, p[channel]); max = Math.max(max, p[channel]); }
+        return max - min;
+    };
+
+    const boxes = [pixels];
+    while (boxes.length < boxCount) {
+        let target = -1, targetChannel = 0, targetRange = 0;
+        boxes.forEach((box, index) => {
+            if (box.length < 2) return;
+            for (let channel = 0; channel < 3; channel++) {
+                const r = range(box, channel);
+                if (r > targetRange) { target = index; targetChannel = channel; targetRange = r; }
+            }
+        });
+        if (target === -1) break;
+
+        const sorted = [...boxes[target]].sort((a, b) => a[targetChannel] - b[targetChannel]);
+        const mid = Math.floor(sorted.length / 2);
+        boxes.splice(target, 1, sorted.slice(0, mid), sorted.slice(mid));
+    }
+    return boxes;
+}
+
+/**
+ * 从图片提取 5-8 个色块的色板（按占比降序，占比之和为 1）
+ * @param {Buffer} buffer 图片二进制
+ * @returns {Promise<object[] | null>} 与 sanitizePalette 相同的格式；图片没有不透明像素时返回 null
+ */
+export async function extractPalette(buffer) {
+    const data = await sharp(buffer)
+        .ensureAlpha()
+        .resize(PALETTE_SAMPLE_SIZE, PALETTE_SAMPLE_SIZE, { fit: 'fill' })
+        .raw()
+        .toBuffer();
+
+    const pixels = [];
+    for (let i = 0; i < data.length; i += 4) {
+        if (data[i + 3] < 128) continue; // 跳过透明像素
+        pixels.push([data[i], data[i + 1], data[i + 2]]);
+    }
+    if (pixels.length === 0) return null;
+
+    // 各箱取平均色，再合并最接近的两块：色块过多，或两块几乎同色（至少保留 MIN_PALETTE_SWATCHES 块）
+    const clusters = medianCut(pixels, PALETTE_BOXES).filter(box => box.length > 0).map(box => {
+        const sum = box.reduce((acc, p) => [acc[0] + p[0], acc[1] + p[1], acc[2] + p[2]], [0, 0, 0]);
+        return { sum, count: box.length, lab: rgbToLab(sum.map(v => v / box.length)) };
+    });
+    while (clusters.length > 1) {
+        let closest = { i: 0, j: 1, distance: Infinity };
+        for (let i = 0; i < clusters.length; i++) {
+            for (let j = i + 1; j < clusters.length; j++) {
+                const distance = deltaE(clusters[i].lab, clusters[j].lab);
+                if (distance < closest.distance) closest = { i, j, distance };
+            }
+        }
+        const mustMerge = clusters.length > MAX_PALETTE_SWATCHES;
+        const shouldMerge = closest.distance < PALETTE_MERGE_DELTA_E && clusters.length > MIN_PALETTE_SWATCHES;
+        if (!mustMerge && !shouldMerge) break;
+
+        const [a, b] = [clusters[closest.i], clusters[closest.j]];
+        a.sum = [a.sum[0] + b.sum[0], a.sum[1] + b.sum[1], a.sum[2] + b.sum[2]];
+        a.count += b.count;
+        a.lab = rgbToLab(a.sum.map(v => v / a.count));
+        clusters.splice(closest.j, 1);
+    }
+
+    return sanitizePalette(clusters.sort((a, b) => b.count - a.count).map(c => {
+        const rgb = c.sum.map(v => Math.round(v / c.count));
+        return { hex: rgbToHex(rgb), rgb, lab: rgbToLab(rgb), proportion: c.count / pixels.length };
+    }));
+}
+
+/**
+ * 色板与目标颜色的最近距离（只考虑占比足够的色块）
+ * @returns {number | null} 没有匹配的色块时返回 null
+ */
+function paletteDistance(palette, lab) {
+    let nearest = null;
+    for (const swatch of palette) {
+        if (swatch.proportion < COLOR_MATCH_MIN_PROPORTION) continue;
+        const distance = deltaE(swatch.lab, lab);
+        if (distance < COLOR_MATCH_DELTA_E && (nearest === null || distance < nearest)) nearest = distance;
+    }
+    return nearest;
+}
+
+/**
+ * 按与目标颜色的接近程度筛选并排序（最接近的在前，距离相同时保持原顺序）
+ * @param {object[]} rows 候选记录
+ * @param {(row: object) => object[] | null} getPalette 取记录的色板
+ * @param {string} hex 目标颜色 #rrggbb
+ */
+export function rankByColor(rows, getPalette, hex) {
+    const lab = hexToLab(hex);
+    return rows
+        .map((row, index) => {
+            const palette = getPalette(row);
+            return { row, index, distance: palette ? paletteDistance(palette, lab) : null };
+        })
+        .filter(entry => entry.distance !== null)
+        .sort((a, b) => a.distance - b.distance || a.index - b.index)
+        .map(entry => entry.row);
+}
@@ -0,0 +1,128 @@
+/**
+ * Points Service
+ * 积分预扣 / 确认 / 退还
+ *
+ * 生成与放大路由在调用 Vertex 之前先预扣积分，成功后确认并记录日志，失败则原路退还。
+ * 规则: 优先扣每日积分，不足时扣永久积分
+ */
+import db from '../database.js';
+
+// 积分日志中的动作名称（管理后台统计依赖这些关键字）
+const ACTION_LABELS = {
+    generate: '生成图片',
+    upscale: '高清放大',
+    edit: '局部编辑',
+};
+
+function getToday() {
+    return new Date().toISOString().split('T')[0];
+}
+
+/**
+ * 读取用户当前可用积分
+ * @param {number} userId 用户 ID
+ * @returns {{ permanentPoints: number, dailyPoints: number, totalPoints: number } | null}
+ */
+export function getBalance(userId) {
+    const user = db.prepare('SELECT points, daily_points, daily_points_date FROM users WHERE id = ?').get(userId);
+    if (!user) return null;
+
+    // 当日可用积分（如果日期不是今天则为0）
+    const dailyPoints = user.daily_points_date === getToday() ? (user.daily_points || 0) : 0;
+    const permanentPoints = user.points || 0;
+
+    return { permanentPoints, dailyPoints, totalPoints: permanentPoints + dailyPoints };
+}
+
+/**
+ * 预扣积分（原子操作）
+ * 余额不足时抛出 status=402 / code=INSUFFICIENT_POINTS 的错误
+ * @param {number} userId 用户 ID
+ * @param {number} amount 扣除数量
+ * @param {string} action 动作 (generate / upscale / edit)
+ * @returns {{ userId: number, amount: number, action: string, date: string, fromDaily: number, fromPermanent: number }}
+ */
+export function reservePoints(userId, amount, action) {
+    db.beginTransaction();
+    try {
+        const balance = getBalance(userId);
+        if (!balance) {
+            const error = new Error('用户不存在');
+            error.status = 404;
+            error.code = 'USER_NOT_FOUND';
+            throw error;
+        }
+
+        if (balance.totalPoints < amount) {
+            const error = new Error('积分不足');
+            error.status = 402;
+            error.code = 'INSUFFICIENT_POINTS';
+            error.required = amount;
+            error.totalPoints = balance.totalPoints;
+            throw error;
+        }
+
+        // 计算扣费分配：优先扣每日积分
+        const fromDaily = Math.min(balance.dailyPoints, amount);
+        const fromPermanent = amount - fromDaily;
+
+        db.prepare('UPDATE users SET points = ?, daily_points = ? WHERE id = ?')
+            .run(balance.permanentPoints - fromPermanent, balance.dailyPoints - fromDaily, userId);
+
+        db.commit();
+        return { userId, amount, action, date: getToday(), fromDaily, fromPermanent };
+    } catch (err) {
+        db.rollback();
+        throw err;
+    }
+}
+
+/**
+ * 确认扣费：写入积分日志并返回最新余额
+ * @param {object} reservation reservePoints 的返回值
+ * @returns {{ newPoints: number, newDailyPoints: number, totalPoints: number, consumed: number }}
+ */
+export function commitPoints(reservation) {
+    const { userId, amount, action, fromDaily, fromPermanent } = reservation;
+
+    // 记录消耗明细
+    let description = ACTION_LABELS[action] || action;
+    if (fromDaily > 0 && fromPermanent > 0) {
+        description += ` (每日${fromDaily}+永久${fromPermanent})`;
+    } else if (fromDaily > 0) {
+        description += ' (每日积分)';
+    } else {
+        description += ' (永久积分)';
+    }
+
+    db.prepare(`
+        INSERT INTO points_log (user_id, points, reason, created_at)
+        VALUES (?, ?, ?, datetime('now'))
+    `).run(userId, -amount, description);
+
+    const balance = getBalance(userId);
+    return {
+        newPoints: balance?.permanentPoints ?? 0,
+        newDailyPoints: balance?.dailyPoints ?? 0,
+        totalPoints: balance?.totalPoints ?? 0,
+        consumed: amount,
+    };
+}
+
+/**
+ * 退还预扣的积分（生成失败时调用）
+ * 跨天后每日积分已被重置，不再退还每日部分
+ * @param {object} reservation reservePoints 的返回值
+ */
+export function refundPoints(reservation) {
+    const { userId, date, fromDaily, fromPermanent } = reservation;
+
+    try {
+        const dailyRefund = date === getToday() ? fromDaily : 0;
+        db.prepare('UPDATE users SET points = points + ?, daily_points = daily_points + ? WHERE id = ?')
+            .run(fromPermanent, dailyRefund, userId);
+    } catch (err) {
+        // 退还失败只记录日志，不影响错误响应
+        console.error(`[Points] Refund failed | userId=${userId} | amount=${reservation.amount}:`, err);
+    }
+}
@@ -0,0 +1,134 @@
+/**
+ * Prompt Version Service
+ * 提示词配置版本：配置以版本形式保存在数据库中，同一时间只有一个激活版本
+ *
+ * 发布新版本或回滚到旧版本后立即生效（替换 prompts.js 中的内存配置），无需重启
+ * 首次启动时将 config/prompts.json 导入为第一个版本
+ */
+import { readFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import db from '../database.js';
+import { validatePromptConfig, setActivePrompt } from './prompts.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const SEED_CONFIG_PATH = join(__dirname, '../config/prompts.json');
+
+export const MAX_PROMPT_NOTE_LENGTH = 200;
+
+// SQLite CURRENT_TIMESTAMP 存储的是 UTC 时间，添加 'Z' 后缀让前端正确转换为本地时间
+const toUtcIso = (datetime) => datetime ? datetime.replace(' ', 'T') + 'Z' : null;
+
+function formatVersion(row, { includeConfig = false } = {}) {
+    const version = {
+        id: row.id,
+        note: row.note || '',
+        createdBy: row.created_by_email || null,
+        active: !!row.active,
+        createdAt: toUtcIso(row.created_at),
+        activatedAt: toUtcIso(row.activated_at),
+    };
+    if (includeConfig) version.config = JSON.parse(row.config);
+    return version;
+}
+
+const SELECT_VERSION = `
+    SELECT pv.*, u.email as created_by_email
+    FROM prompt_versions pv
+    LEFT JOIN users u ON pv.created_by = u.id
+`;
+
+/**
+ * 启动时加载激活版本；版本表为空时先从 config/prompts.json 导入
+ * 配置文件缺失或不合法时直接抛错，避免带着空配置启动
+ */
+export function initPromptVersions() {
+    const { count } = db.prepare('SELECT COUNT(*) as count FROM prompt_versions').get();
+    if (count === 0) {
+        const promptConfig = JSON.parse(readFileSync(SEED_CONFIG_PATH, 'utf-8'));
+        const errors = validatePromptConfig(promptConfig);
+        if (errors.length > 0) {
+            throw new Error(`Invalid prompts.json: ${errors.join('; ')}`);
+        }
+        publishPromptVersion(promptConfig, { note: 'Imported from config/prompts.json' });
+        console.log('[Prompts] Seeded prompt version from prompts.json');
+        return;
+    }
+
+    const row = db.prepare('SELECT * FROM prompt_versions WHERE active = 1').get();
+    if (row) {
+        setActivePrompt({ id: row.id, config: JSON.parse(row.config) });
+        console.log(`[Prompts] Loaded prompt version #${row.id}`);
+    } else {
+        // 没有激活版本（数据异常）时使用最新版本
+        const latest = db.prepare('SELECT * FROM prompt_versions ORDER BY id DESC LIMIT 1').get();
+        activateRow(latest);
+        console.log(`[Prompts] No active prompt version, activated latest #${latest.id}`);
+    }
+}
+
+function activateRow(row) {
+    db.beginTransaction();
+    try {
+        db.prepare('UPDATE prompt_versions SET active = 0 WHERE active = 1 AND id != ?').run(row.id);
+        db.prepare("UPDATE prompt_versions SET active = 1, activated_at = datetime('now') WHERE id = ?").run(row.id);
+        db.commit();
+    } catch (err) {
+        db.rollback();
+        throw err;
+    }
+    setActivePrompt({ id: row.id, config: JSON.parse(row.config) });
+}
+
+/**
+ * 获取全部版本（不含配置内容，新版本在前）
+ */
+export function listPromptVersions() {
+    return db.prepare(`${SELECT_VERSION} ORDER BY pv.id DESC`).all().map(row => formatVersion(row));
+}
+
+/**
+ * 查询一个版本（含配置内容）
+ * @returns {object | null}
+ */
+export function findPromptVersion(versionId) {
+    const row = db.prepare(`${SELECT_VERSION} WHERE pv.id = ?`).get(versionId);
+    return row ? formatVersion(row, { includeConfig: true }) : null;
+}
+
+/**
+ * 读取某个版本的配置内容（A/B 实验按分组版本构建提示词）
+ * @returns {object | null}
+ */
+export function getPromptConfig(versionId) {
+    const row = db.prepare('SELECT config FROM prompt_versions WHERE id = ?').get(versionId);
+    return row ? JSON.parse(row.config) : null;
+}
+
+/**
+ * 发布新版本
+ * @param {object} promptConfig 已通过 validatePromptConfig 校验的配置
+ * @param {object} [options]
+ * @param {string} [options.note] 版本说明
+ * @param {number} [options.userId] 发布人
+ * @param {boolean} [options.activate] 是否立即生效（默认 true）
+ */
+export function publishPromptVersion(promptConfig, { note = '', userId = null, activate = true } = {}) {
+    const result = db.prepare('INSERT INTO prompt_versions (config, note, created_by) VALUES (?, ?, ?)')
+        .run(JSON.stringify(promptConfig), note, userId);
+    if (activate) {
+        activateRow(db.prepare('SELECT * FROM prompt_versions WHERE id = ?').get(result.lastInsertRowid));
+    }
+    return findPromptVersion(result.lastInsertRowid);
+}
+
+/**
+ * 激活指定版本（回滚到旧版本同样使用此方法）
+ * @returns {object | null} 激活后的版本；不存在时返回 null
+ */
+export function activatePromptVersion(versionId) {
+    const row = db.prepare('SELECT * FROM prompt_versions WHERE id = ?').get(versionId);
+    if (!row) return null;
+    activateRow(row);
+    return findPromptVersion(versionId);
+}
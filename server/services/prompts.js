@@ -4,27 +4,201 @@
  * 将 prompt 构建逻辑从前端移到后端，避免在 Network 中暴露完整 prompt
  */
 
-import { readFileSync } from 'node:fs';
-import { dirname, join } from 'node:path';
-import { fileURLToPath } from 'node:url';
+import { getTaxonomy, getTagRole, isTaxonomyTag } from './taxonomy.js';
+
+// 当前生效的提示词配置：数据库中的激活版本（见 promptVersions.js），启动时加载，发布 / 回滚时即时替换
+let activePrompt = null;  // { id, config }
+
+// 提示词配置结构：'string' 为非空字符串，'number[]' 为非空数字数组，对象为嵌套字段
+const PROMPT_CONFIG_SCHEMA = {
+    project_name: 'string',
+    version: 'string',
+    domain_definition: { photography_type: 'string', usage_intent: 'string' },
+    global_constraints: {
+        photorealism_only: 'string',
+        lighting: 'string',
+        time_consistency: 'string',
+        materials: 'string',
+        color_palette: 'string',
+        same_world_rule: 'string',
+        aesthetic_lineage: 'string',
+    },
+    camera_system: { lens_options_mm: 'number[]', aperture_guideline: 'string', camera_height: 'string' },
+    grid_specification: { dividers: 'string', no_spanning_rule: 'string' },
+    shot_guidelines: { variation: 'string', anti_redundancy: 'string', focus_shift: 'string' },
+    design_reference_rules: { scale_legibility: 'string', constructability: 'string', readability_priority: 'string' },
+    output_rules: { aspect_ratio: 'string', text_overlay: 'string', people: 'string', consistency: 'string' },
+    final_prompt_instruction: 'string',
+};
+
+// 可选宫格布局（行 x 列）及默认画幅，2x3 在 3:2 画幅下单元格仍为方形
+export const GRID_LAYOUTS = {
+    '1x1': { rows: 1, cols: 1, canvas: '1:1' },
+    '2x2': { rows: 2, cols: 2, canvas: '1:1' },
+    '3x3': { rows: 3, cols: 3, canvas: '1:1' },
+    '4x4': { rows: 4, cols: 4, canvas: '1:1' },
+    '2x3': { rows: 2, cols: 3, canvas: '3:2' },
+};
+
+export const DEFAULT_GRID_LAYOUT = '3x3';
+
+// 多参考图的角色：每张图只借用对应维度
+export const REFERENCE_ROLES = {
+    layout: 'spatial layout, camera viewpoint and architectural structure',
+    material: 'materials, finishes and surface textures',
+    color: 'color palette and color proportions',
+    mood: 'lighting, atmosphere and mood',
+};
+
+// 参考权重 1-5 → 借用强度
+const REFERENCE_STRENGTHS = ['a faint hint', 'a loose influence', 'a clear influence', 'a strong influence', 'a strict match'];
+
+export const MAX_REFERENCE_IMAGES = 4;
+
+// 设计简报：自由文本字段（键 → 提示词中的标题）
+export const BRIEF_FIELDS = {
+    style: 'Style',
+    materials: 'Materials',
+    mustKeep: 'Must Keep',
+    avoid: 'Avoid',
+};
+
+// 预算档位 → 材料与做工的定位
+export const BUDGET_TIERS = {
+    economy: 'ECONOMY - cost-effective standard materials, simple detailing, off-the-shelf furniture',
+    standard: 'STANDARD - mid-range materials, clean detailing, a few feature pieces',
+    premium: 'PREMIUM - high-quality natural materials, refined custom joinery, designer furniture',
+    luxury: 'LUXURY - rare materials, bespoke craftsmanship, gallery-level lighting and art',
+};
+
+export const MAX_BRIEF_FIELD_LENGTH = 200;
+
+// 排除项（“不要出现”的材料 / 家具 / 风格）
+export const MAX_AVOID_ITEMS = 20;
+export const MAX_AVOID_ITEM_LENGTH = 30;
+
+// 局部编辑指令长度上限
+export const MAX_EDIT_INSTRUCTION_LENGTH = 200;
+
+const gcd = (a, b) => b === 0 ? a : gcd(b, a % b);
 
-const __dirname = dirname(fileURLToPath(import.meta.url));
+/**
+ * 单元格比例：画幅 W:H 均分为 rows x cols 后每格的宽高比
+ * 例: 16:9 画幅 3x3 → 16:9；3:2 画幅 2x3 → 1:1
+ */
+function getPanelRatio(canvas, rows, cols) {
+    const [w, h] = canvas.split(':').map(Number);
+    const panelW = w * rows;
+    const panelH = h * cols;
+    const divisor = gcd(panelW, panelH);
+    return `${panelW / divisor}:${panelH / divisor}`;
+}
+
+/**
+ * 布局描述：画幅、单元格比例、面板数量文案与整图生成指令
+ * @param {string} gridLayout 宫格布局
+ * @param {string} [aspectRatio] 画幅比例，默认使用布局自带画幅
+ */
+function describeGridLayout(gridLayout, aspectRatio) {
+    const { rows, cols, canvas: defaultCanvas } = GRID_LAYOUTS[gridLayout] || GRID_LAYOUTS[DEFAULT_GRID_LAYOUT];
+    const canvas = aspectRatio || defaultCanvas;
+    const panelCount = rows * cols;
+    const panelRatio = getPanelRatio(canvas, rows, cols);
+
+    const [w, h] = canvas.split(':').map(Number);
+    const shape = w === h ? 'square' : w > h ? `${canvas} landscape` : `${canvas} portrait`;
+
+    if (panelCount === 1) {
+        return {
+            canvas,
+            panelRatio,
+            panels: 'The single panel',
+            layout: '1x1 (single full-frame photograph, no grid)',
+            instruction: `Generate a single ${shape} full-frame photograph with no grid and no dividers.`,
+        };
+    }
+
+    return {
+        canvas,
+        panelRatio,
+        panels: `All ${panelCount} panels`,
+        layout: `${rows}x${cols} (${rows} rows x ${cols} columns, ${panelCount} panels, each panel ${panelRatio})`,
+        instruction: `Generate a single ${shape} image containing a strictly aligned ${rows}x${cols} grid (${rows} rows, ${cols} columns) with pure-white dividers. Every panel has identical ${panelRatio} proportions; rows and columns must line up edge to edge across the whole canvas.`,
+    };
+}
+
+function collectSchemaErrors(value, schema, path, errors) {
+    if (typeof schema === 'object') {
+        if (!value || typeof value !== 'object' || Array.isArray(value)) {
+            errors.push(`${path} must be an object`);
+            return;
+        }
+        for (const [key, child] of Object.entries(schema)) {
+            collectSchemaErrors(value[key], child, `${path}.${key}`, errors);
+        }
+    } else if (schema === 'number[]') {
+        if (!Array.isArray(value) || value.length === 0 || !value.every(n => typeof n === 'number' && n > 0)) {
+            errors.push(`${path} must be a non-empty array of positive numbers`);
+        }
+    } else if (typeof value !== 'string' || !value.trim()) {
+        errors.push(`${path} must be a non-empty string`);
+    }
+}
+
+// 必须保留的占位符：生成时替换为用户所选宫格布局与画幅，缺失会导致点选裁切错位
+const REQUIRED_PLACEHOLDERS = [
+    ['final_prompt_instruction', '{grid_instruction}'],
+    ['output_rules.aspect_ratio', '{panel_ratio}'],
+];
+
+/**
+ * 校验提示词配置结构及必需占位符（发布新版本前调用）
+ * @returns {string[]} 错误列表，为空表示合法
+ */
+export function validatePromptConfig(promptConfig) {
+    const errors = [];
+    collectSchemaErrors(promptConfig, PROMPT_CONFIG_SCHEMA, 'config', errors);
+    if (errors.length > 0) return errors;
+
+    for (const [path, placeholder] of REQUIRED_PLACEHOLDERS) {
+        const value = path.split('.').reduce((node, key) => node[key], promptConfig);
+        if (!value.includes(placeholder)) {
+            errors.push(`config.${path} must contain ${placeholder}`);
+        }
+    }
+    return errors;
+}
 
-// 加载 prompt 配置
-const promptConfigPath = join(__dirname, '../config/prompts.json');
-let promptConfig;
-try {
-    promptConfig = JSON.parse(readFileSync(promptConfigPath, 'utf-8'));
-} catch (err) {
-    console.error('[Prompts] Failed to load prompts.json:', err.message);
-    promptConfig = {};
+/**
+ * 切换当前生效的提示词配置（无需重启）
+ * @param {{ id: number, config: object }} version 已校验的配置版本
+ */
+export function setActivePrompt(version) {
+    activePrompt = version;
+}
+
+/**
+ * 当前生效的提示词配置版本 ID（生成记录中保存）
+ */
+export function getActivePromptVersionId() {
+    return activePrompt?.id ?? null;
 }
 
 /**
  * 将 JSON 配置转换为发送给 AI 的完整提示词
+ * @param {string} gridLayout 宫格布局 (GRID_LAYOUTS 的键)
+ * @param {string} [aspectRatio] 画幅比例，默认使用布局自带画幅
+ * @param {object} [promptConfig] 提示词配置，默认使用当前生效版本（A/B 实验时传入分组对应的版本）
  */
-export function buildSystemPrompt() {
+export function buildSystemPrompt(gridLayout = DEFAULT_GRID_LAYOUT, aspectRatio, promptConfig = activePrompt?.config) {
+    if (!promptConfig) {
+        const error = new Error('Prompt configuration is not loaded');
+        error.status = 503;
+        error.code = 'UNAVAILABLE';
+        throw error;
+    }
     const sections = [];
+    const layout = describeGridLayout(gridLayout, aspectRatio);
 
     // Project Header
     sections.push(`[PROJECT: ${promptConfig.project_name} v${promptConfig.version}]`);
@@ -53,8 +227,8 @@ export function buildSystemPrompt() {
     // Grid Specification
     const grid = promptConfig.grid_specification;
     sections.push(`\n[GRID SPECIFICATION]
-- Canvas: ${grid.final_canvas}
-- Layout: ${grid.grid_layout}
+- Canvas: ${layout.canvas}
+- Layout: ${layout.layout}
 - Dividers: ${grid.dividers}
 - No Spanning: ${grid.no_spanning_rule}`);
 
@@ -75,13 +249,13 @@ export function buildSystemPrompt() {
     // Output Rules
     const out = promptConfig.output_rules;
     sections.push(`\n[OUTPUT RULES]
-- Aspect Ratio: ${out.aspect_ratio}
+- Aspect Ratio: ${out.aspect_ratio.replace('{panel_ratio}', layout.panelRatio)}
 - Text: ${out.text_overlay}
 - People: ${out.people}
 - Consistency: ${out.consistency}`);
 
     // Final Instruction
-    sections.push(`\n[FINAL INSTRUCTION]\n${promptConfig.final_prompt_instruction}`);
+    sections.push(`\n[FINAL INSTRUCTION]\n${promptConfig.final_prompt_instruction.replace('{grid_instruction}', layout.instruction)}`);
 
     return sections.join('\n');
 }
@@ -126,50 +300,176 @@ export function getGenerationConfig(level) {
     return configs[level - 1] || configs[2];
 }
 
+/**
+ * 多参考图说明：按发送顺序描述每张图的角色与权重
+ * @param {{ role: string, weight: number }[]} references
+ */
+function describeReferences(references) {
+    if (!references || references.length === 0) return '';
+
+    const lines = references.map(({ role, weight }, index) =>
+        `- Image ${index + 1}: ${role.toUpperCase()} reference (weight ${weight}/5). Borrow ONLY its ${REFERENCE_ROLES[role]} as ${REFERENCE_STRENGTHS[weight - 1]}.`);
+
+    return `[REFERENCE IMAGES]:
+${lines.join('\n')}
+- Blend the references into ONE coherent design; never collage or paste them side by side.
+- When references conflict, the higher weight wins for its own aspect; aspects not covered by any reference follow the tags.
+
+`;
+}
+
+/**
+ * 清洗写入提示词的自由文本：去掉控制字符与可能伪造提示词段落的括号 / 引号，压缩空白并截断
+ */
+function cleanPromptText(text, maxLength) {
+    return text
+        .replace(/[\u0000-\u001f\u007f]/g, ' ')
+        .replace(/[\[\]{}<>"`]/g, '')
+        .replace(/\s+/g, ' ')
+        .trim()
+        .slice(0, maxLength);
+}
+
+/**
+ * 清洗设计简报
+ * @param {object} brief 前端提交的简报
+ * @returns {{ style?, materials?, budget?, mustKeep?, avoid? } | null} 全部为空时返回 null
+ */
+export function sanitizeBrief(brief) {
+    if (!brief || typeof brief !== 'object') return null;
+
+    const result = {};
+    for (const key of Object.keys(BRIEF_FIELDS)) {
+        if (typeof brief[key] !== 'string') continue;
+        const text = cleanPromptText(brief[key], MAX_BRIEF_FIELD_LENGTH);
+        if (text) result[key] = text;
+    }
+    if (Object.hasOwn(BUDGET_TIERS, brief.budget)) result.budget = brief.budget;
+
+    return Object.keys(result).length > 0 ? result : null;
+}
+
+/**
+ * 清洗排除项：规则同设计简报（另去掉逗号），去重并限制数量与长度
+ * @param {string[]} items 前端提交的排除项
+ * @returns {string[]}
+ */
+export function sanitizeAvoidList(items) {
+    if (!Array.isArray(items)) return [];
+
+    const result = [];
+    for (const item of items) {
+        if (typeof item !== 'string') continue;
+        const text = cleanPromptText(item.replace(/,/g, ''), MAX_AVOID_ITEM_LENGTH);
+        if (text && !result.includes(text)) result.push(text);
+        if (result.length >= MAX_AVOID_ITEMS) break;
+    }
+    return result;
+}
+
+/**
+ * 清洗局部编辑指令：规则同设计简报
+ * @param {string} instruction 前端提交的修改指令
+ * @returns {string} 不合法或清洗后为空时返回空字符串
+ */
+export function sanitizeEditInstruction(instruction) {
+    return typeof instruction === 'string' ? cleanPromptText(instruction, MAX_EDIT_INSTRUCTION_LENGTH) : '';
+}
+
+/**
+ * 排除项段落：作为硬性约束，优先级高于标签、简报与参考图
+ */
+function describeAvoidList(avoid, panels) {
+    if (!avoid || avoid.length === 0) return '';
+
+    return `[HARD CONSTRAINTS - AVOID]:
+${avoid.map(item => `- NO ${item}`).join('\n')}
+- ${panels} must contain NONE of the items above, not even partially, in the background or as reflections.
+- If a tag, the brief or a reference image implies one of these items, substitute a neutral alternative instead.
+
+`;
+}
+
+/**
+ * 风格段落：风格库由管理员维护，写入前同样清洗
+ * @param {{ name, description, palette: string[], materials: string[] } | null} style
+ */
+function describeStyle(style, panels) {
+    if (!style) return '';
+
+    const lines = [`- Name: ${cleanPromptText(style.name, 100)}`];
+    if (style.description) lines.push(`- Character: ${cleanPromptText(style.description, 500)}`);
+    if (style.palette.length > 0) lines.push(`- Palette: ${style.palette.join(', ')}`);
+    if (style.materials.length > 0) lines.push(`- Material Keywords: ${style.materials.map(m => cleanPromptText(m, 50)).join(', ')}`);
+
+    return `[STYLE]:
+${lines.join('\n')}
+- ${panels} share this style: it drives furniture language, detailing, palette and materials, while the SPACE TAGS still decide the space type.
+
+`;
+}
+
+/**
+ * 设计简报段落（简报需先经 sanitizeBrief 清洗）
+ */
+function describeBrief(brief, panels) {
+    if (!brief) return '';
+
+    const lines = ['style', 'materials', 'budget', 'mustKeep', 'avoid']
+        .filter(key => brief[key])
+        .map(key => key === 'budget' ? `- Budget Tier: ${BUDGET_TIERS[brief.budget]}` : `- ${BRIEF_FIELDS[key]}: ${brief[key]}`);
+
+    return `[DESIGN BRIEF]:
+${lines.join('\n')}
+- ${panels} must honor this brief. "Must Keep" elements stay recognizable in every panel where they are visible; "Avoid" items must not appear anywhere.
+- The brief refines the design language only; it never overrides the SPACE TYPE LOCK or realism rules.
+
+`;
+}
+
 /**
  * 构建完整的生成提示词
+ * @param {string[]} tags 空间标签
+ * @param {number} level 创意等级 1-5
+ * @param {string} gridLayout 宫格布局 (GRID_LAYOUTS 的键)
+ * @param {string} [aspectRatio] 画幅比例，默认使用布局自带画幅
+ * @param {object} [extras]
+ * @param {{ role: string, weight: number }[]} [extras.references] 多参考图的角色与权重（与输入图片顺序一致）
+ * @param {object | null} [extras.brief] 设计简报（已清洗）
+ * @param {string[]} [extras.avoid] 排除项（已清洗）
+ * @param {object | null} [extras.style] 风格库条目
+ * @param {object} [extras.promptConfig] 提示词配置，默认使用当前生效版本
  */
-export function buildGenerationPrompt(tags, level) {
-    const systemPrompt = buildSystemPrompt();
+export function buildGenerationPrompt(tags, level, gridLayout = DEFAULT_GRID_LAYOUT, aspectRatio, { references = [], brief = null, avoid = [], style = null, promptConfig } = {}) {
+    const systemPrompt = buildSystemPrompt(gridLayout, aspectRatio, promptConfig);
+    const referenceSection = describeReferences(references);
     const config = getGenerationConfig(level);
+    const { panels } = describeGridLayout(gridLayout, aspectRatio);
+    const styleSection = describeStyle(style, panels);
+    const briefSection = describeBrief(brief, panels);
+    const avoidSection = describeAvoidList(avoid, panels);
 
     if (!tags || tags.length === 0) {
         // 无标签时也加入 directive（使用当前等级的指令）
         return `[GENERATION DIRECTIVE]: ${config.promptDirective}
 
-${systemPrompt}`;
+${styleSection}${briefSection}${avoidSection}${referenceSection}${systemPrompt}`;
     }
 
     const tagString = tags.join(', ');
 
-    // Tag taxonomy: infer PRIMARY vs MODIFIER without relying on selection order.
+    // Tag taxonomy: infer PRIMARY vs MODIFIER without relying on selection order (roles come from taxonomy.js).
     // PRIMARY: overall project / industry scene context (工装行业场景)
     // MODIFIER: functional zones / room types / qualifiers within a project
-    const PRIMARY_TAGS = new Set([
-        '办公', '酒店', '餐饮', '零售 / 商店', '医疗', '教育', '展览 / 展馆'
-    ]);
-
-    const primaryCandidates = tags.filter(t => PRIMARY_TAGS.has(t));
+    const primaryCandidates = tags.filter(t => getTagRole(t) === 'primary');
     const primaryTag = primaryCandidates.length > 0 ? primaryCandidates.join(' + ') : tags[0];
 
-    const modifierTags = tags.filter(t => !PRIMARY_TAGS.has(t));
+    const modifierTags = tags.filter(t => getTagRole(t) !== 'primary');
     const modifierString = modifierTags.length > 0 ? modifierTags.join(', ') : 'None';
 
-    // 外部空间标签
-    const EXTERIOR_TAGS = new Set(['门头', '户外区', '阳台']);
-
-    // 内部空间标签（家装 + 工装空间类型）
-    const INTERIOR_ONLY_TAGS = new Set([
-        // 家装空间
-        '客厅', '家用餐厅', '厨房', '卧室', '家用卫生间', '书房 / 工作区', '玄关', '儿童房', '多功能房',
-        // 工装空间类型
-        '大堂', '前台', '接待区', '会议室', '开放办公区', '独立办公室', '洽谈区', '展示区', '就餐区',
-        '咖啡区', '休息区', '公共活动区', '客房', '健身房', '走廊', '电梯厅', '公共卫生间'
-    ]);
-
     // 判断内外锁定：只看 modifier tags（功能空间），因为 PRIMARY（行业场景）本身不决定内外
-    const hasExteriorOnly = modifierTags.length > 0 && modifierTags.every(t => EXTERIOR_TAGS.has(t));
-    const hasInteriorOnly = modifierTags.length > 0 && modifierTags.every(t => INTERIOR_ONLY_TAGS.has(t));
+    const hasExteriorOnly = modifierTags.length > 0 && modifierTags.every(t => getTagRole(t) === 'exterior');
+    const hasInteriorOnly = modifierTags.length > 0 && modifierTags.every(t => getTagRole(t) === 'interior');
 
     return `[MANDATORY REALISM]: PHOTOREALISTIC ARCHITECTURAL PHOTOGRAPHY (INTERIOR OR EXTERIOR AS REQUIRED BY TAGS).
 
@@ -184,18 +484,156 @@ ${systemPrompt}`;
 - PRIMARY CONTEXT TAG defines the overall project/context.
 - MODIFIER TAGS must be embedded WITHIN the primary context (e.g., "Restaurant + Public Restroom" = a public restroom that belongs to the restaurant project, sharing its material language and vibe).
 - Do NOT produce generic primary-space shots that ignore modifier tags, and do NOT produce modifier-space shots that feel detached from the primary project.
-- All 9 panels must remain within the same coherent space context; you may include only directly adjacent transition zones (e.g., entry corridor to the restroom) if they clearly belong to the same project.
+- ${panels} must remain within the same coherent space context; you may include only directly adjacent transition zones (e.g., entry corridor to the restroom) if they clearly belong to the same project.
 
 [SPACE TYPE LOCK]:
 ${hasExteriorOnly
-            ? '- HARD LOCK: ENTRANCE / EXTERIOR ONLY. All 9 panels MUST depict entrance / facade / exterior zones. Interior views are strictly forbidden.'
+            ? `- HARD LOCK: ENTRANCE / EXTERIOR ONLY. ${panels} MUST depict entrance / facade / exterior zones. Interior views are strictly forbidden.`
             : hasInteriorOnly
-                ? '- HARD LOCK: INTERIOR ONLY. All 9 panels MUST depict interior spaces. Exterior / entrance views are strictly forbidden.'
+                ? `- HARD LOCK: INTERIOR ONLY. ${panels} MUST depict interior spaces. Exterior / entrance views are strictly forbidden.`
                 : '- SOFT LOCK: Mixed context allowed ONLY if spaces are directly connected within the same project (e.g., entrance leading into the primary interior).'}
 
 [ANTI-REUSE / DEDUPLICATION]:
 - Do NOT repeat the same base frame or the original source composition across multiple panels.
 - No two panels may feel interchangeable; each must differ clearly in distance OR compositional emphasis OR cropped fragment.
 
-${systemPrompt}`;
+${styleSection}${briefSection}${avoidSection}${referenceSection}${systemPrompt}`;
+}
+
+/**
+ * 构建局部编辑提示词
+ * 第一张图为待编辑的单元格，提供蒙版时第二张图为黑白蒙版（白色为可编辑区域）
+ * @param {string} instruction 用户的修改指令（如 "把沙发换成绿色丝绒"），写入前再清洗一次
+ * @param {boolean} hasMask 是否附带蒙版
+ */
+export function buildEditPrompt(instruction, hasMask) {
+    const safeInstruction = sanitizeEditInstruction(instruction);
+    const scope = hasMask
+        ? `- The SECOND image is a black-and-white mask. Modify ONLY the regions that are WHITE in the mask.
+- Every pixel in the BLACK region must stay identical to the first image (geometry, materials, lighting, camera).`
+        : '- Modify ONLY the elements the instruction refers to. Everything else must stay identical to the input image.';
+
+    return `Act as a Professional Architectural Visualization Retoucher.
+Task: Edit the FIRST image according to the instruction below.
+
+[EDIT INSTRUCTION]: "${safeInstruction}"
+
+[EDIT SCOPE]:
+${scope}
+
+[CONSISTENCY RULES]:
+- Keep the exact camera angle, framing, perspective and aspect ratio of the input image.
+- Edited elements must match the scene's lighting direction, shadows, reflections and material scale.
+- Output a single photorealistic image. Do NOT add borders, grids, text, labels or watermarks.`;
+}
+
+// 参考图分析结果的数量与长度限制
+export const MAX_SUGGESTED_TAGS = 4;
+export const MAX_ANALYSIS_MATERIALS = 5;
+const MAX_ANALYSIS_TEXT_LENGTH = 30;
+const MAX_VIBE_DESCRIPTION_LENGTH = 200;
+
+/**
+ * 构建参考图分析提示词
+ * 建议标签只能从标签体系中选取，要求模型输出 JSON
+ */
+export function buildAnalysisPrompt() {
+    const tagLines = getTaxonomy().categories.flatMap(category => category.groups.map(group =>
+        `- ${category.labels.en} / ${group.labels.en}: ${group.tags.map(t => `"${t.value}" (${t.labels.en})`).join(', ')}`
+    )).join('\n');
+
+    return `Act as a Senior Interior Architect reviewing a client's reference photo.
+Task: Identify which space the image shows, its design style and its dominant materials.
+
+[ALLOWED SPACE TAGS] (copy values EXACTLY, including Chinese characters and spaces):
+${tagLines}
+
+[OUTPUT RULES]:
+- Respond with a single JSON object and nothing else:
+  {"tags": string[], "style": string, "materials": string[], "vibeDescription": string}
+- "tags": 1-${MAX_SUGGESTED_TAGS} values from the allowed list that best describe the image. If the space is commercial, include its industry tag.
+- "style": the design style in Simplified Chinese, at most 10 characters (e.g. "现代极简", "侘寂", "工业风").
+- "materials": up to ${MAX_ANALYSIS_MATERIALS} dominant visible materials in Simplified Chinese (e.g. "胡桃木", "水磨石").
+- "vibeDescription": one sentence in Simplified Chinese describing the atmosphere, lighting and color mood.`;
+}
+
+/**
+ * 解析模型输出的 JSON（可能包裹在代码块中），无法解析时抛出 status=502 的错误
+ */
+function parseModelJson(text) {
+    try {
+        return JSON.parse(text.replace(/^\s*```(?:json)?\s*|\s*```\s*$/g, ''));
+    } catch {
+        const error = new Error('Invalid JSON in model response');
+        error.status = 502;
+        error.code = 'INVALID_RESPONSE';
+        throw error;
+    }
+}
+
+/**
+ * 解析参考图分析结果：只保留标签体系内的标签，清洗风格与材质文本
+ * @param {string} text 模型输出（JSON，可能包裹在代码块中）
+ * @returns {{ tags: string[], style: string, materials: string[], vibeDescription: string }}
+ */
+export function parseAnalysisResult(text) {
+    const raw = parseModelJson(text);
+
+    const cleanList = (items, limit, filter = () => true) => Array.isArray(items)
+        ? [...new Set(items.filter(item => typeof item === 'string').map(item => cleanPromptText(item, MAX_ANALYSIS_TEXT_LENGTH)))]
+            .filter(item => item && filter(item))
+            .slice(0, limit)
+        : [];
+    const cleanText = (value, maxLength) => typeof value === 'string' ? cleanPromptText(value, maxLength) : '';
+
+    return {
+        tags: cleanList(raw?.tags, MAX_SUGGESTED_TAGS, isTaxonomyTag),
+        style: cleanText(raw?.style, MAX_ANALYSIS_TEXT_LENGTH),
+        materials: cleanList(raw?.materials, MAX_ANALYSIS_MATERIALS),
+        vibeDescription: cleanText(raw?.vibeDescription, MAX_VIBE_DESCRIPTION_LENGTH),
+    };
+}
+
+// 材质清单的行数与字段长度限制
+export const MAX_MATERIAL_SCHEDULE_ROWS = 15;
+const MAX_MATERIAL_FIELD_LENGTH = 50;
+
+// 材质清单字段：element 部位 / material 材料 / finish 表面处理 / color 颜色 / colorCode 近似 RAL / Pantone 色号 / supplierCategory 建议供应商类别
+export const MATERIAL_SCHEDULE_FIELDS = ['element', 'material', 'finish', 'color', 'colorCode', 'supplierCategory'];
+
+/**
+ * 构建材质清单提示词（分析收藏的单格效果图）
+ */
+export function buildMaterialSchedulePrompt() {
+    return `Act as a Senior Interior Architect preparing a Finish Schedule for a client.
+Task: List the visible surfaces and key furnishings in this rendering and specify what each is made of.
+
+[OUTPUT RULES]:
+- Respond with a single JSON array and nothing else, at most ${MAX_MATERIAL_SCHEDULE_ROWS} items, most prominent elements first:
+  [{"element": string, "material": string, "finish": string, "color": string, "colorCode": string, "supplierCategory": string}]
+- "element": the surface or object (e.g. "主墙面", "地面", "吊顶", "沙发").
+- "material": the most likely real-world material (e.g. "微水泥", "白橡木实木复合地板").
+- "finish": surface finish or texture (e.g. "哑光", "拉丝", "开放漆").
+- "color": color name.
+- "colorCode": the closest approximate RAL or Pantone code (e.g. "RAL 9010", "Pantone 7527 C"); empty string if unsure.
+- "supplierCategory": the type of supplier to source it from (e.g. "涂料", "石材", "定制家具").
+- Use Simplified Chinese for all values except color codes. Keep each value under 20 characters.`;
+}
+
+/**
+ * 解析材质清单：只保留约定字段，清洗文本，丢弃缺少部位或材料的行
+ * @param {string} text 模型输出（JSON，可能包裹在代码块中）
+ * @returns {object[]}
+ */
+export function parseMaterialSchedule(text) {
+    const raw = parseModelJson(text);
+
+    return (Array.isArray(raw) ? raw : [])
+        .filter(row => row && typeof row === 'object')
+        .map(row => Object.fromEntries(MATERIAL_SCHEDULE_FIELDS.map(field => [
+            field,
+            typeof row[field] === 'string' ? cleanPromptText(row[field], MAX_MATERIAL_FIELD_LENGTH) : '',
+        ])))
+        .filter(row => row.element && row.material)
+        .slice(0, MAX_MATERIAL_SCHEDULE_ROWS);
 }
@@ -0,0 +1,66 @@
+/**
+ * Rate Limit Service
+ * 内存滑动窗口计数（单进程部署，重启后清零）
+ *
+ * 用于不扣积分但会调用模型的接口（参考图分析、材质清单），
+ * 以及分享密码的失败次数限制
+ */
+import config from '../config.js';
+
+// 记录的键超过此数量时清理一次过期条目，避免大量一次性键（如不同 IP）占用内存
+const SWEEP_THRESHOLD = 10000;
+
+/**
+ * 创建计数器
+ * @param {object} options
+ * @param {number} options.windowMs 统计窗口
+ * @param {number} options.max 窗口内允许的次数
+ */
+export function createRateLimiter({ windowMs, max }) {
+    const hits = new Map();
+
+    const recent = (key, now) => {
+        const timestamps = (hits.get(key) || []).filter(time => now - time < windowMs);
+        if (timestamps.length > 0) hits.set(key, timestamps);
+        else hits.delete(key);
+        return timestamps;
+    };
+
+    const sweep = (now) => {
+        for (const key of hits.keys()) recent(key, now);
+    };
+
+    return {
+        /**
+         * 距离下一次允许还需等待的秒数，未达上限时返回 0
+         */
+        retryAfter(key) {
+            const now = Date.now();
+            const timestamps = recent(key, now);
+            if (timestamps.length < max) return 0;
+            return Math.ceil((timestamps[timestamps.length - max] + windowMs - now) / 1000);
+        },
+
+        /**
+         * 记录一次
+         */
+        hit(key) {
+            const now = Date.now();
+            if (hits.size > SWEEP_THRESHOLD) sweep(now);
+            hits.set(key, [...recent(key, now), now]);
+        },
+
+        /**
+         * 清除记录（如密码验证成功后）
+         */
+        reset(key) {
+            hits.delete(key);
+        },
+    };
+}
+
+// 参考图分析与材质清单共用的每用户调用次数
+export const analysisLimiter = createRateLimiter({
+    windowMs: 60 * 60 * 1000,
+    max: config.analysisPerHour,
+});
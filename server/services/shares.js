@@ -0,0 +1,208 @@
+/**
+ * Share Link Service
+ * 看板 / 单次生成的只读分享链接
+ *
+ * 公开接口只返回图片 URL 与标签，不包含所有者邮箱、积分等账户信息
+ */
+import bcrypt from 'bcrypt';
+import db from '../database.js';
+import { toPublicUrl } from './storage.js';
+import { generateShareToken } from '../utils/helpers.js';
+import { createRateLimiter } from './rateLimit.js';
+
+// 可选的有效期（天），null 表示永久有效
+export const SHARE_EXPIRY_OPTIONS = [1, 7, 30];
+
+// 访问密码错误次数限制：只按「IP + 链接」计数，避免他人输错密码把真正的接收者锁在外面
+const passwordFailures = createRateLimiter({ windowMs: 15 * 60 * 1000, max: 5 });
+
+// SQLite CURRENT_TIMESTAMP 存储的是 UTC 时间，添加 'Z' 后缀让前端正确转换为本地时间
+const toUtcIso = (datetime) => datetime ? datetime.replace(' ', 'T') + 'Z' : null;
+
+function parseTags(raw) {
+    try {
+        const tags = JSON.parse(raw || '[]');
+        return Array.isArray(tags) ? tags : [];
+    } catch {
+        return [];
+    }
+}
+
+function shareError(message, status, code) {
+    const error = new Error(message);
+    error.status = status;
+    error.code = code;
+    return error;
+}
+
+function getShareStatus(row) {
+    if (row.revoked_at) return 'revoked';
+    if (row.is_expired) return 'expired';
+    return 'active';
+}
+
+/**
+ * 创建分享链接
+ * @param {number} userId 所有者
+ * @param {object} options
+ * @param {number} [options.boardId] 分享看板（与 generationId 二选一）
+ * @param {number} [options.generationId] 分享单次生成
+ * @param {number | null} [options.expiresInDays] 有效期（天）
+ * @param {string} [options.password] 访问密码
+ */
+export async function createShare(userId, { boardId, generationId, expiresInDays = null, password }) {
+    if (boardId) {
+        const board = db.prepare('SELECT id FROM boards WHERE id = ? AND user_id = ?').get(boardId, userId);
+        if (!board) throw shareError('看板不存在', 404, 'NOT_FOUND');
+    } else {
+        const generation = db.prepare(`
+            SELECT id FROM generation_history
+            WHERE id = ? AND user_id = ? AND deleted_at IS NULL AND status = 'success'
+        `).get(generationId, userId);
+        if (!generation) throw shareError('生成记录不存在', 404, 'NOT_FOUND');
+    }
+
+    const token = generateShareToken();
+    const passwordHash = password ? await bcrypt.hash(password, 10) : null;
+    const expiresModifier = expiresInDays ? `+${expiresInDays} days` : null;
+
+    const result = db.prepare(`
+        INSERT INTO share_links (user_id, token, board_id, generation_id, password_hash, expires_at)
+        VALUES (?, ?, ?, ?, ?, CASE WHEN ? IS NULL THEN NULL ELSE datetime('now', ?) END)
+    `).run(userId, token, boardId || null, boardId ? null : generationId, passwordHash, expiresModifier, expiresModifier);
+
+    return listShares(userId).find(share => share.id === result.lastInsertRowid);
+}
+
+/**
+ * 获取用户创建的全部分享链接（含已过期 / 已撤销）
+ */
+export function listShares(userId) {
+    const rows = db.prepare(`
+        SELECT s.*, b.name as board_name,
+            (s.expires_at IS NOT NULL AND s.expires_at <= datetime('now')) as is_expired
+        FROM share_links s
+        LEFT JOIN boards b ON b.id = s.board_id
+        WHERE s.user_id = ?
+        ORDER BY s.created_at DESC, s.id DESC
+    `).all(userId);
+
+    return rows.map(row => ({
+        id: row.id,
+        token: row.token,
+        type: row.board_id ? 'board' : 'generation',
+        title: row.board_id ? (row.board_name || '已删除的看板') : `生成 #${row.generation_id}`,
+        hasPassword: !!row.password_hash,
+        status: getShareStatus(row),
+        viewCount: row.view_count,
+        expiresAt: toUtcIso(row.expires_at),
+        revokedAt: toUtcIso(row.revoked_at),
+        createdAt: toUtcIso(row.created_at),
+    }));
+}
+
+/**
+ * 撤销分享链接
+ * @returns {boolean} 是否撤销成功
+ */
+export function revokeShare(userId, shareId) {
+    const result = db.prepare(`
+        UPDATE share_links SET revoked_at = datetime('now')
+        WHERE id = ? AND user_id = ? AND revoked_at IS NULL
+    `).run(shareId, userId);
+    return result.changes > 0;
+}
+
+function getGenerationImages(generationIds) {
+    if (generationIds.length === 0) return [];
+    const placeholders = generationIds.map(() => '?').join(', ');
+    return db.prepare(`
+        SELECT gh.id, gh.tags, gh.grid_layout, gh.aspect_ratio, gh.created_at, gi.original_filename
+        FROM generation_history gh
+        JOIN generation_images gi ON gi.generation_id = gh.id
+        WHERE gh.id IN (${placeholders}) AND gh.deleted_at IS NULL
+        ORDER BY gh.created_at DESC
+    `).all(...generationIds).map(row => ({
+        url: toPublicUrl(row.original_filename),
+        tags: parseTags(row.tags),
+        // 前端按原始画幅展示，避免裁掉宫格边缘的单元格（早期记录没有保存时为 null）
+        gridLayout: row.grid_layout,
+        aspectRatio: row.aspect_ratio,
+        createdAt: toUtcIso(row.created_at),
+    }));
+}
+
+/**
+ * 通过令牌读取分享内容（公开访问）
+ * 链接不存在 404，已撤销 / 已过期 410，需要密码或密码错误 401，密码错误次数过多 429
+ * @param {string} token 分享令牌
+ * @param {string} [password] 访问密码
+ * @param {string} [clientIp] 来访 IP，用于限制密码错误次数
+ */
+export async function resolveShare(token, password, clientIp = '') {
+    const share = db.prepare(`
+        SELECT s.*, (s.expires_at IS NOT NULL AND s.expires_at <= datetime('now')) as is_expired
+        FROM share_links s WHERE s.token = ?
+    `).get(token);
+    if (!share) throw shareError('分享链接不存在', 404, 'NOT_FOUND');
+
+    const status = getShareStatus(share);
+    if (status === 'revoked') throw shareError('分享链接已被撤销', 410, 'SHARE_REVOKED');
+    if (status === 'expired') throw shareError('分享链接已过期', 410, 'SHARE_EXPIRED');
+
+    if (share.password_hash) {
+        if (!password) throw shareError('请输入访问密码', 401, 'PASSWORD_REQUIRED');
+
+        const clientKey = `${clientIp}:${token}`;
+        const retryAfter = passwordFailures.retryAfter(clientKey);
+        if (retryAfter > 0) {
+            throw shareError(`密码错误次数过多，请 ${Math.ceil(retryAfter / 60)} 分钟后再试`, 429, 'PASSWORD_LOCKED');
+        }
+        if (!(await bcrypt.compare(password, share.password_hash))) {
+            passwordFailures.hit(clientKey);
+            throw shareError('访问密码错误', 401, 'PASSWORD_INVALID');
+        }
+        passwordFailures.reset(clientKey);
+    }
+
+    let title;
+    let cropRows;
+    let generationIds;
+
+    if (share.board_id) {
+        const board = db.prepare('SELECT name FROM boards WHERE id = ?').get(share.board_id);
+        if (!board) throw shareError('分享内容已被删除', 410, 'SHARE_GONE');
+
+        title = board.name;
+        cropRows = db.prepare(`
+            SELECT filename, tags, generation_id FROM collection_items
+            WHERE board_id = ? ORDER BY sort_order ASC, id DESC
+        `).all(share.board_id);
+        generationIds = [...new Set(cropRows.map(row => row.generation_id).filter(Boolean))];
+    } else {
+        title = '设计参考';
+        cropRows = db.prepare(`
+            SELECT filename, tags, generation_id FROM collection_items
+            WHERE user_id = ? AND generation_id = ? ORDER BY sort_order ASC, id DESC
+        `).all(share.user_id, share.generation_id);
+        generationIds = [share.generation_id];
+    }
+
+    const generations = getGenerationImages(generationIds);
+    if (!share.board_id && generations.length === 0) {
+        throw shareError('分享内容已被删除', 410, 'SHARE_GONE');
+    }
+
+    db.prepare('UPDATE share_links SET view_count = view_count + 1 WHERE id = ?').run(share.id);
+
+    return {
+        share: {
+            type: share.board_id ? 'board' : 'generation',
+            title,
+            createdAt: toUtcIso(share.created_at),
+            expiresAt: toUtcIso(share.expires_at),
+        },
+        generations,
+        crops: cropRows.map(row => ({ url: toPublicUrl(row.filename), tags: parseTags(row.tags) })),
+    };
+}
@@ -0,0 +1,292 @@
+/**
+ * Similarity Service
+ * 以图搜图：在用户自己的生成记录与收藏中查找视觉相似的图片
+ *
+ * 每张图在落盘时计算一份紧凑特征（全部在本机用 sharp 计算，不调用外部服务）：
+ *   phash     - 差值哈希 (dHash)，64 位，十六进制 16 个字符，反映明暗结构 / 构图
+ *   histogram - RGB 各 4 档共 64 个颜色桶的占比（0-255），十六进制 128 个字符，反映配色
+ *
+ * 宫格图按宫格布局等分后逐格计算（与前端 getCellIndex 的单元格序号一致），
+ * 单图（放大 / 局部编辑结果）与收藏裁切图整张计算，cell 为空
+ * 相似度 = 结构相似度与配色相似度的加权和，取值 0-1
+ */
+import sharp from 'sharp';
+import db from '../database.js';
+import { readImage, toPublicUrl } from './storage.js';
+
+// 返回的相似图上限与最低相似度
+export const MAX_SIMILAR_RESULTS = 24;
+const MIN_SIMILARITY = 0.6;
+
+// 结构（dHash）在相似度中的权重，其余为配色
+const HASH_WEIGHT = 0.6;
+const HASH_SIZE = 8;
+const HISTOGRAM_SAMPLE_SIZE = 32;
+// 每个单元格四周裁掉的比例，避开宫格间的留白和分隔线
+const CELL_INSET = 0.03;
+// 单次检索时最多补算特征的旧图数量，避免首次检索等待过久
+const MAX_BACKFILL_PER_REQUEST = 40;
+
+// imageId 格式：g{生成记录 ID}[-{单元格序号}] / c{收藏 ID}，如 g12-4、g15、c7
+const IMAGE_ID_PATTERN = /^(?:g(\d+)(?:-(\d+))?|c(\d+))$/;
+
+/**
+ * 解析 imageId
+ * @returns {{ generationId: number, cell: number | null } | { collectionId: number } | null} 格式无效时返回 null
+ */
+export function parseImageId(imageId) {
+    const match = IMAGE_ID_PATTERN.exec(imageId || '');
+    if (!match) return null;
+    if (match[3]) return { collectionId: Number(match[3]) };
+    return { generationId: Number(match[1]), cell: match[2] !== undefined ? Number(match[2]) : null };
+}
+
+const toImageId = (row) => row.collection_item_id
+    ? `c${row.collection_item_id}`
+    : `g${row.generation_id}${row.cell !== null ? `-${row.cell}` : ''}`;
+
+// 早期记录没有保存宫格布局：放大结果为单图，其余按默认的 3x3 处理（与前端一致）
+const resolveGridLayout = (row) => row.grid_layout || (row.operation === 'upscale' ? null : '3x3');
+
+// 宫格布局 "行x列"，单图（放大结果等）没有布局
+function parseGridLayout(gridLayout) {
+    const match = /^(\d)x(\d)$/.exec(gridLayout || '');
+    return match ? { rows: Number(match[1]), cols: Number(match[2]) } : { rows: 1, cols: 1 };
+}
+
+/**
+ * 计算一张图（或其中一块区域）的特征
+ * @param {Buffer} buffer 图片二进制
+ * @param {{ left: number, top: number, width: number, height: number }} [region] 只计算该区域
+ * @returns {Promise<{ phash: string, histogram: string }>}
+ */
+async function computeEmbedding(buffer, region) {
+    const source = region ? sharp(buffer).extract(region) : sharp(buffer);
+
+    const [grey, rgb] = await Promise.all([
+        source.clone().removeAlpha().grayscale().resize(HASH_SIZE + 1, HASH_SIZE, { fit: 'fill' }).raw().toBuffer(),
+        source.clone().removeAlpha().resize(HISTOGRAM_SAMPLE_SIZE, HISTOGRAM_SAMPLE_SIZE, { fit: 'fill' }).raw().toBuffer(),
+    ]);
+
+    // dHash：每行相邻像素比较明暗
+    let hash = 0n;
+    for (let y = 0; y < HASH_SIZE; y++) {
+        for (let x = 0; x < HASH_SIZE; x++) {
+            const offset = y * (HASH_SIZE + 1) + x;
+            hash = (hash << 1n) | (grey[offset] < grey[offset + 1] ? 1n : 0n);
+        }
+    }
+
+    const counts = new Array(64).fill(0);
+    for (let i = 0; i < rgb.length; i += 3) {
+        counts[((rgb[i] >> 6) << 4) | ((rgb[i + 1] >> 6) << 2) | (rgb[i + 2] >> 6)]++;
+    }
+    const pixels = rgb.length / 3;
+
+    return {
+        phash: hash.toString(16).padStart(HASH_SIZE * HASH_SIZE / 4, '0'),
+        histogram: counts.map(count => Math.round(count / pixels * 255).toString(16).padStart(2, '0')).join(''),
+    };
+}
+
+/**
+ * 宫格图各单元格的区域（按行排列，四周内缩）
+ * @returns {Array<{ cell: number | null, region: object | null }>}
+ */
+async function getCellRegions(buffer, gridLayout) {
+    const { rows, cols } = parseGridLayout(gridLayout);
+    if (rows * cols === 1) return [{ cell: null, region: null }];
+
+    const { width, height } = await sharp(buffer).metadata();
+    const cellWidth = width / cols;
+    const cellHeight = height / rows;
+    return Array.from({ length: rows * cols }, (_, cell) => {
+        const row = Math.floor(cell / cols);
+        const col = cell % cols;
+        return {
+            cell,
+            region: {
+                left: Math.round(col * cellWidth + cellWidth * CELL_INSET),
+                top: Math.round(row * cellHeight + cellHeight * CELL_INSET),
+                width: Math.round(cellWidth * (1 - CELL_INSET * 2)),
+                height: Math.round(cellHeight * (1 - CELL_INSET * 2)),
+            },
+        };
+    });
+}
+
+// 写入特征（重复计算时覆盖）；embedding 为空表示图片无法读取，记录下来避免反复补算
+function saveEmbeddings(userId, target, entries) {
+    db.beginTransaction();
+    try {
+        if (target.collectionId) {
+            db.prepare('DELETE FROM image_embeddings WHERE collection_item_id = ?').run(target.collectionId);
+        } else {
+            db.prepare('DELETE FROM image_embeddings WHERE generation_id = ?').run(target.generationId);
+        }
+        entries.forEach(({ cell, embedding }) => {
+            db.prepare(`
+                INSERT INTO image_embeddings (user_id, generation_id, cell, collection_item_id, phash, histogram)
+                VALUES (?, ?, ?, ?, ?, ?)
+            `).run(userId, target.generationId ?? null, cell, target.collectionId ?? null, embedding?.phash ?? null, embedding?.histogram ?? null);
+        });
+        db.commit();
+    } catch (err) {
+        db.rollback();
+        throw err;
+    }
+}
+
+/**
+ * 计算并保存生成图片的特征（宫格图逐格计算）
+ * 特征计算失败不应影响生成结果，只记录日志
+ * @param {number} userId 用户 ID
+ * @param {number} generationId 生成记录 ID
+ * @param {Buffer} buffer 图片二进制
+ * @param {string | null} gridLayout 宫格布局，单图为空
+ * @returns {Promise<boolean>} 是否计算成功
+ */
+export async function indexGenerationImage(userId, generationId, buffer, gridLayout) {
+    if (!generationId) return false;
+    try {
+        const entries = [];
+        for (const { cell, region } of await getCellRegions(buffer, gridLayout)) {
+            entries.push({ cell, embedding: await computeEmbedding(buffer, region) });
+        }
+        saveEmbeddings(userId, { generationId }, entries);
+        return true;
+    } catch (err) {
+        console.error(`[Similarity] Index failed | generationId=${generationId}:`, err.message);
+        return false;
+    }
+}
+
+/**
+ * 计算并保存收藏裁切图的特征
+ * 特征计算失败不应影响收藏结果，只记录日志
+ * @returns {Promise<boolean>} 是否计算成功
+ */
+export async function indexCollectionImage(userId, collectionId, buffer) {
+    try {
+        saveEmbeddings(userId, { collectionId }, [{ cell: null, embedding: await computeEmbedding(buffer) }]);
+        return true;
+    } catch (err) {
+        console.error(`[Similarity] Index failed | collectionId=${collectionId}:`, err.message);
+        return false;
+    }
+}
+
+// 从静态目录读取旧图补算特征；文件不存在或无法解码时记为空特征，不再重试
+async function indexStoredImage(userId, row) {
+    const target = row.collection_id ? { collectionId: row.collection_id } : { generationId: row.generation_id };
+    let indexed = false;
+    try {
+        const buffer = await readImage(row.filename);
+        indexed = row.collection_id
+            ? await indexCollectionImage(userId, row.collection_id, buffer)
+            : await indexGenerationImage(userId, row.generation_id, buffer, resolveGridLayout(row));
+    } catch (err) {
+        console.error(`[Similarity] Read failed | ${row.filename}:`, err.message);
+    }
+    if (!indexed) saveEmbeddings(userId, target, [{ cell: null, embedding: null }]);
+}
+
+/**
+ * 为还没有特征的旧图补算（先保证检索目标本身，再按时间倒序补算其他图片）
+ */
+async function backfillEmbeddings(userId, target) {
+    const missingGenerations = db.prepare(`
+        SELECT gh.id AS generation_id, gh.grid_layout, gh.operation, gi.original_filename AS filename
+        FROM generation_history gh
+        JOIN generation_images gi ON gi.generation_id = gh.id
+        WHERE gh.user_id = ? AND gh.status = 'success' AND gh.deleted_at IS NULL
+          AND NOT EXISTS (SELECT 1 FROM image_embeddings e WHERE e.generation_id = gh.id)
+        ORDER BY gh.id = ? DESC, gh.id DESC
+        LIMIT ?
+    `).all(userId, target.generationId ?? 0, MAX_BACKFILL_PER_REQUEST);
+    const missingItems = db.prepare(`
+        SELECT ci.id AS collection_id, ci.filename
+        FROM collection_items ci
+        WHERE ci.user_id = ?
+          AND NOT EXISTS (SELECT 1 FROM image_embeddings e WHERE e.collection_item_id = ci.id)
+        ORDER BY ci.id = ? DESC, ci.id DESC
+        LIMIT ?
+    `).all(userId, target.collectionId ?? 0, MAX_BACKFILL_PER_REQUEST);
+
+    for (const row of [...missingGenerations, ...missingItems]) {
+        await indexStoredImage(userId, row);
+    }
+}
+
+const hammingDistance = (a, b) => {
+    let diff = BigInt(`0x${a}`) ^ BigInt(`0x${b}`);
+    let count = 0;
+    while (diff) {
+        count += Number(diff & 1n);
+        diff >>= 1n;
+    }
+    return count;
+};
+
+// 颜色直方图交集（两图各桶占比取较小值求和）
+const histogramIntersection = (a, b) => {
+    let sum = 0;
+    for (let i = 0; i < a.length; i += 2) {
+        sum += Math.min(parseInt(a.slice(i, i + 2), 16), parseInt(b.slice(i, i + 2), 16));
+    }
+    return Math.min(1, sum / 255);
+};
+
+function similarity(a, b) {
+    const structure = 1 - hammingDistance(a.phash, b.phash) / (HASH_SIZE * HASH_SIZE);
+    return HASH_WEIGHT * structure + (1 - HASH_WEIGHT) * histogramIntersection(a.histogram, b.histogram);
+}
+
+function formatImage(row) {
+    return {
+        imageId: toImageId(row),
+        source: row.collection_item_id ? 'collection' : 'generation',
+        generationId: row.generation_id,
+        cell: row.cell,
+        collectionId: row.collection_item_id,
+        url: toPublicUrl(row.collection_item_id ? row.crop_filename : row.original_filename),
+        // 单元格结果的 URL 是整张宫格图，前端按布局显示对应单元格
+        gridLayout: row.collection_item_id ? null : resolveGridLayout(row),
+    };
+}
+
+/**
+ * 查找与指定图片视觉相似的图片（用户自己的生成记录与收藏）
+ * @param {number} userId 用户 ID
+ * @param {object} target parseImageId 的结果
+ * @returns {Promise<{ query: object, results: object[] } | null>} 图片不存在时返回 null
+ */
+export async function findSimilar(userId, target) {
+    await backfillEmbeddings(userId, target);
+
+    // 已删除的生成记录不参与检索（收藏删除时特征一并删除）
+    const rows = db.prepare(`
+        SELECT e.*, gh.grid_layout, gh.operation, gi.original_filename, ci.filename AS crop_filename
+        FROM image_embeddings e
+        LEFT JOIN generation_history gh ON gh.id = e.generation_id
+        LEFT JOIN generation_images gi ON gi.generation_id = e.generation_id
+        LEFT JOIN collection_items ci ON ci.id = e.collection_item_id
+        WHERE e.user_id = ? AND e.phash IS NOT NULL
+          AND ((e.generation_id IS NOT NULL AND gh.deleted_at IS NULL) OR ci.id IS NOT NULL)
+    `).all(userId);
+
+    const query = rows.find(row => target.collectionId
+        ? row.collection_item_id === target.collectionId
+        : row.generation_id === target.generationId && row.cell === target.cell);
+    if (!query) return null;
+
+    const results = rows
+        .filter(row => row !== query)
+        .map(row => ({ row, score: similarity(query, row) }))
+        .filter(entry => entry.score >= MIN_SIMILARITY)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, MAX_SIMILAR_RESULTS)
+        .map(({ row, score }) => ({ ...formatImage(row), score: Math.round(score * 1000) / 1000 }));
+
+    return { query: formatImage(query), results };
+}
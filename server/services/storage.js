@@ -0,0 +1,95 @@
+/**
+ * Static Storage Service
+ * 生成图片落盘 + 公网 URL 拼接（由 Nginx 静态分发）
+ */
+import { readFile, writeFile, mkdir, unlink } from 'node:fs/promises';
+import { randomUUID, createHash } from 'node:crypto';
+import path from 'node:path';
+
+// 静态文件存储配置 (可通过环境变量覆盖，默认使用生产路径)
+export const STATIC_DIR = process.env.STATIC_DIR || '/www/generator/runtime/generated';
+export const STATIC_URL_BASE = process.env.STATIC_URL_BASE || 'https://api.abdc.online/generated';
+
+/**
+ * 根据 MIME 类型确定扩展名
+ */
+function getExtension(mimeType) {
+    return mimeType === 'image/png' ? 'png' :
+        mimeType === 'image/webp' ? 'webp' : 'jpg';
+}
+
+/**
+ * 将图片写入静态目录
+ * @param {Buffer} buffer 图片二进制
+ * @param {string} mimeType MIME 类型
+ * @param {string} prefix 文件名前缀 (如 "upscaled_")
+ * @returns {Promise<{ filename: string, filepath: string, fileSize: number, mimeType: string }>}
+ */
+export async function saveImage(buffer, mimeType, prefix = '') {
+    // 确保目录存在
+    await mkdir(STATIC_DIR, { recursive: true });
+
+    const filename = `${prefix}${randomUUID()}.${getExtension(mimeType)}`;
+    const filepath = path.join(STATIC_DIR, filename);
+
+    await writeFile(filepath, buffer);
+    return { filename, filepath, fileSize: buffer.length, mimeType };
+}
+
+/**
+ * 解析 base64 Data URL（前端裁切结果为 data:image/png;base64,...）
+ * @param {string} dataUrl
+ * @returns {{ buffer: Buffer, mimeType: string } | null} 格式不合法时返回 null
+ */
+export function decodeDataUrl(dataUrl) {
+    if (typeof dataUrl !== 'string') return null;
+    const match = dataUrl.match(/^data:(image\/(?:png|jpeg|jpg|webp));base64,(.+)$/);
+    if (!match) return null;
+
+    const mimeType = match[1] === 'image/jpg' ? 'image/jpeg' : match[1];
+    return { buffer: Buffer.from(match[2], 'base64'), mimeType };
+}
+
+/**
+ * 输入图片内容哈希 (SHA-256)，用于追溯生成所用的参考图
+ * @param {string | string[]} base64 base64 或 Data URL；多参考图时按顺序合并计算
+ * @returns {string | null} 十六进制哈希，无输入时返回 null
+ */
+export function hashImage(base64) {
+    const images = (Array.isArray(base64) ? base64 : [base64]).filter(image => typeof image === 'string' && image);
+    if (images.length === 0) return null;
+
+    const hash = createHash('sha256');
+    for (const image of images) {
+        hash.update(Buffer.from(image.replace(/^data:image\/\w+;base64,/, ''), 'base64'));
+    }
+    return hash.digest('hex');
+}
+
+/**
+ * 读取静态目录中的图片（如需要交给模型分析的收藏裁切图）
+ * @returns {Promise<Buffer>}
+ */
+export async function readImage(filename) {
+    return readFile(path.join(STATIC_DIR, filename));
+}
+
+/**
+ * 删除静态目录中的图片（文件不存在时忽略）
+ */
+export async function deleteImage(filename) {
+    try {
+        await unlink(path.join(STATIC_DIR, filename));
+    } catch (err) {
+        if (err.code !== 'ENOENT') {
+            console.error(`[Storage] Delete failed | ${filename}:`, err);
+        }
+    }
+}
+
+/**
+ * 文件名 → 公网 URL
+ */
+export function toPublicUrl(filename) {
+    return `${STATIC_URL_BASE}/${filename}`;
+}
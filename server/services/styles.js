@@ -0,0 +1,175 @@
+/**
+ * Style Service
+ * 风格库（日式侘寂、中古、工业风……）：名称、描述、色板、材质关键词与示例缩略图
+ *
+ * 由管理员在后台维护，用户生成时可与空间标签一起选择
+ * 删除为软删除（deleted_at），历史记录仍可按原风格筛选
+ */
+import db from '../database.js';
+import { toPublicUrl } from './storage.js';
+
+export const MAX_STYLE_NAME_LENGTH = 50;
+export const MAX_STYLE_DESCRIPTION_LENGTH = 500;
+export const MAX_STYLE_PALETTE = 8;
+export const MAX_STYLE_MATERIALS = 12;
+export const MAX_STYLE_MATERIAL_LENGTH = 30;
+
+// 首次启动写入的默认风格
+const DEFAULT_STYLES = [
+    {
+        name: '日式侘寂 Japandi',
+        description: 'Japanese-Scandinavian minimalism: calm, uncluttered rooms, low furniture, soft daylight and handcrafted natural details.',
+        palette: ['#EDE6DB', '#C9B8A3', '#8A7866', '#4A4238', '#2B2B2B'],
+        materials: ['light oak', 'ash wood', 'linen', 'rice paper', 'matte plaster', 'stoneware'],
+    },
+    {
+        name: '侘寂 Wabi-sabi',
+        description: 'Imperfect, aged and tactile spaces: textured lime-wash walls, raw edges, muted earth tones and sparse, soulful objects.',
+        palette: ['#D8CFC4', '#B5A48F', '#8C7B6B', '#5E5248', '#3A332D'],
+        materials: ['lime plaster', 'weathered timber', 'raw linen', 'travertine', 'handmade ceramics'],
+    },
+    {
+        name: '中古 Mid-century',
+        description: 'Mid-century modern: tapered legs, organic curves, warm walnut, graphic accents and generous glazing.',
+        palette: ['#F2E8D5', '#D98E32', '#B5542E', '#2F6B5E', '#5A3E2B'],
+        materials: ['walnut veneer', 'teak', 'molded plywood', 'leather', 'brass', 'terrazzo'],
+    },
+    {
+        name: '工业风 Industrial',
+        description: 'Converted-loft character: exposed structure and services, raw concrete, blackened steel and large factory windows.',
+        palette: ['#D9D6D0', '#9A958E', '#5C5853', '#8A4B32', '#1F1F1F'],
+        materials: ['raw concrete', 'blackened steel', 'exposed brick', 'reclaimed wood', 'wired glass'],
+    },
+    {
+        name: '现代极简 Minimalist',
+        description: 'Reduced architectural minimalism: clean planes, hidden storage, precise shadow gaps and a restrained monochrome palette.',
+        palette: ['#FAFAF8', '#E4E2DE', '#B8B5B0', '#6E6B66', '#1C1C1C'],
+        materials: ['micro-cement', 'white oak', 'matte lacquer', 'honed limestone', 'frosted glass'],
+    },
+    {
+        name: '新中式 New Chinese',
+        description: 'Contemporary Chinese: axial symmetry, lattice screens, framed garden views and refined dark timber with ink-wash restraint.',
+        palette: ['#EFE9DF', '#C2A477', '#7A2E22', '#3D4A3F', '#1E1B18'],
+        materials: ['dark walnut', 'wooden lattice', 'silk', 'bluestone', 'rice paper lanterns'],
+    },
+];
+
+// SQLite CURRENT_TIMESTAMP 存储的是 UTC 时间，添加 'Z' 后缀让前端正确转换为本地时间
+const toUtcIso = (datetime) => datetime ? datetime.replace(' ', 'T') + 'Z' : null;
+
+function parseList(raw) {
+    try {
+        const list = JSON.parse(raw || '[]');
+        return Array.isArray(list) ? list : [];
+    } catch {
+        return [];
+    }
+}
+
+function formatStyle(row) {
+    return {
+        id: row.id,
+        name: row.name,
+        description: row.description || '',
+        palette: parseList(row.palette),
+        materials: parseList(row.materials),
+        thumbnailUrl: row.thumbnail_filename ? toPublicUrl(row.thumbnail_filename) : null,
+        sortOrder: row.sort_order,
+        enabled: !!row.enabled,
+        createdAt: toUtcIso(row.created_at),
+        updatedAt: toUtcIso(row.updated_at),
+    };
+}
+
+/**
+ * 风格库为空时写入默认风格（仅首次启动）
+ */
+export function seedDefaultStyles() {
+    const { count } = db.prepare('SELECT COUNT(*) as count FROM styles').get();
+    if (count > 0) return;
+
+    DEFAULT_STYLES.forEach((style, index) => {
+        db.prepare('INSERT INTO styles (name, description, palette, materials, sort_order) VALUES (?, ?, ?, ?, ?)')
+            .run(style.name, style.description, JSON.stringify(style.palette), JSON.stringify(style.materials), index);
+    });
+    console.log(`[Styles] Seeded ${DEFAULT_STYLES.length} default styles`);
+}
+
+/**
+ * 获取风格列表（按排序）
+ * @param {object} [options]
+ * @param {boolean} [options.includeDisabled] 是否包含已停用的风格（管理后台使用）
+ */
+export function listStyles({ includeDisabled = false } = {}) {
+    const rows = db.prepare(`
+        SELECT * FROM styles
+        WHERE deleted_at IS NULL ${includeDisabled ? '' : 'AND enabled = 1'}
+        ORDER BY sort_order ASC, id ASC
+    `).all();
+    return rows.map(formatStyle);
+}
+
+/**
+ * 查询一个风格
+ * @param {object} [options]
+ * @param {boolean} [options.enabledOnly] 只返回启用中的风格（生成时使用）
+ * @returns {object | null} 不存在或已删除时返回 null
+ */
+export function findStyle(styleId, { enabledOnly = false } = {}) {
+    const row = db.prepare('SELECT * FROM styles WHERE id = ? AND deleted_at IS NULL').get(styleId);
+    if (!row || (enabledOnly && !row.enabled)) return null;
+    return formatStyle(row);
+}
+
+/**
+ * 查询风格的缩略图文件名（更换或删除缩略图时清理旧文件）
+ */
+export function getStyleThumbnail(styleId) {
+    return db.prepare('SELECT thumbnail_filename FROM styles WHERE id = ?').get(styleId)?.thumbnail_filename || null;
+}
+
+/**
+ * 新建风格（排在最后）
+ * @param {{ name, description, palette, materials, enabled, thumbnailFilename }} style 已校验的字段
+ */
+export function createStyle({ name, description = '', palette = [], materials = [], enabled = true, thumbnailFilename = null }) {
+    const { maxOrder } = db.prepare('SELECT MAX(sort_order) as maxOrder FROM styles').get();
+    const result = db.prepare(`
+        INSERT INTO styles (name, description, palette, materials, thumbnail_filename, sort_order, enabled)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(name, description, JSON.stringify(palette), JSON.stringify(materials), thumbnailFilename, (maxOrder ?? -1) + 1, enabled ? 1 : 0);
+    return findStyle(result.lastInsertRowid);
+}
+
+/**
+ * 更新风格（只更新传入的字段）
+ * @returns {object | null} 更新后的风格；不存在时返回 null
+ */
+export function updateStyle(styleId, updates) {
+    if (!findStyle(styleId)) return null;
+
+    const columns = {
+        name: updates.name,
+        description: updates.description,
+        palette: updates.palette && JSON.stringify(updates.palette),
+        materials: updates.materials && JSON.stringify(updates.materials),
+        thumbnail_filename: updates.thumbnailFilename,
+        sort_order: updates.sortOrder,
+        enabled: updates.enabled === undefined ? undefined : (updates.enabled ? 1 : 0),
+    };
+    for (const [column, value] of Object.entries(columns)) {
+        if (value === undefined) continue;
+        db.prepare(`UPDATE styles SET ${column} = ?, updated_at = datetime('now') WHERE id = ?`).run(value, styleId);
+    }
+
+    return findStyle(styleId);
+}
+
+/**
+ * 删除风格（软删除）
+ * @returns {boolean} 是否删除成功
+ */
+export function deleteStyle(styleId) {
+    const result = db.prepare("UPDATE styles SET deleted_at = datetime('now') WHERE id = ? AND deleted_at IS NULL").run(styleId);
+    return result.changes > 0;
+}
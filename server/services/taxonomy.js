@@ -0,0 +1,119 @@
+/**
+ * Tag Taxonomy Service
+ * 空间标签体系：分类 → 分组 → 标签，前端标签选择器与提示词构建共用这一份数据
+ *
+ * 新增标签只需修改此处并部署后端，前端通过 GET /api/taxonomy 获取
+ *
+ * 标签角色 (role)：
+ *   primary  - 行业场景，决定整体项目语境（如 酒店）
+ *   interior - 室内功能空间（修饰标签，全部为 interior 时锁定只出室内）
+ *   exterior - 门头 / 户外等外部空间（修饰标签，全部为 exterior 时锁定只出外部）
+ *   modifier - 其他修饰标签，不参与内外锁定（自定义标签也按此处理）
+ */
+
+export const TAG_ROLES = ['primary', 'interior', 'exterior', 'modifier'];
+
+// 标签值即提交给后端的中文名称（与历史记录中的标签一致），labels 为各语言的显示名称
+const tag = (value, en, role) => ({ value, labels: { zh: value, en }, role });
+
+const TAXONOMY = {
+    version: 1,
+    categories: [
+        {
+            id: 'residential',
+            icon: 'home',
+            labels: { zh: '家装空间', en: 'Residential' },
+            allowCustom: true,
+            groups: [
+                {
+                    id: 'rooms',
+                    labels: { zh: '功能空间', en: 'Rooms' },
+                    tags: [
+                        tag('客厅', 'Living Room', 'interior'),
+                        tag('家用餐厅', 'Dining Room', 'interior'),
+                        tag('厨房', 'Kitchen', 'interior'),
+                        tag('卧室', 'Bedroom', 'interior'),
+                        tag('家用卫生间', 'Bathroom', 'interior'),
+                        tag('书房 / 工作区', 'Study / Workspace', 'interior'),
+                        tag('玄关', 'Entryway', 'interior'),
+                        tag('阳台', 'Balcony', 'exterior'),
+                        tag('儿童房', "Children's Room", 'interior'),
+                        tag('多功能房', 'Multi-purpose Room', 'interior'),
+                    ],
+                },
+            ],
+        },
+        {
+            id: 'commercial',
+            icon: 'building',
+            labels: { zh: '工装空间', en: 'Commercial' },
+            allowCustom: true,
+            groups: [
+                {
+                    id: 'industries',
+                    labels: { zh: '行业场景', en: 'Industry' },
+                    tags: [
+                        tag('办公', 'Office', 'primary'),
+                        tag('酒店', 'Hotel', 'primary'),
+                        tag('餐饮', 'Food & Beverage', 'primary'),
+                        tag('零售 / 商店', 'Retail / Store', 'primary'),
+                        tag('医疗', 'Healthcare', 'primary'),
+                        tag('教育', 'Education', 'primary'),
+                        tag('展览 / 展馆', 'Exhibition / Gallery', 'primary'),
+                    ],
+                },
+                {
+                    id: 'zones',
+                    labels: { zh: '空间类型', en: 'Space Type' },
+                    tags: [
+                        tag('大堂', 'Lobby', 'interior'),
+                        tag('前台', 'Front Desk', 'interior'),
+                        tag('接待区', 'Reception Area', 'interior'),
+                        tag('会议室', 'Meeting Room', 'interior'),
+                        tag('开放办公区', 'Open Office', 'interior'),
+                        tag('独立办公室', 'Private Office', 'interior'),
+                        tag('洽谈区', 'Discussion Area', 'interior'),
+                        tag('展示区', 'Display Area', 'interior'),
+                        tag('就餐区', 'Dining Area', 'interior'),
+                        tag('咖啡区', 'Coffee Area', 'interior'),
+                        tag('休息区', 'Lounge', 'interior'),
+                        tag('公共活动区', 'Common Area', 'interior'),
+                        tag('客房', 'Guest Room', 'interior'),
+                        tag('健身房', 'Gym', 'interior'),
+                        tag('走廊', 'Corridor', 'interior'),
+                        tag('电梯厅', 'Elevator Lobby', 'interior'),
+                        tag('门头', 'Storefront / Entrance', 'exterior'),
+                        tag('户外区', 'Outdoor Area', 'exterior'),
+                        tag('公共卫生间', 'Public Restroom', 'interior'),
+                    ],
+                },
+            ],
+        },
+    ],
+};
+
+// 标签值 → 角色
+const TAG_ROLE_MAP = new Map(
+    TAXONOMY.categories.flatMap(category => category.groups.flatMap(group => group.tags.map(t => [t.value, t.role])))
+);
+
+/**
+ * 完整标签体系（GET /api/taxonomy）
+ */
+export function getTaxonomy() {
+    return TAXONOMY;
+}
+
+/**
+ * 查询标签角色，不在标签体系中的（自定义标签）按 modifier 处理
+ */
+export function getTagRole(value) {
+    return TAG_ROLE_MAP.get(value) || 'modifier';
+}
+
+/**
+ * 是否为标签体系中的标签（用于过滤模型建议的标签）
+ */
+export function isTaxonomyTag(value) {
+    return TAG_ROLE_MAP.has(value);
+}
@@ -142,6 +142,8 @@ function formatError(error, rawError = null) {
  * @param {object} options - 可选配置
  * @param {number} options.temperature - 温度参数 (0-2)
  * @param {number} options.maxOutputTokens - 最大输出 token 数
+ * @param {string[]} options.inputImages - 可选，输入图像的 Data URL 或 base64（在 prompt 之前发送，如参考图分析；无前缀时按文件头识别类型）
+ * @param {string} options.responseMimeType - 可选，如 "application/json" 要求模型输出 JSON
  * @returns {Promise<{text: string}>}
  */
 export async function generateContent(prompt, options = {}) {
@@ -160,15 +162,20 @@ export async function generateContent(prompt, options = {}) {
         MAX_OUTPUT_TOKENS_LIMIT
     );
 
+    // 构建 parts：输入图像在前，prompt 在后
+    const parts = (options.inputImages || []).map(inputImage => toInlineData(inputImage, 'image/jpeg'));
+    parts.push({ text: prompt });
+
     // 构建请求体
     const requestBody = {
         contents: [{
             role: 'user',
-            parts: [{ text: prompt }]
+            parts
         }],
         generationConfig: {
             temperature,
             maxOutputTokens,
+            ...(options.responseMimeType && { responseMimeType: options.responseMimeType }),
         }
     };
 
@@ -412,13 +419,35 @@ async function executeImageRequest(requestBody, token, region) {
     }
 }
 
+// base64 开头几个字符 → 图片类型（前端去掉了 Data URL 前缀时用于识别）
+const BASE64_SIGNATURES = [
+    ['/9j/', 'image/jpeg'],
+    ['iVBORw0KGgo', 'image/png'],
+    ['UklGR', 'image/webp'],
+];
+
+/**
+ * 输入图像 → inlineData，优先使用 Data URL 声明的类型，其次按文件头识别
+ * @param {string} image Data URL 或 base64
+ * @param {string} fallbackMimeType 无法识别时使用的类型
+ */
+function toInlineData(image, fallbackMimeType) {
+    const match = image.match(/^data:(image\/[\w+.-]+);base64,/);
+    const data = match ? image.slice(match[0].length) : image;
+    const mimeType = match?.[1] || BASE64_SIGNATURES.find(([prefix]) => data.startsWith(prefix))?.[1] || fallbackMimeType;
+    return { inlineData: { mimeType, data } };
+}
+
 /**
  * 生成图像 (带 429 重试)
  * @param {string} prompt - 图像描述
  * @param {object} options - 配置
  * @param {string} options.imageSize - 图像尺寸 (如 "2K")
  * @param {string} options.aspectRatio - 宽高比 (如 "4:5", "1:1", "16:9")
- * @param {string} options.inputImage - 可选，输入图像的 base64
+ * @param {string} options.inputImage - 可选，输入图像的 Data URL 或 base64（无前缀时按文件头识别类型）
+ * @param {string[]} options.inputImages - 可选，多张输入图像（多参考图，按顺序发送，优先于 inputImage）
+ * @param {string} options.maskImage - 可选，局部编辑蒙版的 Data URL 或 base64 (PNG，白色为可编辑区域)，紧跟输入图像之后发送
+ * @param {(info: {round: number, maxRounds: number, delayMs: number}) => void} options.onRetry - 可选，所有区域 429 后进入等待重试时回调
  * @returns {Promise<{mimeType: string, base64: string}>}
  */
 export async function generateImage(prompt, options = {}) {
@@ -436,15 +465,15 @@ export async function generateImage(prompt, options = {}) {
     // 构建 parts
     const parts = [];
 
-    // 如果有输入图像，添加到 parts
-    if (options.inputImage) {
-        const cleanBase64 = options.inputImage.replace(/^data:image\/\w+;base64,/, '');
-        parts.push({
-            inlineData: {
-                mimeType: 'image/jpeg',
-                data: cleanBase64
-            }
-        });
+    // 如果有输入图像，按顺序添加到 parts（prompt 中以 Image 1..N 引用）
+    const inputImages = options.inputImages || (options.inputImage ? [options.inputImage] : []);
+    for (const inputImage of inputImages) {
+        parts.push(toInlineData(inputImage, 'image/jpeg'));
+    }
+
+    // 局部编辑蒙版（prompt 中约定为第二张图）
+    if (options.maskImage) {
+        parts.push(toInlineData(options.maskImage, 'image/png'));
     }
 
     // 添加 prompt
@@ -487,6 +516,7 @@ export async function generateImage(prompt, options = {}) {
         if (round > 0) {
             const delayMs = getRetryDelay(round - 1);
             console.log(`[VertexAI] All regions exhausted, waiting ${Math.round(delayMs / 1000)}s before retry round ${round + 1}/${RETRY_CONFIG.maxRetries + 1}`);
+            options.onRetry?.({ round: round + 1, maxRounds: RETRY_CONFIG.maxRetries + 1, delayMs });
             await delay(delayMs);
 
             // 刷新 token
@@ -56,3 +56,11 @@ export function validatePassword(password) {
     }
     return { valid: true };
 }
+
+/**
+ * 生成分享链接令牌（URL 安全，不可猜测）
+ * @returns {string} 22 位令牌
+ */
+export function generateShareToken() {
+    return crypto.randomBytes(16).toString('base64url');
+}
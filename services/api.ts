@@ -1,3 +1,5 @@
+import type { DesignBrief, GridLayout, PaletteSwatch } from '../types';
+
 // API 基础配置
 // 开发环境使用 VITE_API_BASE_URL (如 http://localhost:3001)
 // 生产环境默认使用 https://api.abdc.online
@@ -31,12 +33,293 @@ async function request(endpoint: string, options: RequestInit = {}) {
     const data = await response.json();
 
     if (!response.ok) {
-        throw new Error(data.error || '请求失败');
+        // 附带状态码和错误码，便于调用方区分处理（如分享链接需要密码）
+        throw Object.assign(new Error(data.error || '请求失败'), { status: response.status, code: data.code });
     }
 
     return data;
 }
 
+// 查询参数拼接：跳过空值，数组以逗号拼接
+function toQueryString(params: object): string {
+    const query = new URLSearchParams();
+    Object.entries(params).forEach(([key, value]) => {
+        if (value !== undefined && value !== null && value !== '') query.set(key, String(value));
+    });
+    return query.toString();
+}
+
+// 生成历史查询参数 / 记录结构（对应 GET /api/user/generations）
+export type GenerationOperation = 'generate' | 'upscale' | 'edit' | 'expand';
+
+export interface GenerationQuery {
+    page?: number;
+    limit?: number;
+    tag?: string | string[];  // 多个时以逗号拼接，需全部包含
+    from?: string;       // YYYY-MM-DD
+    to?: string;         // YYYY-MM-DD
+    operation?: GenerationOperation | GenerationOperation[];  // 多个时以逗号拼接
+    styleId?: number;
+    level?: number;      // 创意等级 1-5
+    parentId?: number;   // 来源记录（编辑 / 延展 / 放大结果）
+    color?: string;      // #rrggbb，按色板接近程度排序
+}
+
+// 收藏检索条件（GET /api/collections/search，所有条件同时满足）
+export interface CollectionSearchQuery {
+    tag?: string[];      // 需全部包含
+    from?: string;       // YYYY-MM-DD
+    to?: string;         // YYYY-MM-DD
+    generationId?: number;  // 来源生成记录
+    level?: number;      // 来源记录的创意等级 1-5
+    color?: string;      // #rrggbb，按色板接近程度排序
+}
+
+export interface GenerationRecord {
+    id: number;
+    url: string | null;
+    tags: string[];
+    level: number | null;
+    operation: GenerationOperation;
+    gridLayout: GridLayout | null;
+    aspectRatio: string | null;
+    imageSize: string | null;
+    parentId: number | null;       // 局部编辑 / 单元格延展的来源记录
+    parentCell: number | null;     // 单元格延展的来源单元格（从 0 开始按行排列）
+    sourceHash: string | null;     // 输入图片哈希（参考图 / 单元格 / 裁切图）
+    instruction: string | null;    // 局部编辑指令
+    sourceUrl: string | null;      // 局部编辑前的单元格图
+    brief: DesignBrief | null;     // 设计简报
+    avoid: string[];               // 排除项
+    styleId: number | null;        // 所选风格
+    promptVersionId: number | null; // 生成时使用的提示词配置版本
+    palette: PaletteSwatch[] | null; // 宫格图色板，未提取时为 null
+    pointsConsumed: number;
+    status: string;
+    createdAt: string;
+}
+
+// 生成谱系（对应 GET /api/user/generations/:id/lineage）
+export interface GenerationLineage {
+    sourceHash: string | null;     // 根记录所用参考图的哈希
+    generations: GenerationRecord[];
+}
+
+// 以图搜图的一张图（GET /api/user/similar/:imageId）
+// imageId: g{生成记录 ID}-{单元格序号} / g{生成记录 ID}（单图）/ c{收藏 ID}
+export interface SimilarImage {
+    imageId: string;
+    source: 'generation' | 'collection';
+    generationId: number | null;
+    cell: number | null;           // 宫格图的单元格（url 为整张宫格图）
+    collectionId: number | null;
+    url: string;
+    gridLayout: GridLayout | null;
+    score?: number;                // 相似度 0-1（检索结果才有）
+}
+
+// 排除项预设（对应 /api/user/avoid-presets）
+export interface AvoidPreset {
+    id: number;
+    name: string;
+    items: string[];
+    createdAt: string;
+}
+
+// 生成预设内容（标签组合 + 自定义标签 + 创意等级 + 画幅 + 设计简报）
+export interface GenerationPresetSettings {
+    tags: string[];
+    customTags: { res: string | null; com: string | null };  // 为空表示未自定义
+    level: number;
+    aspectRatio: string | null;
+    brief: DesignBrief | null;
+}
+
+// 生成预设（对应 /api/user/generation-presets）
+export interface GenerationPreset {
+    id: number;
+    name: string;
+    settings: GenerationPresetSettings;
+    createdAt: string;
+    updatedAt: string;
+}
+
+// 预设包（导出 / 导入的 JSON 文件）
+export interface GenerationPresetPack {
+    type: 'generation-presets';
+    version: number;
+    exportedAt: string;
+    presets: { name: string; settings: GenerationPresetSettings }[];
+}
+
+// 收藏库条目（对应 /api/collections）
+export interface CollectionRecord {
+    id: number;
+    url: string;
+    tags: string[];
+    generationId: number | null;
+    boardId: number | null;
+    styleId: number | null;        // 来源生成记录的风格
+    level: number | null;          // 来源生成记录的创意等级
+    materials: MaterialScheduleRow[] | null;  // 材质清单，未分析时为 null
+    palette: PaletteSwatch[] | null;          // 色板，未提取时为 null
+    sortOrder: number;
+    createdAt: string;
+}
+
+// 材质清单的一行（POST /api/collections/:id/materials）
+export interface MaterialScheduleRow {
+    element: string;           // 部位 / 物件
+    material: string;          // 材料
+    finish: string;            // 表面处理
+    color: string;             // 颜色
+    colorCode: string;         // 近似 RAL / Pantone 色号，可能为空
+    supplierCategory: string;  // 建议供应商类别
+}
+
+// 收藏看板（对应 /api/boards）
+export interface BoardRecord {
+    id: number;
+    name: string;
+    coverItemId: number | null;
+    coverUrl: string | null;
+    itemCount: number;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface CollectionUpload {
+    image: string;             // base64 Data URL
+    tags: string[];
+    generationId?: number | null;
+    palette?: PaletteSwatch[];  // 前端提取的色板
+}
+
+// 分享链接（对应 /api/share）
+export interface ShareRecord {
+    id: number;
+    token: string;
+    type: 'board' | 'generation';
+    title: string;
+    hasPassword: boolean;
+    status: 'active' | 'expired' | 'revoked';
+    viewCount: number;
+    expiresAt: string | null;
+    revokedAt: string | null;
+    createdAt: string;
+}
+
+// 公开分享内容（GET /api/share/:token）
+export interface SharedContent {
+    share: { type: 'board' | 'generation'; title: string; createdAt: string; expiresAt: string | null };
+    generations: { url: string; tags: string[]; gridLayout: GridLayout | null; aspectRatio: string | null; createdAt: string }[];
+    crops: { url: string; tags: string[] }[];
+}
+
+// 生成参数选项（GET /api/gemini/image/options），imageSizes 为尺寸 → 积分
+export interface ImageOptions {
+    gridLayouts: GridLayout[];
+    aspectRatios: string[];
+    imageSizes: Record<string, number>;
+    editPoints: number;
+}
+
+// 风格库条目（GET /api/styles，管理后台另含已停用的风格）
+export interface StyleRecord {
+    id: number;
+    name: string;
+    description: string;
+    palette: string[];             // #RRGGBB
+    materials: string[];           // 材质关键词
+    thumbnailUrl: string | null;
+    sortOrder: number;
+    enabled: boolean;
+    createdAt: string;
+    updatedAt: string;
+}
+
+// 空间标签体系（对应 GET /api/taxonomy）
+// primary: 行业场景；interior / exterior: 室内 / 外部功能空间；modifier: 其他修饰标签
+export type TagRole = 'primary' | 'interior' | 'exterior' | 'modifier';
+
+export interface TaxonomyLabels {
+    zh: string;
+    en: string;
+}
+
+export interface TaxonomyTag {
+    value: string;                 // 提交给后端的标签值
+    labels: TaxonomyLabels;
+    role: TagRole;
+}
+
+export interface TaxonomyGroup {
+    id: string;
+    labels: TaxonomyLabels;
+    tags: TaxonomyTag[];
+}
+
+export interface TaxonomyCategory {
+    id: string;
+    icon: string;                  // 图标名称（home / building）
+    labels: TaxonomyLabels;
+    allowCustom: boolean;          // 是否允许自定义标签
+    groups: TaxonomyGroup[];
+}
+
+export interface Taxonomy {
+    version: number;
+    categories: TaxonomyCategory[];
+}
+
+// 管理后台编辑风格的字段（thumbnail 为 Data URL，null 表示移除缩略图）
+export interface StyleInput {
+    name?: string;
+    description?: string;
+    palette?: string[];
+    materials?: string[];
+    sortOrder?: number;
+    enabled?: boolean;
+    thumbnail?: string | null;
+}
+
+// 提示词配置版本（对应 /api/admin/prompt-versions）
+export interface PromptVersion {
+    id: number;
+    note: string;
+    createdBy: string | null;
+    active: boolean;
+    createdAt: string;
+    activatedAt: string | null;
+}
+
+// A/B 实验结果信号
+export type ExperimentOutcome = 'collect' | 'upscale' | 'download' | 'regenerate';
+
+// A/B 实验分组统计
+export interface ExperimentResult {
+    variant: string;
+    promptVersionId: number;
+    weight: number;
+    generations: number;                          // 成功生成数
+    outcomes: Record<ExperimentOutcome, number>;  // 出现各信号的生成数
+}
+
+// A/B 实验（对应 /api/admin/experiments）
+export interface ExperimentRecord {
+    id: number;
+    name: string;
+    assignment: 'user' | 'request';
+    variants: { key: string; promptVersionId: number; weight: number }[];
+    status: 'running' | 'stopped';
+    createdAt: string;
+    stoppedAt: string | null;
+    results: ExperimentResult[];
+}
+
+// 分享链接前端地址
+export const getShareUrl = (token: string) => `${window.location.origin}/s/${token}`;
+
 // ============================================================================
 // 认证相关 API
 // ============================================================================
@@ -97,11 +380,56 @@ export const userApi = {
     checkPoints: (amount: number = 100) =>
         request(`/api/user/check-points?amount=${amount}`),
 
-    // 消耗积分 (生成/放大时调用)
-    consumePoints: (amount: number = 100, action: 'generate' | 'upscale' = 'generate') =>
-        request('/api/user/consume-points', {
+    // 获取生成历史（分页，可按标签 / 日期 / 操作类型过滤）
+    getGenerations: (params: GenerationQuery = {}) => request(`/api/user/generations?${toQueryString(params)}`),
+
+    // 获取生成谱系（回溯到参考图，并展开所有子记录）
+    getLineage: (id: number): Promise<GenerationLineage> => request(`/api/user/generations/${id}/lineage`),
+
+    // 上报打包下载的生成记录（A/B 实验结果信号）
+    recordDownloads: (ids: number[]) => request('/api/user/generations/downloads', {
+        method: 'POST',
+        body: JSON.stringify({ ids }),
+    }),
+
+    // 以图搜图：在自己的生成记录与收藏中查找视觉相似的图片
+    findSimilar: (imageId: string): Promise<{ query: SimilarImage; results: SimilarImage[] }> => request(`/api/user/similar/${imageId}`),
+
+    // 删除生成记录
+    deleteGeneration: (id: number) => request(`/api/user/generations/${id}`, { method: 'DELETE' }),
+
+    // 获取排除项预设
+    getAvoidPresets: (): Promise<{ presets: AvoidPreset[] }> => request('/api/user/avoid-presets'),
+
+    // 保存排除项预设
+    createAvoidPreset: (name: string, items: string[]): Promise<{ preset: AvoidPreset }> => request('/api/user/avoid-presets', {
+        method: 'POST',
+        body: JSON.stringify({ name, items }),
+    }),
+
+    // 删除排除项预设
+    deleteAvoidPreset: (id: number) => request(`/api/user/avoid-presets/${id}`, { method: 'DELETE' }),
+
+    // 获取生成预设
+    getGenerationPresets: (): Promise<{ presets: GenerationPreset[] }> => request('/api/user/generation-presets'),
+
+    // 保存当前设置为生成预设
+    createGenerationPreset: (name: string, settings: GenerationPresetSettings): Promise<{ preset: GenerationPreset }> => request('/api/user/generation-presets', {
+        method: 'POST',
+        body: JSON.stringify({ name, settings }),
+    }),
+
+    // 删除生成预设
+    deleteGenerationPreset: (id: number) => request(`/api/user/generation-presets/${id}`, { method: 'DELETE' }),
+
+    // 导出预设包
+    exportGenerationPresets: (): Promise<GenerationPresetPack> => request('/api/user/generation-presets/export'),
+
+    // 导入预设包（同名预设覆盖）
+    importGenerationPresets: (pack: GenerationPresetPack): Promise<{ created: number; updated: number; skipped: number; presets: GenerationPreset[] }> =>
+        request('/api/user/generation-presets/import', {
             method: 'POST',
-            body: JSON.stringify({ amount, action }),
+            body: JSON.stringify(pack),
         }),
 };
 
@@ -119,6 +447,114 @@ export const inviteApi = {
     validate: (code: string) => request(`/api/invite/validate/${code}`),
 };
 
+// ============================================================================
+// 收藏库 API
+// ============================================================================
+export const collectionApi = {
+    // 获取收藏列表（已按排序）
+    list: () => request('/api/collections'),
+
+    // 检索收藏（指定颜色时按接近程度排序，否则按收藏排序）
+    search: (params: CollectionSearchQuery): Promise<{ items: CollectionRecord[] }> => request(`/api/collections/search?${toQueryString(params)}`),
+
+    // 上传裁切图并加入收藏（可指定所属看板）
+    add: (items: CollectionUpload[], boardId: number | null = null) => request('/api/collections', {
+        method: 'POST',
+        body: JSON.stringify({ items, boardId }),
+    }),
+
+    // 更新收藏标签
+    updateTags: (id: number, tags: string[]) => request(`/api/collections/${id}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ tags }),
+    }),
+
+    // 更新色板（补齐旧收藏的色板）
+    updatePalette: (id: number, palette: PaletteSwatch[]): Promise<{ item: CollectionRecord }> => request(`/api/collections/${id}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ palette }),
+    }),
+
+    // 删除收藏
+    remove: (id: number) => request(`/api/collections/${id}`, { method: 'DELETE' }),
+
+    // 分析裁切图的材质清单（重复调用会重新分析）
+    analyzeMaterials: (id: number): Promise<{ item: CollectionRecord }> => request(`/api/collections/${id}/materials`, { method: 'POST' }),
+
+    // 重排收藏
+    reorder: (ids: number[]) => request('/api/collections/order', {
+        method: 'PUT',
+        body: JSON.stringify({ ids }),
+    }),
+
+    // 批量移动到看板（boardId 为 null 表示移回未分组）
+    move: (ids: number[], boardId: number | null) => request('/api/collections/board', {
+        method: 'PUT',
+        body: JSON.stringify({ ids, boardId }),
+    }),
+};
+
+// ============================================================================
+// 收藏看板 API
+// ============================================================================
+export const boardApi = {
+    // 获取看板列表
+    list: () => request('/api/boards'),
+
+    // 新建看板
+    create: (name: string) => request('/api/boards', {
+        method: 'POST',
+        body: JSON.stringify({ name }),
+    }),
+
+    // 重命名 / 设置封面
+    update: (id: number, updates: { name?: string; coverItemId?: number | null }) => request(`/api/boards/${id}`, {
+        method: 'PATCH',
+        body: JSON.stringify(updates),
+    }),
+
+    // 删除看板（图片回到未分组）
+    remove: (id: number) => request(`/api/boards/${id}`, { method: 'DELETE' }),
+};
+
+// ============================================================================
+// 分享链接 API
+// ============================================================================
+export const shareApi = {
+    // 获取我创建的分享链接
+    list: () => request('/api/share'),
+
+    // 创建分享链接（boardId 与 generationId 二选一）
+    create: (params: { boardId?: number; generationId?: number; expiresInDays?: number | null; password?: string }) =>
+        request('/api/share', {
+            method: 'POST',
+            body: JSON.stringify(params),
+        }),
+
+    // 撤销分享链接
+    revoke: (id: number) => request(`/api/share/${id}`, { method: 'DELETE' }),
+
+    // 读取分享内容（公开接口，无需登录）
+    get: (token: string, password?: string): Promise<SharedContent> =>
+        request(`/api/share/${encodeURIComponent(token)}`, {
+            headers: password ? { 'X-Share-Password': password } : {},
+        }),
+};
+
+// ============================================================================
+// 生成参数 API
+// ============================================================================
+export const generationApi = {
+    // 可选的宫格布局、画幅比例及各尺寸积分价格
+    getImageOptions: (): Promise<ImageOptions> => request('/api/gemini/image/options'),
+
+    // 启用中的风格库
+    getStyles: (): Promise<{ styles: StyleRecord[] }> => request('/api/styles'),
+
+    // 空间标签体系
+    getTaxonomy: (): Promise<Taxonomy> => request('/api/taxonomy'),
+};
+
 // ============================================================================
 // 管理员 API
 // ============================================================================
@@ -141,4 +577,38 @@ export const adminApi = {
         method: 'POST',
         body: JSON.stringify({ count }),
     }),
+
+    // 获取全部风格（含已停用）
+    getStyles: (): Promise<{ styles: StyleRecord[] }> => request('/api/admin/styles'),
+
+    // 新建风格
+    createStyle: (input: StyleInput): Promise<{ style: StyleRecord }> => request('/api/admin/styles', {
+        method: 'POST',
+        body: JSON.stringify(input),
+    }),
+
+    // 更新风格
+    updateStyle: (id: number, input: StyleInput): Promise<{ style: StyleRecord }> => request(`/api/admin/styles/${id}`, {
+        method: 'PATCH',
+        body: JSON.stringify(input),
+    }),
+
+    // 删除风格
+    deleteStyle: (id: number) => request(`/api/admin/styles/${id}`, { method: 'DELETE' }),
+
+    // 获取提示词配置版本
+    getPromptVersions: (): Promise<{ versions: PromptVersion[] }> => request('/api/admin/prompt-versions'),
+
+    // 获取 A/B 实验及结果
+    getExperiments: (): Promise<{ experiments: ExperimentRecord[] }> => request('/api/admin/experiments'),
+
+    // 新建并开始实验
+    createExperiment: (input: { name: string; assignment: 'user' | 'request'; variants: { promptVersionId: number; weight: number }[] }) =>
+        request('/api/admin/experiments', {
+            method: 'POST',
+            body: JSON.stringify(input),
+        }),
+
+    // 停止实验
+    stopExperiment: (id: number) => request(`/api/admin/experiments/${id}/stop`, { method: 'POST' }),
 };
@@ -4,8 +4,15 @@
  * 
  * 后端接口:
  * - POST /api/gemini → 文本生成
- * - POST /api/gemini/image → 图像生成 (返回 JSON { url } 供 Nginx 静态分发)
+ * - POST /api/gemini/analyze → 参考图分析（建议空间标签、风格与材质）
+ * - POST /api/gemini/image → 图像生成 (返回任务 ID { jobId, status, position })
+ * - POST /api/gemini/upscale → 放大修复 (同上)
+ * - POST /api/gemini/edit → 局部编辑 (同上)
+ * - GET /api/jobs/:id/events → 任务进度推送 (SSE)，失败时回退到轮询 GET /api/jobs/:id
+ *
+ * 积分由后端在生成/放大接口内预扣，成功确认、失败退还
  */
+import type { AnalysisResult, DesignBrief, GridLayout, ReferenceImage } from '../types';
 
 // 获取后端 API 基础路径
 // 开发环境使用 VITE_API_BASE_URL（或 localhost）
@@ -79,6 +86,105 @@ const apiRequest = async <T>(endpoint: string, body: object): Promise<T> => {
   return response.json();
 };
 
+/**
+ * 生成/放大接口的响应：图片 URL + 服务端扣费后的最新积分
+ */
+export interface ImageResult {
+  url: string;
+  generationId: number | null;  // generation_history 记录 ID（写入失败时为 null）
+  newPoints: number;
+  newDailyPoints: number;
+  totalPoints: number;
+  consumed: number;
+  sourceUrl?: string;           // 局部编辑：编辑前的单元格图
+}
+
+/**
+ * 生成参数（画面构成）
+ */
+export interface GenerationOptions {
+  gridLayout?: GridLayout;  // 宫格布局，默认 3x3
+  aspectRatio?: string;     // 画幅比例，默认由后端按布局决定
+  imageSize?: string;       // 1K / 2K / 4K，默认 2K（积分按尺寸计价）
+  parentId?: number | null; // 以某次生成的单元格为源图时的来源记录
+  parentCell?: number;      // 来源单元格序号（从 0 开始按行排列）
+  references?: ReferenceImage[];  // 附加参考图（最多 3 张），与主参考图一起发送
+  brief?: DesignBrief;      // 设计简报
+  avoid?: string[];         // 排除项（硬性约束）
+  styleId?: number | null;  // 风格库中的风格
+}
+
+/**
+ * 放大参数
+ */
+export interface UpscaleOptions {
+  parentId?: number | null; // 来源生成记录（如收藏裁切图所属的生成），放大结果记为其子记录
+}
+
+/**
+ * 局部编辑参数
+ */
+export interface EditOptions {
+  maskImage?: string;       // 黑白蒙版 Data URL（白色为可编辑区域），不传则按指令整体修改
+  parentId?: number | null; // 来源生成记录，编辑结果记为其子记录
+  aspectRatio?: string;     // 单元格画幅比例
+}
+
+/**
+ * 异步生成任务状态 (GET /api/jobs/:id)
+ */
+export interface GenerationJob {
+  id: string;
+  type: 'generate' | 'upscale' | 'edit';
+  status: 'queued' | 'running' | 'retrying' | 'succeeded' | 'failed';
+  position: number | null;  // 排队位置（从 1 开始），非排队状态为 null
+  retry: { round: number; maxRounds: number; retryAt: string } | null;
+  result: ImageResult | null;
+  error: { message: string; status: number; code: string } | null;
+}
+
+/**
+ * 任务回调：入队后拿到任务 ID（用于刷新页面后恢复），以及每次状态变化
+ */
+export interface JobCallbacks {
+  onQueued?: (jobId: string) => void;
+  onProgress?: (job: GenerationJob) => void;
+}
+
+// SSE 不可用时的轮询间隔
+const JOB_POLL_INTERVAL_MS = 2000;
+// 网络异常 / 服务端 5xx 时的最长重试间隔（指数退避）
+const JOB_POLL_MAX_BACKOFF_MS = 30000;
+
+/**
+ * 任务状态 → 进行中提示文案（执行中返回 undefined，由调用方使用默认文案）
+ */
+export const describeJobProgress = (job: GenerationJob): string | undefined => {
+  if (job.status === 'queued' && job.position) {
+    return job.position > 1 ? `排队中，前方还有 ${job.position - 1} 个任务` : '排队中，即将开始';
+  }
+  if (job.status === 'retrying' && job.retry) {
+    return `当前使用人数较多，正在重试 (${job.retry.round}/${job.retry.maxRounds})`;
+  }
+  return undefined;
+};
+
+/**
+ * 积分不足错误 (后端 402 INSUFFICIENT_POINTS)
+ * 与网络/生成失败区分开，调用方不应回退到 Mock
+ */
+export class InsufficientPointsError extends Error {
+  required: number;
+  totalPoints: number;
+
+  constructor(required: number, totalPoints: number) {
+    super(`积分不足，需要 ${required} 积分，当前仅有 ${totalPoints} 积分`);
+    this.name = 'InsufficientPointsError';
+    this.required = required;
+    this.totalPoints = totalPoints;
+  }
+}
+
 /**
  * 将 API 错误转换为用户友好的中文提示
  */
@@ -104,11 +210,11 @@ const translateError = (status: number, message: string): string => {
 };
 
 /**
- * 图像生成请求 (JSON URL 响应)
- * 返回静态图片 URL
+ * 提交图像任务
+ * 返回任务 ID，积分不足时抛出 InsufficientPointsError
  * 自动添加 Authorization header
  */
-const imageRequest = async (endpoint: string, body: object): Promise<string> => {
+const submitJob = async (endpoint: string, body: object): Promise<string> => {
   const response = await fetch(normalizeUrl(getApiBase(), endpoint), {
     method: 'POST',
     headers: getAuthHeaders(),
@@ -124,38 +230,200 @@ const imageRequest = async (endpoint: string, body: object): Promise<string> =>
   if (!response.ok) {
     // 错误响应是 JSON
     const errorData = await response.json().catch(() => ({ error: { message: 'Unknown error' } }));
+    if (response.status === 402 && errorData.error?.code === 'INSUFFICIENT_POINTS') {
+      throw new InsufficientPointsError(errorData.error.required, errorData.error.totalPoints);
+    }
     const rawMessage = errorData.error?.message || `API request failed: ${response.status}`;
     throw new Error(translateError(response.status, rawMessage));
   }
 
-  // 成功响应是 JSON { url: string }
+  // 成功响应是 JSON { jobId, status, position }
   const data = await response.json();
-  return data.url;
+  return data.jobId;
+};
+
+/**
+ * 暂时性错误（断网、设备休眠、服务端 5xx），等待任务时应重试而不是放弃
+ */
+class TransientJobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TransientJobError';
+  }
+}
+
+/**
+ * 带登录态请求任务接口
+ * 网络异常、429 及 5xx 抛出 TransientJobError，401 / 404 等抛出普通错误
+ */
+const fetchJobApi = async <T>(path: string, init: RequestInit = {}): Promise<T> => {
+  let response: Response;
+  try {
+    response = await fetch(normalizeUrl(getApiBase(), path), { ...init, headers: getAuthHeaders() });
+  } catch (error: any) {
+    throw new TransientJobError(error?.message || 'Network error');
+  }
+
+  if (response.status === 401) {
+    handleUnauthorized();
+    throw new Error('登录已过期，请重新登录');
+  }
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    const message = errorData.error || `API request failed: ${response.status}`;
+    throw response.status >= 500 || response.status === 429 ? new TransientJobError(message) : new Error(message);
+  }
+
+  return response.json();
+};
+
+/**
+ * 查询任务状态
+ */
+const fetchJob = async (jobId: string): Promise<GenerationJob> =>
+  (await fetchJobApi<{ job: GenerationJob }>(`/api/jobs/${jobId}`)).job;
+
+/**
+ * 获取任务推送令牌（EventSource 只能通过 URL 传递令牌，不使用登录令牌）
+ */
+const fetchJobEventsToken = async (jobId: string): Promise<string> =>
+  (await fetchJobApi<{ token: string }>(`/api/jobs/${jobId}/events-token`, { method: 'POST' })).token;
+
+/**
+ * 等待任务完成
+ * 优先使用 SSE 推送，连接失败时回退到轮询
+ * 断网、休眠或服务端 5xx 时按指数退避持续重试（任务仍在服务端执行并扣费），
+ * 只有任务失败、登录失效或任务不存在时才抛出错误
+ */
+export const waitForJob = (jobId: string, onProgress?: (job: GenerationJob) => void): Promise<ImageResult> => {
+  return new Promise((resolve, reject) => {
+    let settled = false;
+
+    // 处理一次状态更新，任务结束时返回 true
+    const handleJob = (job: GenerationJob): boolean => {
+      if (settled) return true;
+      onProgress?.(job);
+      if (job.status === 'succeeded') {
+        settled = true;
+        if (job.result) resolve(job.result);
+        else reject(new Error('任务已完成，但未返回结果，请重试'));
+      } else if (job.status === 'failed') {
+        settled = true;
+        reject(new Error(translateError(job.error?.status || 500, job.error?.message || '')));
+      }
+      return settled;
+    };
+
+    const fail = (error: unknown) => {
+      if (settled) return;
+      settled = true;
+      reject(error);
+    };
+
+    const poll = async () => {
+      let failures = 0;
+      while (!settled) {
+        try {
+          if (handleJob(await fetchJob(jobId))) return;
+          failures = 0;
+        } catch (error) {
+          if (!(error instanceof TransientJobError)) {
+            fail(error);
+            return;
+          }
+          failures++;
+          console.warn(`Job ${jobId} poll failed (${failures}), retrying:`, error.message);
+        }
+        const delay = failures > 0 ? Math.min(JOB_POLL_INTERVAL_MS * 2 ** failures, JOB_POLL_MAX_BACKOFF_MS) : JOB_POLL_INTERVAL_MS;
+        await new Promise(r => setTimeout(r, delay));
+      }
+    };
+
+    const subscribe = async () => {
+      if (typeof EventSource === 'undefined' || !getAuthToken()) {
+        poll();
+        return;
+      }
+
+      // EventSource 无法设置请求头，使用只对该任务有效的短期令牌
+      let token: string;
+      try {
+        token = await fetchJobEventsToken(jobId);
+      } catch (error) {
+        if (error instanceof TransientJobError) poll();
+        else fail(error);
+        return;
+      }
+
+      const source = new EventSource(normalizeUrl(getApiBase(), `/api/jobs/${jobId}/events?token=${encodeURIComponent(token)}`));
+      source.onmessage = (event) => {
+        try {
+          if (handleJob(JSON.parse(event.data).job)) source.close();
+        } catch {
+          // 忽略无法解析的消息
+        }
+      };
+      source.onerror = () => {
+        source.close();
+        if (!settled) poll();
+      };
+    };
+
+    subscribe();
+  });
+};
+
+// 去掉 Data URL 前缀，只保留 base64
+const stripDataUrl = (image: string) => image.replace(/^data:image\/(png|jpeg|jpg|webp);base64,/, "");
+
+/**
+ * 分析参考图
+ * 使用后端 /api/gemini/analyze，返回标签体系内的建议标签及识别出的风格、材质（不扣积分）
+ */
+export const analyzeImage = async (base64Image: string): Promise<AnalysisResult> => {
+  return apiRequest<AnalysisResult>('/api/gemini/analyze', { inputImage: stripDataUrl(base64Image) });
 };
 
 /**
  * 生成图像变体
  * 使用后端 /api/gemini/image
  * 前端只发送标签和等级，prompt 在后端构建
+ * 有附加参考图时，主参考图作为布局参考，权重由等级换算（等级 1 = 参考图主导）
  */
 export const generateImageVariation = async (
   tags: string[],
   level: number,
-  base64Image: string
-): Promise<string> => {
-  const cleanBase64 = base64Image.replace(/^data:image\/(png|jpeg|jpg|webp);base64,/, "");
+  base64Image: string,
+  options: GenerationOptions = {},
+  callbacks: JobCallbacks = {}
+): Promise<ImageResult> => {
+  const cleanBase64 = stripDataUrl(base64Image);
+  const references = options.references?.length
+    ? [
+      { image: cleanBase64, role: 'layout', weight: 6 - level },
+      ...options.references.map(ref => ({ ...ref, image: stripDataUrl(ref.image) })),
+    ]
+    : undefined;
 
   try {
     // 只发送标签和等级，不发送完整 prompt
-    const blobUrl = await imageRequest('/api/gemini/image', {
+    const jobId = await submitJob('/api/gemini/image', {
       tags,
       level,
-      inputImage: cleanBase64,
-      imageSize: '2K',
-      aspectRatio: '1:1',
+      inputImage: references ? undefined : cleanBase64,
+      references,
+      gridLayout: options.gridLayout,
+      aspectRatio: options.aspectRatio,
+      imageSize: options.imageSize || '2K',
+      parentId: options.parentId ?? undefined,
+      parentCell: options.parentCell,
+      brief: options.brief,
+      avoid: options.avoid?.length ? options.avoid : undefined,
+      styleId: options.styleId ?? undefined,
     });
-
-    return blobUrl;
+    callbacks.onQueued?.(jobId);
+    return await waitForJob(jobId, callbacks.onProgress);
   } catch (error) {
     console.error("Gemini Image Gen Error:", error);
     throw error;
@@ -166,22 +434,51 @@ export const generateImageVariation = async (
  * 放大/修复图像
  * 使用后端 /api/gemini/upscale (专用端点，prompt 在后端保密)
  */
-export const upscaleImage = async (base64Image: string): Promise<string> => {
+export const upscaleImage = async (base64Image: string, options: UpscaleOptions = {}, callbacks: JobCallbacks = {}): Promise<ImageResult> => {
   const cleanBase64 = base64Image.replace(/^data:image\/(png|jpeg|jpg|webp);base64,/, "");
 
   try {
     // 只发送图片，prompt 在后端保密
-    const blobUrl = await imageRequest('/api/gemini/upscale', {
+    const jobId = await submitJob('/api/gemini/upscale', {
       inputImage: cleanBase64,
+      parentId: options.parentId ?? undefined,
     });
-
-    return blobUrl;
+    callbacks.onQueued?.(jobId);
+    return await waitForJob(jobId, callbacks.onProgress);
   } catch (error) {
     console.error("Upscale Error:", error);
     throw error;
   }
 };
 
+/**
+ * 局部编辑单元格图
+ * 使用后端 /api/gemini/edit，按指令修改蒙版区域（prompt 在后端构建）
+ * @param cellImage - 单元格图 Data URL
+ * @param instruction - 修改指令，如 "把沙发换成绿色丝绒"
+ */
+export const editImage = async (
+  cellImage: string,
+  instruction: string,
+  options: EditOptions = {},
+  callbacks: JobCallbacks = {}
+): Promise<ImageResult> => {
+  try {
+    const jobId = await submitJob('/api/gemini/edit', {
+      inputImage: cellImage,
+      instruction,
+      maskImage: options.maskImage,
+      parentId: options.parentId ?? undefined,
+      aspectRatio: options.aspectRatio,
+    });
+    callbacks.onQueued?.(jobId);
+    return await waitForJob(jobId, callbacks.onProgress);
+  } catch (error) {
+    console.error("Edit Error:", error);
+    throw error;
+  }
+};
+
 /**
  * Download image via authenticated endpoint
  * Uses fetch + blob approach to trigger browser download
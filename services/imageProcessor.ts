@@ -1,10 +1,37 @@
+import type { GridLayout, PaletteSwatch } from '../types';
+
+/**
+ * Rows / columns for each selectable grid layout.
+ * 2x3 is a landscape canvas (2 rows, 3 columns) with square cells.
+ */
+export const GRID_LAYOUTS: Record<GridLayout, { rows: number; cols: number }> = {
+  '1x1': { rows: 1, cols: 1 },
+  '2x2': { rows: 2, cols: 2 },
+  '3x3': { rows: 3, cols: 3 },
+  '4x4': { rows: 4, cols: 4 },
+  '2x3': { rows: 2, cols: 3 },
+};
+
+export const DEFAULT_GRID_LAYOUT: GridLayout = '3x3';
+
+/**
+ * Row-major index (0-based) of the cell under a click, assuming evenly divided cells.
+ */
+export const getCellIndex = (clickXPercent: number, clickYPercent: number, gridLayout: GridLayout = DEFAULT_GRID_LAYOUT): number => {
+  const { rows, cols } = GRID_LAYOUTS[gridLayout];
+  const col = Math.min(cols - 1, Math.floor(clickXPercent * cols));
+  const row = Math.min(rows - 1, Math.floor(clickYPercent * rows));
+  return row * cols + col;
+};
+
 /**
  * Simulates the Nanobanana Pro API call (Image-to-Image mode).
  * 
  * @param prompt The prompt to control the generation
  * @param sourceImageBase64 The source image for style reference (Mocking Img2Img)
+ * @param gridLayout Layout of the fake grid
  */
-export const mockGenerateImageApi = async (prompt: string, sourceImageBase64?: string): Promise<string> => {
+export const mockGenerateImageApi = async (prompt: string, sourceImageBase64?: string, gridLayout: GridLayout = DEFAULT_GRID_LAYOUT): Promise<string> => {
   return new Promise((resolve) => {
     // In a real scenario, we would POST { prompt, image: sourceImageBase64 } to the endpoint.
     console.log("Simulating Img2Img Generation...");
@@ -13,10 +40,10 @@ export const mockGenerateImageApi = async (prompt: string, sourceImageBase64?: s
 
     setTimeout(() => {
       // Fallback Logic:
-      // If we have a source image, return a "fake" 3x3 grid derived from it.
+      // If we have a source image, return a "fake" grid derived from it.
       // This ensures the user sees a visual change (grid layout) even if API fails.
       if (sourceImageBase64) {
-        createFakeGrid(sourceImageBase64).then(resolve);
+        createFakeGrid(sourceImageBase64, gridLayout).then(resolve);
       } else {
         // Fallback if no source provided
         const randomSeed = Math.floor(Math.random() * 1000);
@@ -27,31 +54,32 @@ export const mockGenerateImageApi = async (prompt: string, sourceImageBase64?: s
 };
 
 /**
- * Creates a fake 3x3 grid from the source image.
+ * Creates a fake grid from the source image.
  * Simulates "variations" by slightly zooming/cropping the source into grid cells.
  */
-const createFakeGrid = async (base64: string): Promise<string> => {
+const createFakeGrid = async (base64: string, gridLayout: GridLayout): Promise<string> => {
+  const { rows, cols } = GRID_LAYOUTS[gridLayout];
   return new Promise((resolve) => {
     const img = new Image();
     img.crossOrigin = "Anonymous";
     img.onload = () => {
-      const size = 1024; // Output size
+      const gap = 10;
+      const cellSize = Math.floor((1024 - gap * (cols - 1)) / cols); // Square cells, 1024px wide output
       const canvas = document.createElement('canvas');
-      canvas.width = size;
-      canvas.height = size;
+      canvas.width = cols * cellSize + gap * (cols - 1);
+      canvas.height = rows * cellSize + gap * (rows - 1);
       const ctx = canvas.getContext('2d');
       if (!ctx) { resolve(base64); return; }
 
       // Fill white background (separators)
       ctx.fillStyle = '#ffffff';
-      ctx.fillRect(0, 0, size, size);
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
 
-      const cellW = (size - 20) / 3; // 10px padding total -> 5px gaps
-      const cellH = (size - 20) / 3;
-      const gap = 10;
+      const cellW = cellSize;
+      const cellH = cellSize;
 
-      for (let row = 0; row < 3; row++) {
-        for (let col = 0; col < 3; col++) {
+      for (let row = 0; row < rows; row++) {
+        for (let col = 0; col < cols; col++) {
           const dx = col * (cellW + gap);
           const dy = row * (cellH + gap);
           
@@ -81,12 +109,17 @@ const createFakeGrid = async (base64: string): Promise<string> => {
  * 2. Uses peak detection to find ALL significant white lines (not just near 1/3, 2/3)
  * 3. Validates detected grid structure and falls back gracefully
  * 4. Handles non-standard grids by finding content regions
+ *
+ * Update V4 - Any N×M layout (1x1 / 2x2 / 3x3 / 4x4 / 2x3), see GRID_LAYOUTS
  */
 export const smartCropFromClick = async (
   imageUrl: string, 
   clickXPercent: number, 
-  clickYPercent: number
+  clickYPercent: number,
+  gridLayout: GridLayout = DEFAULT_GRID_LAYOUT
 ): Promise<string> => {
+  const { rows, cols } = GRID_LAYOUTS[gridLayout];
+
   return new Promise((resolve, reject) => {
     const img = new Image();
     img.crossOrigin = "Anonymous";
@@ -268,76 +301,88 @@ export const smartCropFromClick = async (
       const verticalLines = findAllLines(colAvgs);
       const horizontalLines = findAllLines(rowAvgs);
 
-      // ========== STEP 4: Select best 2 dividers for 3x3 grid ==========
-      const selectBestDividers = (lines: LineRegion[], totalLength: number): [number, number] => {
-        const idealFirst = totalLength / 3;
-        const idealSecond = (totalLength * 2) / 3;
-        
-        if (lines.length === 0) {
+      // ========== STEP 4: Select best (N-1) dividers for each axis ==========
+      const selectBestDividers = (lines: LineRegion[], totalLength: number, cellCount: number): number[] => {
+        const dividerCount = cellCount - 1;
+        const cellSize = totalLength / cellCount;
+        const ideals = Array.from({ length: dividerCount }, (_, i) => (i + 1) * cellSize);
+
+        if (dividerCount === 0) return [];
+
+        // Real dividers sit near an ideal position; ignore lines far from all of them
+        const candidates = lines
+          .filter(line => ideals.some(ideal => Math.abs(line.center - ideal) < cellSize / 2))
+          .sort((a, b) => a.center - b.center);
+
+        if (candidates.length === 0) {
           // No lines detected, use geometric division
-          return [idealFirst, idealSecond];
+          return ideals;
         }
-        
-        if (lines.length === 1) {
-          // Only one line - decide if it's the first or second divider
-          const line = lines[0];
-          if (line.center < totalLength / 2) {
-            return [line.center, idealSecond];
-          } else {
-            return [idealFirst, line.center];
-          }
+
+        if (candidates.length === dividerCount) {
+          // Exactly N-1 lines - perfect!
+          return candidates.map(line => line.center);
         }
-        
-        if (lines.length === 2) {
-          // Exactly 2 lines - perfect!
-          const sorted = [...lines].sort((a, b) => a.center - b.center);
-          return [sorted[0].center, sorted[1].center];
+
+        if (candidates.length < dividerCount) {
+          // Too few lines - snap each to its nearest ideal slot, keep geometric cuts elsewhere
+          const result = [...ideals];
+          const slotDistance = ideals.map(() => Infinity);
+          for (const line of candidates) {
+            let slot = 0;
+            ideals.forEach((ideal, i) => {
+              if (Math.abs(line.center - ideal) < Math.abs(line.center - ideals[slot])) slot = i;
+            });
+            const distance = Math.abs(line.center - ideals[slot]);
+            if (distance < slotDistance[slot]) {
+              slotDistance[slot] = distance;
+              result[slot] = line.center;
+            }
+          }
+          return result;
         }
-        
-        // More than 2 lines - find the best pair
+
+        // More lines than needed - find the best ordered combination
         // Score based on: proximity to ideal positions + creating roughly equal cells
-        let bestPair: [number, number] = [idealFirst, idealSecond];
+        let bestCombo: number[] = ideals;
         let bestScore = -Infinity;
-        
-        for (let i = 0; i < lines.length; i++) {
-          for (let j = i + 1; j < lines.length; j++) {
-            const first = lines[i].center;
-            const second = lines[j].center;
-            
-            // Check if they create roughly equal-sized cells
-            const cell1Size = first;
-            const cell2Size = second - first;
-            const cell3Size = totalLength - second;
-            
-            const avgCellSize = totalLength / 3;
-            const sizeVariance = 
-              Math.abs(cell1Size - avgCellSize) + 
-              Math.abs(cell2Size - avgCellSize) + 
-              Math.abs(cell3Size - avgCellSize);
-            
-            // Proximity to ideal positions
-            const positionScore = 
-              -Math.abs(first - idealFirst) - Math.abs(second - idealSecond);
-            
-            // Prefer thicker, brighter lines
-            const lineQuality = 
-              (lines[i].thickness + lines[j].thickness) * 0.5 +
-              (lines[i].avgBrightness + lines[j].avgBrightness) * 0.1;
-            
-            const score = positionScore - sizeVariance * 2 + lineQuality;
-            
+
+        const scoreCombo = (combo: LineRegion[]) => {
+          const edges = [0, ...combo.map(line => line.center), totalLength];
+          let sizeVariance = 0;
+          for (let i = 1; i < edges.length; i++) {
+            sizeVariance += Math.abs(edges[i] - edges[i - 1] - cellSize);
+          }
+
+          // Proximity to ideal positions
+          const positionScore = -combo.reduce((sum, line, i) => sum + Math.abs(line.center - ideals[i]), 0);
+
+          // Prefer thicker, brighter lines
+          const lineQuality = combo.reduce((sum, line) => sum + line.thickness * 0.5 + line.avgBrightness * 0.1, 0);
+
+          return positionScore - sizeVariance * 2 + lineQuality;
+        };
+
+        const search = (start: number, combo: LineRegion[]) => {
+          if (combo.length === dividerCount) {
+            const score = scoreCombo(combo);
             if (score > bestScore) {
               bestScore = score;
-              bestPair = [first, second];
+              bestCombo = combo.map(line => line.center);
             }
+            return;
           }
-        }
-        
-        return bestPair;
+          for (let i = start; i <= candidates.length - (dividerCount - combo.length); i++) {
+            search(i + 1, [...combo, candidates[i]]);
+          }
+        };
+        search(0, []);
+
+        return bestCombo;
       };
 
-      const [vDiv1, vDiv2] = selectBestDividers(verticalLines, contentWidth);
-      const [hDiv1, hDiv2] = selectBestDividers(horizontalLines, contentHeight);
+      const vDividers = selectBestDividers(verticalLines, contentWidth, cols);
+      const hDividers = selectBestDividers(horizontalLines, contentHeight, rows);
 
       // ========== STEP 5: Find line thickness at detected positions ==========
       const getLineThickness = (lines: LineRegion[], position: number): number => {
@@ -349,44 +394,39 @@ export const smartCropFromClick = async (
         return 0; // No line found, geometric cut
       };
 
-      const v1Thickness = getLineThickness(verticalLines, vDiv1);
-      const v2Thickness = getLineThickness(verticalLines, vDiv2);
-      const h1Thickness = getLineThickness(horizontalLines, hDiv1);
-      const h2Thickness = getLineThickness(horizontalLines, hDiv2);
-
       // ========== STEP 6: Define cell boundaries (in content coordinates) ==========
-      const colBoundaries = [
-        { start: 0, end: Math.floor(vDiv1 - v1Thickness / 2) },
-        { start: Math.ceil(vDiv1 + v1Thickness / 2), end: Math.floor(vDiv2 - v2Thickness / 2) },
-        { start: Math.ceil(vDiv2 + v2Thickness / 2), end: contentWidth }
-      ];
-
-      const rowBoundaries = [
-        { start: 0, end: Math.floor(hDiv1 - h1Thickness / 2) },
-        { start: Math.ceil(hDiv1 + h1Thickness / 2), end: Math.floor(hDiv2 - h2Thickness / 2) },
-        { start: Math.ceil(hDiv2 + h2Thickness / 2), end: contentHeight }
-      ];
+      const toBoundaries = (dividers: number[], lines: LineRegion[], totalLength: number) => {
+        const boundaries: { start: number; end: number }[] = [];
+        let start = 0;
+        for (const divider of dividers) {
+          const thickness = getLineThickness(lines, divider);
+          boundaries.push({ start, end: Math.floor(divider - thickness / 2) });
+          start = Math.ceil(divider + thickness / 2);
+        }
+        boundaries.push({ start, end: totalLength });
+        return boundaries;
+      };
+
+      const colBoundaries = toBoundaries(vDividers, verticalLines, contentWidth);
+      const rowBoundaries = toBoundaries(hDividers, horizontalLines, contentHeight);
 
       // ========== STEP 7: Map click to cell (convert click to content coordinates) ==========
       const clickXPx = clickXPercent * width - contentLeft;
       const clickYPx = clickYPercent * height - contentTop;
 
-      // Find nearest cell center
-      let targetCol = 0;
-      let targetRow = 0;
-      let minDistX = Infinity;
-      let minDistY = Infinity;
+      // Find nearest cell center on each axis
+      const nearestCell = (boundaries: { start: number; end: number }[], clickPx: number) => {
+        let target = 0;
+        let minDist = Infinity;
+        boundaries.forEach((boundary, i) => {
+          const dist = Math.abs(clickPx - (boundary.start + boundary.end) / 2);
+          if (dist < minDist) { minDist = dist; target = i; }
+        });
+        return target;
+      };
 
-      for (let i = 0; i < 3; i++) {
-        const centerX = (colBoundaries[i].start + colBoundaries[i].end) / 2;
-        const centerY = (rowBoundaries[i].start + rowBoundaries[i].end) / 2;
-        
-        const distX = Math.abs(clickXPx - centerX);
-        const distY = Math.abs(clickYPx - centerY);
-        
-        if (distX < minDistX) { minDistX = distX; targetCol = i; }
-        if (distY < minDistY) { minDistY = distY; targetRow = i; }
-      }
+      const targetCol = nearestCell(colBoundaries, clickXPx);
+      const targetRow = nearestCell(rowBoundaries, clickYPx);
 
       // ========== STEP 8: Calculate final crop (convert back to image coordinates) ==========
       let cropX = contentLeft + colBoundaries[targetCol].start;
@@ -487,6 +527,23 @@ export const fileToBase64 = (file: File): Promise<string> => {
   });
 };
 
+/**
+ * Fetches a remote image and returns it as a base64 data URL.
+ * Data URLs are returned unchanged.
+ */
+export const urlToBase64 = async (url: string): Promise<string> => {
+  if (url.startsWith('data:')) return url;
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Failed to fetch image: ${response.status}`);
+  const blob = await response.blob();
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.readAsDataURL(blob);
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = (error) => reject(error);
+  });
+};
+
 /**
  * Extracts the dominant color from an image URL.
  * Returns a CSS rgb string.
@@ -526,3 +583,180 @@ export const getDominantColor = async (imageUrl: string): Promise<string> => {
     img.src = imageUrl;
   });
 };
+
+// ---------------------------------------------------------------------------
+// Palette extraction
+// ---------------------------------------------------------------------------
+
+type Rgb = [number, number, number];
+
+// Side of the downscaled canvas that pixels are sampled from
+const PALETTE_SAMPLE_SIZE = 64;
+// Median-cut boxes before merging near-identical colors
+const PALETTE_BOXES = 16;
+// Swatches closer than this (CIE76 ΔE) are merged while above MIN_PALETTE_SWATCHES
+const PALETTE_MERGE_DELTA_E = 10;
+
+export const MIN_PALETTE_SWATCHES = 5;
+export const MAX_PALETTE_SWATCHES = 8;
+
+/**
+ * sRGB (0-255) → CIE L*a*b* (D65 white point).
+ */
+export const rgbToLab = ([r, g, b]: Rgb): [number, number, number] => {
+  const linear = [r, g, b].map(v => {
+    const c = v / 255;
+    return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+  });
+  const x = (linear[0] * 0.4124 + linear[1] * 0.3576 + linear[2] * 0.1805) / 0.95047;
+  const y = linear[0] * 0.2126 + linear[1] * 0.7152 + linear[2] * 0.0722;
+  const z = (linear[0] * 0.0193 + linear[1] * 0.1192 + linear[2] * 0.9505) / 1.08883;
+  const f = (t: number) => t > 0.008856 ? Math.cbrt(t) : 7.787 * t + 16 / 116;
+  return [116 * f(y) - 16, 500 * (f(x) - f(y)), 200 * (f(y) - f(z))];
+};
+
+/**
+ * CIE76 color difference between two Lab colors (~2.3 is just noticeable).
+ */
+export const deltaE = (a: number[], b: number[]): number =>
+  Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+
+export const rgbToHex = (rgb: Rgb): string =>
+  '#' + rgb.map(v => v.toString(16).padStart(2, '0')).join('');
+
+const hexToRgb = (hex: string): Rgb =>
+  [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16)) as Rgb;
+
+/**
+ * Median cut: repeatedly split the box with the widest channel range at its median
+ * until there are `boxCount` boxes (or nothing left to split).
+ */
+const medianCut = (pixels: Rgb[], boxCount: number): Rgb[][] => {
+  const range = (box: Rgb[], channel: number) => {
+    let min = 255, max = 0;
+    for (const p of box) { min = Math.min(min, p[channel]); max = Math.max(max, p[channel]); }
+    return max - min;
+  };
+
+  const boxes = [pixels];
+  while (boxes.length < boxCount) {
+    let target = -1, targetChannel = 0, targetRange = 0;
+    boxes.forEach((box, index) => {
+      if (box.length < 2) return;
+      for (let channel = 0; channel < 3; channel++) {
+        const r = range(box, channel);
+        if (r > targetRange) { target = index; targetChannel = channel; targetRange = r; }
+      }
+    });
+    if (target === -1) break;
+
+    const sorted = [...boxes[target]].sort((a, b) => a[targetChannel] - b[targetChannel]);
+    const mid = Math.floor(sorted.length / 2);
+    boxes.splice(target, 1, sorted.slice(0, mid), sorted.slice(mid));
+  }
+  return boxes;
+};
+
+/**
+ * Extracts a 5-8 swatch palette from an image (median cut over downscaled canvas pixels).
+ * Flat images may yield fewer swatches; swatches are sorted by proportion, which sums to 1.
+ * Returns an empty array if the image cannot be read (e.g. CORS).
+ */
+export const extractPalette = async (imageUrl: string, maxSwatches: number = MAX_PALETTE_SWATCHES): Promise<PaletteSwatch[]> => {
+  return new Promise((resolve) => {
+    const img = new Image();
+    img.crossOrigin = "Anonymous";
+    img.onload = () => {
+      try {
+        const canvas = document.createElement('canvas');
+        canvas.width = PALETTE_SAMPLE_SIZE;
+        canvas.height = PALETTE_SAMPLE_SIZE;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) { resolve([]); return; }
+        ctx.drawImage(img, 0, 0, PALETTE_SAMPLE_SIZE, PALETTE_SAMPLE_SIZE);
+        const data = ctx.getImageData(0, 0, PALETTE_SAMPLE_SIZE, PALETTE_SAMPLE_SIZE).data;
+
+        const pixels: Rgb[] = [];
+        for (let i = 0; i < data.length; i += 4) {
+          if (data[i + 3] < 128) continue; // skip transparent pixels
+          pixels.push([data[i], data[i + 1], data[i + 2]]);
+        }
+        if (pixels.length === 0) { resolve([]); return; }
+
+        // Average each box, then merge the closest pair while there are too many swatches
+        // or the pair is visually the same color (keeping at least MIN_PALETTE_SWATCHES)
+        const clusters = medianCut(pixels, PALETTE_BOXES).filter(box => box.length > 0).map(box => {
+          const sum = box.reduce<Rgb>((acc, p) => [acc[0] + p[0], acc[1] + p[1], acc[2] + p[2]], [0, 0, 0]);
+          return { sum, count: box.length, lab: rgbToLab(sum.map(v => v / box.length) as Rgb) };
+        });
+        while (clusters.length > 1) {
+          let closest = { i: 0, j: 1, distance: Infinity };
+          for (let i = 0; i < clusters.length; i++) {
+            for (let j = i + 1; j < clusters.length; j++) {
+              const distance = deltaE(clusters[i].lab, clusters[j].lab);
+              if (distance < closest.distance) closest = { i, j, distance };
+            }
+          }
+          const mustMerge = clusters.length > maxSwatches;
+          const shouldMerge = closest.distance < PALETTE_MERGE_DELTA_E && clusters.length > MIN_PALETTE_SWATCHES;
+          if (!mustMerge && !shouldMerge) break;
+
+          const [a, b] = [clusters[closest.i], clusters[closest.j]];
+          a.sum = [a.sum[0] + b.sum[0], a.sum[1] + b.sum[1], a.sum[2] + b.sum[2]];
+          a.count += b.count;
+          a.lab = rgbToLab(a.sum.map(v => v / a.count) as Rgb);
+          clusters.splice(closest.j, 1);
+        }
+
+        resolve(clusters.sort((a, b) => b.count - a.count).map(c => {
+          const rgb = c.sum.map(v => Math.round(v / c.count)) as Rgb;
+          return { hex: rgbToHex(rgb), rgb, lab: rgbToLab(rgb), proportion: c.count / pixels.length };
+        }));
+      } catch {
+        resolve([]); // tainted canvas
+      }
+    };
+    img.onerror = () => resolve([]);
+    img.src = imageUrl;
+  });
+};
+
+/**
+ * Named color tones for palette search ("crops with terracotta tones").
+ */
+export const COLOR_TONES: { id: string; zh: string; en: string; hex: string }[] = [
+  { id: 'terracotta', zh: '陶土色', en: 'terracotta', hex: '#c0704d' },
+  { id: 'beige', zh: '米色', en: 'beige', hex: '#d9c8ae' },
+  { id: 'cream', zh: '奶油白', en: 'cream', hex: '#f1ebdd' },
+  { id: 'walnut', zh: '胡桃木色', en: 'walnut', hex: '#6b4a34' },
+  { id: 'oak', zh: '原木色', en: 'oak', hex: '#b98f5f' },
+  { id: 'charcoal', zh: '炭黑', en: 'charcoal', hex: '#333333' },
+  { id: 'grey', zh: '高级灰', en: 'grey', hex: '#9a9a98' },
+  { id: 'sage', zh: '鼠尾草绿', en: 'sage', hex: '#9cae8f' },
+  { id: 'olive', zh: '橄榄绿', en: 'olive', hex: '#6b6f3a' },
+  { id: 'navy', zh: '藏青', en: 'navy', hex: '#2b3a55' },
+  { id: 'dusty-blue', zh: '雾霾蓝', en: 'dusty blue', hex: '#7d93a8' },
+  { id: 'blush', zh: '藕粉', en: 'blush', hex: '#d8aaa0' },
+  { id: 'mustard', zh: '芥末黄', en: 'mustard', hex: '#c99a2e' },
+  { id: 'brass', zh: '黄铜色', en: 'brass', hex: '#b08d57' },
+];
+
+// A tone matches when a swatch covering at least this share of the image is within the ΔE threshold
+const TONE_MATCH_DELTA_E = 20;
+const TONE_MATCH_MIN_PROPORTION = 0.05;
+
+/**
+ * Tones whose names contain the query (Chinese or English, case-insensitive).
+ */
+export const findColorTones = (query: string) => {
+  const q = query.trim().toLowerCase();
+  return q ? COLOR_TONES.filter(tone => tone.zh.includes(q) || tone.en.includes(q) || q.includes(tone.en) || q.includes(tone.zh)) : [];
+};
+
+/**
+ * Whether a palette contains a given tone (by hex) in a meaningful proportion.
+ */
+export const paletteHasTone = (palette: PaletteSwatch[], hex: string): boolean => {
+  const lab = rgbToLab(hexToRgb(hex));
+  return palette.some(swatch => swatch.proportion >= TONE_MATCH_MIN_PROPORTION && deltaE(swatch.lab, lab) < TONE_MATCH_DELTA_E);
+};
@@ -9,11 +9,47 @@ export enum RoomType {
   OFFICE = 'Home Office'
 }
 
+// 参考图分析结果（POST /api/gemini/analyze）
 export interface AnalysisResult {
+  tags: string[];        // 建议的空间标签（均来自标签体系）
+  style: string;         // 识别出的设计风格
+  materials: string[];   // 主要材质
   vibeDescription: string;
 }
 
+// 宫格布局（行 x 列）
+export type GridLayout = '1x1' | '2x2' | '3x3' | '4x4' | '2x3';
+
+// 多参考图的角色：布局 / 材质 / 色彩 / 氛围
+export type ReferenceRole = 'layout' | 'material' | 'color' | 'mood';
+
+export interface ReferenceImage {
+  image: string;        // base64 Data URL
+  role: ReferenceRole;
+  weight: number;       // 借用强度 1-5
+}
+
+// 设计简报（均为可选，服务端清洗并限制每项 200 字）
+export type BudgetTier = 'economy' | 'standard' | 'premium' | 'luxury';
+
+export interface DesignBrief {
+  style?: string;       // 风格
+  materials?: string;   // 材料
+  budget?: BudgetTier;  // 预算档位
+  mustKeep?: string;    // 必须保留的元素
+  avoid?: string;       // 需要避免的内容
+}
+
 export interface GenerationState {
   status: 'idle' | 'analyzing' | 'ready_to_generate' | 'generating' | 'completed' | 'error';
   error?: string;
-}
\ No newline at end of file
+  progress?: string; // 排队 / 重试等后台任务进度提示
+}
+
+// 色板中的一个色块（proportion 为占画面的比例，同一色板合计为 1）
+export interface PaletteSwatch {
+  hex: string;                        // #rrggbb
+  rgb: [number, number, number];
+  lab: [number, number, number];      // CIE L*a*b* (D65)
+  proportion: number;
+}